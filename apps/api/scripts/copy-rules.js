@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+
+/**
+ * Copy the trait rule files next to the compiled services. tsc only emits the
+ * TypeScript sources, and the rule engine reads its rules/traits/v<N>.json files at
+ * runtime relative to its own module. Usage: node scripts/copy-rules.js [outDir]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const outDir = path.resolve(process.argv[2] || path.join(__dirname, '..', 'dist'));
+
+fs.cpSync(path.join(__dirname, '..', 'src', 'rules'), path.join(outDir, 'rules'), {
+  recursive: true,
+  filter: source => fs.statSync(source).isDirectory() || source.endsWith('.json')
+});
@@ -0,0 +1,7 @@
+-- UP
+ALTER TABLE planetary_positions ADD COLUMN speed DECIMAL(12, 8);
+
+COMMENT ON COLUMN planetary_positions.speed IS 'Signed daily motion in longitude (degrees per day); negative while retrograde';
+
+-- DOWN
+ALTER TABLE planetary_positions DROP COLUMN IF EXISTS speed;
@@ -0,0 +1,11 @@
+-- UP
+ALTER TABLE natal_charts ADD COLUMN timezone VARCHAR(64);
+ALTER TABLE natal_charts ADD COLUMN utc_offset_minutes INTEGER CHECK (utc_offset_minutes >= -960 AND utc_offset_minutes <= 960);
+
+COMMENT ON COLUMN natal_charts.birth_datetime IS 'Birth instant in UTC, converted from local birth time using the resolved time zone';
+COMMENT ON COLUMN natal_charts.timezone IS 'IANA time zone used to convert the local birth time (provided or looked up from coordinates)';
+COMMENT ON COLUMN natal_charts.utc_offset_minutes IS 'UTC offset in force at the birth instant, including historical DST (east positive)';
+
+-- DOWN
+ALTER TABLE natal_charts DROP COLUMN IF EXISTS utc_offset_minutes;
+ALTER TABLE natal_charts DROP COLUMN IF EXISTS timezone;
@@ -0,0 +1,20 @@
+-- UP
+ALTER TABLE natal_charts DROP CONSTRAINT IF EXISTS natal_charts_house_system_check;
+UPDATE natal_charts SET house_system = 'Porphyry' WHERE house_system = 'Porphyrius';
+ALTER TABLE natal_charts ADD CONSTRAINT natal_charts_house_system_check CHECK (house_system IN (
+    'Placidus', 'Koch', 'Equal', 'Whole Sign', 'Campanus', 'Regiomontanus', 'Porphyry', 'Alcabitius', 'Topocentric'
+));
+
+ALTER TABLE natal_charts ADD COLUMN house_system_used VARCHAR(20);
+ALTER TABLE natal_charts ADD COLUMN house_system_fallback_reason TEXT;
+
+COMMENT ON COLUMN natal_charts.house_system_used IS 'House system actually used for the stored cusps; differs from house_system when a fallback applied';
+COMMENT ON COLUMN natal_charts.house_system_fallback_reason IS 'Why the requested house system could not be used (e.g. Placidus above the polar circles)';
+
+-- DOWN
+ALTER TABLE natal_charts DROP COLUMN IF EXISTS house_system_fallback_reason;
+ALTER TABLE natal_charts DROP COLUMN IF EXISTS house_system_used;
+ALTER TABLE natal_charts DROP CONSTRAINT IF EXISTS natal_charts_house_system_check;
+UPDATE natal_charts SET house_system = 'Placidus' WHERE house_system IN ('Alcabitius', 'Topocentric');
+UPDATE natal_charts SET house_system = 'Porphyrius' WHERE house_system = 'Porphyry';
+ALTER TABLE natal_charts ADD CONSTRAINT natal_charts_house_system_check CHECK (house_system IN ('Placidus', 'Koch', 'Equal', 'Whole Sign', 'Campanus', 'Regiomontanus', 'Porphyrius'));
@@ -0,0 +1,21 @@
+-- UP
+CREATE TABLE chart_comparison_consents (
+    consent_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    partner_user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT check_different_users CHECK (user_id != partner_user_id),
+    CONSTRAINT unique_chart_comparison_consent UNIQUE (user_id, partner_user_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_chart_comparison_consents_partner ON chart_comparison_consents(partner_user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE chart_comparison_consents IS 'Consent from one user for another to compare natal charts with them (synastry and composite charts); comparison requires consent in both directions';
+COMMENT ON COLUMN chart_comparison_consents.user_id IS 'User granting consent';
+COMMENT ON COLUMN chart_comparison_consents.partner_user_id IS 'User allowed to compare charts with user_id';
+
+-- DOWN
+DROP INDEX IF EXISTS idx_chart_comparison_consents_partner;
+DROP TABLE IF EXISTS chart_comparison_consents;
@@ -0,0 +1,30 @@
+-- UP
+CREATE TABLE aspect_patterns (
+    pattern_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chart_id UUID NOT NULL REFERENCES natal_charts(chart_id) ON DELETE CASCADE,
+    pattern_type VARCHAR(20) NOT NULL CHECK (pattern_type IN (
+        'grand_trine', 't_square', 'grand_cross', 'yod', 'kite', 'mystic_rectangle', 'stellium'
+    )),
+    bodies VARCHAR(50)[] NOT NULL,
+    focal_body VARCHAR(50),
+    zodiac_sign VARCHAR(20),
+    house_number INTEGER CHECK (house_number >= 1 AND house_number <= 12),
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT check_pattern_bodies CHECK (array_length(bodies, 1) >= 3)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_aspect_patterns_chart_id ON aspect_patterns(chart_id);
+CREATE INDEX idx_aspect_patterns_pattern_type ON aspect_patterns(pattern_type);
+
+-- Add comments for documentation
+COMMENT ON TABLE aspect_patterns IS 'Multi-body aspect configurations and stelliums detected in natal charts';
+COMMENT ON COLUMN aspect_patterns.bodies IS 'Celestial bodies forming the pattern';
+COMMENT ON COLUMN aspect_patterns.focal_body IS 'Apex of a T-square or yod; the body opposing the grand trine in a kite';
+COMMENT ON COLUMN aspect_patterns.zodiac_sign IS 'Sign of a stellium by sign';
+COMMENT ON COLUMN aspect_patterns.house_number IS 'House of a stellium by house';
+
+-- DOWN
+DROP INDEX IF EXISTS idx_aspect_patterns_pattern_type;
+DROP INDEX IF EXISTS idx_aspect_patterns_chart_id;
+DROP TABLE IF EXISTS aspect_patterns;
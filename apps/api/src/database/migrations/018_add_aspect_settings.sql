@@ -0,0 +1,19 @@
+-- UP
+ALTER TABLE aspects DROP CONSTRAINT IF EXISTS aspects_aspect_type_check;
+ALTER TABLE aspects ADD CONSTRAINT aspects_aspect_type_check CHECK (aspect_type IN (
+    'conjunction', 'opposition', 'square', 'trine', 'sextile',
+    'quincunx', 'semisextile', 'semisquare', 'sesquiquadrate', 'quintile', 'biquintile'
+));
+
+ALTER TABLE users ADD COLUMN aspect_settings JSONB;
+
+COMMENT ON COLUMN users.aspect_settings IS 'Saved orb profile, luminary orb modifiers and minor aspect choice; null uses the standard profile';
+
+-- DOWN
+ALTER TABLE users DROP COLUMN IF EXISTS aspect_settings;
+DELETE FROM aspects WHERE aspect_type IN ('quintile', 'biquintile');
+ALTER TABLE aspects DROP CONSTRAINT IF EXISTS aspects_aspect_type_check;
+ALTER TABLE aspects ADD CONSTRAINT aspects_aspect_type_check CHECK (aspect_type IN (
+    'conjunction', 'opposition', 'square', 'trine', 'sextile',
+    'quincunx', 'semisextile', 'semisquare', 'sesquiquadrate'
+));
@@ -0,0 +1,38 @@
+-- UP
+CREATE TABLE pattern_analysis_jobs (
+    job_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES coaching_conversations(conversation_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    patterns_detected INTEGER,
+    insights_generated INTEGER,
+    analysis_summary TEXT,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_pattern_analysis_jobs_conversation_id ON pattern_analysis_jobs(conversation_id);
+CREATE INDEX idx_pattern_analysis_jobs_user_id ON pattern_analysis_jobs(user_id);
+CREATE INDEX idx_pattern_analysis_jobs_status ON pattern_analysis_jobs(status);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_pattern_analysis_jobs_updated_at
+    BEFORE UPDATE ON pattern_analysis_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE pattern_analysis_jobs IS 'Post-session pattern and insight analysis of ended coaching conversations';
+COMMENT ON COLUMN pattern_analysis_jobs.attempts IS 'Runs started, including admin retries';
+COMMENT ON COLUMN pattern_analysis_jobs.last_error IS 'Error of the latest failed run';
+
+-- DOWN
+DROP TRIGGER IF EXISTS update_pattern_analysis_jobs_updated_at ON pattern_analysis_jobs;
+DROP INDEX IF EXISTS idx_pattern_analysis_jobs_status;
+DROP INDEX IF EXISTS idx_pattern_analysis_jobs_user_id;
+DROP INDEX IF EXISTS idx_pattern_analysis_jobs_conversation_id;
+DROP TABLE IF EXISTS pattern_analysis_jobs;
@@ -0,0 +1,45 @@
+-- UP
+-- The stored vectors were random placeholders. They are kept and get the 'unknown' model
+-- below, so the embedding backfill replaces them like vectors of any other model.
+
+-- One embedding per memory, replaced when the memory changes. Only the newest of a memory's
+-- placeholder vectors is kept; the older ones removed here are not restored by DOWN.
+DELETE FROM memory_embeddings older
+USING memory_embeddings newer
+WHERE older.memory_id = newer.memory_id
+  AND (COALESCE(older.created_at, '-infinity'), older.embedding_id)
+    < (COALESCE(newer.created_at, '-infinity'), newer.embedding_id);
+
+DROP INDEX IF EXISTS idx_memory_embeddings_memory_id;
+ALTER TABLE memory_embeddings ADD CONSTRAINT memory_embeddings_memory_id_key UNIQUE (memory_id);
+
+ALTER TABLE memory_embeddings ADD COLUMN embedding_model VARCHAR(100) NOT NULL DEFAULT 'unknown';
+CREATE INDEX idx_memory_embeddings_model ON memory_embeddings(embedding_model);
+
+-- Let the database rank by cosine distance when the pgvector extension is installed, or
+-- available and the migrating role may create it; search ranks in process otherwise
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS vector;
+        EXCEPTION WHEN insufficient_privilege THEN
+            RAISE NOTICE 'Not allowed to create the pgvector extension, memory search ranks in process';
+        END;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') THEN
+        ALTER TABLE memory_embeddings ADD COLUMN embedding vector;
+        COMMENT ON COLUMN memory_embeddings.embedding IS 'pgvector copy of embedding_vector';
+    END IF;
+END $$;
+
+-- Add comments for documentation
+COMMENT ON COLUMN memory_embeddings.embedding_model IS 'Provider model and dimensions the vector was made with; vectors of another model are re-embedded';
+
+-- DOWN
+ALTER TABLE memory_embeddings DROP COLUMN IF EXISTS embedding;
+DROP INDEX IF EXISTS idx_memory_embeddings_model;
+ALTER TABLE memory_embeddings DROP COLUMN IF EXISTS embedding_model;
+ALTER TABLE memory_embeddings DROP CONSTRAINT IF EXISTS memory_embeddings_memory_id_key;
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_memory_id ON memory_embeddings(memory_id);
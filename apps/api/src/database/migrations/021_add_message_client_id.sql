@@ -0,0 +1,17 @@
+-- UP
+ALTER TABLE coaching_messages ADD COLUMN client_message_id VARCHAR(64);
+
+-- A retried send finds the message stored by its first attempt
+CREATE UNIQUE INDEX idx_coaching_messages_client_message_id
+    ON coaching_messages(conversation_id, client_message_id)
+    WHERE client_message_id IS NOT NULL;
+
+-- Replay after a cursor orders by time, then id
+CREATE INDEX idx_coaching_messages_conversation_cursor ON coaching_messages(conversation_id, created_at, message_id);
+
+COMMENT ON COLUMN coaching_messages.client_message_id IS 'Id chosen by the sending client, unique per conversation; makes socket sends idempotent';
+
+-- DOWN
+DROP INDEX IF EXISTS idx_coaching_messages_conversation_cursor;
+DROP INDEX IF EXISTS idx_coaching_messages_client_message_id;
+ALTER TABLE coaching_messages DROP COLUMN IF EXISTS client_message_id;
@@ -0,0 +1,55 @@
+-- UP
+-- created_at is when the inserting transaction started, so a message can commit after one
+-- stamped later; replay after a cursor follows a per-conversation sequence instead
+ALTER TABLE coaching_conversations ADD COLUMN message_sequence INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE coaching_messages ADD COLUMN sequence INTEGER;
+
+-- Number the stored messages of each conversation in time order
+UPDATE coaching_messages SET sequence = numbered.sequence
+FROM (
+  SELECT message_id, ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY created_at, message_id) AS sequence
+  FROM coaching_messages
+) numbered
+WHERE coaching_messages.message_id = numbered.message_id;
+
+UPDATE coaching_conversations SET message_sequence = numbered.last_sequence
+FROM (
+  SELECT conversation_id, MAX(sequence) AS last_sequence
+  FROM coaching_messages
+  GROUP BY conversation_id
+) numbered
+WHERE coaching_conversations.conversation_id = numbered.conversation_id;
+
+ALTER TABLE coaching_messages ALTER COLUMN sequence SET NOT NULL;
+
+-- Each message takes the next number of its conversation. The conversation row stays locked
+-- until the insert commits, so a concurrent insert waits for it and numbers in commit order.
+CREATE OR REPLACE FUNCTION assign_coaching_message_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE coaching_conversations
+    SET message_sequence = message_sequence + 1
+    WHERE conversation_id = NEW.conversation_id
+    RETURNING message_sequence INTO NEW.sequence;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER assign_coaching_messages_sequence
+    BEFORE INSERT ON coaching_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_coaching_message_sequence();
+
+CREATE UNIQUE INDEX idx_coaching_messages_conversation_sequence ON coaching_messages(conversation_id, sequence);
+DROP INDEX IF EXISTS idx_coaching_messages_conversation_cursor;
+
+COMMENT ON COLUMN coaching_messages.sequence IS 'Position in the conversation in commit order; the cursor of sync_messages';
+COMMENT ON COLUMN coaching_conversations.message_sequence IS 'Sequence of the latest message of the conversation';
+
+-- DOWN
+CREATE INDEX IF NOT EXISTS idx_coaching_messages_conversation_cursor ON coaching_messages(conversation_id, created_at, message_id);
+DROP INDEX IF EXISTS idx_coaching_messages_conversation_sequence;
+DROP TRIGGER IF EXISTS assign_coaching_messages_sequence ON coaching_messages;
+DROP FUNCTION IF EXISTS assign_coaching_message_sequence();
+ALTER TABLE coaching_messages DROP COLUMN IF EXISTS sequence;
+ALTER TABLE coaching_conversations DROP COLUMN IF EXISTS message_sequence;
@@ -0,0 +1,12 @@
+-- UP
+-- A running job belongs to the API instance that claimed it, which beats while it runs.
+-- On restart an instance only takes back its own running jobs and those whose beat stopped.
+ALTER TABLE pattern_analysis_jobs ADD COLUMN claimed_by VARCHAR(255);
+ALTER TABLE pattern_analysis_jobs ADD COLUMN heartbeat_at TIMESTAMP;
+
+COMMENT ON COLUMN pattern_analysis_jobs.claimed_by IS 'Instance id of the API instance that last claimed the job';
+COMMENT ON COLUMN pattern_analysis_jobs.heartbeat_at IS 'Last sign of life of the run; a running job with an old beat lost its instance';
+
+-- DOWN
+ALTER TABLE pattern_analysis_jobs DROP COLUMN IF EXISTS heartbeat_at;
+ALTER TABLE pattern_analysis_jobs DROP COLUMN IF EXISTS claimed_by;
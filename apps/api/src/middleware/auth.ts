@@ -1,12 +1,59 @@
+import { randomUUID } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 import { AppError } from './errorHandler';
-import { User } from '../types';
+import { AuthSessionService } from '../services/authSessionService';
+import { UserCacheService } from '../services/userCacheService';
+import { User, UserRecord } from '../types';
 
 interface AuthenticatedRequest extends Request {
-  user?: Omit<User, 'password_hash'>;
+  user?: UserRecord;
+  session_id?: string; // Device session the token was issued to
 }
 
+export interface TokenIdentity {
+  user: UserRecord;
+  session_id: string;
+}
+
+// The payload of an access token issued for a session
+type AccessTokenClaims = JwtPayload & { user_id: string; session_id: string };
+
+// Refresh tokens are only good for /api/auth/refresh
+const isAccessTokenClaims = (claims: string | JwtPayload): claims is AccessTokenClaims =>
+  typeof claims === 'object' &&
+  claims['type'] !== 'refresh' &&
+  typeof claims['user_id'] === 'string' &&
+  typeof claims['session_id'] === 'string';
+
+/**
+ * Resolve an access token to its user and device session. Tokens of a revoked session
+ * or of a user that no longer exists are rejected.
+ */
+export const authenticateToken = async (token: string): Promise<TokenIdentity> => {
+  const jwtSecret = process.env['JWT_SECRET'];
+  if (!jwtSecret) {
+    throw new AppError('Server configuration error', 500, 'CONFIG_ERROR');
+  }
+
+  const decoded = jwt.verify(token, jwtSecret);
+
+  if (!isAccessTokenClaims(decoded)) {
+    throw new AppError('Invalid token payload', 401, 'INVALID_TOKEN');
+  }
+
+  if (!(await AuthSessionService.getInstance().isActive(decoded.session_id))) {
+    throw new AppError('Session has been revoked or has expired', 401, 'SESSION_REVOKED');
+  }
+
+  const user = await UserCacheService.getInstance().getUser(decoded.user_id);
+  if (!user) {
+    throw new AppError('User no longer exists', 401, 'USER_NOT_FOUND');
+  }
+
+  return { user, session_id: decoded.session_id };
+};
+
 export const authMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -25,34 +72,9 @@ export const authMiddleware = async (
       throw new AppError('Authentication token required', 401, 'MISSING_TOKEN');
     }
 
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new AppError('Server configuration error', 500, 'CONFIG_ERROR');
-    }
-
-    // Verify the token
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    if (!decoded.user_id) {
-      throw new AppError('Invalid token payload', 401, 'INVALID_TOKEN');
-    }
-
-    // In a real implementation, you would fetch the user from the database
-    // For now, we'll use the decoded token data
-    req.user = {
-      user_id: decoded.user_id,
-      email: decoded.email,
-      first_name: decoded.first_name,
-      last_name: decoded.last_name,
-      birth_date: decoded.birth_date,
-      birth_time: decoded.birth_time,
-      birth_location: decoded.birth_location,
-      personality_profile: decoded.personality_profile,
-      coaching_goals: decoded.coaching_goals,
-      onboarding_completed: decoded.onboarding_completed,
-      created_at: decoded.created_at,
-      updated_at: decoded.updated_at
-    };
+    const { user, session_id } = await authenticateToken(token);
+    req.user = user;
+    req.session_id = session_id;
 
     next();
   } catch (error) {
@@ -84,29 +106,9 @@ export const optionalAuth = async (
       return next();
     }
 
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      return next();
-    }
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    if (decoded.user_id) {
-      req.user = {
-        user_id: decoded.user_id,
-        email: decoded.email,
-        first_name: decoded.first_name,
-        last_name: decoded.last_name,
-        birth_date: decoded.birth_date,
-        birth_time: decoded.birth_time,
-        birth_location: decoded.birth_location,
-        personality_profile: decoded.personality_profile,
-        coaching_goals: decoded.coaching_goals,
-        onboarding_completed: decoded.onboarding_completed,
-        created_at: decoded.created_at,
-        updated_at: decoded.updated_at
-      };
-    }
+    const { user, session_id } = await authenticateToken(token);
+    req.user = user;
+    req.session_id = session_id;
 
     next();
   } catch (error) {
@@ -115,9 +117,29 @@ export const optionalAuth = async (
   }
 };
 
-export const generateToken = (user: Omit<User, 'password_hash'>): string => {
+// Admins are listed by user id in ADMIN_USER_IDS (comma-separated); use after authMiddleware
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const adminUserIds = (process.env['ADMIN_USER_IDS'] || '')
+    .split(',')
+    .map(userId => userId.trim())
+    .filter(Boolean);
+
+  if (!req.user || !adminUserIds.includes(req.user.user_id)) {
+    return next(new AppError('Admin access required', 403, 'FORBIDDEN'));
+  }
+  next();
+};
+
+export const accessTokenExpiresIn = (): string => process.env['JWT_EXPIRES_IN'] || '1h';
+
+// Access token of a device session; it stops working once the session is revoked
+export const generateToken = (user: Omit<User, 'password_hash'>, sessionId: string): string => {
   const jwtSecret = process.env['JWT_SECRET'];
-  const expiresIn: string = process.env['JWT_EXPIRES_IN'] || '1h';
+  const expiresIn = accessTokenExpiresIn();
   
   if (!jwtSecret) {
     throw new AppError('Server configuration error', 500, 'CONFIG_ERROR');
@@ -130,14 +152,16 @@ export const generateToken = (user: Omit<User, 'password_hash'>): string => {
       email: user.email,
       first_name: user.first_name,
       last_name: user.last_name,
-      onboarding_completed: user.onboarding_completed
+      onboarding_completed: user.onboarding_completed,
+      session_id: sessionId
     },
     jwtSecret,
     options
   );
 };
 
-export const generateRefreshToken = (userId: string): string => {
+// Refresh token of a device session; the jwtid makes every rotation a distinct token
+export const generateRefreshToken = (userId: string, sessionId: string): string => {
   const jwtSecret = process.env['JWT_SECRET'];
   const expiresIn: string = process.env['REFRESH_TOKEN_EXPIRES_IN'] || '7d';
   
@@ -145,9 +169,9 @@ export const generateRefreshToken = (userId: string): string => {
     throw new AppError('Server configuration error', 500, 'CONFIG_ERROR');
   }
 
-  const options = { expiresIn } as SignOptions;
+  const options = { expiresIn, jwtid: randomUUID() } as SignOptions;
   return jwt.sign(
-    { user_id: userId, type: 'refresh' },
+    { user_id: userId, session_id: sessionId, type: 'refresh' },
     jwtSecret,
     options
   );
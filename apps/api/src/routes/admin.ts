@@ -0,0 +1,85 @@
+import express, { Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { PatternAnalysisQueue } from '../services/patternAnalysisQueue';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { APIResponse, PatternAnalysisJobStatus } from '../types';
+
+const router = express.Router();
+
+const JOB_STATUSES: PatternAnalysisJobStatus[] = ['queued', 'running', 'completed', 'failed'];
+
+// Validation middleware
+const listJobsValidation = [
+  query('status').optional().isIn(JOB_STATUSES),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+];
+
+const jobIdValidation = [
+  param('jobId').isUUID()
+];
+
+// Helper function to format API response
+const formatResponse = <T>(data: T, message?: string): APIResponse<T> => {
+  return {
+    success: true,
+    data,
+    ...(message && { message }),
+    timestamp: new Date()
+  };
+};
+
+const checkValidation = (req: AuthenticatedRequest): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array().map(error => error.msg).join(', '), 400, 'VALIDATION_ERROR');
+  }
+};
+
+// GET /api/admin/pattern-analysis/jobs - List analysis jobs, newest first
+router.get('/pattern-analysis/jobs', listJobsValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const status = req.query['status'] as PatternAnalysisJobStatus | undefined;
+  const limit = req.query['limit'] as unknown as number | undefined;
+  const jobs = await PatternAnalysisQueue.getInstance().listJobs(status, limit);
+
+  res.json(formatResponse({ jobs }));
+}));
+
+// GET /api/admin/pattern-analysis/jobs/:jobId - Get an analysis job
+router.get('/pattern-analysis/jobs/:jobId', jobIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const job = await PatternAnalysisQueue.getInstance().getJob(req.params['jobId']!);
+  if (!job) {
+    throw new AppError('Pattern analysis job not found', 404, 'JOB_NOT_FOUND');
+  }
+
+  res.json(formatResponse(job));
+}));
+
+// POST /api/admin/pattern-analysis/jobs/:jobId/retry - Queue a failed analysis job again
+router.post('/pattern-analysis/jobs/:jobId/retry', jobIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const queue = PatternAnalysisQueue.getInstance();
+  const jobId = req.params['jobId']!;
+  const job = await queue.getJob(jobId);
+  if (!job) {
+    throw new AppError('Pattern analysis job not found', 404, 'JOB_NOT_FOUND');
+  }
+  if (job.status !== 'failed') {
+    throw new AppError(`Only failed jobs can be retried; this job is ${job.status}`, 409, 'JOB_NOT_FAILED');
+  }
+
+  const retried = await queue.retry(jobId);
+  if (!retried) {
+    // Retried by someone else in the meantime
+    throw new AppError('Pattern analysis job is no longer failed', 409, 'JOB_NOT_FAILED');
+  }
+
+  res.status(202).json(formatResponse(retried, 'Pattern analysis job queued for retry'));
+}));
+
+export default router;
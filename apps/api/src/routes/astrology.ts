@@ -1,22 +1,62 @@
 import express, { Request, Response } from 'express';
+import { isDeepStrictEqual } from 'util';
 import { body, param, query, validationResult } from 'express-validator';
 import { DatabaseService } from '../services/database';
-import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { SwissEphemerisService, DEFAULT_ASPECT_SETTINGS } from '../services/swissEphemerisService';
+import { AspectPatternDetector } from '../services/aspectPatternDetector';
+import { ChartStatisticsService } from '../services/chartStatisticsService';
+import { DignityService } from '../services/dignityService';
+import { PersonalityService } from '../services/personalityService';
+import { TimezoneService } from '../services/timezoneService';
+import { UserCacheService } from '../services/userCacheService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { 
   NatalChartData, 
   SwissBirthData, 
+  BirthData, 
   HouseSystem, 
   APIResponse,
   PlanetaryPosition,
   HouseCusp,
-  AspectData
+  AspectData,
+  AspectPattern,
+  AspectsResponse,
+  AspectSettings,
+  OrbProfile,
+  UpdateAspectSettingsRequest,
+  ChartStatisticsResponse,
+  ChartDignitiesResponse,
+  RulershipScheme,
+  RetrogradePeriodsResponse,
+  TransitsResponse,
+  ProgressionsResponse,
+  SynastryResponse,
+  CompositeChartResponse,
+  ChartComparisonConsent,
+  ChartComparisonConsentsResponse,
+  ChartReturnType,
+  ReturnChartResponse
 } from '../types';
 import winston from 'winston';
 
 const router = express.Router();
 
+// Station and transit searches are linear in the range length, so cap it
+const MAX_RETROGRADE_RANGE_DAYS = 366;
+const MAX_TRANSIT_RANGE_DAYS = 366;
+const DEFAULT_TRANSIT_RANGE_DAYS = 30;
+
+const HOUSE_SYSTEMS: HouseSystem[] = [
+  'Placidus', 'Koch', 'Equal', 'Whole Sign', 'Campanus',
+  'Regiomontanus', 'Porphyry', 'Alcabitius', 'Topocentric'
+];
+
+const ORB_PROFILES: OrbProfile[] = ['tight', 'standard', 'wide'];
+const MAX_LUMINARY_ORB_MODIFIER = 5;
+
+const RULERSHIP_SCHEMES: RulershipScheme[] = ['traditional', 'modern'];
+
 // Configure logger
 const logger = winston.createLogger({
   level: 'info',
@@ -53,11 +93,12 @@ const createNatalChartValidation = [
   body('timezone')
     .optional()
     .isString()
-    .withMessage('Timezone must be a valid string'),
+    .custom((value: string) => TimezoneService.getInstance().isValidTimezone(value))
+    .withMessage('Timezone must be a valid IANA time zone (e.g. America/Vancouver)'),
   body('house_system')
     .optional()
-    .isIn(['Placidus', 'Koch', 'Equal', 'Whole Sign', 'Campanus'])
-    .withMessage('House system must be one of: Placidus, Koch, Equal, Whole Sign, Campanus')
+    .isIn(HOUSE_SYSTEMS)
+    .withMessage(`House system must be one of: ${HOUSE_SYSTEMS.join(', ')}`)
 ];
 
 const updateNatalChartValidation = [
@@ -84,16 +125,128 @@ const updateNatalChartValidation = [
     .optional()
     .isFloat({ min: -180, max: 180 })
     .withMessage('Longitude must be between -180 and 180 degrees'),
+  body('timezone')
+    .optional()
+    .isString()
+    .custom((value: string) => TimezoneService.getInstance().isValidTimezone(value))
+    .withMessage('Timezone must be a valid IANA time zone (e.g. America/Vancouver)'),
   body('house_system')
     .optional()
-    .isIn(['Placidus', 'Koch', 'Equal', 'Whole Sign', 'Campanus'])
-    .withMessage('House system must be one of: Placidus, Koch, Equal, Whole Sign, Campanus')
+    .isIn(HOUSE_SYSTEMS)
+    .withMessage(`House system must be one of: ${HOUSE_SYSTEMS.join(', ')}`)
 ];
 
 const chartIdValidation = [
   param('chartId').isUUID().withMessage('Chart ID must be a valid UUID')
 ];
 
+const dateRangeQueryValidation = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date')
+];
+
+const progressionsQueryValidation = [
+  query('date')
+    .optional()
+    .isISO8601()
+    .withMessage('Date must be an ISO 8601 date')
+];
+
+const comparisonConsentValidation = [
+  body('partner_user_id').isUUID().withMessage('Partner user ID must be a valid UUID')
+];
+
+const partnerUserIdValidation = [
+  param('partnerUserId').isUUID().withMessage('Partner user ID must be a valid UUID')
+];
+
+const returnChartValidation = [
+  param('chartId').isUUID().withMessage('Chart ID must be a valid UUID'),
+  body('type')
+    .isIn(['solar', 'lunar'])
+    .withMessage('Type must be either solar or lunar'),
+  body('year')
+    .isInt({ min: 1900, max: 2100 })
+    .withMessage('Year must be between 1900 and 2100')
+    .toInt(),
+  body('month')
+    .if(body('type').equals('lunar'))
+    .isInt({ min: 1, max: 12 })
+    .withMessage('Month (1-12) is required for lunar returns')
+    .toInt(),
+  // A return location needs both coordinates; either one alone is rejected
+  body('latitude')
+    .if(body('longitude').exists())
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be given with longitude and be between -90 and 90 degrees'),
+  body('longitude')
+    .if(body('latitude').exists())
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be given with latitude and be between -180 and 180 degrees'),
+  body('location')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Location must be 1-100 characters'),
+  body('timezone')
+    .optional()
+    .isString()
+    .custom((value: string) => TimezoneService.getInstance().isValidTimezone(value))
+    .withMessage('Timezone must be a valid IANA time zone (e.g. America/Vancouver)'),
+  body('house_system')
+    .optional()
+    .isIn(HOUSE_SYSTEMS)
+    .withMessage(`House system must be one of: ${HOUSE_SYSTEMS.join(', ')}`)
+];
+
+const aspectsQueryValidation = [
+  query('orb_profile')
+    .optional()
+    .isIn(ORB_PROFILES)
+    .withMessage(`Orb profile must be one of: ${ORB_PROFILES.join(', ')}`),
+  query(['sun_orb_modifier', 'moon_orb_modifier'])
+    .optional()
+    .isFloat({ min: 0, max: MAX_LUMINARY_ORB_MODIFIER })
+    .withMessage(`Luminary orb modifiers must be between 0 and ${MAX_LUMINARY_ORB_MODIFIER} degrees`),
+  query('include_minor_aspects')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Include minor aspects must be true or false')
+];
+
+const updateAspectSettingsValidation = [
+  body('orb_profile')
+    .optional()
+    .isIn(ORB_PROFILES)
+    .withMessage(`Orb profile must be one of: ${ORB_PROFILES.join(', ')}`),
+  body('luminary_orb_modifiers')
+    .optional()
+    .isObject()
+    .withMessage('Luminary orb modifiers must be an object with Sun and/or Moon'),
+  body(['luminary_orb_modifiers.Sun', 'luminary_orb_modifiers.Moon'])
+    .optional()
+    .isFloat({ min: 0, max: MAX_LUMINARY_ORB_MODIFIER })
+    .withMessage(`Luminary orb modifiers must be between 0 and ${MAX_LUMINARY_ORB_MODIFIER} degrees`)
+    .toFloat(),
+  body('include_minor_aspects')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Include minor aspects must be true or false')
+];
+
+const dignitiesQueryValidation = [
+  query('scheme')
+    .optional()
+    .isIn(RULERSHIP_SCHEMES)
+    .withMessage(`Rulership scheme must be one of: ${RULERSHIP_SCHEMES.join(', ')}`)
+];
+
 const userIdValidation = [
   param('userId').isUUID().withMessage('User ID must be a valid UUID')
 ];
@@ -113,6 +266,153 @@ const validateChartOwnership = async (chartId: string, userId: string): Promise<
   return result.rows[0].user_id === userId;
 };
 
+// Helper function to rebuild local birth data from a stored natal chart row
+const toSwissBirthData = (chart: any): SwissBirthData & { birth_time: string } => {
+  // Charts stored before time zone resolution have no zone and were saved in server-local time
+  const local = chart.timezone
+    ? TimezoneService.getInstance().utcToLocal(chart.birth_datetime, chart.timezone)
+    : {
+        date: chart.birth_datetime.toISOString().split('T')[0],
+        time: chart.birth_datetime.toTimeString().substring(0, 5)
+      };
+
+  return {
+    birth_date: local.date,
+    birth_time: local.time,
+    birth_location: chart.birth_location,
+    latitude: parseFloat(chart.birth_latitude),
+    longitude: parseFloat(chart.birth_longitude),
+    ...(chart.timezone && { timezone: chart.timezone }),
+    ...(chart.utc_offset_minutes !== null && { utc_offset_minutes: chart.utc_offset_minutes })
+  };
+};
+
+// Helper function to load the stored natal positions of a chart
+const loadPlanetaryPositions = async (chartId: string): Promise<PlanetaryPosition[]> => {
+  const db = DatabaseService.getInstance();
+  const result = await db.query(`
+    SELECT 
+      celestial_body,
+      longitude,
+      latitude,
+      house_number,
+      zodiac_sign,
+      degree_in_sign,
+      retrograde,
+      speed
+    FROM planetary_positions 
+    WHERE chart_id = $1
+  `, [chartId]);
+
+  return result.rows.map((row: any) => ({
+    celestial_body: row.celestial_body,
+    longitude: parseFloat(row.longitude),
+    latitude: parseFloat(row.latitude),
+    house_number: row.house_number,
+    zodiac_sign: row.zodiac_sign,
+    degree_in_sign: parseFloat(row.degree_in_sign),
+    retrograde: row.retrograde,
+    ...(row.speed !== null && { speed: parseFloat(row.speed) })
+  }));
+};
+
+// Helper function to load the stored house cusps of a chart
+const loadHouseCusps = async (chartId: string): Promise<HouseCusp[]> => {
+  const db = DatabaseService.getInstance();
+  const result = await db.query(`
+    SELECT 
+      house_number,
+      cusp_longitude,
+      zodiac_sign,
+      degree_in_sign
+    FROM house_cusps 
+    WHERE chart_id = $1
+    ORDER BY house_number
+  `, [chartId]);
+
+  return result.rows.map((row: any) => ({
+    house_number: row.house_number,
+    cusp_longitude: parseFloat(row.cusp_longitude),
+    zodiac_sign: row.zodiac_sign,
+    degree_in_sign: parseFloat(row.degree_in_sign)
+  }));
+};
+
+// Helper function to load the most recent natal chart of a user with its positions and cusps
+const loadLatestChart = async (userId: string) => {
+  const db = DatabaseService.getInstance();
+  const result = await db.query(
+    'SELECT chart_id FROM natal_charts WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError('Natal chart not found', 404, 'CHART_NOT_FOUND');
+  }
+
+  const chartId: string = result.rows[0].chart_id;
+  return {
+    chart_id: chartId,
+    planetary_positions: await loadPlanetaryPositions(chartId),
+    house_cusps: await loadHouseCusps(chartId)
+  };
+};
+
+// Helper function to apply an update on top of aspect settings
+const mergeAspectSettings = (settings: AspectSettings, update: UpdateAspectSettingsRequest): AspectSettings => ({
+  orb_profile: update.orb_profile ?? settings.orb_profile,
+  luminary_orb_modifiers: { ...settings.luminary_orb_modifiers, ...update.luminary_orb_modifiers },
+  include_minor_aspects: update.include_minor_aspects ?? settings.include_minor_aspects
+});
+
+// Helper function to load a user's saved aspect settings, falling back to the standard profile
+const loadAspectSettings = async (userId: string): Promise<AspectSettings> => {
+  const db = DatabaseService.getInstance();
+  const result = await db.query('SELECT aspect_settings FROM users WHERE user_id = $1', [userId]);
+
+  return mergeAspectSettings(DEFAULT_ASPECT_SETTINGS, result.rows[0]?.aspect_settings ?? {});
+};
+
+// Helper function to check that two users have each consented to chart comparison with the other
+const hasMutualComparisonConsent = async (userId: string, partnerUserId: string): Promise<boolean> => {
+  const db = DatabaseService.getInstance();
+  const result = await db.query(`
+    SELECT COUNT(*) AS consents
+    FROM chart_comparison_consents
+    WHERE (user_id = $1 AND partner_user_id = $2)
+       OR (user_id = $2 AND partner_user_id = $1)
+  `, [userId, partnerUserId]);
+
+  return parseInt(result.rows[0].consents, 10) === 2;
+};
+
+// Helper function to load both charts for a comparison once mutual consent is confirmed
+const loadComparisonCharts = async (userId: string, partnerUserId: string) => {
+  const hasConsent = await hasMutualComparisonConsent(userId, partnerUserId);
+  if (!hasConsent) {
+    throw new AppError('Both users must consent before their charts can be compared', 403, 'CONSENT_REQUIRED');
+  }
+
+  return {
+    chartA: await loadLatestChart(userId),
+    chartB: await loadLatestChart(partnerUserId)
+  };
+};
+
+// Helper function to regenerate the user's personality profile from their newly stored chart
+const refreshPersonalityProfile = async (userId: string, birthData: BirthData): Promise<void> => {
+  try {
+    const db = DatabaseService.getInstance();
+    const personalityService = new PersonalityService(db);
+    const personalityProfile = await personalityService.generatePersonalityProfile(birthData, userId);
+    await db.updateUser(userId, { personality_profile: JSON.stringify(personalityProfile) });
+    await UserCacheService.getInstance().invalidate(userId);
+  } catch (error) {
+    // The chart is already stored; a stale profile is refreshed on the next chart change
+    logger.warn('Failed to refresh personality profile', { userId, error });
+  }
+};
+
 // Helper function to format API response
 const formatResponse = <T>(data: T, message?: string): APIResponse<T> => {
   return {
@@ -207,6 +507,12 @@ router.post('/natal-chart', createNatalChartValidation, asyncHandler(async (req:
     userId: req.user.user_id
   });
 
+  await refreshPersonalityProfile(req.user.user_id, {
+    birth_date: birthData.birth_date,
+    birth_time: birthData.birth_time ?? null,
+    birth_location: birthData.birth_location
+  });
+
   res.status(201).json(formatResponse(natalChart, 'Natal chart created successfully'));
 }));
 
@@ -292,6 +598,10 @@ router.get('/natal-chart/:userId', userIdValidation, asyncHandler(async (req: Au
       birth_longitude,
       birth_location,
       house_system,
+      house_system_used,
+      house_system_fallback_reason,
+      timezone,
+      utc_offset_minutes,
       created_at,
       updated_at
     FROM natal_charts 
@@ -318,7 +628,8 @@ router.get('/natal-chart/:userId', userIdValidation, asyncHandler(async (req: Au
       house_number,
       zodiac_sign,
       degree_in_sign,
-      retrograde
+      retrograde,
+      speed
     FROM planetary_positions 
     WHERE chart_id = $1
     ORDER BY 
@@ -369,13 +680,7 @@ router.get('/natal-chart/:userId', userIdValidation, asyncHandler(async (req: Au
   const natalChartData: NatalChartData = {
     chart_id: chartId,
     user_id: userId,
-    birth_data: {
-      birth_date: chart.birth_datetime.toISOString().split('T')[0],
-      birth_time: chart.birth_datetime.toTimeString().substring(0, 5),
-      birth_location: chart.birth_location,
-      latitude: parseFloat(chart.birth_latitude),
-      longitude: parseFloat(chart.birth_longitude)
-    },
+    birth_data: toSwissBirthData(chart),
     planetary_positions: planetaryResult.rows.map((row: any) => ({
       celestial_body: row.celestial_body,
       longitude: parseFloat(row.longitude),
@@ -383,7 +688,8 @@ router.get('/natal-chart/:userId', userIdValidation, asyncHandler(async (req: Au
       house_number: row.house_number,
       zodiac_sign: row.zodiac_sign,
       degree_in_sign: parseFloat(row.degree_in_sign),
-      retrograde: row.retrograde
+      retrograde: row.retrograde,
+      ...(row.speed !== null && { speed: parseFloat(row.speed) })
     })),
     house_cusps: houseCuspsResult.rows.map((row: any) => ({
       house_number: row.house_number,
@@ -400,6 +706,13 @@ router.get('/natal-chart/:userId', userIdValidation, asyncHandler(async (req: Au
       applying: row.applying
     })),
     house_system: chart.house_system,
+    ...(chart.house_system_fallback_reason && {
+      house_system_fallback: {
+        requested: chart.house_system,
+        used: chart.house_system_used,
+        reason: chart.house_system_fallback_reason
+      }
+    }),
     created_at: chart.created_at
   };
 
@@ -446,11 +759,12 @@ router.put('/natal-chart/:chartId', updateNatalChartValidation, asyncHandler(asy
     birth_location,
     latitude,
     longitude,
+    timezone,
     house_system
   } = req.body;
 
   // If any birth data is being updated, recalculate the entire chart
-  if (birth_date || birth_time || latitude !== undefined || longitude !== undefined || house_system) {
+  if (birth_date || birth_time || latitude !== undefined || longitude !== undefined || timezone || house_system) {
     const db = DatabaseService.getInstance();
     
     // Get current chart data
@@ -464,32 +778,61 @@ router.put('/natal-chart/:chartId', updateNatalChartValidation, asyncHandler(asy
     }
 
     const current = currentChart.rows[0];
+    const currentBirthData = toSwissBirthData(current);
 
     // Prepare updated birth data
     const updatedBirthData: SwissBirthData = {
-      birth_date: birth_date ? birth_date.toISOString().split('T')[0] : current.birth_datetime.toISOString().split('T')[0],
-      birth_time: birth_time || current.birth_datetime.toTimeString().substring(0, 5),
-      birth_location: birth_location || current.birth_location,
-      latitude: latitude !== undefined ? parseFloat(latitude) : parseFloat(current.birth_latitude),
-      longitude: longitude !== undefined ? parseFloat(longitude) : parseFloat(current.birth_longitude)
+      birth_date: birth_date ? birth_date.toISOString().split('T')[0] : currentBirthData.birth_date,
+      birth_time: birth_time || currentBirthData.birth_time,
+      birth_location: birth_location || currentBirthData.birth_location,
+      latitude: latitude !== undefined ? parseFloat(latitude) : currentBirthData.latitude,
+      longitude: longitude !== undefined ? parseFloat(longitude) : currentBirthData.longitude
     };
 
     const updatedHouseSystem = house_system || current.house_system;
 
+    // A moved birth location needs a fresh zone lookup unless a zone is supplied
+    const locationChanged = latitude !== undefined || longitude !== undefined;
+    const resolvedTime = TimezoneService.getInstance().resolveBirthTime(
+      updatedBirthData.birth_date,
+      updatedBirthData.birth_time,
+      updatedBirthData.latitude,
+      updatedBirthData.longitude,
+      timezone || (locationChanged ? undefined : currentBirthData.timezone)
+    );
+
     logger.info('Updating natal chart', {
       chartId,
       userId: req.user.user_id,
-      changes: { birth_date, birth_time, birth_location, latitude, longitude, house_system }
+      changes: { birth_date, birth_time, birth_location, latitude, longitude, timezone, house_system },
+      resolvedTimezone: resolvedTime.timezone,
+      utcOffsetMinutes: resolvedTime.utc_offset_minutes
     });
 
+    // Recalculate chart data
+    const swissEphemerisService = SwissEphemerisService.getInstance();
+    const julianDay = swissEphemerisService.dateToJulianDay(resolvedTime.utc_datetime);
+    
+    const {
+      planetary_positions: planetaryPositions,
+      house_cusps: houseCusps,
+      aspects,
+      aspect_patterns: aspectPatterns,
+      house_system_fallback: houseSystemFallback
+    } = await swissEphemerisService.castChart(
+      julianDay,
+      updatedBirthData.latitude,
+      updatedBirthData.longitude,
+      updatedHouseSystem as HouseSystem
+    );
+
     // Delete existing calculated data
+    await db.query('DELETE FROM aspect_patterns WHERE chart_id = $1', [chartId]);
     await db.query('DELETE FROM aspects WHERE chart_id = $1', [chartId]);
     await db.query('DELETE FROM house_cusps WHERE chart_id = $1', [chartId]);
     await db.query('DELETE FROM planetary_positions WHERE chart_id = $1', [chartId]);
 
     // Update natal chart record
-    const birthDateTime = new Date(`${updatedBirthData.birth_date}T${updatedBirthData.birth_time || '12:00'}:00`);
-    
     await db.query(`
       UPDATE natal_charts 
       SET 
@@ -498,48 +841,46 @@ router.put('/natal-chart/:chartId', updateNatalChartValidation, asyncHandler(asy
         birth_longitude = $3,
         birth_location = $4,
         house_system = $5,
+        timezone = $6,
+        utc_offset_minutes = $7,
+        house_system_used = $8,
+        house_system_fallback_reason = $9,
         updated_at = NOW()
-      WHERE chart_id = $6
+      WHERE chart_id = $10
     `, [
-      birthDateTime,
+      resolvedTime.utc_datetime,
       updatedBirthData.latitude,
       updatedBirthData.longitude,
       updatedBirthData.birth_location,
       updatedHouseSystem,
+      resolvedTime.timezone,
+      resolvedTime.utc_offset_minutes,
+      houseSystemFallback?.used ?? updatedHouseSystem,
+      houseSystemFallback?.reason ?? null,
       chartId
     ]);
 
-    // Recalculate chart data
-    const swissEphemerisService = SwissEphemerisService.getInstance();
-    const julianDay = swissEphemerisService.convertToJulianDay(updatedBirthData.birth_date, updatedBirthData.birth_time);
-    
-    // Calculate and store new data
-    const planetaryPositions = await swissEphemerisService.calculatePlanetaryPositions(
-      julianDay,
-      updatedBirthData.latitude,
-      updatedBirthData.longitude
-    );
-    
-    const houseCusps = await swissEphemerisService.calculateHouseCusps(
-      julianDay,
-      updatedBirthData.latitude,
-      updatedBirthData.longitude,
-      updatedHouseSystem as HouseSystem
-    );
-    
-    const aspects = swissEphemerisService.calculateAspects(planetaryPositions);
-
     // Store updated calculations
-    await (swissEphemerisService as any).storePlanetaryPositions(chartId, planetaryPositions);
-    await (swissEphemerisService as any).storeHouseCusps(chartId, houseCusps);
-    await (swissEphemerisService as any).storeAspects(chartId, aspects);
+    await swissEphemerisService.storePlanetaryPositions(chartId, planetaryPositions);
+    await swissEphemerisService.storeHouseCusps(chartId, houseCusps);
+    await swissEphemerisService.storeAspects(chartId, aspects);
+    await swissEphemerisService.storeAspectPatterns(chartId, aspectPatterns);
 
     logger.info('Natal chart updated successfully', {
       chartId,
       userId: req.user.user_id
     });
 
-    res.json(formatResponse({ chart_id: chartId }, 'Natal chart updated successfully'));
+    await refreshPersonalityProfile(req.user.user_id, {
+      birth_date: updatedBirthData.birth_date,
+      birth_time: updatedBirthData.birth_time ?? null,
+      birth_location: updatedBirthData.birth_location
+    });
+
+    res.json(formatResponse({
+      chart_id: chartId,
+      ...(houseSystemFallback && { house_system_fallback: houseSystemFallback })
+    }, 'Natal chart updated successfully'));
   } else {
     // No birth data changes, just return success
     res.json(formatResponse({ chart_id: chartId }, 'No changes to apply'));
@@ -630,7 +971,8 @@ router.get('/planetary-positions/:chartId', chartIdValidation, asyncHandler(asyn
       house_number,
       zodiac_sign,
       degree_in_sign,
-      retrograde
+      retrograde,
+      speed
     FROM planetary_positions 
     WHERE chart_id = $1
     ORDER BY 
@@ -658,7 +1000,8 @@ router.get('/planetary-positions/:chartId', chartIdValidation, asyncHandler(asyn
     house_number: row.house_number,
     zodiac_sign: row.zodiac_sign,
     degree_in_sign: parseFloat(row.degree_in_sign),
-    retrograde: row.retrograde
+    retrograde: row.retrograde,
+    ...(row.speed !== null && { speed: parseFloat(row.speed) })
   }));
 
   logger.info('Planetary positions retrieved', {
@@ -726,15 +1069,15 @@ router.get('/house-cusps/:chartId', chartIdValidation, asyncHandler(async (req:
   res.json(formatResponse(houseCusps, 'House cusps retrieved successfully'));
 }));
 
-// GET /api/astrology/aspects/:chartId - Get aspects for a chart
-router.get('/aspects/:chartId', chartIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+// GET /api/astrology/aspects/:chartId - Get aspects and aspect patterns for a specific chart
+router.get('/aspects/:chartId', [...chartIdValidation, ...aspectsQueryValidation], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
       success: false,
       error: {
         code: 'VALIDATION_ERROR',
-        message: 'Invalid chart ID',
+        message: 'Invalid aspects request',
         details: errors.array()
       },
       timestamp: new Date()
@@ -755,61 +1098,745 @@ router.get('/aspects/:chartId', chartIdValidation, asyncHandler(async (req: Auth
 
   const db = DatabaseService.getInstance();
 
-  // Optional query parameters for filtering
-  const { aspect_type, max_orb, applying_only } = req.query;
+  // Optional query parameters for filtering and for overriding the saved aspect settings
+  const {
+    aspect_type, max_orb, applying_only,
+    orb_profile, sun_orb_modifier, moon_orb_modifier, include_minor_aspects
+  } = req.query;
+
+  const settings = mergeAspectSettings(await loadAspectSettings(req.user.user_id), {
+    ...(orb_profile && { orb_profile: orb_profile as OrbProfile }),
+    luminary_orb_modifiers: {
+      ...(sun_orb_modifier && { Sun: parseFloat(sun_orb_modifier as string) }),
+      ...(moon_orb_modifier && { Moon: parseFloat(moon_orb_modifier as string) })
+    },
+    ...(include_minor_aspects && { include_minor_aspects: include_minor_aspects === 'true' })
+  });
 
-  let query = `
-    SELECT 
-      body1,
-      body2,
-      aspect_type,
-      orb,
-      exact_angle,
-      applying
-    FROM aspects 
-    WHERE chart_id = $1
-  `;
-  
-  const queryParams: any[] = [chartId];
-  let paramIndex = 2;
+  let aspects: AspectData[];
+  let patterns: AspectPattern[];
+
+  if (isDeepStrictEqual(settings, DEFAULT_ASPECT_SETTINGS)) {
+    let query = `
+      SELECT 
+        body1,
+        body2,
+        aspect_type,
+        orb,
+        exact_angle,
+        applying
+      FROM aspects 
+      WHERE chart_id = $1
+    `;
+    
+    const queryParams: any[] = [chartId];
+    let paramIndex = 2;
 
-  if (aspect_type) {
-    query += ` AND aspect_type = $${paramIndex}`;
-    queryParams.push(aspect_type);
-    paramIndex++;
-  }
+    if (aspect_type) {
+      query += ` AND aspect_type = $${paramIndex}`;
+      queryParams.push(aspect_type);
+      paramIndex++;
+    }
 
-  if (max_orb) {
-    query += ` AND orb <= $${paramIndex}`;
-    queryParams.push(parseFloat(max_orb as string));
-    paramIndex++;
-  }
+    if (max_orb) {
+      query += ` AND orb <= $${paramIndex}`;
+      queryParams.push(parseFloat(max_orb as string));
+      paramIndex++;
+    }
 
-  if (applying_only === 'true') {
-    query += ` AND applying = true`;
-  }
+    if (applying_only === 'true') {
+      query += ` AND applying = true`;
+    }
 
-  query += ` ORDER BY orb ASC`;
+    query += ` ORDER BY orb ASC`;
 
-  const result = await db.query(query, queryParams);
+    const result = await db.query(query, queryParams);
 
-  const aspects: AspectData[] = result.rows.map((row: any) => ({
-    body1: row.body1,
-    body2: row.body2,
-    aspect_type: row.aspect_type,
-    orb: parseFloat(row.orb),
-    exact_angle: parseFloat(row.exact_angle),
-    applying: row.applying
-  }));
+    aspects = result.rows.map((row: any) => ({
+      body1: row.body1,
+      body2: row.body2,
+      aspect_type: row.aspect_type,
+      orb: parseFloat(row.orb),
+      exact_angle: parseFloat(row.exact_angle),
+      applying: row.applying
+    }));
+
+    // Patterns are returned in full; the filters apply to the pairwise aspects only
+    const patternsResult = await db.query(`
+      SELECT 
+        pattern_type,
+        bodies,
+        focal_body,
+        zodiac_sign,
+        house_number
+      FROM aspect_patterns 
+      WHERE chart_id = $1
+      ORDER BY created_at, pattern_type
+    `, [chartId]);
+
+    patterns = patternsResult.rows.map((row: any) => ({
+      pattern_type: row.pattern_type,
+      bodies: row.bodies,
+      ...(row.focal_body && { focal_body: row.focal_body }),
+      ...(row.zodiac_sign && { zodiac_sign: row.zodiac_sign }),
+      ...(row.house_number !== null && { house_number: row.house_number })
+    }));
+  } else {
+    // Stored aspects use the standard orbs, so other settings are recomputed from the stored positions
+    const swissEphemerisService = SwissEphemerisService.getInstance();
+    const planetaryPositions = await loadPlanetaryPositions(chartId as string);
+    const allAspects = swissEphemerisService.calculateAspects(planetaryPositions, settings);
+
+    patterns = AspectPatternDetector.getInstance().detectPatterns(planetaryPositions, allAspects);
+    aspects = allAspects
+      .filter(aspect =>
+        (!aspect_type || aspect.aspect_type === aspect_type) &&
+        (!max_orb || aspect.orb <= parseFloat(max_orb as string)) &&
+        (applying_only !== 'true' || aspect.applying)
+      )
+      .sort((a, b) => a.orb - b.orb);
+  }
 
   logger.info('Aspects retrieved', {
     chartId,
     userId: req.user.user_id,
     count: aspects.length,
-    filters: { aspect_type, max_orb, applying_only }
+    patterns: patterns.length,
+    filters: { aspect_type, max_orb, applying_only },
+    settings
+  });
+
+  const response: AspectsResponse = { aspects, patterns, settings };
+
+  res.json(formatResponse(response, 'Aspects retrieved successfully'));
+}));
+
+// GET /api/astrology/aspect-settings - Get the user's saved aspect settings
+router.get('/aspect-settings', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const settings = await loadAspectSettings(req.user.user_id);
+
+  res.json(formatResponse(settings, 'Aspect settings retrieved successfully'));
+}));
+
+// PUT /api/astrology/aspect-settings - Save the user's orb profile, luminary orb modifiers and minor aspect choice
+router.put('/aspect-settings', updateAspectSettingsValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid aspect settings',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { orb_profile, luminary_orb_modifiers, include_minor_aspects } = req.body as UpdateAspectSettingsRequest;
+  const settings = mergeAspectSettings(await loadAspectSettings(req.user.user_id), {
+    ...(orb_profile && { orb_profile }),
+    ...(luminary_orb_modifiers && {
+      luminary_orb_modifiers: {
+        ...(luminary_orb_modifiers.Sun !== undefined && { Sun: luminary_orb_modifiers.Sun }),
+        ...(luminary_orb_modifiers.Moon !== undefined && { Moon: luminary_orb_modifiers.Moon })
+      }
+    }),
+    ...(include_minor_aspects !== undefined && { include_minor_aspects })
   });
 
-  res.json(formatResponse(aspects, 'Aspects retrieved successfully'));
+  const db = DatabaseService.getInstance();
+  await db.query(
+    'UPDATE users SET aspect_settings = $1 WHERE user_id = $2',
+    [JSON.stringify(settings), req.user.user_id]
+  );
+  await UserCacheService.getInstance().invalidate(req.user.user_id);
+
+  logger.info('Aspect settings updated', {
+    userId: req.user.user_id,
+    settings
+  });
+
+  res.json(formatResponse(settings, 'Aspect settings updated successfully'));
+}));
+
+// GET /api/astrology/statistics/:chartId - Element, modality, hemisphere and chart shape statistics
+router.get('/statistics/:chartId', chartIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid chart ID',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { chartId } = req.params;
+
+  // Validate chart ownership
+  const isOwner = await validateChartOwnership(chartId as string, req.user.user_id);
+  if (!isOwner) {
+    throw new AppError('Access denied. You can only access your own natal charts', 403, 'ACCESS_DENIED');
+  }
+
+  const [planetaryPositions, houseCusps] = await Promise.all([
+    loadPlanetaryPositions(chartId as string),
+    loadHouseCusps(chartId as string)
+  ]);
+
+  const statistics: ChartStatisticsResponse = {
+    chart_id: chartId as string,
+    ...ChartStatisticsService.getInstance().calculateStatistics(planetaryPositions, houseCusps)
+  };
+
+  logger.info('Chart statistics calculated', {
+    chartId,
+    userId: req.user.user_id,
+    chartShape: statistics.chart_shape
+  });
+
+  res.json(formatResponse(statistics, 'Chart statistics calculated successfully'));
+}));
+
+// GET /api/astrology/dignities/:chartId - Essential dignities, house rulers and dispositors
+router.get('/dignities/:chartId', [...chartIdValidation, ...dignitiesQueryValidation], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid dignities request',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { chartId } = req.params;
+  const scheme = (req.query['scheme'] as RulershipScheme | undefined) ?? 'traditional';
+
+  // Validate chart ownership
+  const isOwner = await validateChartOwnership(chartId as string, req.user.user_id);
+  if (!isOwner) {
+    throw new AppError('Access denied. You can only access your own natal charts', 403, 'ACCESS_DENIED');
+  }
+
+  const [planetaryPositions, houseCusps] = await Promise.all([
+    loadPlanetaryPositions(chartId as string),
+    loadHouseCusps(chartId as string)
+  ]);
+
+  const dignities: ChartDignitiesResponse = {
+    chart_id: chartId as string,
+    ...DignityService.getInstance().calculateDignities(planetaryPositions, houseCusps, scheme)
+  };
+
+  logger.info('Chart dignities calculated', {
+    chartId,
+    userId: req.user.user_id,
+    scheme,
+    finalDispositor: dignities.final_dispositor
+  });
+
+  res.json(formatResponse(dignities, 'Chart dignities calculated successfully'));
+}));
+
+// GET /api/astrology/retrogrades - Retrograde periods and station dates within a date range
+router.get('/retrogrades', dateRangeQueryValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid date range',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  // Default to the year ahead
+  const from = req.query['from'] ? new Date(req.query['from'] as string) : new Date();
+  const to = req.query['to']
+    ? new Date(req.query['to'] as string)
+    : new Date(from.getTime() + MAX_RETROGRADE_RANGE_DAYS * 86400000);
+
+  const rangeDays = (to.getTime() - from.getTime()) / 86400000;
+  if (rangeDays < 0 || rangeDays > MAX_RETROGRADE_RANGE_DAYS) {
+    throw new AppError(`Date range must be between 0 and ${MAX_RETROGRADE_RANGE_DAYS} days`, 400, 'INVALID_DATE_RANGE');
+  }
+
+  const swissEphemerisService = SwissEphemerisService.getInstance();
+  const retrogradePeriods = swissEphemerisService.calculateRetrogradePeriods(
+    swissEphemerisService.dateToJulianDay(from),
+    swissEphemerisService.dateToJulianDay(to)
+  );
+
+  logger.info('Retrograde periods calculated', {
+    userId: req.user.user_id,
+    from,
+    to,
+    count: retrogradePeriods.length
+  });
+
+  const response: RetrogradePeriodsResponse = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    retrograde_periods: retrogradePeriods
+  };
+
+  res.json(formatResponse(response, 'Retrograde periods calculated successfully'));
+}));
+
+// GET /api/astrology/transits/:chartId - Transit-to-natal aspects within a date range
+router.get('/transits/:chartId', [...chartIdValidation, ...dateRangeQueryValidation], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid transit request',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { chartId } = req.params;
+
+  // Validate chart ownership
+  const isOwner = await validateChartOwnership(chartId as string, req.user!.user_id);
+  if (!isOwner) {
+    throw new AppError('Access denied. You can only access your own natal charts', 403, 'ACCESS_DENIED');
+  }
+
+  // Default to the month ahead
+  const from = req.query['from'] ? new Date(req.query['from'] as string) : new Date();
+  const to = req.query['to']
+    ? new Date(req.query['to'] as string)
+    : new Date(from.getTime() + DEFAULT_TRANSIT_RANGE_DAYS * 86400000);
+
+  const rangeDays = (to.getTime() - from.getTime()) / 86400000;
+  if (rangeDays < 0 || rangeDays > MAX_TRANSIT_RANGE_DAYS) {
+    throw new AppError(`Date range must be between 0 and ${MAX_TRANSIT_RANGE_DAYS} days`, 400, 'INVALID_DATE_RANGE');
+  }
+
+  const natalPositions = await loadPlanetaryPositions(chartId as string);
+
+  const swissEphemerisService = SwissEphemerisService.getInstance();
+  const transits = swissEphemerisService.calculateTransits(
+    natalPositions,
+    swissEphemerisService.dateToJulianDay(from),
+    swissEphemerisService.dateToJulianDay(to)
+  );
+
+  logger.info('Transits calculated', {
+    chartId,
+    userId: req.user.user_id,
+    from,
+    to,
+    count: transits.length
+  });
+
+  const response: TransitsResponse = {
+    chart_id: chartId as string,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    transits
+  };
+
+  res.json(formatResponse(response, 'Transits calculated successfully'));
+}));
+
+// GET /api/astrology/progressions/:chartId - Secondary progressions and solar arc directions for a date
+router.get('/progressions/:chartId', [...chartIdValidation, ...progressionsQueryValidation], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid progression request',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { chartId } = req.params;
+
+  // Validate chart ownership
+  const isOwner = await validateChartOwnership(chartId as string, req.user!.user_id);
+  if (!isOwner) {
+    throw new AppError('Access denied. You can only access your own natal charts', 403, 'ACCESS_DENIED');
+  }
+
+  const db = DatabaseService.getInstance();
+  const chartResult = await db.query('SELECT * FROM natal_charts WHERE chart_id = $1', [chartId]);
+  const chart = chartResult.rows[0];
+  // The stored instant; going through local time would shift births in a repeated DST hour
+  const birthUtc: Date = chart.birth_datetime;
+  const latitude = parseFloat(chart.birth_latitude);
+  const longitude = parseFloat(chart.birth_longitude);
+
+  // Default to today
+  const target = req.query['date'] ? new Date(req.query['date'] as string) : new Date();
+  if (target.getTime() < birthUtc.getTime()) {
+    throw new AppError('Date must not be before the birth date', 400, 'INVALID_TARGET_DATE');
+  }
+
+  const swissEphemerisService = SwissEphemerisService.getInstance();
+  const progressions = await swissEphemerisService.calculateProgressions(
+    await loadPlanetaryPositions(chartId as string),
+    await loadHouseCusps(chartId as string),
+    swissEphemerisService.dateToJulianDay(birthUtc),
+    latitude,
+    longitude,
+    swissEphemerisService.dateToJulianDay(target)
+  );
+
+  logger.info('Progressions calculated', {
+    chartId,
+    userId: req.user.user_id,
+    targetDate: target,
+    solarArc: progressions.solar_arc
+  });
+
+  const response: ProgressionsResponse = {
+    chart_id: chartId as string,
+    ...progressions
+  };
+
+  res.json(formatResponse(response, 'Progressions calculated successfully'));
+}));
+
+// POST /api/astrology/comparison-consents - Consent to chart comparison with another user
+router.post('/comparison-consents', comparisonConsentValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid consent request',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const partnerUserId: string = req.body.partner_user_id;
+  if (partnerUserId === req.user.user_id) {
+    throw new AppError('You cannot grant chart comparison consent to yourself', 400, 'INVALID_PARTNER');
+  }
+
+  const db = DatabaseService.getInstance();
+
+  const partnerResult = await db.query('SELECT user_id FROM users WHERE user_id = $1', [partnerUserId]);
+  if (partnerResult.rows.length === 0) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  // Granting consent again keeps the original grant
+  const result = await db.query(`
+    INSERT INTO chart_comparison_consents (user_id, partner_user_id)
+    VALUES ($1, $2)
+    ON CONFLICT ON CONSTRAINT unique_chart_comparison_consent
+    DO UPDATE SET created_at = chart_comparison_consents.created_at
+    RETURNING user_id, partner_user_id, created_at
+  `, [req.user.user_id, partnerUserId]);
+
+  const consent: ChartComparisonConsent = result.rows[0];
+
+  logger.info('Chart comparison consent granted', {
+    userId: req.user.user_id,
+    partnerUserId
+  });
+
+  res.status(201).json(formatResponse(consent, 'Chart comparison consent granted'));
+}));
+
+// GET /api/astrology/comparison-consents - Chart comparison consents given and received
+router.get('/comparison-consents', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const db = DatabaseService.getInstance();
+  const result = await db.query(`
+    SELECT user_id, partner_user_id, created_at
+    FROM chart_comparison_consents
+    WHERE user_id = $1 OR partner_user_id = $1
+    ORDER BY created_at DESC
+  `, [req.user.user_id]);
+
+  const consents: ChartComparisonConsent[] = result.rows;
+  const response: ChartComparisonConsentsResponse = {
+    granted: consents.filter(consent => consent.user_id === req.user!.user_id),
+    received: consents.filter(consent => consent.partner_user_id === req.user!.user_id)
+  };
+
+  res.json(formatResponse(response, 'Chart comparison consents retrieved successfully'));
+}));
+
+// DELETE /api/astrology/comparison-consents/:partnerUserId - Withdraw chart comparison consent
+router.delete('/comparison-consents/:partnerUserId', partnerUserIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid partner user ID',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { partnerUserId } = req.params;
+
+  const db = DatabaseService.getInstance();
+  const result = await db.query(
+    'DELETE FROM chart_comparison_consents WHERE user_id = $1 AND partner_user_id = $2',
+    [req.user.user_id, partnerUserId]
+  );
+
+  if (result.rowCount === 0) {
+    throw new AppError('Chart comparison consent not found', 404, 'CONSENT_NOT_FOUND');
+  }
+
+  logger.info('Chart comparison consent withdrawn', {
+    userId: req.user.user_id,
+    partnerUserId
+  });
+
+  res.json(formatResponse({ partner_user_id: partnerUserId }, 'Chart comparison consent withdrawn'));
+}));
+
+// GET /api/astrology/synastry/:partnerUserId - Cross-aspects and house overlays with another user's chart
+router.get('/synastry/:partnerUserId', partnerUserIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid partner user ID',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { partnerUserId } = req.params;
+  const { chartA, chartB } = await loadComparisonCharts(req.user.user_id, partnerUserId as string);
+
+  const synastry = SwissEphemerisService.getInstance().calculateSynastry(
+    chartA.planetary_positions,
+    chartA.house_cusps,
+    chartB.planetary_positions,
+    chartB.house_cusps
+  );
+
+  logger.info('Synastry calculated', {
+    userId: req.user.user_id,
+    partnerUserId,
+    crossAspects: synastry.cross_aspects.length
+  });
+
+  const response: SynastryResponse = {
+    chart_a_id: chartA.chart_id,
+    chart_b_id: chartB.chart_id,
+    ...synastry
+  };
+
+  res.json(formatResponse(response, 'Synastry calculated successfully'));
+}));
+
+// GET /api/astrology/composite/:partnerUserId - Midpoint composite chart with another user
+router.get('/composite/:partnerUserId', partnerUserIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid partner user ID',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { partnerUserId } = req.params;
+  const { chartA, chartB } = await loadComparisonCharts(req.user.user_id, partnerUserId as string);
+
+  const composite = SwissEphemerisService.getInstance().calculateCompositeChart(
+    chartA.planetary_positions,
+    chartA.house_cusps,
+    chartB.planetary_positions,
+    chartB.house_cusps
+  );
+
+  logger.info('Composite chart calculated', {
+    userId: req.user.user_id,
+    partnerUserId
+  });
+
+  const response: CompositeChartResponse = {
+    chart_a_id: chartA.chart_id,
+    chart_b_id: chartB.chart_id,
+    ...composite
+  };
+
+  res.json(formatResponse(response, 'Composite chart calculated successfully'));
+}));
+
+// POST /api/astrology/returns/:chartId - Solar or lunar return chart, calculated without being stored
+router.post('/returns/:chartId', returnChartValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid return chart request',
+        details: errors.array()
+      },
+      timestamp: new Date()
+    });
+  }
+
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  const { chartId } = req.params;
+
+  // Validate chart ownership
+  const isOwner = await validateChartOwnership(chartId as string, req.user!.user_id);
+  if (!isOwner) {
+    throw new AppError('Access denied. You can only access your own natal charts', 403, 'ACCESS_DENIED');
+  }
+
+  const returnType: ChartReturnType = req.body.type;
+  const returningBody = returnType === 'solar' ? 'Sun' : 'Moon';
+
+  const natalPositions = await loadPlanetaryPositions(chartId as string);
+  const natalPosition = natalPositions.find(position => position.celestial_body === returningBody);
+  if (!natalPosition) {
+    throw new AppError(`Natal chart has no ${returningBody} position`, 404, 'POSITION_NOT_FOUND');
+  }
+
+  const db = DatabaseService.getInstance();
+  const chartResult = await db.query('SELECT * FROM natal_charts WHERE chart_id = $1', [chartId]);
+  const chart = chartResult.rows[0];
+
+  // Cast for the birth place unless another location is given
+  const timezoneService = TimezoneService.getInstance();
+  const hasLocation = req.body.latitude !== undefined;
+  const latitude = hasLocation ? parseFloat(req.body.latitude) : parseFloat(chart.birth_latitude);
+  const longitude = hasLocation ? parseFloat(req.body.longitude) : parseFloat(chart.birth_longitude);
+  const timezone: string = req.body.timezone
+    || (!hasLocation && chart.timezone)
+    || timezoneService.lookupTimezone(latitude, longitude);
+  const houseSystem: HouseSystem = req.body.house_system || chart.house_system;
+
+  // Solar returns are searched from the start of the year, lunar returns from the start of the month
+  const searchStart = returnType === 'solar'
+    ? new Date(Date.UTC(req.body.year, 0, 1))
+    : new Date(Date.UTC(req.body.year, req.body.month - 1, 1));
+
+  const swissEphemerisService = SwissEphemerisService.getInstance();
+  const returnJulianDay = swissEphemerisService.findReturn(
+    returningBody,
+    natalPosition.longitude,
+    swissEphemerisService.dateToJulianDay(searchStart)
+  );
+  const returnDate = swissEphemerisService.julianDayToDate(returnJulianDay);
+  const chartCalculation = await swissEphemerisService.castChart(returnJulianDay, latitude, longitude, houseSystem);
+  const local = timezoneService.utcToLocal(returnDate, timezone);
+
+  logger.info('Return chart calculated', {
+    chartId,
+    userId: req.user.user_id,
+    returnType,
+    returnDate
+  });
+
+  const response: ReturnChartResponse = {
+    chart_id: chartId as string,
+    return_type: returnType,
+    return_date: returnDate.toISOString(),
+    local_date: local.date,
+    local_time: local.time,
+    natal_longitude: natalPosition.longitude,
+    location: {
+      name: req.body.location || (hasLocation ? `${latitude}, ${longitude}` : chart.birth_location),
+      latitude,
+      longitude,
+      timezone
+    },
+    planetary_positions: chartCalculation.planetary_positions,
+    house_cusps: chartCalculation.house_cusps,
+    aspects: chartCalculation.aspects,
+    house_system: houseSystem,
+    ...(chartCalculation.house_system_fallback && { house_system_fallback: chartCalculation.house_system_fallback })
+  };
+
+  res.json(formatResponse(response, `${returnType === 'solar' ? 'Solar' : 'Lunar'} return calculated successfully`));
 }));
 
 export default router;
\ No newline at end of file
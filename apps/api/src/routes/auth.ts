@@ -1,9 +1,11 @@
 import express, { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import { AuthenticatedRequest, accessTokenExpiresIn, authMiddleware, authenticateToken, generateToken } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { AuthSessionService, DeviceInfo } from '../services/authSessionService';
 import { DatabaseService } from '../services/database';
-import { RedisService } from '../services/redis';
 import { PersonalityService } from '../services/personalityService';
 // import { User } from '../types'; // Unused for now
 
@@ -18,14 +20,27 @@ const registerValidation = [
   // Birth data is now optional for progressive onboarding
   body('birth_date').optional().isISO8601().toDate(),
   body('birth_time').optional().matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
-  body('birth_location').optional().trim().isLength({ min: 1, max: 100 })
+  body('birth_location').optional().trim().isLength({ min: 1, max: 100 }),
+  body('device_name').optional().isString().trim().isLength({ min: 1, max: 100 })
 ];
 
 const loginValidation = [
   body('email').isEmail().normalizeEmail(),
-  body('password').notEmpty()
+  body('password').notEmpty(),
+  body('device_name').optional().isString().trim().isLength({ min: 1, max: 100 })
 ];
 
+const refreshValidation = [
+  body('refresh_token').isString().notEmpty()
+];
+
+// The device signing in, listed with its session
+const deviceInfo = (req: Request): DeviceInfo => ({
+  device_name: req.body.device_name,
+  user_agent: req.headers['user-agent'],
+  ip_address: req.ip
+});
+
 // Register endpoint
 router.post('/register', registerValidation, async (req: Request, res: Response) => {
   try {
@@ -117,31 +132,9 @@ router.post('/register', registerValidation, async (req: Request, res: Response)
 
     const user = result.rows[0];
 
-    // Generate JWT token
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const token = jwt.sign(
-      {
-        user_id: user.user_id,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name
-      },
-      jwtSecret,
-      { expiresIn: '7d' }
-    );
-
-    // Store session in Redis
-    const redis = RedisService.getInstance();
-    await redis.setUserSession(user.user_id, {
-      user_id: user.user_id,
-      email: user.email,
-      login_time: new Date(),
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-    });
+    // Start a session for this device and issue its tokens
+    const session = await AuthSessionService.getInstance().createSession(user.user_id, deviceInfo(req));
+    const token = generateToken(user, session.session_id);
 
     res.status(201).json({
       success: true,
@@ -161,7 +154,8 @@ router.post('/register', registerValidation, async (req: Request, res: Response)
           created_at: user.created_at
         },
         token,
-        expires_in: '7d'
+        refresh_token: session.refresh_token,
+        expires_in: accessTokenExpiresIn()
       }
     });
 
@@ -237,45 +231,17 @@ router.post('/login', loginValidation, async (req: Request, res: Response) => {
 
     console.log('✅ PASSWORD VERIFIED for user:', user.user_id);
 
-    // Generate JWT token
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      console.log('❌ JWT_SECRET NOT CONFIGURED');
-      throw new Error('JWT_SECRET not configured');
-    }
+    // Start a session for this device, alongside the user's sessions on other devices
+    const session = await AuthSessionService.getInstance().createSession(user.user_id, deviceInfo(req));
 
     console.log('🎫 GENERATING JWT TOKEN...');
-    const token = jwt.sign(
-      {
-        user_id: user.user_id,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name
-      },
-      jwtSecret,
-      { expiresIn: '7d' }
-    );
+    const token = generateToken(user, session.session_id);
 
     console.log('✅ JWT TOKEN GENERATED:', {
       user_id: user.user_id,
+      session_id: session.session_id,
       token_length: token.length,
-      expires_in: '7d'
-    });
-
-    // Store session in Redis
-    console.log('💾 STORING SESSION IN REDIS...');
-    const redis = RedisService.getInstance();
-    const sessionData = {
-      user_id: user.user_id,
-      email: user.email,
-      login_time: new Date(),
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-    };
-    
-    await redis.setUserSession(user.user_id, sessionData);
-    console.log('✅ SESSION STORED IN REDIS:', {
-      user_id: user.user_id,
-      session_expires_at: sessionData.expires_at
+      expires_in: accessTokenExpiresIn()
     });
 
     // Update last login
@@ -306,7 +272,8 @@ router.post('/login', loginValidation, async (req: Request, res: Response) => {
           updated_at: user.updated_at
         },
         token,
-        expires_in: '7d'
+        refresh_token: session.refresh_token,
+        expires_in: accessTokenExpiresIn()
       }
     });
 
@@ -337,11 +304,11 @@ router.post('/logout', async (req: Request, res: Response) => {
     }
 
     const decoded = jwt.verify(token, jwtSecret) as any;
-    const userId = decoded.user_id;
 
-    // Remove session from Redis
-    const redis = RedisService.getInstance();
-    await redis.deleteUserSession(userId);
+    // End this device's session; the user stays signed in on other devices
+    if (decoded.session_id) {
+      await AuthSessionService.getInstance().revokeSession(decoded.user_id, decoded.session_id);
+    }
 
     res.json({
       success: true,
@@ -357,35 +324,21 @@ router.post('/logout', async (req: Request, res: Response) => {
   }
 });
 
-// Refresh token endpoint
-router.post('/refresh', async (req: Request, res: Response) => {
+// Refresh token endpoint: exchanges a refresh token for new access and refresh tokens
+router.post('/refresh', refreshValidation, async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        message: 'No token provided'
+        message: 'Validation failed',
+        errors: errors.array()
       });
     }
 
-    const token = authHeader.substring(7);
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    const userId = decoded.user_id;
-
-    // Check if session exists in Redis
-    const redis = RedisService.getInstance();
-    const session = await redis.getUserSession(userId);
-    if (!session) {
-      return res.status(401).json({
-        success: false,
-        message: 'Session expired'
-      });
-    }
+    // Each refresh token works once; reusing one revokes its session
+    const sessions = AuthSessionService.getInstance();
+    const session = await sessions.rotate(req.body.refresh_token, deviceInfo(req));
 
     // Get fresh user data
     const db = DatabaseService.getInstance();
@@ -394,10 +347,11 @@ router.post('/refresh', async (req: Request, res: Response) => {
               birth_date, birth_time, birth_location, personality_profile, 
               coaching_goals, onboarding_completed, created_at, updated_at
        FROM users WHERE user_id = $1`,
-      [userId]
+      [session.user_id]
     );
 
     if (result.rows.length === 0) {
+      await sessions.revokeSession(session.user_id, session.session_id);
       return res.status(401).json({
         success: false,
         message: 'User not found'
@@ -405,26 +359,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
     }
 
     const user = result.rows[0];
-
-    // Generate new token
-    const newToken = jwt.sign(
-      {
-        user_id: user.user_id,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name
-      },
-      jwtSecret,
-      { expiresIn: '7d' }
-    );
-
-    // Update session in Redis
-    await redis.setUserSession(userId, {
-      user_id: userId,
-      email: user.email,
-      login_time: session.login_time,
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-    });
+    const newToken = generateToken(user, session.session_id);
 
     res.json({
       success: true,
@@ -445,15 +380,23 @@ router.post('/refresh', async (req: Request, res: Response) => {
           updated_at: user.updated_at
         },
         token: newToken,
-        expires_in: '7d'
+        refresh_token: session.refresh_token,
+        expires_in: accessTokenExpiresIn()
       }
     });
 
   } catch (error) {
     console.error('Token refresh error:', error);
-    res.status(401).json({
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+    res.status(500).json({
       success: false,
-      message: 'Invalid or expired token'
+      message: 'Internal server error during token refresh'
     });
   }
 });
@@ -470,42 +413,9 @@ router.get('/verify', async (req: Request, res: Response) => {
     }
 
     const token = authHeader.substring(7);
-    const jwtSecret = process.env['JWT_SECRET'];
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
 
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    const userId = decoded.user_id;
-
-    // Check if session exists in Redis
-    const redis = RedisService.getInstance();
-    const session = await redis.getUserSession(userId);
-    if (!session) {
-      return res.status(401).json({
-        success: false,
-        message: 'Session expired'
-      });
-    }
-
-    // Get user data
-    const db = DatabaseService.getInstance();
-    const result = await db.query(
-      `SELECT user_id, email, first_name, last_name, 
-              birth_date, birth_time, birth_location, personality_profile, 
-              coaching_goals, onboarding_completed, created_at, updated_at
-       FROM users WHERE user_id = $1`,
-      [userId]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
-
-    const user = result.rows[0];
+    // The same checks as authenticated routes: a live session and a user that still exists
+    const { user } = await authenticateToken(token);
 
     res.json({
       success: true,
@@ -537,4 +447,57 @@ router.get('/verify', async (req: Request, res: Response) => {
   }
 });
 
+// List the devices the user is signed in on
+router.get('/sessions', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await AuthSessionService.getInstance().listSessions(req.user!.user_id, req.session_id);
+
+    res.json({
+      success: true,
+      data: { sessions }
+    });
+
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while listing sessions'
+    });
+  }
+});
+
+// Sign a device out remotely; its refresh token stops working
+router.delete('/sessions/:id', authMiddleware, param('id').isUUID(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const revoked = await AuthSessionService.getInstance().revokeSession(req.user!.user_id, req.params['id']!);
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while revoking session'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -3,9 +3,21 @@ import { body, param, validationResult } from 'express-validator';
 import { DatabaseService } from '../services/database';
 import { AICoachingService } from '../services/aiCoachingService';
 import { PersonalityService } from '../services/personalityService';
+import { PatternAnalysisQueue } from '../services/patternAnalysisQueue';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { CoachingContext, SessionType } from '../types';
-import { SocketService } from '../services/socket';
+import { CoachingMessageService, loadCoachingMemory } from '../services/coachingMessageService';
+import { AppError } from '../middleware/errorHandler';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/coaching.log' })
+  ]
+});
 
 const router = express.Router();
 
@@ -17,7 +29,8 @@ const startSessionValidation = [
 
 const sendMessageValidation = [
   body('content').trim().isLength({ min: 1, max: 1000 }),
-  body('metadata').optional().isObject()
+  body('metadata').optional().isObject(),
+  body('stream').optional().isBoolean({ strict: true })
 ];
 
 const conversationIdValidation = [
@@ -69,13 +82,7 @@ router.post('/start-session', startSessionValidation, async (req: AuthenticatedR
     // If there's an initial message, process it with AI coaching
     if (initial_message) {
       try {
-        // Initialize AI coaching service with Anthropic
-        const aiCoachingService = new AICoachingService({
-          api_key: process.env['ANTHROPIC_API_KEY'] || '',
-          model: process.env['ANTHROPIC_MODEL'] || 'claude-3-sonnet-20240229',
-          max_tokens: parseInt(process.env['ANTHROPIC_MAX_TOKENS'] || '600'),
-          temperature: parseFloat(process.env['ANTHROPIC_TEMPERATURE'] || '0.7')
-        });
+        const aiCoachingService = AICoachingService.getInstance();
 
         // Add user message to conversation
         const userMessage = await db.addMessage({
@@ -85,6 +92,8 @@ router.post('/start-session', startSessionValidation, async (req: AuthenticatedR
           metadata: null
         });
 
+        const memory = await loadCoachingMemory(req.user.user_id, initial_message);
+
         // Build coaching context
         const coachingContext: CoachingContext = {
           user_first_name: user.first_name,
@@ -96,7 +105,8 @@ router.post('/start-session', startSessionValidation, async (req: AuthenticatedR
           current_message: initial_message,
           session_type: session_type as SessionType,
           coaching_goals: user.coaching_goals || [],
-          aha_moments_delivered: []
+          aha_moments_delivered: [],
+          ...(memory && { memory })
         };
 
         // Generate AI response
@@ -270,244 +280,66 @@ router.post('/conversations/:id/messages', [...conversationIdValidation, ...send
       });
     }
 
-    const conversationId = req.params['id'];
-    const { content, metadata } = req.body;
-    const db = DatabaseService.getInstance();
+    const conversationId = req.params['id']!;
+    const { content, metadata, stream } = req.body;
+    const messages = CoachingMessageService.getInstance();
 
-    // Verify conversation ownership
-    const conversationResult = await db.query(`
-      SELECT * FROM coaching_conversations
-      WHERE conversation_id = $1 AND user_id = $2 AND status = 'active'
-    `, [conversationId, req.user.user_id]);
-
-    if (conversationResult.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Active conversation not found'
-      });
-    }
-
-    const conversation = conversationResult.rows[0];
-
-    // Add user message
-    const userMessage = await db.addMessage({
-      conversation_id: conversationId,
-      sender_type: 'user',
-      content: content,
-      metadata: metadata
+    const { conversation, user_message: userMessage } = await messages.storeUserMessage(req.user.user_id, conversationId, {
+      content,
+      metadata
     });
 
-    // Generate AI coaching response
-    try {
-      // Get user data for coaching context
-      const user = await db.findUserById(req.user.user_id);
-      
-      // Get conversation history
-      const conversationHistory = await db.getConversationHistory(conversationId!);
-      
-      // Initialize AI coaching service with Anthropic
-      const aiCoachingService = new AICoachingService({
-        api_key: process.env['ANTHROPIC_API_KEY'] || '',
-        model: process.env['ANTHROPIC_MODEL'] || 'claude-3-sonnet-20240229',
-        max_tokens: parseInt(process.env['ANTHROPIC_MAX_TOKENS'] || '1000'),
-        temperature: parseFloat(process.env['ANTHROPIC_TEMPERATURE'] || '0.7')
-      });
-
-      // Build coaching context
-      const coachingContext: CoachingContext = {
-        user_first_name: user?.first_name,
-        user_last_name: user?.last_name,
-        user_personality: user?.personality_profile ?
-          (typeof user.personality_profile === 'string' ? JSON.parse(user.personality_profile) : user.personality_profile) :
-          undefined,
-        conversation_history: conversationHistory.slice(0, -1), // Exclude the message we just added
-        current_message: content,
-        session_type: conversation.session_type as SessionType,
-        coaching_goals: user?.coaching_goals || [],
-        aha_moments_delivered: []
-      };
-
-      // Generate AI response
-      console.log('🤖 BACKEND DEBUG: Generating AI coaching response', {
-        conversationId,
-        userMessageId: userMessage.message_id,
-        contextHasPersonality: !!coachingContext.user_personality,
-        sessionType: coachingContext.session_type
-      });
-
-      const coachingResponse = await aiCoachingService.generateCoachingResponse(coachingContext);
-
-      console.log('✨ BACKEND DEBUG: AI response generated', {
-        responseLength: coachingResponse.content.length,
-        hasMetadata: !!coachingResponse.metadata,
-        confidenceScore: coachingResponse.metadata?.confidence_score,
-        ahaMoment: coachingResponse.metadata?.aha_moment_type
-      });
-
-      // Add coach response to conversation
-      const coachMessage = await db.addMessage({
-        conversation_id: conversationId,
-        sender_type: 'coach',
-        content: coachingResponse.content,
-        metadata: coachingResponse.metadata
-      });
-
-      console.log('💾 BACKEND DEBUG: Coach message saved to database', {
-        coachMessageId: coachMessage.message_id,
-        contentPreview: coachingResponse.content.substring(0, 100) + '...'
-      });
-
-      const responseData = {
-        user_message: userMessage,
-        coach_response: coachMessage,
-        coaching_metadata: coachingResponse.metadata
-      };
-
-      console.log('📤 BACKEND DEBUG: Preparing HTTP response', {
-        hasUserMessage: !!responseData.user_message,
-        hasCoachResponse: !!responseData.coach_response,
-        userMessageId: responseData.user_message?.message_id,
-        coachMessageId: responseData.coach_response?.message_id,
-        responseStructure: Object.keys(responseData),
-        responseDataSize: JSON.stringify(responseData).length
-      });
-
-      console.log('🚀 BACKEND DEBUG: About to send HTTP response');
-      
-      const httpResponse = {
+    // Stream the response over the socket when asked; without a socket server, reply in full
+    const streamId = stream ? messages.streamReply(req.user.user_id, conversation, userMessage) : null;
+    if (streamId) {
+      return res.status(202).json({
         success: true,
-        message: 'Message sent successfully',
-        data: responseData
-      };
-      
-      console.log('📊 BACKEND DEBUG: HTTP response payload', {
-        payloadSize: JSON.stringify(httpResponse).length,
-        hasSuccess: httpResponse.success,
-        hasData: !!httpResponse.data,
-        dataKeys: httpResponse.data ? Object.keys(httpResponse.data) : []
+        message: 'Message sent; coach response is streaming',
+        data: {
+          user_message: userMessage,
+          stream_id: streamId
+        }
       });
-      
-      // Send HTTP response FIRST to ensure it completes
-      res.status(201).json(httpResponse);
-      
-      console.log('✅ BACKEND DEBUG: HTTP response sent successfully');
+    }
 
-      // Send real-time updates via Socket.io AFTER HTTP response
-      try {
-        const socketService = SocketService.getInstance();
-        if (socketService && conversationId) {
-          console.log('🔌 BACKEND DEBUG: Sending socket updates', {
-            conversationId,
-            userMessageId: responseData.user_message?.message_id,
-            coachMessageId: responseData.coach_response?.message_id
-          });
-
-          // Send user message via socket
-          socketService.sendMessageToConversation(conversationId, 'new_message', responseData.user_message);
-          
-          // Send coach response via socket
-          socketService.sendMessageToConversation(conversationId, 'new_message', responseData.coach_response);
-          
-          console.log('✅ BACKEND DEBUG: Socket updates sent successfully');
-        } else {
-          console.warn('⚠️ BACKEND DEBUG: Socket service not available for real-time updates', {
-            hasSocketService: !!socketService,
-            hasConversationId: !!conversationId
-          });
-        }
-      } catch (socketError) {
-        // Don't let socket errors affect the HTTP response since it's already sent
-        console.error('💥 BACKEND DEBUG: Socket error (HTTP response already sent):', socketError);
-      }
+    const reply = await messages.reply(req.user.user_id, conversation, userMessage);
 
-    } catch (aiError) {
-      console.error('💥 BACKEND DEBUG: AI coaching error caught:', aiError);
-      
-      // Create a fallback coach response when AI fails
-      let fallbackContent = "I apologize, but I'm experiencing some technical difficulties at the moment. Your message has been received, and I'll respond as soon as possible.";
-      let errorType = 'ai_service_unavailable';
-      
-      // Provide more specific feedback based on error type
-      if (aiError && typeof aiError === 'object' && 'status' in aiError) {
-        const status = (aiError as any).status;
-        if (status === 529) {
-          fallbackContent = "I'm currently experiencing high demand and temporary server overload. Your message has been received, and I'll respond shortly once the system stabilizes. Please try sending your message again in a few moments.";
-          errorType = 'api_overloaded';
-        } else if (status === 401) {
-          fallbackContent = "I'm experiencing authentication issues with my AI service. Your message has been received, and our technical team has been notified. Please try again later.";
-          errorType = 'api_authentication_error';
-        } else if (status === 429) {
-          fallbackContent = "I'm temporarily rate-limited due to high usage. Your message has been received, and I'll respond as soon as the rate limit resets. Please try again in a few minutes.";
-          errorType = 'api_rate_limited';
-        }
-      }
-      
-      const fallbackCoachMessage = await db.addMessage({
-        conversation_id: conversationId,
-        sender_type: 'coach',
-        content: fallbackContent,
-        metadata: {
-          is_fallback: true,
-          error_type: errorType,
-          original_error: aiError instanceof Error ? aiError.message : 'Unknown error',
-          timestamp: new Date().toISOString()
-        }
-      });
-      
-      // Return user message with fallback coach response
-      const errorResponse = {
+    if (reply.is_fallback) {
+      return res.status(201).json({
         success: true,
         message: 'Message sent successfully',
         data: {
           user_message: userMessage,
-          coach_response: fallbackCoachMessage,
+          coach_response: reply.coach_response,
           error: 'AI coaching service temporarily unavailable',
           is_fallback: true
         }
-      };
-      
-      console.log('🚨 BACKEND DEBUG: Sending error response', {
-        hasUserMessage: !!errorResponse.data.user_message,
-        errorMessage: errorResponse.data.error
       });
-      
-      res.status(201).json(errorResponse);
-      
-      console.log('✅ BACKEND DEBUG: Error response sent successfully');
-      
-      // Send socket updates for fallback response
-      try {
-        const socketService = SocketService.getInstance();
-        if (socketService && conversationId) {
-          console.log('🔌 BACKEND DEBUG: Sending fallback socket updates');
-          
-          // Send user message via socket
-          socketService.sendMessageToConversation(conversationId, 'new_message', errorResponse.data.user_message);
-          
-          // Send fallback coach response via socket
-          socketService.sendMessageToConversation(conversationId, 'new_message', errorResponse.data.coach_response);
-          
-          console.log('✅ BACKEND DEBUG: Fallback socket updates sent');
-        }
-      } catch (socketError) {
-        console.error('💥 BACKEND DEBUG: Socket error for fallback (HTTP response already sent):', socketError);
-      }
     }
 
+    res.status(201).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: {
+        user_message: userMessage,
+        coach_response: reply.coach_response,
+        coaching_metadata: reply.coaching_metadata
+      }
+    });
+
   } catch (error) {
-    console.error('💥 BACKEND DEBUG: Top-level error caught:', error);
-    console.error('💥 BACKEND DEBUG: Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    
-    const serverErrorResponse = {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    logger.error('Send message failed', { conversationId: req.params['id'], error });
+    res.status(500).json({
       success: false,
       message: 'Internal server error while sending message'
-    };
-    
-    console.log('🚨 BACKEND DEBUG: Sending server error response');
-    
-    res.status(500).json(serverErrorResponse);
-    
-    console.log('✅ BACKEND DEBUG: Server error response sent successfully');
+    });
   }
 });
 
@@ -554,7 +386,7 @@ router.get('/conversations/:id/messages', conversationIdValidation, async (req:
     const messagesResult = await db.query(`
       SELECT * FROM coaching_messages
       WHERE conversation_id = $1
-      ORDER BY created_at ASC
+      ORDER BY sequence ASC
       LIMIT $2 OFFSET $3
     `, [conversationId, limit, offset]);
 
@@ -618,11 +450,11 @@ router.post('/conversations/:id/end', conversationIdValidation, async (req: Auth
       });
     }
 
-    // Update conversation status to completed
+    // Update conversation status to completed; of two concurrent calls only one ends it and queues the analysis
     const updatedConversation = await db.query(`
       UPDATE coaching_conversations
       SET status = 'completed', updated_at = CURRENT_TIMESTAMP
-      WHERE conversation_id = $1 AND user_id = $2
+      WHERE conversation_id = $1 AND user_id = $2 AND status = 'active'
       RETURNING *
     `, [conversationId, req.user.user_id]);
 
@@ -633,11 +465,20 @@ router.post('/conversations/:id/end', conversationIdValidation, async (req: Auth
       });
     }
 
+    // Analyze the session for patterns and insights in the background
+    let analysisJob = null;
+    try {
+      analysisJob = await PatternAnalysisQueue.getInstance().enqueue(conversationId!, req.user.user_id);
+    } catch (queueError) {
+      logger.error('Could not queue pattern analysis', { conversationId, userId: req.user.user_id, error: queueError });
+    }
+
     res.json({
       success: true,
       message: 'Coaching session ended successfully',
       data: {
-        conversation: updatedConversation.rows[0]
+        conversation: updatedConversation.rows[0],
+        analysis_job: analysisJob
       }
     });
 
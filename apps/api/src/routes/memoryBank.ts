@@ -1,6 +1,10 @@
-import { Router, Request, Response } from 'express';
-import { Pool } from 'pg';
-import { MemoryBankService } from '../services/memoryBankService.js';
+import express, { Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { MemoryBankService, DEFAULT_MEMORY_BANK_CONFIG } from '../services/memoryBankService';
+import { DatabaseService } from '../services/database';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { APIResponse } from '../types';
 import {
   CreateMemoryRequest,
   UpdateMemoryRequest,
@@ -8,480 +12,318 @@ import {
   CreateInsightRequest,
   CreateContextRequest,
   MemorySearchQuery,
-  MemoryBankConfig
-} from '../types/memoryBank.js';
-
-const router = Router();
-
-// Default configuration - should be moved to environment variables
-const defaultConfig: MemoryBankConfig = {
-  max_memories_per_user: 10000,
-  memory_retention_days: 365,
-  pattern_strength_threshold: 0.3,
-  insight_impact_threshold: 0.4,
-  context_expiry_days: 30,
-  embedding_model: 'text-embedding-ada-002',
-  similarity_threshold: 0.7
-};
+  UserMemoryBank,
+  MemoryPattern,
+  MemoryInsight,
+  MemoryContext
+} from '../types/memoryBank';
+
+const router = express.Router();
+
+const MEMORY_TYPES: UserMemoryBank['memory_type'][] = ['pattern', 'insight', 'context', 'behavioral'];
+const PATTERN_TYPES: MemoryPattern['pattern_type'][] = ['communication', 'decision_making', 'stress_response', 'goal_setting', 'learning_style'];
+const INSIGHT_TYPES: MemoryInsight['insight_type'][] = ['breakthrough', 'realization', 'goal_shift', 'pattern_recognition', 'emotional_growth'];
+const CONTEXT_TYPES: MemoryContext['context_type'][] = ['thread', 'reference', 'follow_up', 'goal_tracking', 'relationship_dynamic'];
+
+// Validation middleware
+const memoryIdValidation = [
+  param('memoryId').isUUID().withMessage('memoryId must be a UUID')
+];
+
+const createMemoryValidation = [
+  body('memory_type').isIn(MEMORY_TYPES).withMessage(`memory_type must be one of ${MEMORY_TYPES.join(', ')}`),
+  body('category').isString().trim().isLength({ min: 1, max: 100 }).withMessage('category must be 1-100 characters'),
+  body('content').isObject().withMessage('content must be an object'),
+  body('confidence_score').optional().isFloat({ min: 0, max: 1 }).withMessage('confidence_score must be between 0 and 1'),
+  body('importance_score').optional().isFloat({ min: 0, max: 1 }).withMessage('importance_score must be between 0 and 1')
+];
+
+const updateMemoryValidation = [
+  ...memoryIdValidation,
+  body('category').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('category must be 1-100 characters'),
+  body('content').optional().isObject().withMessage('content must be an object'),
+  body('confidence_score').optional().isFloat({ min: 0, max: 1 }).withMessage('confidence_score must be between 0 and 1'),
+  body('importance_score').optional().isFloat({ min: 0, max: 1 }).withMessage('importance_score must be between 0 and 1')
+];
+
+const listValidation = [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+  query('offset').optional().isInt({ min: 0 }).withMessage('offset must be 0 or more').toInt()
+];
+
+const createPatternValidation = [
+  body('pattern_type').isIn(PATTERN_TYPES).withMessage(`pattern_type must be one of ${PATTERN_TYPES.join(', ')}`),
+  body('pattern_data').isObject().withMessage('pattern_data must be an object'),
+  body('pattern_data.description').isString().trim().notEmpty().withMessage('pattern_data.description is required'),
+  body('pattern_data.triggers').isArray().withMessage('pattern_data.triggers must be an array'),
+  body('pattern_data.triggers.*').isString().withMessage('pattern_data.triggers must contain strings'),
+  body('pattern_data.responses').isArray().withMessage('pattern_data.responses must be an array'),
+  body('pattern_data.responses.*').isString().withMessage('pattern_data.responses must contain strings'),
+  body('pattern_data.context').optional().isObject().withMessage('pattern_data.context must be an object'),
+  body('conversation_id').optional().isUUID().withMessage('conversation_id must be a UUID'),
+  body('strength_score').optional().isFloat({ min: 0, max: 1 }).withMessage('strength_score must be between 0 and 1')
+];
+
+const patternStrengthValidation = [
+  param('patternId').isUUID().withMessage('patternId must be a UUID'),
+  body('strengthDelta').isFloat({ min: -1, max: 1 }).withMessage('strengthDelta must be a number between -1 and 1').toFloat()
+];
+
+const createInsightValidation = [
+  body('insight_type').isIn(INSIGHT_TYPES).withMessage(`insight_type must be one of ${INSIGHT_TYPES.join(', ')}`),
+  body('title').isString().trim().isLength({ min: 1, max: 255 }).withMessage('title must be 1-255 characters'),
+  body('description').isString().trim().notEmpty().withMessage('description is required'),
+  body('conversation_id').optional().isUUID().withMessage('conversation_id must be a UUID'),
+  body('impact_score').optional().isFloat({ min: 0, max: 1 }).withMessage('impact_score must be between 0 and 1'),
+  body('tags').optional().isArray().withMessage('tags must be an array'),
+  body('tags.*').isString().withMessage('tags must contain strings')
+];
+
+const listInsightsValidation = [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt()
+];
+
+const createContextValidation = [
+  body('context_type').isIn(CONTEXT_TYPES).withMessage(`context_type must be one of ${CONTEXT_TYPES.join(', ')}`),
+  body('title').optional().isString().trim().isLength({ max: 255 }).withMessage('title must be at most 255 characters'),
+  body('context_data').isObject().withMessage('context_data must be an object'),
+  body('context_data.summary').isString().trim().notEmpty().withMessage('context_data.summary is required'),
+  body('context_data.key_points').isArray().withMessage('context_data.key_points must be an array'),
+  body('context_data.key_points.*').isString().withMessage('context_data.key_points must contain strings'),
+  body('context_data.action_items').optional().isArray().withMessage('context_data.action_items must be an array'),
+  body('related_conversations').optional().isArray().withMessage('related_conversations must be an array'),
+  body('related_conversations.*').isUUID().withMessage('related_conversations must contain UUIDs'),
+  body('expires_at').optional().isISO8601().withMessage('expires_at must be an ISO 8601 date')
+];
 
-// Initialize memory bank service
-const initMemoryBankService = (db: Pool): MemoryBankService => {
-  return new MemoryBankService(db, defaultConfig);
+const contextIdValidation = [
+  param('contextId').isUUID().withMessage('contextId must be a UUID')
+];
+
+const searchValidation = [
+  body('query').isString().trim().isLength({ min: 1, max: 500 }).withMessage('query must be 1-500 characters'),
+  body('memory_types').optional().isArray().withMessage('memory_types must be an array'),
+  body('memory_types.*').isIn(MEMORY_TYPES).withMessage(`memory_types must contain ${MEMORY_TYPES.join(', ')}`),
+  body('categories').optional().isArray().withMessage('categories must be an array'),
+  body('categories.*').isString().withMessage('categories must contain strings'),
+  body('min_confidence').optional().isFloat({ min: 0, max: 1 }).withMessage('min_confidence must be between 0 and 1').toFloat(),
+  body('min_importance').optional().isFloat({ min: 0, max: 1 }).withMessage('min_importance must be between 0 and 1').toFloat(),
+  body('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+  body('include_embeddings').optional().isBoolean().withMessage('include_embeddings must be a boolean').toBoolean(true)
+];
+
+// Helper function to format API response
+const formatResponse = <T>(data: T, message?: string): APIResponse<T> => {
+  return {
+    success: true,
+    data,
+    ...(message && { message }),
+    timestamp: new Date()
+  };
 };
 
-// Middleware to extract user ID from request
-const extractUserId = (req: Request): string => {
-  // TODO: Extract from JWT token or session
-  // For now, use a header or query parameter
-  const userId = req.headers['x-user-id'] as string || req.query['userId'] as string;
-  if (!userId) {
-    throw new Error('User ID is required');
+const checkValidation = (req: AuthenticatedRequest): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array().map(error => error.msg).join(', '), 400, 'VALIDATION_ERROR');
   }
-  return userId;
 };
 
-// Memory CRUD operations
-router.post('/memories', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const memoryRequest: CreateMemoryRequest = req.body;
-    
-    // Validate request
-    if (!memoryRequest.memory_type || !memoryRequest.category || !memoryRequest.content) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: memory_type, category, content' 
-      });
-    }
+// Every lookup below is scoped to the caller, so another user's id answers 404 rather than 403
+const memoryNotFound = () => new AppError('Memory not found', 404, 'MEMORY_NOT_FOUND');
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const memory = await memoryService.createMemory(userId, memoryRequest);
-    
-    res.status(201).json({
-      success: true,
-      data: memory
-    });
-  } catch (error) {
-    console.error('Error creating memory:', error);
-    res.status(500).json({ 
-      error: 'Failed to create memory',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+// A memory entry may only refer to the caller's own conversations
+const checkConversations = async (req: AuthenticatedRequest, conversationIds: (string | undefined)[]): Promise<void> => {
+  const ids = conversationIds.filter((id): id is string => !!id);
+  if (!(await MemoryBankService.getInstance().ownsConversations(req.user!.user_id, ids))) {
+    throw new AppError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
   }
-});
+};
 
-router.get('/memories/:memoryId', async (req: Request, res: Response) => {
-  try {
-    const { memoryId } = req.params;
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    if (!memoryId) {
-      return res.status(400).json({ error: 'Memory ID is required' });
-    }
-    
-    const memory = await memoryService.getMemory(memoryId);
-    
-    if (!memory) {
-      return res.status(404).json({ error: 'Memory not found' });
-    }
-    
-    res.json({
-      success: true,
-      data: memory
-    });
-  } catch (error) {
-    console.error('Error getting memory:', error);
-    res.status(500).json({ 
-      error: 'Failed to get memory',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+// POST /api/memory/memories - Store a memory
+router.post('/memories', createMemoryValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
 
-router.put('/memories/:memoryId', async (req: Request, res: Response) => {
-  try {
-    const { memoryId } = req.params;
-    const updateRequest: UpdateMemoryRequest = req.body;
-    
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    if (!memoryId) {
-      return res.status(400).json({ error: 'Memory ID is required' });
-    }
-    
-    const memory = await memoryService.updateMemory(memoryId, updateRequest);
-    
-    res.json({
-      success: true,
-      data: memory
-    });
-  } catch (error) {
-    console.error('Error updating memory:', error);
-    res.status(500).json({ 
-      error: 'Failed to update memory',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  const memory = await MemoryBankService.getInstance().createMemory(req.user!.user_id, req.body as CreateMemoryRequest);
 
-router.delete('/memories/:memoryId', async (req: Request, res: Response) => {
-  try {
-    const { memoryId } = req.params;
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    if (!memoryId) {
-      return res.status(400).json({ error: 'Memory ID is required' });
-    }
-    
-    const deleted = await memoryService.deleteMemory(memoryId);
-    
-    if (!deleted) {
-      return res.status(404).json({ error: 'Memory not found' });
-    }
-    
-    res.json({
-      success: true,
-      message: 'Memory deleted successfully'
-    });
-  } catch (error) {
-    console.error('Error deleting memory:', error);
-    res.status(500).json({ 
-      error: 'Failed to delete memory',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  res.status(201).json(formatResponse(memory, 'Memory created'));
+}));
 
-router.get('/memories', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const limit = parseInt(req.query['limit'] as string) || 50;
-    const offset = parseInt(req.query['offset'] as string) || 0;
-    
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const memories = await memoryService.getUserMemories(userId, limit, offset);
-    
-    res.json({
-      success: true,
-      data: memories,
-      pagination: {
-        limit,
-        offset,
-        count: memories.length
-      }
-    });
-  } catch (error) {
-    console.error('Error getting user memories:', error);
-    res.status(500).json({ 
-      error: 'Failed to get memories',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+// GET /api/memory/memories - List the user's memories, most important first
+router.get('/memories', listValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
 
-// Pattern operations
-router.post('/patterns', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const patternRequest: CreatePatternRequest = req.body;
-    
-    if (!patternRequest.pattern_type || !patternRequest.pattern_data) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: pattern_type, pattern_data' 
-      });
-    }
+  const limit = (req.query['limit'] as unknown as number | undefined) ?? 50;
+  const offset = (req.query['offset'] as unknown as number | undefined) ?? 0;
+  const memories = await MemoryBankService.getInstance().getUserMemories(req.user!.user_id, limit, offset);
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const pattern = await memoryService.createPattern(userId, patternRequest);
-    
-    res.status(201).json({
-      success: true,
-      data: pattern
-    });
-  } catch (error) {
-    console.error('Error creating pattern:', error);
-    res.status(500).json({ 
-      error: 'Failed to create pattern',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  res.json(formatResponse({
+    memories,
+    pagination: { limit, offset, count: memories.length }
+  }));
+}));
 
-router.get('/patterns', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const patterns = await memoryService.getUserPatterns(userId);
-    
-    res.json({
-      success: true,
-      data: patterns
-    });
-  } catch (error) {
-    console.error('Error getting patterns:', error);
-    res.status(500).json({ 
-      error: 'Failed to get patterns',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+// GET /api/memory/memories/:memoryId - Get a memory
+router.get('/memories/:memoryId', memoryIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const memory = await MemoryBankService.getInstance().getMemory(req.user!.user_id, req.params['memoryId']!);
+  if (!memory) {
+    throw memoryNotFound();
   }
-});
 
-router.put('/patterns/:patternId/strength', async (req: Request, res: Response) => {
-  try {
-    const { patternId } = req.params;
-    const { strengthDelta } = req.body;
-    
-    if (typeof strengthDelta !== 'number') {
-      return res.status(400).json({ 
-        error: 'strengthDelta must be a number' 
-      });
-    }
+  res.json(formatResponse(memory));
+}));
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    if (!patternId) {
-      return res.status(400).json({ error: 'Pattern ID is required' });
-    }
-    
-    const pattern = await memoryService.updatePatternStrength(patternId, strengthDelta);
-    
-    res.json({
-      success: true,
-      data: pattern
-    });
-  } catch (error) {
-    console.error('Error updating pattern strength:', error);
-    res.status(500).json({ 
-      error: 'Failed to update pattern strength',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+// PUT /api/memory/memories/:memoryId - Update a memory
+router.put('/memories/:memoryId', updateMemoryValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const memory = await MemoryBankService.getInstance().updateMemory(
+    req.user!.user_id,
+    req.params['memoryId']!,
+    req.body as UpdateMemoryRequest
+  );
+  if (!memory) {
+    throw memoryNotFound();
   }
-});
 
-// Insight operations
-router.post('/insights', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const insightRequest: CreateInsightRequest = req.body;
-    
-    if (!insightRequest.insight_type || !insightRequest.title || !insightRequest.description) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: insight_type, title, description' 
-      });
-    }
+  res.json(formatResponse(memory, 'Memory updated'));
+}));
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const insight = await memoryService.createInsight(userId, insightRequest);
-    
-    res.status(201).json({
-      success: true,
-      data: insight
-    });
-  } catch (error) {
-    console.error('Error creating insight:', error);
-    res.status(500).json({ 
-      error: 'Failed to create insight',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+// DELETE /api/memory/memories/:memoryId - Delete a memory
+router.delete('/memories/:memoryId', memoryIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
 
-router.get('/insights', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const limit = parseInt(req.query['limit'] as string) || 20;
-    
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const insights = await memoryService.getUserInsights(userId, limit);
-    
-    res.json({
-      success: true,
-      data: insights
-    });
-  } catch (error) {
-    console.error('Error getting insights:', error);
-    res.status(500).json({ 
-      error: 'Failed to get insights',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+  const deleted = await MemoryBankService.getInstance().deleteMemory(req.user!.user_id, req.params['memoryId']!);
+  if (!deleted) {
+    throw memoryNotFound();
   }
-});
 
-// Context operations
-router.post('/contexts', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const contextRequest: CreateContextRequest = req.body;
-    
-    if (!contextRequest.context_type || !contextRequest.context_data) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: context_type, context_data' 
-      });
-    }
+  res.json(formatResponse({ memory_id: req.params['memoryId'] }, 'Memory deleted'));
+}));
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const context = await memoryService.createContext(userId, contextRequest);
-    
-    res.status(201).json({
-      success: true,
-      data: context
-    });
-  } catch (error) {
-    console.error('Error creating context:', error);
-    res.status(500).json({ 
-      error: 'Failed to create context',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+// POST /api/memory/patterns - Record a behavioral pattern
+router.post('/patterns', createPatternValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
 
-router.get('/contexts/active', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const contexts = await memoryService.getActiveContexts(userId);
-    
-    res.json({
-      success: true,
-      data: contexts
-    });
-  } catch (error) {
-    console.error('Error getting active contexts:', error);
-    res.status(500).json({ 
-      error: 'Failed to get active contexts',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  const request = req.body as CreatePatternRequest;
+  await checkConversations(req, [request.conversation_id]);
+  const pattern = await MemoryBankService.getInstance().createPattern(req.user!.user_id, {
+    ...request,
+    pattern_data: { ...request.pattern_data, context: request.pattern_data.context ?? {} }
+  });
 
-router.put('/contexts/:contextId/deactivate', async (req: Request, res: Response) => {
-  try {
-    const { contextId } = req.params;
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    if (!contextId) {
-      return res.status(400).json({ error: 'Context ID is required' });
-    }
-    
-    const deactivated = await memoryService.deactivateContext(contextId);
-    
-    if (!deactivated) {
-      return res.status(404).json({ error: 'Context not found' });
-    }
-    
-    res.json({
-      success: true,
-      message: 'Context deactivated successfully'
-    });
-  } catch (error) {
-    console.error('Error deactivating context:', error);
-    res.status(500).json({ 
-      error: 'Failed to deactivate context',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+  res.status(201).json(formatResponse(pattern, 'Pattern created'));
+}));
 
-// Search and analytics
-router.post('/search', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const searchQuery: MemorySearchQuery = req.body;
-    
-    if (!searchQuery.query) {
-      return res.status(400).json({ 
-        error: 'Search query is required' 
-      });
-    }
+// GET /api/memory/patterns - List the user's patterns
+router.get('/patterns', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const patterns = await MemoryBankService.getInstance().getUserPatterns(req.user!.user_id);
 
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const results = await memoryService.searchMemories(userId, searchQuery);
-    
-    res.json({
-      success: true,
-      data: results,
-      query: searchQuery
-    });
-  } catch (error) {
-    console.error('Error searching memories:', error);
-    res.status(500).json({ 
-      error: 'Failed to search memories',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+  res.json(formatResponse({ patterns }));
+}));
+
+// PUT /api/memory/patterns/:patternId/strength - Strengthen or weaken a pattern
+router.put('/patterns/:patternId/strength', patternStrengthValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const pattern = await MemoryBankService.getInstance().updatePatternStrength(
+    req.user!.user_id,
+    req.params['patternId']!,
+    req.body.strengthDelta as number
+  );
+  if (!pattern) {
+    throw new AppError('Pattern not found', 404, 'PATTERN_NOT_FOUND');
   }
-});
 
-router.get('/summary', async (req: Request, res: Response) => {
-  try {
-    const userId = extractUserId(req);
-    const db = req.app.get('db') as Pool;
-    const memoryService = initMemoryBankService(db);
-    
-    const summary = await memoryService.getMemoryBankSummary(userId);
-    
-    res.json({
-      success: true,
-      data: summary
-    });
-  } catch (error) {
-    console.error('Error getting memory bank summary:', error);
-    res.status(500).json({ 
-      error: 'Failed to get memory bank summary',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+  res.json(formatResponse(pattern, 'Pattern strength updated'));
+}));
+
+// POST /api/memory/insights - Record an insight
+router.post('/insights', createInsightValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const request = req.body as CreateInsightRequest;
+  await checkConversations(req, [request.conversation_id]);
+  const insight = await MemoryBankService.getInstance().createInsight(req.user!.user_id, request);
+
+  res.status(201).json(formatResponse(insight, 'Insight created'));
+}));
+
+// GET /api/memory/insights - List the user's most impactful insights
+router.get('/insights', listInsightsValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const limit = (req.query['limit'] as unknown as number | undefined) ?? 20;
+  const insights = await MemoryBankService.getInstance().getUserInsights(req.user!.user_id, limit);
+
+  res.json(formatResponse({ insights }));
+}));
+
+// POST /api/memory/contexts - Open a conversation thread
+router.post('/contexts', createContextValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const request = req.body as CreateContextRequest;
+  await checkConversations(req, request.related_conversations ?? []);
+  const context = await MemoryBankService.getInstance().createContext(req.user!.user_id, request);
+
+  res.status(201).json(formatResponse(context, 'Context created'));
+}));
+
+// GET /api/memory/contexts/active - List the user's open threads
+router.get('/contexts/active', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const contexts = await MemoryBankService.getInstance().getActiveContexts(req.user!.user_id);
+
+  res.json(formatResponse({ contexts }));
+}));
+
+// PUT /api/memory/contexts/:contextId/deactivate - Close a thread
+router.put('/contexts/:contextId/deactivate', contextIdValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const deactivated = await MemoryBankService.getInstance().deactivateContext(req.user!.user_id, req.params['contextId']!);
+  if (!deactivated) {
+    throw new AppError('Context not found', 404, 'CONTEXT_NOT_FOUND');
   }
-});
 
-// Health check endpoint
-router.get('/health', async (req: Request, res: Response) => {
+  res.json(formatResponse({ context_id: req.params['contextId'] }, 'Context deactivated'));
+}));
+
+// POST /api/memory/search - Search the user's memories
+router.post('/search', searchValidation, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  checkValidation(req);
+
+  const searchQuery = req.body as MemorySearchQuery;
+  const results = await MemoryBankService.getInstance().searchMemories(req.user!.user_id, searchQuery);
+
+  res.json(formatResponse({ results, query: searchQuery }));
+}));
+
+// GET /api/memory/summary - Overview of the user's memory bank
+router.get('/summary', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const summary = await MemoryBankService.getInstance().getMemoryBankSummary(req.user!.user_id);
+
+  res.json(formatResponse(summary));
+}));
+
+// GET /api/memory/health - Memory bank health check
+router.get('/health', asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
   try {
-    const db = req.app.get('db') as Pool;
-    
-    // Test database connection
-    const client = await db.connect();
-    await client.query('SELECT 1');
-    client.release();
-    
-    res.json({
-      success: true,
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      config: {
-        max_memories_per_user: defaultConfig.max_memories_per_user,
-        memory_retention_days: defaultConfig.memory_retention_days,
-        embedding_model: defaultConfig.embedding_model
-      }
-    });
+    await DatabaseService.getInstance().query('SELECT 1');
   } catch (error) {
-    console.error('Memory bank health check failed:', error);
-    res.status(503).json({
-      success: false,
-      status: 'unhealthy',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    throw new AppError('Memory bank database is unavailable', 503, 'SERVICE_UNAVAILABLE');
   }
-});
 
-export default router;
\ No newline at end of file
+  res.json(formatResponse({
+    status: 'healthy',
+    config: {
+      max_memories_per_user: DEFAULT_MEMORY_BANK_CONFIG.max_memories_per_user,
+      memory_retention_days: DEFAULT_MEMORY_BANK_CONFIG.memory_retention_days,
+      embedding_model: MemoryBankService.getInstance().embeddingModel
+    }
+  }));
+}));
+
+export default router;
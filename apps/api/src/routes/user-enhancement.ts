@@ -2,6 +2,7 @@ import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { DatabaseService } from '../services/database';
 import { PersonalityService } from '../services/personalityService';
+import { UserCacheService } from '../services/userCacheService';
 import { AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
@@ -68,7 +69,7 @@ router.patch('/add-birth-date', birthDateValidation, async (req: AuthenticatedRe
       birth_date: birth_date,
       birth_time: currentUser.birth_time,
       birth_location: currentUser.birth_location
-    });
+    }, req.user.user_id);
 
     // Update user record
     const updateResult = await db.query(
@@ -88,6 +89,7 @@ router.patch('/add-birth-date', birthDateValidation, async (req: AuthenticatedRe
       ]
     );
 
+    await UserCacheService.getInstance().invalidate(req.user.user_id);
     const updatedUser = updateResult.rows[0];
 
     return res.status(200).json({
@@ -156,7 +158,7 @@ router.patch('/complete-profile', completeEnhancementValidation, async (req: Aut
       birth_date: birth_date,
       birth_time: birth_time,
       birth_location: birth_location
-    });
+    }, req.user.user_id);
 
     // Update user record with complete data
     const updateResult = await db.query(
@@ -180,6 +182,7 @@ router.patch('/complete-profile', completeEnhancementValidation, async (req: Aut
       ]
     );
 
+    await UserCacheService.getInstance().invalidate(req.user.user_id);
     const updatedUser = updateResult.rows[0];
 
     return res.status(200).json({
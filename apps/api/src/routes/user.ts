@@ -2,6 +2,7 @@ import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { DatabaseService } from '../services/database';
 import { PersonalityService } from '../services/personalityService';
+import { UserCacheService } from '../services/userCacheService';
 import { AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
@@ -108,12 +109,13 @@ router.put('/profile', updateProfileValidation, async (req: AuthenticatedRequest
 
       if (birthData.birth_date && birthData.birth_location) {
         const personalityService = new PersonalityService(db);
-        const personality_profile = await personalityService.generatePersonalityProfile(birthData);
+        const personality_profile = await personalityService.generatePersonalityProfile(birthData, req.user.user_id);
         updates.personality_profile = JSON.stringify(personality_profile);
       }
     }
 
     const updatedUser = await db.updateUser(req.user.user_id, updates);
+    await UserCacheService.getInstance().invalidate(req.user.user_id);
 
     if (!updatedUser) {
       return res.status(404).json({
@@ -173,6 +175,7 @@ router.post('/onboarding', onboardingValidation, async (req: AuthenticatedReques
     };
 
     const updatedUser = await db.updateUser(req.user.user_id, updates);
+    await UserCacheService.getInstance().invalidate(req.user.user_id);
 
     if (!updatedUser) {
       return res.status(404).json({
@@ -291,6 +294,7 @@ router.put('/coaching-goals', coachingGoalsValidation, async (req: Authenticated
     const db = DatabaseService.getInstance();
 
     const updatedUser = await db.updateUser(req.user.user_id, { coaching_goals });
+    await UserCacheService.getInstance().invalidate(req.user.user_id);
 
     if (!updatedUser) {
       return res.status(404).json({
@@ -3,13 +3,14 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { hostname } from 'os';
+import { Server } from 'socket.io';
 import dotenv from 'dotenv';
 import winston from 'winston';
 
 import { AppConfig } from './types';
 import { errorHandler } from './middleware/errorHandler';
-import { authMiddleware } from './middleware/auth';
+import { authMiddleware, requireAdmin } from './middleware/auth';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -18,11 +19,18 @@ import coachingRoutes from './routes/coaching';
 import progressRoutes from './routes/progress';
 import astrologyRoutes from './routes/astrology';
 import userEnhancementRoutes from './routes/user-enhancement';
+import adminRoutes from './routes/admin';
+import memoryRoutes from './routes/memoryBank';
 
 // Import services
 import { DatabaseService } from './services/database';
 import { RedisService } from './services/redis';
-import { SocketService } from './services/socket';
+import { SocketIOServer, SocketService } from './services/socket';
+import { AICoachingService } from './services/aiCoachingService';
+import { coachingModelConfigFromEnv } from './services/coachingModelProvider';
+import { embeddingConfigFromEnv } from './services/embeddingProvider';
+import { MemoryBankService } from './services/memoryBankService';
+import { PatternAnalysisQueue } from './services/patternAnalysisQueue';
 
 // Load environment variables
 dotenv.config();
@@ -74,6 +82,8 @@ const config: AppConfig = {
     max_tokens: parseInt(process.env['OPENAI_MAX_TOKENS'] || '1000'),
     temperature: parseFloat(process.env['OPENAI_TEMPERATURE'] || '0.7')
   },
+  coaching_model: coachingModelConfigFromEnv(),
+  embedding: embeddingConfigFromEnv(),
   cors_origin: process.env['CORS_ORIGIN'] || 'http://localhost:3000',
   rate_limit: {
     window_ms: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] || '900000'), // 15 minutes
@@ -92,7 +102,7 @@ class AgenticCounselServer {
   constructor() {
     this.app = express();
     this.server = createServer(this.app);
-    this.io = new SocketIOServer(this.server, {
+    this.io = new Server(this.server, {
       cors: {
         origin: config.cors_origin,
         methods: ['GET', 'POST']
@@ -101,7 +111,12 @@ class AgenticCounselServer {
 
     this.databaseService = DatabaseService.getInstance(config.database);
     this.redisService = RedisService.getInstance(config.redis);
-    this.socketService = new SocketService(this.io);
+    // Names this instance in Redis presence and on the pattern analysis jobs it runs
+    const instanceId = process.env['SOCKET_INSTANCE_ID'] || `${hostname()}:${config.port}`;
+    this.socketService = new SocketService(this.io, this.redisService, instanceId);
+    AICoachingService.getInstance(config.coaching_model);
+    MemoryBankService.getInstance(config.embedding);
+    PatternAnalysisQueue.getInstance(instanceId);
   }
 
   private setupMiddleware(): void {
@@ -178,6 +193,8 @@ class AgenticCounselServer {
     this.app.use('/api/progress', authMiddleware, progressRoutes);
     this.app.use('/api/astrology', authMiddleware, astrologyRoutes);
     this.app.use('/api/user-enhancement', authMiddleware, userEnhancementRoutes);
+    this.app.use('/api/memory', authMiddleware, memoryRoutes);
+    this.app.use('/api/admin', authMiddleware, requireAdmin, adminRoutes);
 
     // 404 handler
     this.app.use('*', (req, res) => {
@@ -206,9 +223,17 @@ class AgenticCounselServer {
       logger.info('Redis service initialized');
       
       // Initialize socket service
-      this.socketService.initialize();
+      await this.socketService.initialize();
       logger.info('Socket service initialized');
 
+      // Pick up pattern analysis interrupted by the last shutdown, then keep taking over
+      // the jobs of instances that stop while this one runs
+      await PatternAnalysisQueue.getInstance().resumePending();
+      PatternAnalysisQueue.getInstance().startStaleJobSweep();
+
+      // Embed memories stored without a vector from the configured model, outside of searches
+      MemoryBankService.getInstance().startEmbeddingBackfill();
+
     } catch (error) {
       logger.error('Failed to initialize services:', error);
       throw error;
@@ -218,6 +243,8 @@ class AgenticCounselServer {
   private setupGracefulShutdown(): void {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
+      PatternAnalysisQueue.getInstance().stopStaleJobSweep();
+      MemoryBankService.getInstance().stopEmbeddingBackfill();
 
       // Close server
       this.server.close(async () => {
@@ -1,6 +1,12 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { CoachingContext, CoachingResponse, PersonalityProfile, AhaMomentType } from '@/types';
+import { CoachingContext, CoachingResponse, PersonalityProfile, AhaMomentType, CoachingModelConfig, CoachingMemory } from '@/types';
 import winston from 'winston';
+import {
+  CoachingModelCompletion,
+  CoachingModelMessage,
+  CoachingModelProvider,
+  createCoachingModelProvider
+} from './coachingModelProvider';
+import { CoachingMemoryService } from './coachingMemoryService';
 
 const logger = winston.createLogger({
   level: 'info',
@@ -12,22 +18,34 @@ const logger = winston.createLogger({
 });
 
 export class AICoachingService {
-  private anthropic: Anthropic;
-  private model: string;
+  private static instance: AICoachingService;
+  private provider: CoachingModelProvider;
   private maxTokens: number;
   private temperature: number;
   private lastRequestTime: number = 0;
   private minRequestInterval: number = 100; // Minimum 100ms between requests
 
-  constructor(config: { api_key: string; model: string; max_tokens: number; temperature: number }) {
-    this.anthropic = new Anthropic({
-      apiKey: config.api_key
-    });
-    this.model = config.model;
+  constructor(provider: CoachingModelProvider, config: Pick<CoachingModelConfig, 'max_tokens' | 'temperature'>) {
+    this.provider = provider;
     this.maxTokens = config.max_tokens;
     this.temperature = config.temperature;
   }
 
+  /**
+   * The shared service, talking to the model provider chosen by the configuration
+   * given on first initialization
+   */
+  static getInstance(config?: CoachingModelConfig): AICoachingService {
+    if (!AICoachingService.instance) {
+      if (!config) {
+        throw new Error('AICoachingService config is required for first initialization');
+      }
+      AICoachingService.instance = new AICoachingService(createCoachingModelProvider(config), config);
+      logger.info('AI coaching service initialized', { provider: config.provider, model: config.model });
+    }
+    return AICoachingService.instance;
+  }
+
   private async rateLimit(): Promise<void> {
     const now = Date.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
@@ -42,115 +60,49 @@ export class AICoachingService {
 
   async generateCoachingResponse(context: CoachingContext): Promise<CoachingResponse> {
     try {
-      const systemPrompt = this.buildSystemPrompt(context);
-      const userMessage = context.current_message;
-
-      logger.info('Generating coaching response', {
-        sessionType: context.session_type,
-        messageLength: userMessage.length,
-        hasPersonality: !!context.user_personality
-      });
-
-      // Build conversation history for Anthropic API (no system role)
-      const conversationHistory = this.buildConversationHistory(context.conversation_history);
-      
-      // Combine system prompt with user message for Anthropic
-      const fullUserMessage = `${systemPrompt}\n\nUser: ${userMessage}`;
-
-      const messages = [
-        ...conversationHistory,
-        { role: 'user' as const, content: fullUserMessage }
-      ];
+      const messages = this.buildMessages(context);
 
       // Apply rate limiting before making API call
       await this.rateLimit();
-      
-      // Implement robust retry logic for API calls
-      let completion;
-      let retries = 0;
-      const maxRetries = 4; // Increased from 3 to 4
-      
-      while (retries < maxRetries) {
-        try {
-          completion = await this.anthropic.messages.create({
-            model: this.model,
-            max_tokens: this.maxTokens,
-            temperature: this.temperature,
-            messages: messages
-          });
-          
-          // Log successful retry if this wasn't the first attempt
-          if (retries > 0) {
-            logger.info(`Anthropic API call succeeded after ${retries} retries`);
-          }
-          
-          break; // Success, exit retry loop
-        } catch (error: any) {
-          const isRetryableError = 
-            error.status === 529 || // Overloaded
-            error.status === 502 || // Bad Gateway
-            error.status === 503 || // Service Unavailable
-            error.status === 504 || // Gateway Timeout
-            (error.status === 429 && retries < 2); // Rate limited (but only retry first 2 times)
-            
-          if (isRetryableError && retries < maxRetries - 1) {
-            // Calculate exponential backoff with jitter: 1s, 2s, 4s, 8s + random up to 1s
-            const baseWaitTime = Math.pow(2, retries) * 1000;
-            const jitter = Math.random() * 1000; // Add up to 1 second of jitter
-            const waitTime = baseWaitTime + jitter;
-            
-            logger.warn(`Anthropic API error (${error.status}), retrying in ${Math.round(waitTime)}ms...`, { 
-              attempt: retries + 1, 
-              maxRetries,
-              errorType: error.error?.type || 'unknown',
-              errorMessage: error.message
-            });
-            
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-            retries++;
-          } else {
-            // Non-retryable error or max retries reached
-            logger.error(`Anthropic API error after ${retries} retries`, {
-              status: error.status,
-              errorType: error.error?.type,
-              message: error.message
-            });
-            throw error;
-          }
-        }
-      }
-      
-      if (!completion) {
-        throw new Error('Failed to get completion after retries');
-      }
 
-      const rawResponse = completion.content[0]?.type === 'text' ? completion.content[0].text : '';
-      
-      // Analyze response for aha moment delivery
-      const ahaMomentType = this.detectAhaMoment(rawResponse, context);
-      
-      // Personalize the response based on personality profile
-      const personalizedResponse = this.personalizeResponse(rawResponse, context.user_personality);
+      const completion = await this.withRetries(() => this.provider.complete({
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        messages: messages
+      }));
 
-      const response: CoachingResponse = {
-        content: personalizedResponse,
-        metadata: {
-          personality_applied: !!context.user_personality,
-          ...(ahaMomentType && { aha_moment_type: ahaMomentType }),
-          coaching_technique: this.identifyCoachingTechnique(rawResponse),
-          confidence_score: this.calculateConfidenceScore(completion)
-        }
-      };
+      return this.buildCoachingResponse(completion, context);
+    } catch (error) {
+      logger.error('Error generating coaching response:', error);
+      throw error;
+    }
+  }
 
-      logger.info('Coaching response generated', {
-        responseLength: personalizedResponse.length,
-        ahaMoment: ahaMomentType,
-        confidenceScore: response.metadata.confidence_score
-      });
+  /**
+   * Generate a coaching response, passing each text delta to onDelta as it arrives.
+   * Deltas are the raw model text; the returned response holds the personalized content
+   * that is stored. Failed requests are only retried before the first delta.
+   */
+  async streamCoachingResponse(context: CoachingContext, onDelta: (delta: string) => void): Promise<CoachingResponse> {
+    try {
+      const messages = this.buildMessages(context);
 
-      return response;
+      // Apply rate limiting before making API call
+      await this.rateLimit();
+
+      let streamed = false;
+      const completion = await this.withRetries(() => this.provider.stream({
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        messages: messages
+      }, delta => {
+        streamed = true;
+        onDelta(delta);
+      }), () => !streamed);
+
+      return this.buildCoachingResponse(completion, context);
     } catch (error) {
-      logger.error('Error generating coaching response:', error);
+      logger.error('Error streaming coaching response:', error);
       throw error;
     }
   }
@@ -164,8 +116,7 @@ export class AICoachingService {
       const userMessage = `Please deliver the ${momentType} aha moment based on my personality profile.`;
       const fullMessage = `${systemPrompt}\n\nUser: ${userMessage}`;
 
-      const completion = await this.anthropic.messages.create({
-        model: this.model,
+      const completion = await this.provider.complete({
         max_tokens: this.maxTokens,
         temperature: this.temperature - 0.1, // Slightly more focused for aha moments
         messages: [
@@ -173,8 +124,7 @@ export class AICoachingService {
         ]
       });
 
-      const rawResponse = completion.content[0]?.type === 'text' ? completion.content[0].text : '';
-      const personalizedResponse = this.personalizeResponse(rawResponse, context.user_personality);
+      const personalizedResponse = this.personalizeResponse(completion.text, context.user_personality);
 
       const response: CoachingResponse = {
         content: personalizedResponse,
@@ -194,11 +144,116 @@ export class AICoachingService {
     }
   }
 
+  private buildMessages(context: CoachingContext): CoachingModelMessage[] {
+    const systemPrompt = this.buildSystemPrompt(context);
+    const userMessage = context.current_message;
+
+    logger.info('Generating coaching response', {
+      sessionType: context.session_type,
+      messageLength: userMessage.length,
+      hasPersonality: !!context.user_personality
+    });
+
+    // Build conversation history (no system role)
+    const conversationHistory = this.buildConversationHistory(context.conversation_history);
+    
+    // Combine system prompt with user message
+    const fullUserMessage = `${systemPrompt}\n\nUser: ${userMessage}`;
+
+    return [
+      ...conversationHistory,
+      { role: 'user' as const, content: fullUserMessage }
+    ];
+  }
+
+  // Retry overloaded and rate-limited requests with exponential backoff while canRetry allows
+  private async withRetries<T>(request: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+    let retries = 0;
+    const maxRetries = 4; // Increased from 3 to 4
+    
+    while (true) {
+      try {
+        const result = await request();
+        
+        // Log successful retry if this wasn't the first attempt
+        if (retries > 0) {
+          logger.info(`${this.provider.name} model call succeeded after ${retries} retries`);
+        }
+        
+        return result;
+      } catch (error: any) {
+        const isRetryableError = 
+          error.status === 529 || // Overloaded
+          error.status === 502 || // Bad Gateway
+          error.status === 503 || // Service Unavailable
+          error.status === 504 || // Gateway Timeout
+          (error.status === 429 && retries < 2); // Rate limited (but only retry first 2 times)
+          
+        if (isRetryableError && retries < maxRetries - 1 && canRetry()) {
+          // Calculate exponential backoff with jitter: 1s, 2s, 4s, 8s + random up to 1s
+          const baseWaitTime = Math.pow(2, retries) * 1000;
+          const jitter = Math.random() * 1000; // Add up to 1 second of jitter
+          const waitTime = baseWaitTime + jitter;
+          
+          logger.warn(`${this.provider.name} model error (${error.status}), retrying in ${Math.round(waitTime)}ms...`, { 
+            attempt: retries + 1, 
+            maxRetries,
+            errorType: error.error?.type || 'unknown',
+            errorMessage: error.message
+          });
+          
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+          retries++;
+        } else {
+          // Non-retryable error or max retries reached
+          logger.error(`${this.provider.name} model error after ${retries} retries`, {
+            status: error.status,
+            errorType: error.error?.type,
+            message: error.message
+          });
+          throw error;
+        }
+      }
+    }
+  }
+
+  private buildCoachingResponse(completion: CoachingModelCompletion, context: CoachingContext): CoachingResponse {
+    const rawResponse = completion.text;
+    
+    // Analyze response for aha moment delivery
+    const ahaMomentType = this.detectAhaMoment(rawResponse, context);
+    
+    // Personalize the response based on personality profile
+    const personalizedResponse = this.personalizeResponse(rawResponse, context.user_personality);
+
+    const response: CoachingResponse = {
+      content: personalizedResponse,
+      metadata: {
+        personality_applied: !!context.user_personality,
+        ...(ahaMomentType && { aha_moment_type: ahaMomentType }),
+        coaching_technique: this.identifyCoachingTechnique(rawResponse),
+        confidence_score: this.calculateConfidenceScore(completion),
+        ...(context.memory && context.memory.items.length > 0 && {
+          memories_used: CoachingMemoryService.memoriesUsed(context.memory)
+        })
+      }
+    };
+
+    logger.info('Coaching response generated', {
+      responseLength: personalizedResponse.length,
+      ahaMoment: ahaMomentType,
+      confidenceScore: response.metadata.confidence_score
+    });
+
+    return response;
+  }
+
   private buildSystemPrompt(context: CoachingContext): string {
     const personalityContext = this.buildPersonalityContext(context.user_personality);
     const sessionContext = this.buildSessionContext(context.session_type);
     const goalsContext = this.buildGoalsContext(context.coaching_goals);
     const clientName = this.buildClientNameContext(context.user_first_name, context.user_last_name);
+    const memoryContext = this.buildMemoryContext(context.memory);
 
     return `You are an expert executive coach with deep expertise in personality-based coaching and leadership development. Your role is to provide empathetic, insightful, and personalized coaching that demonstrates a profound understanding of the client's unique patterns and challenges.
 
@@ -210,6 +265,8 @@ ${sessionContext}
 
 ${goalsContext}
 
+${memoryContext}
+
 COACHING APPROACH:
 - Use powerful questions rather than direct advice
 - Reflect the client's language and communication style
@@ -299,6 +356,27 @@ Use these insights to personalize your coaching approach and demonstrate underst
     return `GOALS CONTEXT: Current coaching focus areas: ${goals.join(', ')}. Tailor your coaching to support progress in these areas.`;
   }
 
+  private buildMemoryContext(memory: CoachingMemory | undefined): string {
+    if (!memory || memory.items.length === 0) {
+      return 'MEMORY CONTEXT: Nothing from earlier sessions applies yet. Draw on what the client shares now.';
+    }
+
+    const sections = [
+      { source: 'memory', heading: 'What you remember about them' },
+      { source: 'pattern', heading: 'Patterns you have noticed' },
+      { source: 'context', heading: 'Ongoing threads' }
+    ];
+    const lines = sections.flatMap(({ source, heading }) => {
+      const items = memory.items.filter(item => item.source === source);
+      return items.length > 0 ? [`${heading}:`, ...items.map(item => `- ${item.text}`)] : [];
+    });
+
+    return `MEMORY CONTEXT:
+${lines.join('\n')}
+
+Weave these in where they help the client see continuity; do not recite them.`;
+  }
+
   private buildClientNameContext(firstName?: string, lastName?: string): string {
     if (!firstName && !lastName) {
       return 'CLIENT NAME: Client name not available. Use "you" to address them directly.';
@@ -308,7 +386,7 @@ Use these insights to personalize your coaching approach and demonstrate underst
     return `CLIENT NAME: Address the client as "${name}" when appropriate. Use their name naturally in conversation to create personal connection.`;
   }
 
-  private buildConversationHistory(history: any[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+  private buildConversationHistory(history: any[]): CoachingModelMessage[] {
     return history.slice(-6).map(msg => ({
       role: msg.sender_type === 'user' ? 'user' as const : 'assistant' as const,
       content: msg.content
@@ -362,16 +440,16 @@ Use these insights to personalize your coaching approach and demonstrate underst
     return 'supportive_coaching';
   }
 
-  private calculateConfidenceScore(completion: any): number {
+  private calculateConfidenceScore(completion: CoachingModelCompletion): number {
     // Simple confidence calculation based on response characteristics
     let confidence = 0.7; // Base confidence
 
-    // Adjust based on stop reason for Anthropic API
+    // Adjust based on stop reason
     if (completion.stop_reason === 'end_turn') confidence += 0.2;
     if (completion.stop_reason === 'max_tokens') confidence -= 0.1;
 
     // Adjust based on response length (optimal range)
-    const responseLength = completion.content[0]?.type === 'text' ? completion.content[0].text.length : 0;
+    const responseLength = completion.text.length;
     if (responseLength > 100 && responseLength < 500) confidence += 0.1;
 
     return Math.min(Math.max(confidence, 0), 1);
@@ -0,0 +1,163 @@
+import { AspectData, AspectPattern, AspectType, CelestialBody, PlanetaryPosition, ZodiacSign } from '../types';
+
+// Constants
+// Patterns are read between the planets; the nodes, Lilith and the angles are left out
+const PATTERN_BODIES: CelestialBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+  'Uranus', 'Neptune', 'Pluto'
+];
+
+const STELLIUM_MIN_BODIES = 3;
+
+/**
+ * Finds multi-body configurations in a chart's aspect graph (grand trines, T-squares,
+ * grand crosses, yods, kites and mystic rectangles) and stelliums by sign and house.
+ */
+export class AspectPatternDetector {
+  private static instance: AspectPatternDetector;
+
+  static getInstance(): AspectPatternDetector {
+    if (!AspectPatternDetector.instance) {
+      AspectPatternDetector.instance = new AspectPatternDetector();
+    }
+    return AspectPatternDetector.instance;
+  }
+
+  /**
+   * Detect the aspect patterns of a chart. A pattern contained in a larger one (the
+   * T-squares of a grand cross, the grand trine of a kite) is not reported on its own.
+   */
+  detectPatterns(planetaryPositions: PlanetaryPosition[], aspects: AspectData[]): AspectPattern[] {
+    const positions = planetaryPositions.filter(position => PATTERN_BODIES.includes(this.bodyOf(position)));
+    const bodies = this.sortBodies(positions.map(position => this.bodyOf(position)));
+
+    const aspectTypes = new Map<string, AspectType>();
+    for (const aspect of aspects) {
+      aspectTypes.set(this.pairKey(aspect.body1, aspect.body2), aspect.aspect_type);
+    }
+    const is = (a: CelestialBody, b: CelestialBody, aspectType: AspectType) =>
+      aspectTypes.get(this.pairKey(a, b)) === aspectType;
+
+    const oppositions = this.pairs(bodies).filter(([a, b]) => is(a, b, 'opposition'));
+
+    // Grand trines, and kites built on them
+    const grandTrines: CelestialBody[][] = [];
+    const kites: AspectPattern[] = [];
+    for (const [a, b, c] of this.triples(bodies)) {
+      if (!is(a, b, 'trine') || !is(b, c, 'trine') || !is(a, c, 'trine')) continue;
+      grandTrines.push([a, b, c]);
+
+      for (const focal of bodies) {
+        const others = [a, b, c].filter(body => !is(focal, body, 'sextile'));
+        if (others.length === 1 && is(focal, others[0]!, 'opposition')) {
+          kites.push({ pattern_type: 'kite', bodies: this.sortBodies([a, b, c, focal]), focal_body: focal });
+        }
+      }
+    }
+
+    // Grand crosses and mystic rectangles both pair two oppositions
+    const grandCrosses: AspectPattern[] = [];
+    const mysticRectangles: AspectPattern[] = [];
+    oppositions.forEach(([a, b], index) => {
+      for (const [c, d] of oppositions.slice(index + 1)) {
+        if (new Set([a, b, c, d]).size < 4) continue;
+        const crossBodies = this.sortBodies([a, b, c, d]);
+
+        if (is(a, c, 'square') && is(a, d, 'square') && is(b, c, 'square') && is(b, d, 'square')) {
+          grandCrosses.push({ pattern_type: 'grand_cross', bodies: crossBodies });
+        }
+
+        const sextileTrine = (x: CelestialBody) =>
+          (is(x, c, 'sextile') && is(x, d, 'trine')) || (is(x, c, 'trine') && is(x, d, 'sextile'));
+        if (sextileTrine(a) && sextileTrine(b)) {
+          mysticRectangles.push({ pattern_type: 'mystic_rectangle', bodies: crossBodies });
+        }
+      }
+    });
+
+    const tSquares: AspectPattern[] = [];
+    for (const [a, b] of oppositions) {
+      for (const apex of bodies) {
+        if (!is(apex, a, 'square') || !is(apex, b, 'square')) continue;
+        const squareBodies = this.sortBodies([a, b, apex]);
+        if (grandCrosses.some(cross => squareBodies.every(body => cross.bodies.includes(body)))) continue;
+        tSquares.push({ pattern_type: 't_square', bodies: squareBodies, focal_body: apex });
+      }
+    }
+
+    const yods: AspectPattern[] = [];
+    for (const [a, b] of this.pairs(bodies).filter(([a, b]) => is(a, b, 'sextile'))) {
+      for (const apex of bodies) {
+        if (is(apex, a, 'quincunx') && is(apex, b, 'quincunx')) {
+          yods.push({ pattern_type: 'yod', bodies: this.sortBodies([a, b, apex]), focal_body: apex });
+        }
+      }
+    }
+
+    const standaloneGrandTrines: AspectPattern[] = grandTrines
+      .filter(trine => !kites.some(kite => trine.every(body => kite.bodies.includes(body))))
+      .map(trine => ({ pattern_type: 'grand_trine', bodies: trine }));
+
+    return [
+      ...standaloneGrandTrines,
+      ...tSquares,
+      ...grandCrosses,
+      ...yods,
+      ...kites,
+      ...mysticRectangles,
+      ...this.detectStelliums(positions)
+    ];
+  }
+
+  // Private helper methods
+
+  private detectStelliums(positions: PlanetaryPosition[]): AspectPattern[] {
+    const bySign = new Map<ZodiacSign, CelestialBody[]>();
+    const byHouse = new Map<number, CelestialBody[]>();
+
+    for (const position of positions) {
+      const body = this.bodyOf(position);
+      bySign.set(position.zodiac_sign, [...(bySign.get(position.zodiac_sign) ?? []), body]);
+      if (position.house_number != null) {
+        byHouse.set(position.house_number, [...(byHouse.get(position.house_number) ?? []), body]);
+      }
+    }
+
+    const stelliums: AspectPattern[] = [];
+    for (const [sign, bodies] of bySign) {
+      if (bodies.length >= STELLIUM_MIN_BODIES) {
+        stelliums.push({ pattern_type: 'stellium', bodies: this.sortBodies(bodies), zodiac_sign: sign });
+      }
+    }
+    for (const [houseNumber, bodies] of byHouse) {
+      if (bodies.length >= STELLIUM_MIN_BODIES) {
+        stelliums.push({ pattern_type: 'stellium', bodies: this.sortBodies(bodies), house_number: houseNumber });
+      }
+    }
+    return stelliums;
+  }
+
+  private bodyOf(position: PlanetaryPosition): CelestialBody {
+    return position.celestial_body || position.body;
+  }
+
+  private sortBodies(bodies: CelestialBody[]): CelestialBody[] {
+    return [...bodies].sort((a, b) => PATTERN_BODIES.indexOf(a) - PATTERN_BODIES.indexOf(b));
+  }
+
+  private pairKey(a: CelestialBody, b: CelestialBody): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private pairs(bodies: CelestialBody[]): [CelestialBody, CelestialBody][] {
+    return bodies.flatMap((a, i) => bodies.slice(i + 1).map(b => [a, b] as [CelestialBody, CelestialBody]));
+  }
+
+  private triples(bodies: CelestialBody[]): [CelestialBody, CelestialBody, CelestialBody][] {
+    return this.pairs(bodies).flatMap(([a, b]) =>
+      bodies.slice(bodies.indexOf(b) + 1).map(c => [a, b, c] as [CelestialBody, CelestialBody, CelestialBody])
+    );
+  }
+}
+
+export default AspectPatternDetector;
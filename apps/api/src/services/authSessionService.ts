@@ -0,0 +1,220 @@
+import { createHash, randomUUID } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import winston from 'winston';
+import { AuthSession } from '@/types';
+import { AppError } from '../middleware/errorHandler';
+import { generateRefreshToken } from '../middleware/auth';
+import { RedisService, RedisStore } from './redis';
+import { SocketService } from './socket';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/auth.log' })
+  ]
+});
+
+export interface DeviceInfo {
+  device_name?: string | undefined;
+  user_agent?: string | undefined;
+  ip_address?: string | undefined;
+}
+
+interface StoredSession {
+  session_id: string;
+  user_id: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  refresh_token_hash: string; // Of the one refresh token of the session still valid
+}
+
+export interface IssuedSession {
+  session_id: string;
+  user_id: string;
+  refresh_token: string;
+}
+
+// The payload of a refresh token issued for a session
+type RefreshTokenClaims = JwtPayload & { user_id: string; session_id: string };
+
+const isRefreshTokenClaims = (claims: string | JwtPayload): claims is RefreshTokenClaims =>
+  typeof claims === 'object' &&
+  claims['type'] === 'refresh' &&
+  typeof claims['user_id'] === 'string' &&
+  typeof claims['session_id'] === 'string';
+
+const sessionKey = (sessionId: string) => `auth:session:${sessionId}`;
+const userSessionsKey = (userId: string) => `auth:sessions:${userId}`;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * The devices a user is signed in on. Each login starts a session holding one refresh
+ * token; refreshing replaces it with a new one, so all the tokens a session has issued
+ * form one family. A refresh token that was already replaced is being reused, most
+ * likely because it was stolen, and ends the session for everyone holding its family.
+ */
+export class AuthSessionService {
+  private static instance: AuthSessionService;
+
+  constructor(private store: RedisStore) {}
+
+  static getInstance(): AuthSessionService {
+    if (!AuthSessionService.instance) {
+      AuthSessionService.instance = new AuthSessionService(RedisService.getInstance());
+    }
+    return AuthSessionService.instance;
+  }
+
+  /**
+   * Start a session for a device that just signed in
+   */
+  async createSession(userId: string, device: DeviceInfo = {}): Promise<IssuedSession> {
+    const sessionId = randomUUID();
+    const now = new Date().toISOString();
+
+    const refreshToken = await this.save({
+      session_id: sessionId,
+      user_id: userId,
+      device_name: device.device_name ?? null,
+      user_agent: device.user_agent ?? null,
+      ip_address: device.ip_address ?? null,
+      created_at: now,
+      last_used_at: now
+    });
+    await this.store.addToSet(userSessionsKey(userId), sessionId);
+
+    logger.info('Auth session created', { userId, sessionId });
+    return { session_id: sessionId, user_id: userId, refresh_token: refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for the next one of its session. Presenting a token the
+   * session has already replaced revokes the session.
+   */
+  async rotate(refreshToken: string, device: DeviceInfo = {}): Promise<IssuedSession> {
+    const claims = this.verify(refreshToken);
+    const session: StoredSession | null = await this.store.get(sessionKey(claims.session_id));
+
+    if (!session || session.user_id !== claims.user_id) {
+      throw new AppError('Session has been revoked or has expired', 401, 'SESSION_REVOKED');
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    if (session.refresh_token_hash !== tokenHash) {
+      return this.revokeReused(session);
+    }
+
+    // Swapped only while the session still holds this token, so of two concurrent
+    // rotations one wins and the other counts as reuse
+    const next = this.issue({
+      ...session,
+      last_used_at: new Date().toISOString(),
+      ...(device.user_agent && { user_agent: device.user_agent }),
+      ...(device.ip_address && { ip_address: device.ip_address })
+    });
+    if (!(await this.store.compareAndSet(sessionKey(session.session_id), 'refresh_token_hash', tokenHash, next.session, next.ttlSeconds))) {
+      return this.revokeReused(session);
+    }
+    return { session_id: session.session_id, user_id: session.user_id, refresh_token: next.refreshToken };
+  }
+
+  /**
+   * The user's active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<AuthSession[]> {
+    const sessions: AuthSession[] = [];
+    for (const sessionId of await this.store.getSetMembers(userSessionsKey(userId))) {
+      const session: StoredSession | null = await this.store.get(sessionKey(sessionId));
+      if (!session) {
+        // Expired; its key is gone but the index still lists it
+        await this.store.removeFromSet(userSessionsKey(userId), sessionId);
+        continue;
+      }
+      sessions.push({
+        session_id: session.session_id,
+        device_name: session.device_name,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: new Date(session.created_at),
+        last_used_at: new Date(session.last_used_at),
+        expires_at: new Date(session.expires_at),
+        current: session.session_id === currentSessionId
+      });
+    }
+    return sessions.sort((a, b) => b.last_used_at.getTime() - a.last_used_at.getTime());
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    return (await this.store.get(sessionKey(sessionId))) !== null;
+  }
+
+  /**
+   * End one of the user's sessions; resolves false when the user has no such session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session: StoredSession | null = await this.store.get(sessionKey(sessionId));
+    if (!session || session.user_id !== userId) return false;
+
+    await this.remove(userId, sessionId);
+    logger.info('Auth session revoked', { userId, sessionId });
+    return true;
+  }
+
+  // Issue the next refresh token of a session and store the session until it expires
+  private async save(session: Omit<StoredSession, 'expires_at' | 'refresh_token_hash'>): Promise<string> {
+    const next = this.issue(session);
+    await this.store.set(sessionKey(session.session_id), next.session, next.ttlSeconds);
+    return next.refreshToken;
+  }
+
+  // The next refresh token of a session, and the session holding it
+  private issue(session: Omit<StoredSession, 'expires_at' | 'refresh_token_hash'>) {
+    const refreshToken = generateRefreshToken(session.user_id, session.session_id);
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+
+    const stored: StoredSession = {
+      ...session,
+      expires_at: new Date(exp * 1000).toISOString(),
+      refresh_token_hash: hashToken(refreshToken)
+    };
+    return { refreshToken, session: stored, ttlSeconds: Math.max(1, exp - Math.floor(Date.now() / 1000)) };
+  }
+
+  private async revokeReused(session: StoredSession): Promise<never> {
+    logger.warn('Refresh token reused, revoking its session', { userId: session.user_id, sessionId: session.session_id });
+    await this.remove(session.user_id, session.session_id);
+    throw new AppError('Refresh token has already been used', 401, 'REFRESH_TOKEN_REUSED');
+  }
+
+  // Tokens of a removed session are rejected from then on; its open sockets are closed
+  private async remove(userId: string, sessionId: string): Promise<void> {
+    await this.store.del(sessionKey(sessionId));
+    await this.store.removeFromSet(userSessionsKey(userId), sessionId);
+    SocketService.getInstance()?.disconnectSession(sessionId);
+  }
+
+  private verify(refreshToken: string): RefreshTokenClaims {
+    const jwtSecret = process.env['JWT_SECRET'];
+    if (!jwtSecret) {
+      throw new AppError('Server configuration error', 500, 'CONFIG_ERROR');
+    }
+
+    let claims: string | JwtPayload;
+    try {
+      claims = jwt.verify(refreshToken, jwtSecret);
+    } catch (error) {
+      throw new AppError('Invalid or expired refresh token', 401, 'INVALID_REFRESH_TOKEN');
+    }
+    if (!isRefreshTokenClaims(claims)) {
+      throw new AppError('Invalid or expired refresh token', 401, 'INVALID_REFRESH_TOKEN');
+    }
+    return claims;
+  }
+}
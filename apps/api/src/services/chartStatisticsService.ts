@@ -0,0 +1,177 @@
+import { CelestialBody, ChartStatistics, Element, HouseCusp, Modality, PlanetaryPosition, ZodiacSign } from '../types';
+
+// Constants
+// Statistics are taken over the planets; the nodes, Lilith and the angles are left out
+const STATISTICS_BODIES: CelestialBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+  'Uranus', 'Neptune', 'Pluto'
+];
+
+export const SIGN_ELEMENTS: Record<ZodiacSign, Element> = {
+  Aries: 'fire', Leo: 'fire', Sagittarius: 'fire',
+  Taurus: 'earth', Virgo: 'earth', Capricorn: 'earth',
+  Gemini: 'air', Libra: 'air', Aquarius: 'air',
+  Cancer: 'water', Scorpio: 'water', Pisces: 'water'
+};
+
+export const SIGN_MODALITIES: Record<ZodiacSign, Modality> = {
+  Aries: 'cardinal', Cancer: 'cardinal', Libra: 'cardinal', Capricorn: 'cardinal',
+  Taurus: 'fixed', Leo: 'fixed', Scorpio: 'fixed', Aquarius: 'fixed',
+  Gemini: 'mutable', Virgo: 'mutable', Sagittarius: 'mutable', Pisces: 'mutable'
+};
+
+// Chart shape thresholds, in degrees of zodiac occupied or left empty
+const BUNDLE_MAX_SPAN = 120;
+const BOWL_MAX_SPAN = 180;
+const LOCOMOTIVE_MAX_SPAN = 240;
+const EMPTY_SPACE_MIN = 60;
+
+// Houses opening each quadrant
+const QUADRANT_CUSPS = [1, 4, 7, 10];
+
+export type ChartBalance = Pick<ChartStatistics, 'elements' | 'modalities' | 'dominant_element' | 'dominant_modality'>;
+
+/**
+ * Summarizes the distribution of the planets in a chart: element and modality balance,
+ * hemisphere and quadrant emphasis, and the overall chart shape (Jones patterns).
+ */
+export class ChartStatisticsService {
+  private static instance: ChartStatisticsService;
+
+  static getInstance(): ChartStatisticsService {
+    if (!ChartStatisticsService.instance) {
+      ChartStatisticsService.instance = new ChartStatisticsService();
+    }
+    return ChartStatisticsService.instance;
+  }
+
+  /**
+   * Calculate the statistics of a chart. Hemispheres and quadrants need the house
+   * cusps and are left out without them.
+   */
+  calculateStatistics(planetaryPositions: PlanetaryPosition[], houseCusps: HouseCusp[] = []): ChartStatistics {
+    const positions = this.planets(planetaryPositions);
+    const quadrants = this.calculateQuadrants(positions, houseCusps);
+
+    return {
+      ...this.calculateBalance(positions),
+      ...(quadrants && {
+        hemispheres: {
+          eastern: [...quadrants[3], ...quadrants[0]],
+          western: [...quadrants[1], ...quadrants[2]],
+          northern: [...quadrants[0], ...quadrants[1]],
+          southern: [...quadrants[2], ...quadrants[3]]
+        },
+        quadrants
+      }),
+      ...this.classifyShape(positions)
+    };
+  }
+
+  /**
+   * Group the planets by element and modality. A tie for the most planets has no
+   * dominant element or modality.
+   */
+  calculateBalance(planetaryPositions: PlanetaryPosition[]): ChartBalance {
+    const elements: Record<Element, CelestialBody[]> = { fire: [], earth: [], air: [], water: [] };
+    const modalities: Record<Modality, CelestialBody[]> = { cardinal: [], fixed: [], mutable: [] };
+
+    for (const position of this.planets(planetaryPositions)) {
+      elements[SIGN_ELEMENTS[position.zodiac_sign]].push(this.bodyOf(position));
+      modalities[SIGN_MODALITIES[position.zodiac_sign]].push(this.bodyOf(position));
+    }
+
+    return {
+      elements,
+      modalities,
+      dominant_element: this.dominant(elements),
+      dominant_modality: this.dominant(modalities)
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Sort the planets into quadrants by the cusps of houses 1, 4, 7 and 10
+   */
+  private calculateQuadrants(
+    positions: PlanetaryPosition[],
+    houseCusps: HouseCusp[]
+  ): NonNullable<ChartStatistics['quadrants']> | null {
+    const cusps = QUADRANT_CUSPS.map(houseNumber =>
+      houseCusps.find(cusp => cusp.house_number === houseNumber)?.cusp_longitude
+    );
+    if (cusps.some(cusp => cusp === undefined)) return null;
+
+    const quadrants: NonNullable<ChartStatistics['quadrants']> = [[], [], [], []];
+    for (const position of positions) {
+      const index = cusps.findIndex((start, quadrant) => {
+        const end = cusps[(quadrant + 1) % cusps.length]!;
+        return this.arcLength(start!, position.longitude) < this.arcLength(start!, end);
+      });
+      quadrants[index === -1 ? 0 : index]!.push(this.bodyOf(position));
+    }
+    return quadrants;
+  }
+
+  /**
+   * Classify the chart shape from the empty spaces between the planets, checking the
+   * tighter shapes first
+   */
+  private classifyShape(positions: PlanetaryPosition[]): Pick<ChartStatistics, 'chart_shape' | 'leading_body' | 'handle_body'> {
+    const sorted = [...positions].sort((a, b) => a.longitude - b.longitude);
+    if (sorted.length < 2) return { chart_shape: 'bundle' };
+
+    // gaps[i] is the empty space after sorted[i], going forward through the zodiac
+    const gaps = sorted.map((position, index) =>
+      this.arcLength(position.longitude, sorted[(index + 1) % sorted.length]!.longitude)
+    );
+    const widest = gaps.indexOf(Math.max(...gaps));
+    const span = 360 - gaps[widest]!;
+    // The planet after the widest empty space rises first
+    const leading = this.bodyOf(sorted[(widest + 1) % sorted.length]!);
+
+    if (span <= BUNDLE_MAX_SPAN) return { chart_shape: 'bundle', leading_body: leading };
+    if (span <= BOWL_MAX_SPAN) return { chart_shape: 'bowl', leading_body: leading };
+
+    // A bucket is a bowl with one planet standing apart in the empty half
+    const handle = sorted.findIndex((_, index) => {
+      const before = gaps[(index - 1 + gaps.length) % gaps.length]!;
+      const after = gaps[index]!;
+      return before >= EMPTY_SPACE_MIN && after >= EMPTY_SPACE_MIN && 360 - (before + after) <= BOWL_MAX_SPAN;
+    });
+    if (handle !== -1) return { chart_shape: 'bucket', handle_body: this.bodyOf(sorted[handle]!) };
+
+    // A locomotive leaves a single empty trine; two empty spaces make a seesaw however wide
+    const emptySpaces = gaps.filter(gap => gap >= EMPTY_SPACE_MIN).length;
+    if (span <= LOCOMOTIVE_MAX_SPAN && emptySpaces === 1) return { chart_shape: 'locomotive', leading_body: leading };
+    if (emptySpaces === 2) return { chart_shape: 'seesaw' };
+    if (emptySpaces > 2) return { chart_shape: 'splay' };
+    return { chart_shape: 'splash' };
+  }
+
+  private dominant<K extends string>(groups: Record<K, CelestialBody[]>): K | null {
+    const ranked = (Object.entries(groups) as Array<[K, CelestialBody[]]>).sort((a, b) => b[1].length - a[1].length);
+    const [top, runnerUp] = ranked;
+    if (!top || top[1].length === 0 || (runnerUp && runnerUp[1].length === top[1].length)) return null;
+    return top[0];
+  }
+
+  // The planets of a chart, in the standard order
+  private planets(positions: PlanetaryPosition[]): PlanetaryPosition[] {
+    return STATISTICS_BODIES
+      .map(body => positions.find(position => this.bodyOf(position) === body))
+      .filter((position): position is PlanetaryPosition => position !== undefined);
+  }
+
+  // Degrees travelled forward through the zodiac from one longitude to another
+  private arcLength(from: number, to: number): number {
+    return ((to - from) % 360 + 360) % 360;
+  }
+
+  private bodyOf(position: PlanetaryPosition): CelestialBody {
+    return position.celestial_body || position.body;
+  }
+}
+
+export default ChartStatisticsService;
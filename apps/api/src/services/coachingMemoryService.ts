@@ -0,0 +1,146 @@
+import { CoachingMemory, CoachingMemoryItem, MemoriesUsed } from '@/types';
+import winston from 'winston';
+import { DEFAULT_MEMORY_BANK_CONFIG, MemoryBankService, flattenMemoryContent } from './memoryBankService';
+import { MemoryContext, MemoryPattern, MemorySearchResult, UserMemoryBank } from '../types/memoryBank';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/coaching-memory.log' })
+  ]
+});
+
+export interface CoachingMemoryConfig {
+  token_budget: number;
+  max_memories: number;
+  max_patterns: number;
+  max_contexts: number;
+  pattern_strength_threshold: number;
+}
+
+const DEFAULT_CONFIG: CoachingMemoryConfig = {
+  token_budget: parseInt(process.env['COACHING_MEMORY_TOKEN_BUDGET'] || '400'),
+  max_memories: 5,
+  max_patterns: 3,
+  max_contexts: 3,
+  pattern_strength_threshold: DEFAULT_MEMORY_BANK_CONFIG.pattern_strength_threshold
+};
+
+// Rough prompt-token estimate; close enough for English text with Claude and GPT tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Assembles what the memory bank knows about a client for a coaching reply: the stored
+ * memories most relevant to the current message, found by semantic search over the whole bank, the strongest behavioral patterns and
+ * the active conversation threads, trimmed to a prompt token budget.
+ */
+export class CoachingMemoryService {
+  private static instance: CoachingMemoryService;
+  private memoryBank: MemoryBankService;
+  private config: CoachingMemoryConfig;
+
+  constructor(memoryBank: MemoryBankService, config: Partial<CoachingMemoryConfig> = {}) {
+    this.memoryBank = memoryBank;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  static getInstance(): CoachingMemoryService {
+    if (!CoachingMemoryService.instance) {
+      CoachingMemoryService.instance = new CoachingMemoryService(MemoryBankService.getInstance());
+    }
+    return CoachingMemoryService.instance;
+  }
+
+  /**
+   * Retrieve the memory for a reply to the given message. Relevant memories are placed
+   * first, then patterns, then active contexts; an item that does not fit the remaining
+   * budget is skipped in favour of smaller ones after it.
+   */
+  async assembleMemory(userId: string, message: string, tokenBudget: number = this.config.token_budget): Promise<CoachingMemory> {
+    const [memories, patterns, contexts] = await Promise.all([
+      this.searchMemories(userId, message),
+      this.memoryBank.getUserPatterns(userId),
+      this.memoryBank.getActiveContexts(userId)
+    ]);
+
+    const candidates: CoachingMemoryItem[] = [
+      ...memories.map(({ memory }) => ({ source: 'memory' as const, id: memory.memory_id, text: this.describeMemory(memory) })),
+      ...patterns
+        .filter(pattern => pattern.strength_score >= this.config.pattern_strength_threshold)
+        .slice(0, this.config.max_patterns)
+        .map(pattern => ({ source: 'pattern' as const, id: pattern.pattern_id, text: this.describePattern(pattern) })),
+      ...contexts
+        .slice(0, this.config.max_contexts)
+        .map(context => ({ source: 'context' as const, id: context.context_id, text: this.describeContext(context) }))
+    ];
+
+    const items: CoachingMemoryItem[] = [];
+    let tokenCount = 0;
+    for (const candidate of candidates) {
+      const tokens = this.estimateTokens(candidate.text);
+      if (tokenCount + tokens > tokenBudget) continue;
+      items.push(candidate);
+      tokenCount += tokens;
+    }
+
+    const memoryIds = items.filter(item => item.source === 'memory').map(item => item.id);
+    this.memoryBank.markReferenced(memoryIds).catch(error => {
+      logger.warn('Could not mark memories referenced', { userId, error: (error as Error).message });
+    });
+
+    logger.info('Coaching memory assembled', {
+      userId,
+      candidates: candidates.length,
+      items: items.length,
+      tokenCount,
+      tokenBudget
+    });
+
+    return { items, token_count: tokenCount, token_budget: tokenBudget };
+  }
+
+  /**
+   * The ids of the memory bank entries in an assembled memory, for message metadata
+   */
+  static memoriesUsed(memory: CoachingMemory): MemoriesUsed {
+    const idsOf = (source: CoachingMemoryItem['source']) =>
+      memory.items.filter(item => item.source === source).map(item => item.id);
+    return { memory_ids: idsOf('memory'), pattern_ids: idsOf('pattern'), context_ids: idsOf('context') };
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  // Private helper methods
+
+  // Memories ranked by embedding similarity to the message, importance and recency
+  private async searchMemories(userId: string, message: string): Promise<MemorySearchResult[]> {
+    if (message.trim() === '') return [];
+    return this.memoryBank.searchMemories(userId, { query: message, limit: this.config.max_memories });
+  }
+
+  private describeMemory(memory: UserMemoryBank): string {
+    return `[${memory.memory_type}, ${memory.category}] ${flattenMemoryContent(memory.content)}`;
+  }
+
+  private describePattern(pattern: MemoryPattern): string {
+    const { description, triggers } = pattern.pattern_data;
+    const triggered = triggers.length > 0 ? `; triggered by ${triggers.join(', ')}` : '';
+    return `[${pattern.pattern_type}] ${description} (seen ${pattern.frequency_count} times${triggered})`;
+  }
+
+  private describeContext(context: MemoryContext): string {
+    const { summary, key_points: keyPoints, action_items: actionItems = [] } = context.context_data;
+    const parts = [
+      `${context.title ? `${context.title}: ` : ''}${summary}`,
+      ...(keyPoints.length > 0 ? [`key points: ${keyPoints.join('; ')}`] : []),
+      ...(actionItems.length > 0 ? [`open actions: ${actionItems.join('; ')}`] : [])
+    ];
+    return `[${context.context_type}] ${parts.join('. ')}`;
+  }
+}
+
+export default CoachingMemoryService;
@@ -0,0 +1,318 @@
+import { randomUUID } from 'crypto';
+import winston from 'winston';
+import { CoachingContext, CoachingMemory, CoachingResponse, CoachingSession, Message, SyncMessagesResult } from '@/types';
+import { AppError } from '../middleware/errorHandler';
+import { AICoachingService } from './aiCoachingService';
+import { CoachingMemoryService } from './coachingMemoryService';
+import { DatabaseService } from './database';
+import { SocketService } from './socket';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/coaching.log' })
+  ]
+});
+
+type CoachingModel = Pick<AICoachingService, 'generateCoachingResponse' | 'streamCoachingResponse'>;
+
+export interface UserMessageInput {
+  content: string;
+  metadata?: Record<string, any>;
+  client_message_id?: string;
+}
+
+export interface StoredUserMessage {
+  conversation: CoachingSession;
+  user_message: Message;
+  duplicate: boolean; // Stored before under the same client_message_id
+}
+
+export interface CoachReply {
+  coach_response: Message;
+  coaching_metadata?: CoachingResponse['metadata'];
+  is_fallback: boolean;
+}
+
+const DEFAULT_SYNC_LIMIT = 100;
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Memory bank context for a coach reply; coaching goes on without it when retrieval fails
+ */
+export async function loadCoachingMemory(userId: string, message: string): Promise<CoachingMemory | undefined> {
+  try {
+    return await CoachingMemoryService.getInstance().assembleMemory(userId, message);
+  } catch (memoryError) {
+    logger.error('Memory retrieval failed, replying without it', { userId, error: memoryError });
+    return undefined;
+  }
+}
+
+// Fallback coach message stored when the AI service fails, worded by the kind of failure
+const buildFallbackCoachMessage = (conversationId: string, aiError: unknown, streamId?: string) => {
+  let fallbackContent = "I apologize, but I'm experiencing some technical difficulties at the moment. Your message has been received, and I'll respond as soon as possible.";
+  let errorType = 'ai_service_unavailable';
+
+  // Provide more specific feedback based on error type
+  if (aiError instanceof Error && 'status' in aiError) {
+    const status = aiError.status;
+    if (status === 529) {
+      fallbackContent = "I'm currently experiencing high demand and temporary server overload. Your message has been received, and I'll respond shortly once the system stabilizes. Please try sending your message again in a few moments.";
+      errorType = 'api_overloaded';
+    } else if (status === 401) {
+      fallbackContent = "I'm experiencing authentication issues with my AI service. Your message has been received, and our technical team has been notified. Please try again later.";
+      errorType = 'api_authentication_error';
+    } else if (status === 429) {
+      fallbackContent = "I'm temporarily rate-limited due to high usage. Your message has been received, and I'll respond as soon as the rate limit resets. Please try again in a few minutes.";
+      errorType = 'api_rate_limited';
+    }
+  }
+
+  return {
+    conversation_id: conversationId,
+    sender_type: 'coach',
+    content: fallbackContent,
+    metadata: {
+      is_fallback: true,
+      error_type: errorType,
+      original_error: aiError instanceof Error ? aiError.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+      ...(streamId && { stream_id: streamId })
+    }
+  };
+};
+
+/**
+ * The message pipeline of a coaching conversation, shared by the REST endpoint and the
+ * send_message socket event: store the user message, then reply with the coach, in full
+ * or streamed. Every stored message is also sent to the conversation room.
+ */
+export class CoachingMessageService {
+  private static instance: CoachingMessageService;
+  private db: DatabaseService;
+  private coach: CoachingModel;
+
+  constructor(db: DatabaseService, coach: CoachingModel) {
+    this.db = db;
+    this.coach = coach;
+  }
+
+  static getInstance(): CoachingMessageService {
+    if (!CoachingMessageService.instance) {
+      CoachingMessageService.instance = new CoachingMessageService(DatabaseService.getInstance(), AICoachingService.getInstance());
+    }
+    return CoachingMessageService.instance;
+  }
+
+  /**
+   * Store a user message in an active conversation of the user. With a client_message_id,
+   * a retry returns the message stored by the first attempt instead of adding another.
+   */
+  async storeUserMessage(userId: string, conversationId: string, input: UserMessageInput): Promise<StoredUserMessage> {
+    const conversationResult = await this.db.query(`
+      SELECT * FROM coaching_conversations
+      WHERE conversation_id = $1 AND user_id = $2 AND status = 'active'
+    `, [conversationId, userId]);
+
+    if (conversationResult.rows.length === 0) {
+      throw new AppError('Active conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+    const conversation = conversationResult.rows[0];
+
+    if (input.client_message_id) {
+      const existing = await this.findByClientMessageId(conversationId, input.client_message_id);
+      if (existing) return { conversation, user_message: existing, duplicate: true };
+    }
+
+    let userMessage: Message;
+    try {
+      userMessage = await this.db.addMessage({
+        conversation_id: conversationId,
+        sender_type: 'user',
+        content: input.content,
+        metadata: input.metadata,
+        client_message_id: input.client_message_id
+      });
+    } catch (error) {
+      // A concurrent attempt with the same client_message_id stored it first
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION && input.client_message_id) {
+        const existing = await this.findByClientMessageId(conversationId, input.client_message_id);
+        if (existing) return { conversation, user_message: existing, duplicate: true };
+      }
+      throw error;
+    }
+
+    SocketService.getInstance()?.sendMessageToConversation(conversationId, 'new_message', userMessage);
+    return { conversation, user_message: userMessage, duplicate: false };
+  }
+
+  /**
+   * Generate and store the coach reply to a user message. When the AI service fails,
+   * a fallback coach message is stored instead.
+   */
+  async reply(userId: string, conversation: CoachingSession, userMessage: Message): Promise<CoachReply> {
+    const conversationId = conversation.conversation_id;
+    let reply: CoachReply;
+
+    try {
+      const coachingContext = await this.buildContext(userId, conversation, userMessage);
+
+      logger.debug('Generating coach response', {
+        conversationId,
+        userMessageId: userMessage.message_id,
+        contextHasPersonality: !!coachingContext.user_personality,
+        sessionType: coachingContext.session_type
+      });
+
+      const coachingResponse = await this.coach.generateCoachingResponse(coachingContext);
+
+      const coachMessage = await this.db.addMessage({
+        conversation_id: conversationId,
+        sender_type: 'coach',
+        content: coachingResponse.content,
+        metadata: coachingResponse.metadata
+      });
+
+      logger.debug('Coach response stored', { conversationId, coachMessageId: coachMessage.message_id });
+
+      reply = { coach_response: coachMessage, coaching_metadata: coachingResponse.metadata, is_fallback: false };
+    } catch (aiError) {
+      logger.error('Coach response failed, storing the fallback message', { conversationId, error: aiError });
+      reply = { coach_response: await this.db.addMessage(buildFallbackCoachMessage(conversationId, aiError)), is_fallback: true };
+    }
+
+    SocketService.getInstance()?.sendMessageToConversation(conversationId, 'new_message', reply.coach_response);
+    return reply;
+  }
+
+  /**
+   * Start streaming the coach reply to the conversation room as coach_message_delta
+   * events, ending with the stored message as coach_message_complete. Returns the stream
+   * id; null when there is no socket server to stream over.
+   */
+  streamReply(userId: string, conversation: CoachingSession, userMessage: Message): string | null {
+    const socketService = SocketService.getInstance();
+    if (!socketService) return null;
+
+    const conversationId = conversation.conversation_id;
+    const streamId = randomUUID();
+
+    const stream = async () => {
+      let sequence = 0;
+      let coachMessage: Message;
+      try {
+        const coachingContext = await this.buildContext(userId, conversation, userMessage);
+        const coachingResponse = await this.coach.streamCoachingResponse(coachingContext, delta => {
+          socketService.sendCoachMessageDelta(conversationId, streamId, sequence++, delta);
+        });
+
+        coachMessage = await this.db.addMessage({
+          conversation_id: conversationId,
+          sender_type: 'coach',
+          content: coachingResponse.content,
+          metadata: { ...coachingResponse.metadata, stream_id: streamId }
+        });
+      } catch (aiError) {
+        logger.error('Coach response stream failed, storing the fallback message', { conversationId, streamId, error: aiError });
+        coachMessage = await this.db.addMessage(buildFallbackCoachMessage(conversationId, aiError, streamId));
+      }
+
+      socketService.sendCoachMessageComplete(conversationId, streamId, coachMessage);
+    };
+
+    stream().catch(streamError => {
+      logger.error('Coach response stream failed', { conversationId, streamId, error: streamError });
+    });
+    return streamId;
+  }
+
+  /**
+   * Messages of a conversation of the user stored after a cursor message, oldest first
+   */
+  async getMessagesSince(
+    userId: string,
+    conversationId: string,
+    afterMessageId?: string,
+    limit: number = DEFAULT_SYNC_LIMIT
+  ): Promise<SyncMessagesResult> {
+    if (!(await this.ownsConversation(userId, conversationId))) {
+      throw new AppError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    let result;
+    if (afterMessageId) {
+      const cursor = await this.db.query(`
+        SELECT sequence FROM coaching_messages
+        WHERE message_id = $1 AND conversation_id = $2
+      `, [afterMessageId, conversationId]);
+
+      if (cursor.rows.length === 0) {
+        throw new AppError('Cursor message not found in the conversation', 404, 'CURSOR_NOT_FOUND');
+      }
+
+      // The sequence is assigned in commit order, unlike created_at, so nothing committed
+      // after the cursor message can sort before it
+      result = await this.db.query(`
+        SELECT * FROM coaching_messages
+        WHERE conversation_id = $1 AND sequence > $2
+        ORDER BY sequence ASC
+        LIMIT $3
+      `, [conversationId, cursor.rows[0].sequence, limit + 1]);
+    } else {
+      result = await this.db.query(`
+        SELECT * FROM coaching_messages
+        WHERE conversation_id = $1
+        ORDER BY sequence ASC
+        LIMIT $2
+      `, [conversationId, limit + 1]);
+    }
+
+    return {
+      messages: result.rows.slice(0, limit),
+      has_more: result.rows.length > limit
+    };
+  }
+
+  /**
+   * Whether the conversation, in any status, belongs to the user
+   */
+  async ownsConversation(userId: string, conversationId: string): Promise<boolean> {
+    const result = await this.db.query(`
+      SELECT conversation_id FROM coaching_conversations
+      WHERE conversation_id = $1 AND user_id = $2
+    `, [conversationId, userId]);
+    return result.rows.length > 0;
+  }
+
+  private async findByClientMessageId(conversationId: string, clientMessageId: string): Promise<Message | null> {
+    const result = await this.db.query(`
+      SELECT * FROM coaching_messages
+      WHERE conversation_id = $1 AND client_message_id = $2
+    `, [conversationId, clientMessageId]);
+    return result.rows[0] ?? null;
+  }
+
+  private async buildContext(userId: string, conversation: CoachingSession, userMessage: Message): Promise<CoachingContext> {
+    const user = await this.db.findUserById(userId);
+    const conversationHistory: Message[] = await this.db.getConversationHistory(conversation.conversation_id);
+    const memory = await loadCoachingMemory(userId, userMessage.content);
+
+    return {
+      user_first_name: user?.first_name,
+      user_last_name: user?.last_name,
+      user_personality: user?.personality_profile ?
+        (typeof user.personality_profile === 'string' ? JSON.parse(user.personality_profile) : user.personality_profile) :
+        undefined,
+      // Other messages may have been stored since the one being replied to, so it is picked out by id
+      conversation_history: conversationHistory.filter(message => message.message_id !== userMessage.message_id),
+      current_message: userMessage.content,
+      session_type: conversation.session_type,
+      coaching_goals: user?.coaching_goals || [],
+      aha_moments_delivered: [],
+      ...(memory && { memory })
+    };
+  }
+}
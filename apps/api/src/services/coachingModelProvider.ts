@@ -0,0 +1,267 @@
+import Anthropic from '@anthropic-ai/sdk';
+import fs from 'fs';
+import { CoachingModelConfig, CoachingModelProviderType } from '@/types';
+
+export interface CoachingModelMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CoachingModelRequest {
+  messages: CoachingModelMessage[];
+  max_tokens: number;
+  temperature: number;
+}
+
+export interface CoachingModelCompletion {
+  text: string;
+  stop_reason: 'end_turn' | 'max_tokens' | 'other';
+}
+
+/**
+ * A chat model the coach can talk to. Errors carry the HTTP status of the failed
+ * request in `status` so that overloaded and rate-limited requests can be retried.
+ */
+export interface CoachingModelProvider {
+  readonly name: CoachingModelProviderType;
+  complete(request: CoachingModelRequest): Promise<CoachingModelCompletion>;
+  stream(request: CoachingModelRequest, onDelta: (delta: string) => void): Promise<CoachingModelCompletion>;
+}
+
+export class CoachingModelError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'CoachingModelError';
+  }
+}
+
+const PROVIDERS: CoachingModelProviderType[] = ['anthropic', 'openai', 'local'];
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicModelProvider implements CoachingModelProvider {
+  readonly name = 'anthropic' as const;
+  private anthropic: Anthropic;
+
+  constructor(private config: Pick<CoachingModelConfig, 'api_key' | 'model'>) {
+    this.anthropic = new Anthropic({ apiKey: config.api_key });
+  }
+
+  async complete(request: CoachingModelRequest): Promise<CoachingModelCompletion> {
+    const message = await this.anthropic.messages.create({ model: this.config.model, ...request });
+    return this.toCompletion(message);
+  }
+
+  async stream(request: CoachingModelRequest, onDelta: (delta: string) => void): Promise<CoachingModelCompletion> {
+    const stream = this.anthropic.messages.stream({ model: this.config.model, ...request });
+    stream.on('text', onDelta);
+    return this.toCompletion(await stream.finalMessage());
+  }
+
+  private toCompletion(message: Anthropic.Message): CoachingModelCompletion {
+    const text = message.content[0]?.type === 'text' ? message.content[0].text : '';
+    const stopReason = message.stop_reason === 'end_turn' || message.stop_reason === 'max_tokens' ? message.stop_reason : 'other';
+    return { text, stop_reason: stopReason };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, Azure, vLLM,
+ * Ollama, LM Studio and the like
+ */
+export class OpenAICompatibleModelProvider implements CoachingModelProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private config: Pick<CoachingModelConfig, 'api_key' | 'model' | 'base_url'>) {}
+
+  async complete(request: CoachingModelRequest): Promise<CoachingModelCompletion> {
+    const response = await this.post(request, false);
+    const body = await response.json() as { choices?: Array<{ message?: { content?: string }; finish_reason?: string }> };
+    const choice = body.choices?.[0];
+    return { text: choice?.message?.content ?? '', stop_reason: this.stopReason(choice?.finish_reason) };
+  }
+
+  async stream(request: CoachingModelRequest, onDelta: (delta: string) => void): Promise<CoachingModelCompletion> {
+    const response = await this.post(request, true);
+    if (!response.body) throw new CoachingModelError('Chat completion stream has no body');
+
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let buffered = '';
+    let text = '';
+    let finishReason: string | undefined;
+
+    // Server-sent events: one `data:` line per chunk, ending with `data: [DONE]`
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || data === '[DONE]') continue;
+
+        const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }> };
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+          text += choice.delta.content;
+          onDelta(choice.delta.content);
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      }
+    }
+
+    return { text, stop_reason: this.stopReason(finishReason) };
+  }
+
+  private async post(request: CoachingModelRequest, stream: boolean): Promise<Response> {
+    const baseUrl = (this.config.base_url || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.api_key && { Authorization: `Bearer ${this.config.api_key}` })
+      },
+      body: JSON.stringify({ model: this.config.model, ...request, stream })
+    });
+
+    if (!response.ok) {
+      throw new CoachingModelError(`Chat completion failed: ${response.status} ${await response.text()}`, response.status);
+    }
+    return response;
+  }
+
+  private stopReason(finishReason: string | undefined): CoachingModelCompletion['stop_reason'] {
+    if (finishReason === 'stop') return 'end_turn';
+    if (finishReason === 'length') return 'max_tokens';
+    return 'other';
+  }
+}
+
+export interface ScriptedReply {
+  match?: string; // Case-insensitive regular expression tested against the client's message
+  reply: string;
+}
+
+// Replies of the local provider when no script file is configured
+const DEFAULT_SCRIPT: ScriptedReply[] = [
+  {
+    match: 'aha moment',
+    reply: 'Based on your profile, your natural pattern is to think things through before you act, and it gives your decisions real weight.\n\n- Where has that pattern served you best?\n- Where has it held you back?'
+  },
+  {
+    match: 'team|colleague|manager|report',
+    reply: 'I notice how much your team matters to you, and this makes sense given the way you lead.\n\n- What would a good outcome look like for them?\n- What would it look like for you?'
+  },
+  {
+    match: 'stress|overwhelm|anxious|tired',
+    reply: 'I can see this has been weighing on you, and it is worth slowing down to look at it.\n\n- What is taking most of your energy right now?\n- What is one thing you could set down this week?'
+  },
+  {
+    reply: 'Thank you for sharing that. Let us explore it together and see what stands out for you.\n\n- What feels most important about this right now?\n- What would you like to be different?'
+  }
+];
+
+/**
+ * Deterministic scripted replies for tests and offline development. The first script
+ * entry whose pattern matches the client's latest message answers it, and streamed
+ * replies arrive a word at a time.
+ */
+export class LocalScriptedModelProvider implements CoachingModelProvider {
+  readonly name = 'local' as const;
+  private script: Array<{ pattern: RegExp | null; reply: string }>;
+
+  constructor(script: ScriptedReply[] = DEFAULT_SCRIPT) {
+    this.script = script.map(entry => ({
+      pattern: entry.match ? new RegExp(entry.match, 'i') : null,
+      reply: entry.reply
+    }));
+  }
+
+  static fromFile(scriptPath: string): LocalScriptedModelProvider {
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as ScriptedReply[];
+    if (!Array.isArray(script) || script.some(entry => typeof entry.reply !== 'string')) {
+      throw new Error(`Coaching script ${scriptPath} must be an array of { match?, reply } entries`);
+    }
+    return new LocalScriptedModelProvider(script);
+  }
+
+  async complete(request: CoachingModelRequest): Promise<CoachingModelCompletion> {
+    return { text: this.replyTo(request), stop_reason: 'end_turn' };
+  }
+
+  async stream(request: CoachingModelRequest, onDelta: (delta: string) => void): Promise<CoachingModelCompletion> {
+    const text = this.replyTo(request);
+    for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+      onDelta(delta);
+    }
+    return { text, stop_reason: 'end_turn' };
+  }
+
+  private replyTo(request: CoachingModelRequest): string {
+    const latest = request.messages[request.messages.length - 1]?.content ?? '';
+    // The system prompt is sent ahead of the client's words
+    const marker = latest.lastIndexOf('\n\nUser: ');
+    const message = marker === -1 ? latest : latest.slice(marker + '\n\nUser: '.length);
+
+    const entry = this.script.find(({ pattern }) => !pattern || pattern.test(message));
+    return entry?.reply ?? '';
+  }
+}
+
+/**
+ * Build the provider named by the configuration
+ */
+export function createCoachingModelProvider(config: CoachingModelConfig): CoachingModelProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicModelProvider(config);
+    case 'openai':
+      return new OpenAICompatibleModelProvider(config);
+    case 'local':
+      return config.script_path ? LocalScriptedModelProvider.fromFile(config.script_path) : new LocalScriptedModelProvider();
+  }
+}
+
+/**
+ * Read the coaching model configuration from the environment. COACHING_MODEL_PROVIDER
+ * picks the provider, which reads its own ANTHROPIC_*, OPENAI_* or LOCAL_COACH_* settings.
+ */
+export function coachingModelConfigFromEnv(env: NodeJS.ProcessEnv = process.env): CoachingModelConfig {
+  const provider = (env['COACHING_MODEL_PROVIDER'] || 'anthropic') as CoachingModelProviderType;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown COACHING_MODEL_PROVIDER "${provider}", expected one of ${PROVIDERS.join(', ')}`);
+  }
+
+  switch (provider) {
+    case 'anthropic':
+      return {
+        provider,
+        api_key: env['ANTHROPIC_API_KEY'] || '',
+        model: env['ANTHROPIC_MODEL'] || 'claude-3-sonnet-20240229',
+        max_tokens: parseInt(env['ANTHROPIC_MAX_TOKENS'] || '1000'),
+        temperature: parseFloat(env['ANTHROPIC_TEMPERATURE'] || '0.7')
+      };
+    case 'openai':
+      return {
+        provider,
+        api_key: env['OPENAI_API_KEY'] || '',
+        model: env['OPENAI_MODEL'] || 'gpt-4',
+        max_tokens: parseInt(env['OPENAI_MAX_TOKENS'] || '1000'),
+        temperature: parseFloat(env['OPENAI_TEMPERATURE'] || '0.7'),
+        ...(env['OPENAI_BASE_URL'] && { base_url: env['OPENAI_BASE_URL'] })
+      };
+    case 'local':
+      return {
+        provider,
+        api_key: '',
+        model: 'scripted',
+        max_tokens: 1000,
+        temperature: 0,
+        ...(env['LOCAL_COACH_SCRIPT'] && { script_path: env['LOCAL_COACH_SCRIPT'] })
+      };
+  }
+}
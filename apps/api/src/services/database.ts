@@ -89,6 +89,11 @@ export class DatabaseService {
     return await this.pool.connect();
   }
 
+  // For services that manage their own clients, such as the memory bank
+  getPool(): Pool {
+    return this.pool;
+  }
+
   async transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
     const client = await this.pool.connect();
     try {
@@ -182,22 +187,23 @@ export class DatabaseService {
   }
 
   async addMessage(messageData: any): Promise<any> {
-    const { conversation_id, sender_type, content, metadata } = messageData;
+    const { conversation_id, sender_type, content, metadata, client_message_id } = messageData;
     
     const result = await this.query(`
-      INSERT INTO coaching_messages (conversation_id, sender_type, content, metadata)
-      VALUES ($1, $2, $3, $4)
+      INSERT INTO coaching_messages (conversation_id, sender_type, content, metadata, client_message_id)
+      VALUES ($1, $2, $3, $4, $5)
       RETURNING *
-    `, [conversation_id, sender_type, content, metadata]);
+    `, [conversation_id, sender_type, content, metadata, client_message_id ?? null]);
 
     return result.rows[0];
   }
 
+  // Messages in commit order, the order sync_messages replays them in
   async getConversationHistory(conversationId: string): Promise<any[]> {
     const result = await this.query(`
       SELECT * FROM coaching_messages
       WHERE conversation_id = $1
-      ORDER BY created_at ASC
+      ORDER BY sequence ASC
     `, [conversationId]);
 
     return result.rows;
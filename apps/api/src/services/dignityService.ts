@@ -0,0 +1,264 @@
+import {
+  CelestialBody,
+  ChartDignities,
+  DispositorNode,
+  EssentialDignity,
+  EssentialDignityScore,
+  HouseCusp,
+  HouseRuler,
+  MutualReception,
+  PlanetaryPosition,
+  RulershipScheme,
+  ZodiacSign
+} from '../types';
+import { SIGN_ELEMENTS } from './chartStatisticsService';
+
+// Constants
+// Dignities are read for the planets; the nodes, Lilith and the angles are left out
+const DIGNITY_BODIES: CelestialBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+  'Uranus', 'Neptune', 'Pluto'
+];
+
+const TRADITIONAL_RULERS: Record<ZodiacSign, CelestialBody> = {
+  Aries: 'Mars', Taurus: 'Venus', Gemini: 'Mercury', Cancer: 'Moon',
+  Leo: 'Sun', Virgo: 'Mercury', Libra: 'Venus', Scorpio: 'Mars',
+  Sagittarius: 'Jupiter', Capricorn: 'Saturn', Aquarius: 'Saturn', Pisces: 'Jupiter'
+};
+
+// The modern scheme gives Scorpio, Aquarius and Pisces to the outer planets
+const SIGN_RULERS: Record<RulershipScheme, Record<ZodiacSign, CelestialBody>> = {
+  traditional: TRADITIONAL_RULERS,
+  modern: { ...TRADITIONAL_RULERS, Scorpio: 'Pluto', Aquarius: 'Uranus', Pisces: 'Neptune' }
+};
+
+// Exaltations are the same in both schemes
+const EXALTATIONS: Partial<Record<CelestialBody, ZodiacSign>> = {
+  Sun: 'Aries', Moon: 'Taurus', Mercury: 'Virgo', Venus: 'Pisces',
+  Mars: 'Capricorn', Jupiter: 'Cancer', Saturn: 'Libra'
+};
+
+// Dorothean triplicity rulers by sect
+const TRIPLICITY_RULERS = {
+  fire: { day: 'Sun', night: 'Jupiter' },
+  earth: { day: 'Venus', night: 'Moon' },
+  air: { day: 'Saturn', night: 'Mercury' },
+  water: { day: 'Venus', night: 'Mars' }
+} as const;
+
+const ZODIAC_SIGNS: ZodiacSign[] = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+  'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'
+];
+
+const DIGNITY_SCORES: Record<EssentialDignity, number> = {
+  domicile: 5,
+  exaltation: 4,
+  triplicity: 3,
+  detriment: -5,
+  fall: -4
+};
+
+// Dignity score that moves a planet's strength multiplier by 1
+const STRENGTH_SCALE = 20;
+
+type Sect = ChartDignities['sect'];
+
+/**
+ * Reads essential dignities, house rulers and the dispositor tree of a chart under the
+ * traditional or modern rulership scheme.
+ */
+export class DignityService {
+  private static instance: DignityService;
+
+  static getInstance(): DignityService {
+    if (!DignityService.instance) {
+      DignityService.instance = new DignityService();
+    }
+    return DignityService.instance;
+  }
+
+  /**
+   * Calculate the dignities of a chart. House rulers, the dispositor tree and mutual
+   * receptions follow the given scheme; each planet is annotated under both schemes.
+   */
+  calculateDignities(
+    planetaryPositions: PlanetaryPosition[],
+    houseCusps: HouseCusp[],
+    scheme: RulershipScheme = 'traditional'
+  ): ChartDignities {
+    const sect = this.sectOf(planetaryPositions);
+    const planets = this.planets(planetaryPositions);
+    const rulers = SIGN_RULERS[scheme];
+
+    const houseRulers: HouseRuler[] = [...houseCusps]
+      .sort((a, b) => a.house_number - b.house_number)
+      .map(cusp => {
+        const ruler = rulers[cusp.zodiac_sign];
+        const rulerHouse = this.houseOf(planets.find(position => this.bodyOf(position) === ruler));
+        return {
+          house_number: cusp.house_number,
+          cusp_sign: cusp.zodiac_sign,
+          ruler,
+          ...(rulerHouse !== undefined && { ruler_house: rulerHouse })
+        };
+      });
+
+    const { dispositors, finalDispositor } = this.buildDispositorTree(planets, scheme);
+
+    return {
+      scheme,
+      sect,
+      planetary_positions: this.annotateDignities(planetaryPositions),
+      house_rulers: houseRulers,
+      dispositors,
+      final_dispositor: finalDispositor,
+      mutual_receptions: this.findMutualReceptions(planets, scheme)
+    };
+  }
+
+  /**
+   * Annotate each planet with its essential dignities under both rulership schemes
+   */
+  annotateDignities(planetaryPositions: PlanetaryPosition[]): PlanetaryPosition[] {
+    const sect = this.sectOf(planetaryPositions);
+
+    return planetaryPositions.map(position => {
+      if (!DIGNITY_BODIES.includes(this.bodyOf(position))) return position;
+      return {
+        ...position,
+        dignity: {
+          traditional: this.scoreDignities(position, 'traditional', sect),
+          modern: this.scoreDignities(position, 'modern', sect)
+        }
+      };
+    });
+  }
+
+  /**
+   * Strength multiplier of each planet from its traditional dignity score: 1 for a
+   * peregrine planet, higher when dignified and lower when debilitated
+   */
+  calculateStrengths(planetaryPositions: PlanetaryPosition[]): Partial<Record<CelestialBody, number>> {
+    const sect = this.sectOf(planetaryPositions);
+    const strengths: Partial<Record<CelestialBody, number>> = {};
+
+    for (const position of this.planets(planetaryPositions)) {
+      const { score } = this.scoreDignities(position, 'traditional', sect);
+      strengths[this.bodyOf(position)] = 1 + score / STRENGTH_SCALE;
+    }
+    return strengths;
+  }
+
+  // Private helper methods
+
+  private scoreDignities(position: PlanetaryPosition, scheme: RulershipScheme, sect: Sect): EssentialDignityScore {
+    const body = this.bodyOf(position);
+    const sign = position.zodiac_sign;
+    const dignities: EssentialDignity[] = [];
+
+    if (SIGN_RULERS[scheme][sign] === body) dignities.push('domicile');
+    if (EXALTATIONS[body] === sign) dignities.push('exaltation');
+
+    // Without a sect, either triplicity ruler of the element counts
+    const triplicity = TRIPLICITY_RULERS[SIGN_ELEMENTS[sign]];
+    const triplicityRulers: CelestialBody[] = sect ? [triplicity[sect]] : [triplicity.day, triplicity.night];
+    if (triplicityRulers.includes(body)) dignities.push('triplicity');
+
+    if (SIGN_RULERS[scheme][this.opposite(sign)] === body) dignities.push('detriment');
+    if (EXALTATIONS[body] === this.opposite(sign)) dignities.push('fall');
+
+    return {
+      dignities,
+      score: dignities.reduce((score, dignity) => score + DIGNITY_SCORES[dignity], 0)
+    };
+  }
+
+  /**
+   * Build the dispositor tree. Every chain of dispositors ends in a loop: a planet in
+   * its own sign, or a ring of planets in each other's signs. The loop members are the
+   * roots, and a single planet in its own sign is the final dispositor.
+   */
+  private buildDispositorTree(
+    planets: PlanetaryPosition[],
+    scheme: RulershipScheme
+  ): { dispositors: DispositorNode[]; finalDispositor: CelestialBody | null } {
+    const bodies = planets.map(position => this.bodyOf(position));
+    const dispositorOf = new Map<CelestialBody, CelestialBody>();
+    for (const position of planets) {
+      const ruler = SIGN_RULERS[scheme][position.zodiac_sign];
+      // A ruler missing from the chart ends the chain
+      if (bodies.includes(ruler)) dispositorOf.set(this.bodyOf(position), ruler);
+    }
+
+    const inLoop = (body: CelestialBody): boolean => {
+      let current = dispositorOf.get(body);
+      for (let step = 0; step < bodies.length && current; step++) {
+        if (current === body) return true;
+        current = dispositorOf.get(current);
+      }
+      return false;
+    };
+    const roots = bodies.filter(body => !dispositorOf.has(body) || inLoop(body));
+
+    const build = (body: CelestialBody): DispositorNode => ({
+      body,
+      disposes: bodies
+        .filter(other => !roots.includes(other) && dispositorOf.get(other) === body)
+        .map(build)
+    });
+
+    const [onlyRoot] = roots;
+    return {
+      dispositors: roots.map(build),
+      finalDispositor: roots.length === 1 && onlyRoot && dispositorOf.get(onlyRoot) === onlyRoot ? onlyRoot : null
+    };
+  }
+
+  private findMutualReceptions(planets: PlanetaryPosition[], scheme: RulershipScheme): MutualReception[] {
+    const receptions: MutualReception[] = [];
+    const exaltedIn = (sign: ZodiacSign) =>
+      (Object.keys(EXALTATIONS) as CelestialBody[]).find(body => EXALTATIONS[body] === sign);
+
+    planets.forEach((a, index) => {
+      for (const b of planets.slice(index + 1)) {
+        const bodies: [CelestialBody, CelestialBody] = [this.bodyOf(a), this.bodyOf(b)];
+        if (SIGN_RULERS[scheme][a.zodiac_sign] === bodies[1] && SIGN_RULERS[scheme][b.zodiac_sign] === bodies[0]) {
+          receptions.push({ bodies, by: 'domicile' });
+        }
+        if (exaltedIn(a.zodiac_sign) === bodies[1] && exaltedIn(b.zodiac_sign) === bodies[0]) {
+          receptions.push({ bodies, by: 'exaltation' });
+        }
+      }
+    });
+    return receptions;
+  }
+
+  // Day when the Sun is above the horizon (houses 7-12)
+  private sectOf(positions: PlanetaryPosition[]): Sect {
+    const sunHouse = this.houseOf(positions.find(position => this.bodyOf(position) === 'Sun'));
+    if (sunHouse === undefined) return null;
+    return sunHouse >= 7 ? 'day' : 'night';
+  }
+
+  // The planets of a chart, in the standard order
+  private planets(positions: PlanetaryPosition[]): PlanetaryPosition[] {
+    return DIGNITY_BODIES
+      .map(body => positions.find(position => this.bodyOf(position) === body))
+      .filter((position): position is PlanetaryPosition => position !== undefined);
+  }
+
+  private opposite(sign: ZodiacSign): ZodiacSign {
+    return ZODIAC_SIGNS[(ZODIAC_SIGNS.indexOf(sign) + 6) % 12]!;
+  }
+
+  private houseOf(position: PlanetaryPosition | undefined): number | undefined {
+    return position?.house_number ?? position?.house ?? undefined;
+  }
+
+  private bodyOf(position: PlanetaryPosition): CelestialBody {
+    return position.celestial_body || position.body;
+  }
+}
+
+export default DignityService;
@@ -0,0 +1,205 @@
+import { EmbeddingConfig, EmbeddingProviderType } from '@/types';
+
+/**
+ * Turns text into vectors for semantic memory search. Vectors of one provider and
+ * model are only comparable with each other, so stored vectors are tagged with `embeddingKey`.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderType;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+const PROVIDERS: EmbeddingProviderType[] = ['local', 'openai'];
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'got', 'let',
+  'she', 'too', 'use', 'that', 'this', 'with', 'from', 'they', 'them', 'been', 'were', 'what', 'when',
+  'will', 'would', 'could', 'should', 'about', 'there', 'their', 'which', 'into', 'just', 'like', 'feel',
+  'want', 'know', 'think', 'really', 'some', 'more', 'than', 'then', 'also', 'very', 'much', 'does', 'doing'
+]);
+
+/**
+ * The identifier stored with a vector: provider model and dimensions
+ */
+export function embeddingKey(provider: EmbeddingProvider): string {
+  return `${provider.name}/${provider.model}@${provider.dimensions}`;
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is all zeros or their lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Offline hashed TF-IDF. Words and adjacent word pairs are hashed into a fixed number of
+ * signed buckets with log-scaled counts. There is no corpus to learn document frequencies
+ * from, so stop words are dropped and word pairs, being rarer, weigh more than single words.
+ * Deterministic, so vectors stored today still match queries after a restart.
+ */
+export class LocalHashedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = 'hashed-tfidf-v1';
+
+  constructor(readonly dimensions: number = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = this.words(text);
+
+    const counts = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = counts.get(feature) ?? { count: 0, weight };
+      entry.count += 1;
+      counts.set(feature, entry);
+    };
+    words.forEach((word, index) => {
+      add(word, 1);
+      if (index > 0) add(`${words[index - 1]} ${word}`, 1.5);
+    });
+
+    for (const [feature, { count, weight }] of counts) {
+      const hash = this.hash(feature);
+      const bucket = hash % this.dimensions;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[bucket]! += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private words(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z][a-z']+/g) ?? [])
+      .map(word => this.stem(word.replace(/'s?$/, '')))
+      .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+  }
+
+  // Fold common English endings so that "deadlines" matches "deadline"
+  private stem(word: string): string {
+    if (word.length > 5 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+  }
+
+  // 32-bit FNV-1a
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI embeddings API: OpenAI itself, Azure, vLLM, Ollama and the like
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(private config: Pick<EmbeddingConfig, 'model' | 'dimensions' | 'api_key' | 'base_url'>) {
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const baseUrl = (this.config.base_url || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.api_key && { Authorization: `Bearer ${this.config.api_key}` })
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        // Only the text-embedding-3 models can shorten their vectors
+        ...(this.model.startsWith('text-embedding-3') && { dimensions: this.dimensions })
+      })
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingError(`Embedding request failed: ${response.status} ${await response.text()}`, response.status);
+    }
+
+    const body = await response.json() as { data?: Array<{ embedding: number[]; index: number }> };
+    const vectors = [...(body.data ?? [])].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    if (vectors.length !== texts.length || vectors.some(vector => vector.length !== this.dimensions)) {
+      throw new EmbeddingError(`Expected ${texts.length} embeddings of ${this.dimensions} dimensions from ${this.model}`);
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Build the provider named by the configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'local':
+      return new LocalHashedEmbeddingProvider(config.dimensions);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(config);
+  }
+}
+
+/**
+ * Read the embedding configuration from the environment. EMBEDDING_PROVIDER picks the
+ * provider; the OpenAI-compatible one shares OPENAI_API_KEY and OPENAI_BASE_URL with the coach.
+ */
+export function embeddingConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const provider = (env['EMBEDDING_PROVIDER'] || 'local') as EmbeddingProviderType;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}", expected one of ${PROVIDERS.join(', ')}`);
+  }
+
+  switch (provider) {
+    case 'local':
+      return {
+        provider,
+        model: 'hashed-tfidf-v1',
+        dimensions: parseInt(env['EMBEDDING_DIMENSIONS'] || '512')
+      };
+    case 'openai':
+      return {
+        provider,
+        model: env['EMBEDDING_MODEL'] || 'text-embedding-3-small',
+        dimensions: parseInt(env['EMBEDDING_DIMENSIONS'] || '1536'),
+        api_key: env['OPENAI_API_KEY'] || '',
+        ...(env['OPENAI_BASE_URL'] && { base_url: env['OPENAI_BASE_URL'] })
+      };
+  }
+}
@@ -0,0 +1,336 @@
+import {
+  apparent,
+  base,
+  coord,
+  deltat,
+  moonposition,
+  nutation,
+  planetposition,
+  pluto,
+  precess,
+  sidereal,
+  solar
+} from 'astronomia';
+import vsop87 from 'astronomia/data';
+import { CelestialBody } from '../types';
+
+// Constants
+const DEG = 180 / Math.PI;
+const RAD = Math.PI / 180;
+const KM_PER_AU = 149597870.7;
+const SPEED_STEP_DAYS = 0.5; // Half-width of the central difference used for daily motion
+const STATION_PRECISION_DAYS = 1 / 1440; // Refine stations to the minute
+
+// VSOP87B series are referred to the J2000 ecliptic; Planet.position() precesses them to the date
+const VSOP87_SERIES: Partial<Record<CelestialBody, string>> = {
+  Mercury: 'vsop87Bmercury',
+  Venus: 'vsop87Bvenus',
+  Mars: 'vsop87Bmars',
+  Jupiter: 'vsop87Bjupiter',
+  Saturn: 'vsop87Bsaturn',
+  Uranus: 'vsop87Buranus',
+  Neptune: 'vsop87Bneptune'
+};
+
+export interface EclipticCoordinates {
+  longitude: number; // Apparent geocentric ecliptic longitude of date, 0-360 degrees
+  latitude: number; // Apparent geocentric ecliptic latitude, degrees
+  distance: number; // AU from Earth
+}
+
+export interface ChartAngles {
+  ascendant: number; // 0-360 degrees
+  midheaven: number; // 0-360 degrees
+  ramc: number; // Right ascension of the MC (local apparent sidereal time), degrees
+  obliquity: number; // True obliquity of the ecliptic, degrees
+}
+
+export interface StationPoint {
+  julian_day: number;
+  station_type: 'retrograde' | 'direct'; // Direction of motion after the station
+  longitude: number;
+}
+
+interface HeliocentricPosition {
+  lon: number;
+  lat: number;
+  range: number;
+}
+
+/**
+ * Analytical ephemeris built on the VSOP87 planetary theory, the ELP-2000/82 lunar
+ * theory as abridged by Meeus and Meeus' Pluto series. Positions are apparent
+ * (light-time, aberration and nutation applied) and accurate to well under an
+ * arcminute for 1900-2100.
+ */
+export class EphemerisEngine {
+  private static instance: EphemerisEngine;
+  private earth: planetposition.Planet;
+  private planets = new Map<CelestialBody, planetposition.Planet>();
+
+  private constructor() {
+    this.earth = new planetposition.Planet(this.loadSeries('vsop87Bearth'));
+  }
+
+  static getInstance(): EphemerisEngine {
+    if (!EphemerisEngine.instance) {
+      EphemerisEngine.instance = new EphemerisEngine();
+    }
+    return EphemerisEngine.instance;
+  }
+
+  /**
+   * Convert a Julian Day in Universal Time to a Julian Ephemeris Day (Terrestrial Time)
+   */
+  toJulianEphemerisDay(julianDay: number): number {
+    const decimalYear = 2000 + (julianDay - base.J2000) / 365.25;
+    return julianDay + deltat.deltaT(decimalYear) / 86400;
+  }
+
+  /**
+   * Calculate the apparent geocentric position of a body for a Julian Day (UT).
+   * Returns null for bodies that are not ephemeris objects (Ascendant, Midheaven).
+   */
+  calculateBodyPosition(body: CelestialBody, julianDay: number): EclipticCoordinates | null {
+    const jde = this.toJulianEphemerisDay(julianDay);
+
+    switch (body) {
+      case 'Sun': {
+        const sun = solar.apparentVSOP87(this.earth, jde);
+        return this.toDegrees(sun.lon, sun.lat, sun.range);
+      }
+      case 'Moon': {
+        const moon = moonposition.position(jde);
+        return this.toDegrees(moon.lon + nutation.nutation(jde)[0], moon.lat, moon.range / KM_PER_AU);
+      }
+      case 'Pluto':
+        return this.calculatePlutoPosition(jde);
+      case 'North Node':
+        return this.toDegrees(moonposition.trueNode(jde), 0, 0);
+      case 'South Node':
+        return this.toDegrees(moonposition.trueNode(jde) + Math.PI, 0, 0);
+      case 'Lilith':
+        // Mean Black Moon Lilith is the mean lunar apogee
+        return this.toDegrees(moonposition.perigee(jde) + Math.PI, 0, 0);
+      default: {
+        const planet = this.getPlanet(body);
+        if (!planet) {
+          return null;
+        }
+        const geocentric = this.geocentric(
+          (t) => planet.position(t),
+          (t) => this.earth.position(t),
+          jde
+        );
+        return this.applyApparentCorrections(geocentric.lon, geocentric.lat, geocentric.range, jde);
+      }
+    }
+  }
+
+  /**
+   * Signed daily motion in longitude (degrees per day) from a central difference of
+   * positions either side of the Julian Day. Negative values mean retrograde motion.
+   */
+  calculateSpeed(body: CelestialBody, julianDay: number): number | null {
+    const before = this.calculateBodyPosition(body, julianDay - SPEED_STEP_DAYS);
+    const after = this.calculateBodyPosition(body, julianDay + SPEED_STEP_DAYS);
+    if (!before || !after) {
+      return null;
+    }
+
+    let delta = after.longitude - before.longitude;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+
+    return delta / (2 * SPEED_STEP_DAYS);
+  }
+
+  /**
+   * Find every station (speed crossing zero) of a body between two Julian Days.
+   * Speed is sampled on a coarse grid and each sign change is refined by bisection.
+   */
+  findStations(body: CelestialBody, fromJulianDay: number, toJulianDay: number, stepDays: number = 1): StationPoint[] {
+    const stations: StationPoint[] = [];
+
+    let previousDay = fromJulianDay;
+    let previousSpeed = this.calculateSpeed(body, previousDay);
+    if (previousSpeed === null) {
+      return stations;
+    }
+
+    for (let day = fromJulianDay + stepDays; day <= toJulianDay + stepDays; day += stepDays) {
+      const currentDay = Math.min(day, toJulianDay);
+      const currentSpeed = this.calculateSpeed(body, currentDay)!;
+
+      if (Math.sign(currentSpeed) !== Math.sign(previousSpeed) && currentSpeed !== 0) {
+        const stationDay = this.refineStation(body, previousDay, currentDay, previousSpeed);
+        stations.push({
+          julian_day: stationDay,
+          station_type: currentSpeed < 0 ? 'retrograde' : 'direct',
+          longitude: this.calculateBodyPosition(body, stationDay)!.longitude
+        });
+      }
+
+      if (currentDay >= toJulianDay) break;
+      previousDay = currentDay;
+      previousSpeed = currentSpeed;
+    }
+
+    return stations;
+  }
+
+  /**
+   * Calculate the Ascendant and Midheaven from apparent sidereal time and true obliquity
+   */
+  calculateAngles(julianDay: number, latitude: number, longitude: number): ChartAngles {
+    const obliquity = this.calculateObliquity(julianDay);
+    const ramc = this.calculateLocalSiderealTime(julianDay, longitude);
+
+    const ramcRad = ramc * RAD;
+    const oblRad = obliquity * RAD;
+    const latRad = latitude * RAD;
+
+    const midheaven = Math.atan2(Math.sin(ramcRad), Math.cos(ramcRad) * Math.cos(oblRad)) * DEG;
+    const ascendant = Math.atan2(
+      Math.cos(ramcRad),
+      -(Math.sin(ramcRad) * Math.cos(oblRad) + Math.tan(latRad) * Math.sin(oblRad))
+    ) * DEG;
+
+    return {
+      ascendant: this.normalize(ascendant),
+      midheaven: this.normalize(midheaven),
+      ramc,
+      obliquity
+    };
+  }
+
+  /**
+   * True obliquity of the ecliptic (mean obliquity plus nutation in obliquity), in degrees
+   */
+  calculateObliquity(julianDay: number): number {
+    const jde = this.toJulianEphemerisDay(julianDay);
+    return (nutation.meanObliquity(jde) + nutation.nutation(jde)[1]) * DEG;
+  }
+
+  /**
+   * Local apparent sidereal time expressed in degrees (east longitudes positive)
+   */
+  calculateLocalSiderealTime(julianDay: number, longitude: number): number {
+    // sidereal.apparent returns seconds of time; 240 seconds of time = 1 degree
+    return this.normalize(sidereal.apparent(julianDay) / 240 + longitude);
+  }
+
+  // Private helper methods
+
+  private refineStation(body: CelestialBody, lowDay: number, highDay: number, lowSpeed: number): number {
+    let low = lowDay;
+    let high = highDay;
+
+    while (high - low > STATION_PRECISION_DAYS) {
+      const mid = (low + high) / 2;
+      const midSpeed = this.calculateSpeed(body, mid)!;
+      if (Math.sign(midSpeed) === Math.sign(lowSpeed)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return (low + high) / 2;
+  }
+
+  private calculatePlutoPosition(jde: number): EclipticCoordinates {
+    // Meeus' Pluto series is referred to the J2000 ecliptic, so pair it with
+    // Earth's J2000 position and precess the geocentric result to the date.
+    const geocentric = this.geocentric(
+      (t) => pluto.heliocentric(t),
+      (t) => this.earth.position2000(t),
+      jde
+    );
+    const ofDate = precess.eclipticPosition(
+      new coord.Ecliptic(geocentric.lon, geocentric.lat),
+      2000.0,
+      base.JDEToJulianYear(jde)
+    );
+    return this.applyApparentCorrections(ofDate.lon, ofDate.lat, geocentric.range, jde);
+  }
+
+  /**
+   * Geometric-to-geocentric conversion with a single light-time iteration (Meeus ch. 33)
+   */
+  private geocentric(
+    heliocentric: (jde: number) => HeliocentricPosition,
+    earthPosition: (jde: number) => HeliocentricPosition,
+    jde: number
+  ): HeliocentricPosition {
+    const earth = earthPosition(jde);
+    const earthX = earth.range * Math.cos(earth.lat) * Math.cos(earth.lon);
+    const earthY = earth.range * Math.cos(earth.lat) * Math.sin(earth.lon);
+    const earthZ = earth.range * Math.sin(earth.lat);
+
+    const relativeTo = (t: number) => {
+      const p = heliocentric(t);
+      return {
+        x: p.range * Math.cos(p.lat) * Math.cos(p.lon) - earthX,
+        y: p.range * Math.cos(p.lat) * Math.sin(p.lon) - earthY,
+        z: p.range * Math.sin(p.lat) - earthZ
+      };
+    };
+
+    let { x, y, z } = relativeTo(jde);
+    const lightTime = base.lightTime(Math.sqrt(x * x + y * y + z * z));
+    ({ x, y, z } = relativeTo(jde - lightTime));
+
+    return {
+      lon: Math.atan2(y, x),
+      lat: Math.atan2(z, Math.hypot(x, y)),
+      range: Math.sqrt(x * x + y * y + z * z)
+    };
+  }
+
+  private applyApparentCorrections(lon: number, lat: number, range: number, jde: number): EclipticCoordinates {
+    const [aberrationLon, aberrationLat] = apparent.eclipticAberration(lon, lat, jde);
+    const fk5 = planetposition.toFK5(lon + aberrationLon, lat + aberrationLat, jde);
+    return this.toDegrees(fk5.lon + nutation.nutation(jde)[0], fk5.lat, range);
+  }
+
+  private getPlanet(body: CelestialBody): planetposition.Planet | null {
+    const seriesName = VSOP87_SERIES[body];
+    if (!seriesName) {
+      return null;
+    }
+
+    let planet = this.planets.get(body);
+    if (!planet) {
+      planet = new planetposition.Planet(this.loadSeries(seriesName));
+      this.planets.set(body, planet);
+    }
+    return planet;
+  }
+
+  private loadSeries(name: string): object {
+    const series = vsop87[name];
+    if (!series) {
+      throw new Error(`Missing VSOP87 series: ${name}`);
+    }
+    return series;
+  }
+
+  private toDegrees(lon: number, lat: number, range: number): EclipticCoordinates {
+    return {
+      longitude: this.normalize(lon * DEG),
+      latitude: lat * DEG,
+      distance: range
+    };
+  }
+
+  private normalize(degrees: number): number {
+    let normalized = degrees % 360;
+    if (normalized < 0) {
+      normalized += 360;
+    }
+    return normalized;
+  }
+}
+
+export default EphemerisEngine;
@@ -0,0 +1,79 @@
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/geocoding.log' })
+  ]
+});
+
+// OpenStreetMap Nominatim, the service the web app geocodes the birth places of natal charts with
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface GeocodedPlace {
+  latitude: number;
+  longitude: number;
+  display_name: string;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+/**
+ * Resolves place names to coordinates, for birth places that come without them, the same
+ * way the natal chart form does in the browser
+ */
+export class GeocodingService {
+  private static instance: GeocodingService;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env['NOMINATIM_URL'] || NOMINATIM_URL) {
+    this.baseUrl = baseUrl;
+  }
+
+  static getInstance(): GeocodingService {
+    if (!GeocodingService.instance) {
+      GeocodingService.instance = new GeocodingService();
+    }
+    return GeocodingService.instance;
+  }
+
+  /**
+   * The best match for a place name, or null when there is none or the service cannot be reached
+   */
+  async geocode(location: string): Promise<GeocodedPlace | null> {
+    const query = location.trim();
+    if (!query) return null;
+
+    try {
+      const params = new URLSearchParams({ q: query, format: 'json', limit: '1' });
+      const response = await fetch(`${this.baseUrl}?${params}`, {
+        headers: { 'User-Agent': 'AgenticCounsel/1.0 (https://agenticcounsel.com)' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const [place] = await response.json() as NominatimPlace[];
+      if (!place) return null;
+
+      const latitude = parseFloat(place.lat);
+      const longitude = parseFloat(place.lon);
+      if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+        throw new Error(`Invalid coordinates for ${query}: ${place.lat}, ${place.lon}`);
+      }
+
+      return { latitude, longitude, display_name: place.display_name };
+    } catch (error) {
+      logger.warn('Could not geocode location', { location: query, error: (error as Error).message });
+      return null;
+    }
+  }
+}
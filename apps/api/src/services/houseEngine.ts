@@ -0,0 +1,300 @@
+import { HouseSystem } from '../types';
+
+// Constants
+const DEG = 180 / Math.PI;
+const RAD = Math.PI / 180;
+const PLACIDUS_MAX_ITERATIONS = 50;
+const PLACIDUS_PRECISION = 1e-7; // Degrees
+
+// Systems that divide the semi-arcs of intermediate ecliptic degrees; these break down
+// inside the polar circles, where parts of the ecliptic never rise or set.
+const SEMI_ARC_SYSTEMS: HouseSystem[] = ['Placidus', 'Koch'];
+
+// Used whenever a semi-arc system cannot be calculated
+const POLAR_FALLBACK_SYSTEM: HouseSystem = 'Porphyry';
+
+export interface HouseCalculation {
+  cusps: number[]; // Twelve cusp longitudes (0-360 degrees); index 0 is house 1
+  house_system: HouseSystem; // System actually used
+  fallback_reason?: string; // Set when the requested system could not be used
+}
+
+/**
+ * House division engine. Every system is calculated from the local sidereal time
+ * (RAMC), the geographic latitude and the true obliquity of the ecliptic, following
+ * the formulations in Meeus and the Swiss Ephemeris documentation.
+ */
+export class HouseEngine {
+  private static instance: HouseEngine;
+
+  static getInstance(): HouseEngine {
+    if (!HouseEngine.instance) {
+      HouseEngine.instance = new HouseEngine();
+    }
+    return HouseEngine.instance;
+  }
+
+  /**
+   * Calculate the twelve house cusps for a house system. Semi-arc systems fall back to
+   * Porphyry inside the polar circles, and the fallback is reported in the result.
+   */
+  calculateCusps(houseSystem: HouseSystem, ramc: number, latitude: number, obliquity: number): HouseCalculation {
+    if (SEMI_ARC_SYSTEMS.includes(houseSystem) && Math.abs(latitude) >= 90 - obliquity) {
+      return this.fallback(
+        houseSystem,
+        ramc,
+        latitude,
+        obliquity,
+        `${houseSystem} houses are undefined above the polar circles (latitude ${latitude.toFixed(2)}°)`
+      );
+    }
+
+    const cusps = this.calculateSystemCusps(houseSystem, ramc, latitude, obliquity);
+    if (cusps.some(cusp => !Number.isFinite(cusp))) {
+      return this.fallback(
+        houseSystem,
+        ramc,
+        latitude,
+        obliquity,
+        `${houseSystem} houses could not be calculated for latitude ${latitude.toFixed(2)}°`
+      );
+    }
+
+    return { cusps, house_system: houseSystem };
+  }
+
+  /**
+   * Ascendant: the ecliptic degree rising on the eastern horizon
+   */
+  calculateAscendant(ramc: number, latitude: number, obliquity: number): number {
+    return this.eclipticIntersection(ramc + 90, Math.tan(latitude * RAD), obliquity);
+  }
+
+  /**
+   * Midheaven: the ecliptic degree culminating on the local meridian
+   */
+  calculateMidheaven(ramc: number, obliquity: number): number {
+    return this.longitudeFromRightAscension(ramc, obliquity);
+  }
+
+  // Private helper methods
+
+  private calculateSystemCusps(houseSystem: HouseSystem, ramc: number, latitude: number, obliquity: number): number[] {
+    const ascendant = this.calculateAscendant(ramc, latitude, obliquity);
+    const midheaven = this.calculateMidheaven(ramc, obliquity);
+    const tanLatitude = Math.tan(latitude * RAD);
+
+    switch (houseSystem) {
+      case 'Equal':
+        return this.fromAscendant(ascendant);
+      case 'Whole Sign':
+        return this.fromAscendant(Math.floor(ascendant / 30) * 30);
+      case 'Porphyry':
+        return this.porphyry(ascendant, midheaven);
+      case 'Regiomontanus':
+        // Great circles through the north and south points divide the equator into 30° arcs
+        return this.fromPoles(ascendant, midheaven, ramc, obliquity, [
+          Math.atan(tanLatitude * Math.sin(30 * RAD)),
+          Math.atan(tanLatitude * Math.sin(60 * RAD))
+        ], [30, 60, 120, 150]);
+      case 'Topocentric':
+        // Polich-Page: poles at one and two thirds of the tangent of the latitude
+        return this.fromPoles(ascendant, midheaven, ramc, obliquity, [
+          Math.atan(tanLatitude / 3),
+          Math.atan(tanLatitude * 2 / 3)
+        ], [30, 60, 120, 150]);
+      case 'Campanus':
+        return this.campanus(ascendant, midheaven, ramc, latitude, obliquity);
+      case 'Koch':
+        return this.koch(ascendant, midheaven, ramc, latitude, obliquity);
+      case 'Alcabitius':
+        return this.alcabitius(ascendant, midheaven, ramc, latitude, obliquity);
+      case 'Placidus':
+      default:
+        return this.placidus(ascendant, midheaven, ramc, latitude, obliquity);
+    }
+  }
+
+  private fallback(
+    requested: HouseSystem,
+    ramc: number,
+    latitude: number,
+    obliquity: number,
+    reason: string
+  ): HouseCalculation {
+    return {
+      cusps: this.calculateSystemCusps(POLAR_FALLBACK_SYSTEM, ramc, latitude, obliquity),
+      house_system: POLAR_FALLBACK_SYSTEM,
+      fallback_reason: `${reason}; using ${POLAR_FALLBACK_SYSTEM} instead of ${requested}`
+    };
+  }
+
+  private fromAscendant(start: number): number[] {
+    return Array.from({ length: 12 }, (_, index) => this.normalize(start + index * 30));
+  }
+
+  /**
+   * Trisect each quadrant between the angles in ecliptic longitude
+   */
+  private porphyry(ascendant: number, midheaven: number): number[] {
+    const easternArc = this.normalize(ascendant - midheaven);
+    const lowerArc = this.normalize(midheaven + 180 - ascendant);
+
+    return this.assemble(ascendant, midheaven, [
+      midheaven + easternArc / 3,
+      midheaven + (easternArc * 2) / 3,
+      ascendant + lowerArc / 3,
+      ascendant + (lowerArc * 2) / 3
+    ]);
+  }
+
+  /**
+   * Cusps 11, 12, 2 and 3 where each house circle has its own pole (elevation above
+   * the horizon) and crosses the equator at a fixed offset from the RAMC
+   */
+  private fromPoles(
+    ascendant: number,
+    midheaven: number,
+    ramc: number,
+    obliquity: number,
+    poles: [number, number],
+    offsets: [number, number, number, number]
+  ): number[] {
+    const [innerPole, outerPole] = poles;
+    const [house11, house12, house2, house3] = offsets;
+
+    return this.assemble(ascendant, midheaven, [
+      this.eclipticIntersection(ramc + house11, Math.tan(innerPole), obliquity),
+      this.eclipticIntersection(ramc + house12, Math.tan(outerPole), obliquity),
+      this.eclipticIntersection(ramc + house2, Math.tan(outerPole), obliquity),
+      this.eclipticIntersection(ramc + house3, Math.tan(innerPole), obliquity)
+    ]);
+  }
+
+  /**
+   * Campanus: the prime vertical is divided into 30° arcs by circles through the
+   * north and south points of the horizon
+   */
+  private campanus(ascendant: number, midheaven: number, ramc: number, latitude: number, obliquity: number): number[] {
+    const sinLatitude = Math.sin(latitude * RAD);
+    const cosLatitude = Math.cos(latitude * RAD);
+
+    const innerPole = Math.asin(sinLatitude / 2);
+    const outerPole = Math.asin((Math.sqrt(3) / 2) * sinLatitude);
+    const innerOffset = Math.atan(Math.sqrt(3) / cosLatitude) * DEG;
+    const outerOffset = Math.atan(1 / Math.sqrt(3) / cosLatitude) * DEG;
+
+    return this.assemble(ascendant, midheaven, [
+      this.eclipticIntersection(ramc + 90 - innerOffset, Math.tan(innerPole), obliquity),
+      this.eclipticIntersection(ramc + 90 - outerOffset, Math.tan(outerPole), obliquity),
+      this.eclipticIntersection(ramc + 90 + outerOffset, Math.tan(outerPole), obliquity),
+      this.eclipticIntersection(ramc + 90 + innerOffset, Math.tan(innerPole), obliquity)
+    ]);
+  }
+
+  /**
+   * Koch (birthplace system): the MC's semi-arc is trisected and each cusp is the
+   * degree rising on the birthplace horizon at the resulting sidereal time
+   */
+  private koch(ascendant: number, midheaven: number, ramc: number, latitude: number, obliquity: number): number[] {
+    const tanLatitude = Math.tan(latitude * RAD);
+    const midheavenDeclination = Math.asin(Math.sin(obliquity * RAD) * Math.sin(midheaven * RAD));
+    const ascensionalDifference = Math.asin(tanLatitude * Math.tan(midheavenDeclination)) * DEG;
+    const third = ascensionalDifference / 3;
+
+    return this.assemble(ascendant, midheaven, [
+      this.eclipticIntersection(ramc + 30 - 2 * third, tanLatitude, obliquity),
+      this.eclipticIntersection(ramc + 60 - third, tanLatitude, obliquity),
+      this.eclipticIntersection(ramc + 120 + third, tanLatitude, obliquity),
+      this.eclipticIntersection(ramc + 150 + 2 * third, tanLatitude, obliquity)
+    ]);
+  }
+
+  /**
+   * Alcabitius: the Ascendant's diurnal and nocturnal semi-arcs are trisected in right
+   * ascension and projected onto the ecliptic along hour circles
+   */
+  private alcabitius(ascendant: number, midheaven: number, ramc: number, latitude: number, obliquity: number): number[] {
+    const ascendantDeclination = Math.asin(Math.sin(obliquity * RAD) * Math.sin(ascendant * RAD));
+    const diurnalSemiArc = Math.acos(-Math.tan(latitude * RAD) * Math.tan(ascendantDeclination)) * DEG;
+    const nocturnalSemiArc = 180 - diurnalSemiArc;
+
+    return this.assemble(ascendant, midheaven, [
+      this.longitudeFromRightAscension(ramc + diurnalSemiArc / 3, obliquity),
+      this.longitudeFromRightAscension(ramc + (diurnalSemiArc * 2) / 3, obliquity),
+      this.longitudeFromRightAscension(ramc + 180 - (nocturnalSemiArc * 2) / 3, obliquity),
+      this.longitudeFromRightAscension(ramc + 180 - nocturnalSemiArc / 3, obliquity)
+    ]);
+  }
+
+  /**
+   * Placidus: each cusp is the ecliptic degree that has covered one or two thirds of
+   * its own semi-arc. Solved by fixed-point iteration on the declination of the cusp.
+   */
+  private placidus(ascendant: number, midheaven: number, ramc: number, latitude: number, obliquity: number): number[] {
+    const tanLatitude = Math.tan(latitude * RAD);
+    const sinObliquity = Math.sin(obliquity * RAD);
+
+    const solve = (rightAscensionFor: (diurnalSemiArc: number) => number): number => {
+      let longitude = this.longitudeFromRightAscension(rightAscensionFor(90), obliquity);
+
+      for (let iteration = 0; iteration < PLACIDUS_MAX_ITERATIONS; iteration++) {
+        const declination = Math.asin(sinObliquity * Math.sin(longitude * RAD));
+        const diurnalSemiArc = 90 + Math.asin(tanLatitude * Math.tan(declination)) * DEG;
+        const next = this.longitudeFromRightAscension(rightAscensionFor(diurnalSemiArc), obliquity);
+
+        const change = Math.abs(this.normalize(next - longitude + 180) - 180);
+        longitude = next;
+        if (!Number.isFinite(longitude) || change < PLACIDUS_PRECISION) {
+          break;
+        }
+      }
+
+      return longitude;
+    };
+
+    return this.assemble(ascendant, midheaven, [
+      solve(dsa => ramc + dsa / 3),
+      solve(dsa => ramc + (dsa * 2) / 3),
+      solve(dsa => ramc + 180 - ((180 - dsa) * 2) / 3),
+      solve(dsa => ramc + 180 - (180 - dsa) / 3)
+    ]);
+  }
+
+  /**
+   * Build all twelve cusps from the angles and the intermediate cusps 11, 12, 2 and 3;
+   * the remaining cusps are their opposites
+   */
+  private assemble(ascendant: number, midheaven: number, intermediate: number[]): number[] {
+    const [house11 = NaN, house12 = NaN, house2 = NaN, house3 = NaN] = intermediate;
+    const eastern = [ascendant, house2, house3, midheaven + 180, house11 + 180, house12 + 180];
+    const western = eastern.map(cusp => cusp + 180);
+
+    return [...eastern, ...western].map(cusp => this.normalize(cusp));
+  }
+
+  /**
+   * Ecliptic degree rising at an oblique ascension on the horizon of a given pole.
+   * With the geographic latitude as the pole and RAMC + 90° this is the Ascendant;
+   * with a pole of zero it is the degree whose right ascension equals the oblique ascension.
+   */
+  private eclipticIntersection(rightAscension: number, tanPole: number, obliquity: number): number {
+    const ra = rightAscension * RAD;
+    const eps = obliquity * RAD;
+    return this.normalize(Math.atan2(Math.sin(ra), Math.cos(ra) * Math.cos(eps) - tanPole * Math.sin(eps)) * DEG);
+  }
+
+  private longitudeFromRightAscension(rightAscension: number, obliquity: number): number {
+    return this.eclipticIntersection(rightAscension, 0, obliquity);
+  }
+
+  private normalize(degrees: number): number {
+    let normalized = degrees % 360;
+    if (normalized < 0) {
+      normalized += 360;
+    }
+    return normalized;
+  }
+}
+
+export default HouseEngine;
@@ -0,0 +1,95 @@
+import { RedisStore } from './redis';
+
+/**
+ * A process-local stand-in for Redis. Instances that share one InMemoryRedis see each
+ * other's keys and messages, like API instances sharing a Redis server. Values and
+ * messages go through JSON as they would over the wire.
+ */
+export class InMemoryRedis implements RedisStore {
+  private values = new Map<string, { value: string; expiresAt: number | null }>();
+  private sets = new Map<string, Set<string>>();
+  private channels = new Map<string, Set<(message: any) => void>>();
+
+  async publish(channel: string, message: any): Promise<void> {
+    const serialized = JSON.stringify(message);
+    for (const callback of this.channels.get(channel) ?? []) {
+      callback(JSON.parse(serialized));
+    }
+  }
+
+  async subscribe(channel: string, callback: (message: any) => void): Promise<() => Promise<void>> {
+    const subscribers = this.channels.get(channel) ?? new Set();
+    subscribers.add(callback);
+    this.channels.set(channel, subscribers);
+    return async () => {
+      subscribers.delete(callback);
+    };
+  }
+
+  async set(key: string, value: any, expirationSeconds?: number): Promise<void> {
+    this.values.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: expirationSeconds ? Date.now() + expirationSeconds * 1000 : null
+    });
+  }
+
+  async get(key: string): Promise<any | null> {
+    return this.read(key);
+  }
+
+  // Reads and writes without yielding in between, as the script does in Redis
+  async compareAndSet(key: string, field: string, expected: string, value: any, expirationSeconds?: number): Promise<boolean> {
+    if (this.read(key)?.[field] !== expected) return false;
+
+    await this.set(key, value, expirationSeconds);
+    return true;
+  }
+
+  async del(key: string): Promise<void> {
+    this.values.delete(key);
+    this.sets.delete(key);
+  }
+
+  async addToSet(key: string, member: string): Promise<void> {
+    const members = this.sets.get(key) ?? new Set();
+    members.add(member);
+    this.sets.set(key, members);
+  }
+
+  async removeFromSet(key: string, member: string): Promise<void> {
+    const members = this.sets.get(key);
+    if (!members) return;
+    members.delete(member);
+    // Redis drops a set with its last member
+    if (members.size === 0) this.sets.delete(key);
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  // Like the scripts in Redis, these change the sets without yielding in between
+
+  async addToSetsAndCount(members: Array<{ key: string; member: string }>, countKey: string): Promise<number> {
+    for (const { key, member } of members) {
+      this.addToSet(key, member);
+    }
+    return this.sets.get(countKey)?.size ?? 0;
+  }
+
+  async removeFromSetIfEmpty(key: string, member: string, emptyKey: string): Promise<boolean> {
+    if ((this.sets.get(emptyKey)?.size ?? 0) > 0 || !this.sets.get(key)?.has(member)) return false;
+    this.removeFromSet(key, member);
+    return true;
+  }
+
+  private read(key: string): any | null {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.value);
+  }
+}
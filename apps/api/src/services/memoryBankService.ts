@@ -1,4 +1,5 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
+import crypto from 'crypto';
 import {
   UserMemoryBank,
   MemoryPattern,
@@ -17,6 +18,16 @@ import {
   MemoryBankConfig,
   MemoryAnalytics
 } from '../types/memoryBank.js';
+import { EmbeddingConfig } from '../types';
+import { DatabaseService } from './database';
+import {
+  EmbeddingProvider,
+  LocalHashedEmbeddingProvider,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  embeddingKey
+} from './embeddingProvider';
 // import { logger } from '../utils/logger.js';
 // Temporary logger implementation until we have the actual logger
 const logger = {
@@ -26,13 +37,79 @@ const logger = {
   debug: (message: string, ...args: any[]) => console.debug(`[DEBUG] ${message}`, ...args)
 };
 
+export const DEFAULT_MEMORY_BANK_CONFIG: MemoryBankConfig = {
+  max_memories_per_user: 10000,
+  memory_retention_days: 365,
+  pattern_strength_threshold: 0.3,
+  insight_impact_threshold: 0.4,
+  context_expiry_days: 30,
+  embedding_model: 'text-embedding-ada-002',
+  similarity_threshold: 0.1 // Lowest cosine similarity a search result may have
+};
+
+// Weights of a search result's relevance score; they sum to 1
+const RELEVANCE_WEIGHTS = { similarity: 0.6, importance: 0.25, recency: 0.15 };
+
+// Days without being referenced after which a memory counts half as recent
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Memories searched by the database before re-ranking by importance and recency
+const SEARCH_CANDIDATES = 100;
+
+// Most important, most recently referenced memories ranked in process when pgvector is missing
+const IN_PROCESS_SEARCH_CANDIDATES = 500;
+
+// Memories without a current embedding that one run of the backfill embeds
+const EMBEDDING_BACKFILL_BATCH = 100;
+
+// How often the backfill looks for memories without a current embedding
+export const EMBEDDING_BACKFILL_INTERVAL_MS = 60_000;
+
+/**
+ * The text values of a memory's content, in order
+ */
+export function flattenMemoryContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (typeof content === 'number' || typeof content === 'boolean') return String(content);
+  if (Array.isArray(content)) return content.map(value => flattenMemoryContent(value)).filter(Boolean).join('; ');
+  if (content && typeof content === 'object') {
+    return Object.values(content).map(value => flattenMemoryContent(value)).filter(Boolean).join('; ');
+  }
+  return '';
+}
+
+// Operations on a single memory, pattern or context only touch rows of the given user
 export class MemoryBankService {
+  private static instance: MemoryBankService;
   private db: Pool;
   private config: MemoryBankConfig;
+  private embeddings: EmbeddingProvider;
+  private pgvector: Promise<boolean> | null = null;
+  private backfilling: Promise<number> | null = null;
+  private backfillTimer: NodeJS.Timeout | null = null;
 
-  constructor(db: Pool, config: MemoryBankConfig) {
+  constructor(db: Pool, config: MemoryBankConfig, embeddings: EmbeddingProvider = new LocalHashedEmbeddingProvider()) {
     this.db = db;
     this.config = config;
+    this.embeddings = embeddings;
+  }
+
+  static getInstance(embedding: EmbeddingConfig = embeddingConfigFromEnv()): MemoryBankService {
+    if (!MemoryBankService.instance) {
+      MemoryBankService.instance = new MemoryBankService(
+        DatabaseService.getInstance().getPool(),
+        DEFAULT_MEMORY_BANK_CONFIG,
+        createEmbeddingProvider(embedding)
+      );
+    }
+    return MemoryBankService.instance;
+  }
+
+  /**
+   * Provider, model and dimensions of the vectors this service stores and searches
+   */
+  get embeddingModel(): string {
+    return embeddingKey(this.embeddings);
   }
 
   // Core Memory Operations
@@ -59,7 +136,7 @@ export class MemoryBankService {
       const memory = this.mapRowToMemory(result.rows[0]);
 
       // Generate embedding for semantic search
-      await this.generateEmbedding(memory.memory_id, request.content);
+      await this.generateEmbedding(memory);
 
       logger.info(`Created memory ${memory.memory_id} for user ${userId}`);
       return memory;
@@ -71,7 +148,7 @@ export class MemoryBankService {
     }
   }
 
-  async updateMemory(memoryId: string, request: UpdateMemoryRequest): Promise<UserMemoryBank> {
+  async updateMemory(userId: string, memoryId: string, request: UpdateMemoryRequest): Promise<UserMemoryBank | null> {
     const client = await this.db.connect();
     try {
       const setParts: string[] = [];
@@ -96,25 +173,25 @@ export class MemoryBankService {
       }
 
       setParts.push(`updated_at = NOW()`);
-      values.push(memoryId);
+      values.push(memoryId, userId);
 
       const query = `
         UPDATE user_memory_bank 
         SET ${setParts.join(', ')}
-        WHERE memory_id = $${paramIndex}
+        WHERE memory_id = $${paramIndex} AND user_id = $${paramIndex + 1}
         RETURNING *
       `;
 
       const result = await client.query(query, values);
       if (result.rows.length === 0) {
-        throw new Error(`Memory ${memoryId} not found`);
+        return null;
       }
 
       const memory = this.mapRowToMemory(result.rows[0]);
 
-      // Regenerate embedding if content changed
-      if (request.content !== undefined) {
-        await this.generateEmbedding(memory.memory_id, request.content);
+      // Regenerate embedding if the embedded text changed
+      if (request.content !== undefined || request.category !== undefined) {
+        await this.generateEmbedding(memory);
       }
 
       return memory;
@@ -126,17 +203,17 @@ export class MemoryBankService {
     }
   }
 
-  async getMemory(memoryId: string): Promise<UserMemoryBank | null> {
+  async getMemory(userId: string, memoryId: string): Promise<UserMemoryBank | null> {
     const client = await this.db.connect();
     try {
       const query = `
         UPDATE user_memory_bank 
         SET last_referenced = NOW() 
-        WHERE memory_id = $1
+        WHERE memory_id = $1 AND user_id = $2
         RETURNING *
       `;
       
-      const result = await client.query(query, [memoryId]);
+      const result = await client.query(query, [memoryId, userId]);
       return result.rows.length > 0 ? this.mapRowToMemory(result.rows[0]) : null;
     } catch (error) {
       logger.error('Error getting memory:', error);
@@ -166,11 +243,25 @@ export class MemoryBankService {
     }
   }
 
-  async deleteMemory(memoryId: string): Promise<boolean> {
+  async markReferenced(memoryIds: string[]): Promise<void> {
+    if (memoryIds.length === 0) return;
+    const client = await this.db.connect();
+    try {
+      const query = 'UPDATE user_memory_bank SET last_referenced = NOW() WHERE memory_id = ANY($1)';
+      await client.query(query, [memoryIds]);
+    } catch (error) {
+      logger.error('Error marking memories referenced:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteMemory(userId: string, memoryId: string): Promise<boolean> {
     const client = await this.db.connect();
     try {
-      const query = 'DELETE FROM user_memory_bank WHERE memory_id = $1';
-      const result = await client.query(query, [memoryId]);
+      const query = 'DELETE FROM user_memory_bank WHERE memory_id = $1 AND user_id = $2';
+      const result = await client.query(query, [memoryId, userId]);
       return (result.rowCount ?? 0) > 0;
     } catch (error) {
       logger.error('Error deleting memory:', error);
@@ -211,7 +302,7 @@ export class MemoryBankService {
     }
   }
 
-  async updatePatternStrength(patternId: string, strengthDelta: number): Promise<MemoryPattern> {
+  async updatePatternStrength(userId: string, patternId: string, strengthDelta: number): Promise<MemoryPattern | null> {
     const client = await this.db.connect();
     try {
       const query = `
@@ -220,13 +311,13 @@ export class MemoryBankService {
           strength_score = LEAST(1.0, GREATEST(0.0, strength_score + $2)),
           frequency_count = frequency_count + 1,
           updated_at = NOW()
-        WHERE pattern_id = $1
+        WHERE pattern_id = $1 AND user_id = $3
         RETURNING *
       `;
       
-      const result = await client.query(query, [patternId, strengthDelta]);
+      const result = await client.query(query, [patternId, strengthDelta, userId]);
       if (result.rows.length === 0) {
-        throw new Error(`Pattern ${patternId} not found`);
+        return null;
       }
 
       return this.mapRowToPattern(result.rows[0]);
@@ -364,11 +455,11 @@ export class MemoryBankService {
     }
   }
 
-  async deactivateContext(contextId: string): Promise<boolean> {
+  async deactivateContext(userId: string, contextId: string): Promise<boolean> {
     const client = await this.db.connect();
     try {
-      const query = 'UPDATE memory_context SET active = false WHERE context_id = $1';
-      const result = await client.query(query, [contextId]);
+      const query = 'UPDATE memory_context SET active = false WHERE context_id = $1 AND user_id = $2';
+      const result = await client.query(query, [contextId, userId]);
       return (result.rowCount ?? 0) > 0;
     } catch (error) {
       logger.error('Error deactivating context:', error);
@@ -378,68 +469,119 @@ export class MemoryBankService {
     }
   }
 
+  /**
+   * Whether every one of the conversations belongs to the user
+   */
+  async ownsConversations(userId: string, conversationIds: string[]): Promise<boolean> {
+    const uniqueIds = [...new Set(conversationIds)];
+    if (uniqueIds.length === 0) return true;
+
+    const client = await this.db.connect();
+    try {
+      const query = 'SELECT conversation_id FROM coaching_conversations WHERE user_id = $1 AND conversation_id = ANY($2)';
+      const result = await client.query(query, [userId, uniqueIds]);
+      return result.rows.length === uniqueIds.length;
+    } catch (error) {
+      logger.error('Error checking conversation ownership:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   // Search and Analytics
+
+  /**
+   * Semantic search of a user's memories. Results are ranked by relevance: cosine
+   * similarity to the query, weighted 0.6, plus importance, weighted 0.25, plus recency,
+   * weighted 0.15, which halves for every 30 days a memory goes unreferenced. Similarity
+   * is computed by pgvector when installed and in process otherwise, over the user's most
+   * important and most recently referenced memories. Memories without a vector from the
+   * current model are left out until the background backfill embeds them.
+   */
   async searchMemories(userId: string, searchQuery: MemorySearchQuery): Promise<MemorySearchResult[]> {
+    const [queryVector] = await this.embeddings.embed([searchQuery.query]);
     const client = await this.db.connect();
     try {
-      let query = `
-        SELECT m.*, e.embedding_vector, e.content_hash
-        FROM user_memory_bank m
-        LEFT JOIN memory_embeddings e ON m.memory_id = e.memory_id
-        WHERE m.user_id = $1
-      `;
-      
-      const values: any[] = [userId];
-      let paramIndex = 2;
+      const values: any[] = [userId, this.embeddingModel];
+      let paramIndex = 3;
+      let filters = '';
 
       if (searchQuery.memory_types && searchQuery.memory_types.length > 0) {
-        query += ` AND m.memory_type = ANY($${paramIndex++})`;
+        filters += ` AND m.memory_type = ANY($${paramIndex++})`;
         values.push(searchQuery.memory_types);
       }
 
       if (searchQuery.categories && searchQuery.categories.length > 0) {
-        query += ` AND m.category = ANY($${paramIndex++})`;
+        filters += ` AND m.category = ANY($${paramIndex++})`;
         values.push(searchQuery.categories);
       }
 
-      if (searchQuery.min_confidence) {
-        query += ` AND m.confidence_score >= $${paramIndex++}`;
+      if (searchQuery.min_confidence !== undefined) {
+        filters += ` AND m.confidence_score >= $${paramIndex++}`;
         values.push(searchQuery.min_confidence);
       }
 
-      if (searchQuery.min_importance) {
-        query += ` AND m.importance_score >= $${paramIndex++}`;
+      if (searchQuery.min_importance !== undefined) {
+        filters += ` AND m.importance_score >= $${paramIndex++}`;
         values.push(searchQuery.min_importance);
       }
 
-      // Simple text search in content
-      if (searchQuery.query) {
-        query += ` AND (m.content::text ILIKE $${paramIndex++} OR m.category ILIKE $${paramIndex++})`;
-        values.push(`%${searchQuery.query}%`, `%${searchQuery.query}%`);
-      }
-
-      query += ` ORDER BY m.importance_score DESC, m.last_referenced DESC`;
-      
-      if (searchQuery.limit) {
-        query += ` LIMIT $${paramIndex++}`;
-        values.push(searchQuery.limit);
+      let query = `
+        SELECT m.*, e.embedding_id, e.embedding_vector, e.content_hash, e.embedding_model,
+               e.created_at AS embedding_created_at
+      `;
+      const usePgvector = await this.hasPgvector();
+      if (usePgvector) {
+        const vectorParam = paramIndex++;
+        values.push(this.toVectorLiteral(queryVector!), SEARCH_CANDIDATES);
+        query += `, 1 - (e.embedding <=> $${vectorParam}::vector) AS similarity
+          FROM user_memory_bank m
+          JOIN memory_embeddings e ON m.memory_id = e.memory_id AND e.embedding_model = $2
+          WHERE m.user_id = $1${filters}
+          ORDER BY e.embedding <=> $${vectorParam}::vector
+          LIMIT $${paramIndex++}
+        `;
+      } else {
+        values.push(IN_PROCESS_SEARCH_CANDIDATES);
+        query += `
+          FROM user_memory_bank m
+          JOIN memory_embeddings e ON m.memory_id = e.memory_id AND e.embedding_model = $2
+          WHERE m.user_id = $1${filters}
+          ORDER BY m.importance_score DESC, m.last_referenced DESC
+          LIMIT $${paramIndex++}
+        `;
       }
 
       const result = await client.query(query, values);
-      
-      return result.rows.map(row => ({
-        memory: this.mapRowToMemory(row),
-        relevance_score: 1.0, // TODO: Implement proper relevance scoring
-        ...(row.embedding_vector && {
-          embedding: {
-            embedding_id: row.embedding_id,
-            memory_id: row.memory_id,
-            embedding_vector: row.embedding_vector,
-            content_hash: row.content_hash,
-            created_at: new Date(row.created_at)
-          } as MemoryEmbedding
+      const now = Date.now();
+
+      return result.rows
+        .map(row => {
+          const memory = this.mapRowToMemory(row);
+          const similarity = usePgvector
+            ? parseFloat(row.similarity)
+            : cosineSimilarity(queryVector!, (row.embedding_vector as number[]).map(Number));
+          return { row, memory, similarity, relevance: this.relevanceScore(memory, similarity, now) };
         })
-      }));
+        .filter(({ similarity }) => similarity >= this.config.similarity_threshold)
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, searchQuery.limit ?? 20)
+        .map(({ row, memory, similarity, relevance }) => ({
+          memory,
+          relevance_score: relevance,
+          similarity_score: similarity,
+          ...(searchQuery.include_embeddings && {
+            embedding: {
+              embedding_id: row.embedding_id,
+              memory_id: row.memory_id,
+              embedding_vector: (row.embedding_vector as number[]).map(Number),
+              embedding_model: row.embedding_model,
+              content_hash: row.content_hash,
+              created_at: new Date(row.embedding_created_at)
+            } as MemoryEmbedding
+          })
+        }));
     } catch (error) {
       logger.error('Error searching memories:', error);
       throw error;
@@ -499,46 +641,122 @@ export class MemoryBankService {
   }
 
   // Private helper methods
-  private async generateEmbedding(memoryId: string, content: Record<string, any>): Promise<void> {
+  private async generateEmbedding(memory: UserMemoryBank): Promise<void> {
     try {
-      // TODO: Implement actual embedding generation using OpenAI or similar
-      // For now, create a placeholder embedding
-      const contentString = JSON.stringify(content);
-      const contentHash = this.generateContentHash(contentString);
-      
-      // Placeholder embedding (in real implementation, use actual embedding model)
-      const embeddingVector = new Array(1536).fill(0).map(() => Math.random());
-      
+      const [vector] = await this.embeddings.embed([this.embeddingText(memory)]);
       const client = await this.db.connect();
       try {
-        const query = `
-          INSERT INTO memory_embeddings (memory_id, embedding_vector, content_hash)
-          VALUES ($1, $2, $3)
-          ON CONFLICT (memory_id) DO UPDATE SET
-            embedding_vector = EXCLUDED.embedding_vector,
-            content_hash = EXCLUDED.content_hash,
-            created_at = NOW()
-        `;
-        
-        await client.query(query, [memoryId, embeddingVector, contentHash]);
+        await this.storeEmbedding(client, memory, vector!);
       } finally {
         client.release();
       }
     } catch (error) {
       logger.error('Error generating embedding:', error);
-      // Don't throw - embedding generation is not critical
+      // Don't throw - the background backfill embeds the memory later
+    }
+  }
+
+  /**
+   * Embed a batch of memories that have no vector from the current model, such as those
+   * stored before a provider change or whose embedding failed, most important first.
+   * Returns how many were embedded; a call during a run waits for that run.
+   */
+  backfillEmbeddings(): Promise<number> {
+    if (!this.backfilling) {
+      this.backfilling = this.embedMissing().finally(() => {
+        this.backfilling = null;
+      });
     }
+    return this.backfilling;
   }
 
-  private generateContentHash(content: string): string {
-    // Simple hash function - in production, use crypto.createHash
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  startEmbeddingBackfill(intervalMs: number = EMBEDDING_BACKFILL_INTERVAL_MS): void {
+    if (this.backfillTimer) return;
+    this.backfillTimer = setInterval(() => {
+      this.backfillEmbeddings().catch(error => {
+        logger.warn('Could not embed memories without a current vector:', error);
+      });
+    }, intervalMs);
+    this.backfillTimer.unref();
+  }
+
+  stopEmbeddingBackfill(): void {
+    if (this.backfillTimer) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = null;
     }
-    return Math.abs(hash).toString(16);
+  }
+
+  private async embedMissing(): Promise<number> {
+    const client = await this.db.connect();
+    try {
+      const result = await client.query(`
+        SELECT m.*
+        FROM user_memory_bank m
+        LEFT JOIN memory_embeddings e ON m.memory_id = e.memory_id AND e.embedding_model = $1
+        WHERE e.memory_id IS NULL
+        ORDER BY m.importance_score DESC, m.last_referenced DESC
+        LIMIT $2
+      `, [this.embeddingModel, EMBEDDING_BACKFILL_BATCH]);
+      if (result.rows.length === 0) return 0;
+
+      const memories = result.rows.map(row => this.mapRowToMemory(row));
+      const vectors = await this.embeddings.embed(memories.map(memory => this.embeddingText(memory)));
+      for (const [index, memory] of memories.entries()) {
+        await this.storeEmbedding(client, memory, vectors[index]!);
+      }
+      logger.info(`Embedded ${memories.length} memories with ${this.embeddingModel}`);
+      return memories.length;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async storeEmbedding(client: PoolClient, memory: UserMemoryBank, vector: number[]): Promise<void> {
+    const contentHash = crypto.createHash('sha256').update(this.embeddingText(memory)).digest('hex');
+    const values: any[] = [memory.memory_id, vector, contentHash, this.embeddingModel];
+    const usePgvector = await this.hasPgvector();
+    if (usePgvector) values.push(this.toVectorLiteral(vector));
+
+    await client.query(`
+      INSERT INTO memory_embeddings (memory_id, embedding_vector, content_hash, embedding_model${usePgvector ? ', embedding' : ''})
+      VALUES ($1, $2, $3, $4${usePgvector ? ', $5::vector' : ''})
+      ON CONFLICT (memory_id) DO UPDATE SET
+        embedding_vector = EXCLUDED.embedding_vector,
+        content_hash = EXCLUDED.content_hash,
+        embedding_model = EXCLUDED.embedding_model,${usePgvector ? '\n        embedding = EXCLUDED.embedding,' : ''}
+        created_at = NOW()
+    `, values);
+  }
+
+  // Whether migration 020 found pgvector and added the embedding column
+  private hasPgvector(): Promise<boolean> {
+    if (!this.pgvector) {
+      this.pgvector = this.db.query(`
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'memory_embeddings' AND column_name = 'embedding'
+      `).then(result => result.rows.length > 0).catch(error => {
+        logger.warn('Could not check for pgvector, ranking in process:', error);
+        return false;
+      });
+    }
+    return this.pgvector;
+  }
+
+  private embeddingText(memory: UserMemoryBank): string {
+    return `${memory.category}: ${flattenMemoryContent(memory.content)}`;
+  }
+
+  private toVectorLiteral(vector: number[]): string {
+    return `[${vector.join(',')}]`;
+  }
+
+  private relevanceScore(memory: UserMemoryBank, similarity: number, now: number): number {
+    const daysUnreferenced = Math.max(0, now - memory.last_referenced.getTime()) / 86400000;
+    const recency = Math.pow(0.5, daysUnreferenced / RECENCY_HALF_LIFE_DAYS);
+    return RELEVANCE_WEIGHTS.similarity * similarity
+      + RELEVANCE_WEIGHTS.importance * memory.importance_score
+      + RELEVANCE_WEIGHTS.recency * recency;
   }
 
   private mapRowToMemory(row: any): UserMemoryBank {
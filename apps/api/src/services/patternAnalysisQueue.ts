@@ -0,0 +1,323 @@
+import { PatternAnalysisJob, PatternAnalysisJobStatus } from '@/types';
+import winston from 'winston';
+import { DatabaseService } from './database';
+import { MemoryBankService } from './memoryBankService';
+import { ConversationData, PatternRecognitionService } from './patternRecognitionService';
+import { SocketService } from './socket';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/pattern-analysis.log' })
+  ]
+});
+
+type ConversationAnalyzer = Pick<PatternRecognitionService, 'analyzeConversation'>;
+
+// A running job beats this often; one whose beat is older than the stale limit lost its instance
+export const JOB_HEARTBEAT_INTERVAL_MS = 30_000;
+export const JOB_STALE_AFTER_SECONDS = 120;
+// How often a running instance looks for stale jobs to take over
+export const STALE_JOB_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Runs pattern and insight analysis of ended coaching conversations in the background.
+ * Jobs are stored in pattern_analysis_jobs and worked through one at a time in process;
+ * a failed job stays failed until an admin retries it. Each API instance runs the jobs it
+ * claims, under its instance id, and keeps their heartbeat going while they run; the
+ * stale-job sweep takes over the running jobs of an instance that stopped beating.
+ */
+export class PatternAnalysisQueue {
+  private static instance: PatternAnalysisQueue;
+  private db: DatabaseService;
+  private analyzer: ConversationAnalyzer;
+  private instanceId: string;
+  private pending: string[] = [];
+  private draining: Promise<void> | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // The instance id must stay the same across restarts for the instance to take back its jobs
+  constructor(db: DatabaseService, analyzer: ConversationAnalyzer, instanceId: string) {
+    this.db = db;
+    this.analyzer = analyzer;
+    this.instanceId = instanceId;
+  }
+
+  static getInstance(instanceId?: string): PatternAnalysisQueue {
+    if (!PatternAnalysisQueue.instance) {
+      if (!instanceId) {
+        throw new Error('PatternAnalysisQueue instance id is required for first initialization');
+      }
+      const db = DatabaseService.getInstance();
+      const analyzer = new PatternRecognitionService(db.getPool(), MemoryBankService.getInstance());
+      PatternAnalysisQueue.instance = new PatternAnalysisQueue(db, analyzer, instanceId);
+    }
+    return PatternAnalysisQueue.instance;
+  }
+
+  /**
+   * Queue the analysis of an ended conversation
+   */
+  async enqueue(conversationId: string, userId: string): Promise<PatternAnalysisJob> {
+    const result = await this.db.query(`
+      INSERT INTO pattern_analysis_jobs (conversation_id, user_id)
+      VALUES ($1, $2)
+      RETURNING *
+    `, [conversationId, userId]);
+
+    const job = this.mapRowToJob(result.rows[0]);
+    logger.info('Pattern analysis queued', { jobId: job.job_id, conversationId, userId });
+    this.schedule(job.job_id);
+    return job;
+  }
+
+  /**
+   * Queue a failed job again; null when there is no failed job with the id
+   */
+  async retry(jobId: string): Promise<PatternAnalysisJob | null> {
+    const result = await this.db.query(`
+      UPDATE pattern_analysis_jobs
+      SET status = 'queued', last_error = NULL
+      WHERE job_id = $1 AND status = 'failed'
+      RETURNING *
+    `, [jobId]);
+
+    if (result.rows.length === 0) return null;
+    logger.info('Pattern analysis retried', { jobId });
+    this.schedule(jobId);
+    return this.mapRowToJob(result.rows[0]);
+  }
+
+  /**
+   * Pick up the queued jobs, and the running ones this instance left behind when it last
+   * stopped or whose instance stopped beating. Jobs other instances are still running
+   * are left to them.
+   */
+  async resumePending(): Promise<number> {
+    const result = await this.db.query(`
+      UPDATE pattern_analysis_jobs
+      SET status = 'queued'
+      WHERE status = 'queued'
+        OR (status = 'running' AND (
+          claimed_by IS NULL OR claimed_by = $1 OR heartbeat_at < NOW() - $2 * INTERVAL '1 second'
+        ))
+      RETURNING job_id
+    `, [this.instanceId, JOB_STALE_AFTER_SECONDS]);
+
+    result.rows.forEach((row: { job_id: string }) => this.schedule(row.job_id));
+    if (result.rows.length > 0) {
+      logger.info('Resumed pending pattern analysis jobs', { count: result.rows.length });
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Queue again the running jobs whose instance stopped beating, so a crashed instance's
+   * jobs do not wait for an instance to restart. Only one instance takes over each job.
+   */
+  async reclaimStale(): Promise<number> {
+    const result = await this.db.query(`
+      UPDATE pattern_analysis_jobs
+      SET status = 'queued', claimed_by = NULL
+      WHERE status = 'running' AND heartbeat_at < NOW() - $1 * INTERVAL '1 second'
+      RETURNING job_id
+    `, [JOB_STALE_AFTER_SECONDS]);
+
+    result.rows.forEach((row: { job_id: string }) => this.schedule(row.job_id));
+    if (result.rows.length > 0) {
+      logger.warn('Reclaimed stale pattern analysis jobs', { count: result.rows.length });
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Reclaim stale jobs on an interval until stopped
+   */
+  startStaleJobSweep(intervalMs: number = STALE_JOB_SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.reclaimStale().catch(error => {
+        logger.error('Could not reclaim stale pattern analysis jobs', { error: (error as Error).message });
+      });
+    }, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stopStaleJobSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async getJob(jobId: string): Promise<PatternAnalysisJob | null> {
+    const result = await this.db.query('SELECT * FROM pattern_analysis_jobs WHERE job_id = $1', [jobId]);
+    return result.rows.length > 0 ? this.mapRowToJob(result.rows[0]) : null;
+  }
+
+  async listJobs(status?: PatternAnalysisJobStatus, limit = 50): Promise<PatternAnalysisJob[]> {
+    const result = await this.db.query(`
+      SELECT * FROM pattern_analysis_jobs
+      WHERE ($1::varchar IS NULL OR status = $1)
+      ORDER BY created_at DESC
+      LIMIT $2
+    `, [status ?? null, limit]);
+    return result.rows.map((row: any) => this.mapRowToJob(row));
+  }
+
+  /**
+   * Resolves once every queued job has run
+   */
+  async whenIdle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  // Private helper methods
+
+  private schedule(jobId: string): void {
+    if (!this.pending.includes(jobId)) this.pending.push(jobId);
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    // Let the request that queued the job respond first
+    await new Promise(resolve => setImmediate(resolve));
+
+    let jobId: string | undefined;
+    while ((jobId = this.pending.shift())) {
+      await this.run(jobId);
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    // Claim the job; another worker or a duplicate schedule may have taken it
+    const claimed = await this.db.query(`
+      UPDATE pattern_analysis_jobs
+      SET status = 'running', attempts = attempts + 1, claimed_by = $2, heartbeat_at = NOW()
+      WHERE job_id = $1 AND status = 'queued'
+      RETURNING *
+    `, [jobId, this.instanceId]).catch(error => {
+      logger.error('Could not claim pattern analysis job', { jobId, error: (error as Error).message });
+      return { rows: [] };
+    });
+    if (claimed.rows.length === 0) return;
+
+    const job = this.mapRowToJob(claimed.rows[0]);
+    const heartbeat = setInterval(() => this.beat(jobId), JOB_HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+    try {
+      const conversationData = await this.buildConversationData(job);
+      const analysis = await this.analyzer.analyzeConversation(conversationData);
+
+      await this.db.query(`
+        UPDATE pattern_analysis_jobs
+        SET status = 'completed', patterns_detected = $2, insights_generated = $3,
+            analysis_summary = $4, completed_at = NOW()
+        WHERE job_id = $1
+      `, [jobId, analysis.patterns_detected.length, analysis.insights_generated.length, analysis.analysis_summary]);
+
+      logger.info('Pattern analysis completed', {
+        jobId,
+        conversationId: job.conversation_id,
+        patterns: analysis.patterns_detected.length,
+        insights: analysis.insights_generated.length
+      });
+
+      if (analysis.insights_generated.length > 0) {
+        SocketService.getInstance()?.sendInsightsReady(job.user_id, {
+          conversation_id: job.conversation_id,
+          job_id: jobId,
+          insights: analysis.insights_generated.map(insight => ({
+            insight_id: insight.insight_id,
+            insight_type: insight.insight_type,
+            title: insight.title,
+            description: insight.description
+          })),
+          analysis_summary: analysis.analysis_summary
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Pattern analysis failed', { jobId, conversationId: job.conversation_id, attempt: job.attempts, error: message });
+      await this.db.query(`
+        UPDATE pattern_analysis_jobs SET status = 'failed', last_error = $2 WHERE job_id = $1
+      `, [jobId, message]).catch(updateError => {
+        logger.error('Could not mark pattern analysis job failed', { jobId, error: (updateError as Error).message });
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async beat(jobId: string): Promise<void> {
+    await this.db.query(`
+      UPDATE pattern_analysis_jobs SET heartbeat_at = NOW()
+      WHERE job_id = $1 AND status = 'running' AND claimed_by = $2
+    `, [jobId, this.instanceId]).catch(error => {
+      logger.error('Could not record pattern analysis heartbeat', { jobId, error: (error as Error).message });
+    });
+  }
+
+  /**
+   * The transcript of the job's conversation, with its length and session type
+   */
+  private async buildConversationData(job: PatternAnalysisJob): Promise<ConversationData> {
+    const conversationResult = await this.db.query(
+      'SELECT * FROM coaching_conversations WHERE conversation_id = $1',
+      [job.conversation_id]
+    );
+    const conversation = conversationResult.rows[0];
+    if (!conversation) {
+      throw new Error(`Conversation ${job.conversation_id} not found`);
+    }
+
+    const history = await this.db.getConversationHistory(job.conversation_id);
+    const messages = history.map(message => ({
+      role: message.sender_type === 'user' ? 'user' as const : 'assistant' as const,
+      content: message.content,
+      timestamp: new Date(message.created_at)
+    }));
+
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    return {
+      conversation_id: job.conversation_id,
+      user_id: job.user_id,
+      messages,
+      session_metadata: {
+        topic_focus: conversation.session_type,
+        ...(first && last && {
+          duration_minutes: Math.round((last.timestamp.getTime() - first.timestamp.getTime()) / 60000)
+        })
+      }
+    };
+  }
+
+  private mapRowToJob(row: any): PatternAnalysisJob {
+    return {
+      job_id: row.job_id,
+      conversation_id: row.conversation_id,
+      user_id: row.user_id,
+      status: row.status,
+      attempts: row.attempts,
+      ...(row.claimed_by && { claimed_by: row.claimed_by }),
+      ...(row.patterns_detected !== null && row.patterns_detected !== undefined && { patterns_detected: row.patterns_detected }),
+      ...(row.insights_generated !== null && row.insights_generated !== undefined && { insights_generated: row.insights_generated }),
+      ...(row.analysis_summary && { analysis_summary: row.analysis_summary }),
+      ...(row.last_error && { last_error: row.last_error }),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      ...(row.completed_at && { completed_at: new Date(row.completed_at) })
+    };
+  }
+}
+
+export default PatternAnalysisQueue;
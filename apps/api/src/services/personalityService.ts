@@ -1,5 +1,11 @@
-import { BirthData, PersonalityProfile, PersonalityInsight, AstrologicalData, PsychologicalTraits } from '../types';
+import { BirthData, PersonalityProfile, PersonalityInsight, AstrologicalData, PsychologicalTraits, CelestialBody, PlanetaryPosition, AspectData, HouseCusp, HouseSystem } from '../types';
 import { DatabaseService } from './database';
+import { GeocodingService } from './geocodingService';
+import { SwissEphemerisService } from './swissEphemerisService';
+import { TimezoneService } from './timezoneService';
+import { TraitRuleEngine, TraitChart } from './traitRuleEngine';
+import { ChartStatisticsService } from './chartStatisticsService';
+import { DignityService } from './dignityService';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -11,16 +17,52 @@ const logger = winston.createLogger({
   ]
 });
 
+// Generic traits for users without birth data
+const GENERIC_TRAITS: PsychologicalTraits = {
+  communication_style: 'adaptable and context-dependent',
+  decision_making_pattern: 'balanced analytical and intuitive approach',
+  stress_response: 'varies based on situation and preparation',
+  leadership_tendency: 'collaborative and situational leadership style',
+  growth_orientation: 'continuous learning and self-improvement focus'
+};
+
+// A chart's positions, aspects and house cusps, with the stored chart they were read from if any
+interface ProfileChart extends TraitChart {
+  house_cusps: HouseCusp[];
+  chart_id?: string;
+}
+
+// The birth data a stored natal chart was cast for, as read from natal_charts
+interface StoredChart {
+  chart_id: string;
+  birth_datetime: Date;
+  birth_latitude: string;
+  birth_longitude: string;
+  birth_location: string;
+  timezone: string | null;
+  house_system: HouseSystem;
+}
+
 export class PersonalityService {
   private databaseService: DatabaseService;
+  private traitRuleEngine: TraitRuleEngine;
 
   constructor(databaseService: DatabaseService) {
     this.databaseService = databaseService;
+    this.traitRuleEngine = TraitRuleEngine.getInstance();
   }
 
-  async generatePersonalityProfile(birthData: Partial<BirthData>): Promise<PersonalityProfile> {
+  /**
+   * Generate a personality profile. Signs are read from the user's most recent stored
+   * natal chart when it was cast for the same birth data, so they match the chart the
+   * user sees; otherwise they are calculated from the birth data. Traits are synthesized from the chart by
+   * the trait rules, weighted by planetary strength when the rule set asks for it, and
+   * the rules that fired are kept as the explanation of each trait.
+   */
+  async generatePersonalityProfile(birthData: Partial<BirthData>, userId?: string): Promise<PersonalityProfile> {
     try {
       logger.info('Generating personality profile', { 
+        userId,
         birthData: { 
           hasBirthDate: !!birthData.birth_date,
           hasBirthTime: !!birthData.birth_time, 
@@ -31,11 +73,17 @@ export class PersonalityService {
       // Determine tier and calculate accordingly
       const tier = this.determineProfileTier(birthData);
       
+      // Without a birth date there is no chart to read
+      const chart = tier === 1 ? null : await this.loadChart(birthData, userId);
+
       // Calculate astrological data based on available information
-      const astrologicalData = await this.calculateTieredAstrologicalData(birthData, tier);
+      const astrologicalData = this.calculateTieredAstrologicalData(birthData, tier, chart);
       
-      // Map to psychological traits with tier-appropriate depth
-      const psychologicalTraits = this.mapToTieredPsychologicalTraits(astrologicalData, tier);
+      // Synthesize traits from whichever chart factors the tier provides
+      const synthesis = chart
+        ? this.traitRuleEngine.synthesize({ ...chart, strengths: DignityService.getInstance().calculateStrengths(chart.positions) })
+        : null;
+      const psychologicalTraits = synthesis?.traits ?? GENERIC_TRAITS;
       
       // Calculate confidence based on available data
       const accuracyConfidence = this.calculateTieredAccuracyConfidence(birthData, tier);
@@ -49,11 +97,17 @@ export class PersonalityService {
         // Add new fields for progressive enhancement
         profile_tier: tier,
         enhancement_suggestions: this.getEnhancementSuggestions(birthData, tier),
-        missing_components: this.getMissingComponents(birthData)
+        missing_components: this.getMissingComponents(birthData),
+        ...(synthesis && {
+          trait_rules_version: synthesis.rules_version,
+          trait_explanations: synthesis.explanations
+        })
       };
 
       logger.info('Personality profile generated successfully', { 
-        userId: 'pending', 
+        userId: userId ?? 'pending', 
+        chartId: astrologicalData.chart_id, 
+        traitRulesVersion: synthesis?.rules_version,
         confidence: accuracyConfidence,
         tier: tier
       });
@@ -117,213 +171,6 @@ export class PersonalityService {
     }
   }
 
-  private async calculateAstrologicalData(birthData: BirthData): Promise<AstrologicalData> {
-    // This is a simplified astrological calculation
-    // In a real implementation, you would use a proper astrological library
-    const birthDate = new Date(birthData.birth_date!);
-    const month = birthDate.getMonth() + 1;
-    const day = birthDate.getDate();
-
-    // Simplified sun sign calculation
-    const sunSign = this.calculateSunSign(month, day);
-    
-    // For moon and rising signs, we need birth time and location
-    // If not provided, we'll use simplified defaults
-    const moonSign = birthData.birth_time ? this.calculateMoonSign(birthDate, birthData.birth_time) : sunSign;
-    const risingSign = birthData.birth_time ? this.calculateRisingSign(birthDate, birthData.birth_time, birthData.birth_location!) : sunSign;
-
-    // Planetary positions (simplified)
-    const mercuryPosition = this.calculatePlanetaryPosition('mercury', birthDate);
-    const venusPosition = this.calculatePlanetaryPosition('venus', birthDate);
-    const marsPosition = this.calculatePlanetaryPosition('mars', birthDate);
-
-    return {
-      sun_sign: sunSign,
-      moon_sign: moonSign,
-      rising_sign: risingSign,
-      mercury_position: mercuryPosition,
-      venus_position: venusPosition,
-      mars_position: marsPosition,
-      life_areas: [],
-      birth_date: typeof birthData.birth_date === 'string' ? new Date(birthData.birth_date) : (birthData.birth_date || null),
-      birth_time: birthData.birth_time || null,
-      birth_location: birthData.birth_location || null,
-      calculated_at: new Date().toISOString()
-    };
-  }
-
-  private mapToPsychologicalTraits(astrologicalData: AstrologicalData): PsychologicalTraits {
-    return {
-      communication_style: this.mapCommunicationStyle(astrologicalData.rising_sign, astrologicalData.mercury_position),
-      decision_making_pattern: this.mapDecisionMakingPattern(astrologicalData.sun_sign, astrologicalData.mars_position),
-      stress_response: this.mapStressResponse(astrologicalData.moon_sign),
-      leadership_tendency: this.mapLeadershipTendency(astrologicalData.sun_sign, astrologicalData.mars_position),
-      growth_orientation: this.mapGrowthOrientation(astrologicalData.sun_sign, astrologicalData.moon_sign)
-    };
-  }
-
-  private calculateSunSign(month: number, day: number): string {
-    const signs = [
-      { sign: 'Capricorn', start: { month: 12, day: 22 }, end: { month: 1, day: 19 } },
-      { sign: 'Aquarius', start: { month: 1, day: 20 }, end: { month: 2, day: 18 } },
-      { sign: 'Pisces', start: { month: 2, day: 19 }, end: { month: 3, day: 20 } },
-      { sign: 'Aries', start: { month: 3, day: 21 }, end: { month: 4, day: 19 } },
-      { sign: 'Taurus', start: { month: 4, day: 20 }, end: { month: 5, day: 20 } },
-      { sign: 'Gemini', start: { month: 5, day: 21 }, end: { month: 6, day: 20 } },
-      { sign: 'Cancer', start: { month: 6, day: 21 }, end: { month: 7, day: 22 } },
-      { sign: 'Leo', start: { month: 7, day: 23 }, end: { month: 8, day: 22 } },
-      { sign: 'Virgo', start: { month: 8, day: 23 }, end: { month: 9, day: 22 } },
-      { sign: 'Libra', start: { month: 9, day: 23 }, end: { month: 10, day: 22 } },
-      { sign: 'Scorpio', start: { month: 10, day: 23 }, end: { month: 11, day: 21 } },
-      { sign: 'Sagittarius', start: { month: 11, day: 22 }, end: { month: 12, day: 21 } }
-    ];
-
-    for (const signData of signs) {
-      if (this.isDateInRange(month, day, signData.start, signData.end)) {
-        return signData.sign;
-      }
-    }
-
-    return 'Capricorn'; // Default fallback
-  }
-
-  private isDateInRange(month: number, day: number, start: { month: number; day: number }, end: { month: number; day: number }): boolean {
-    if (start.month === end.month) {
-      return month === start.month && day >= start.day && day <= end.day;
-    } else {
-      return (month === start.month && day >= start.day) || (month === end.month && day <= end.day);
-    }
-  }
-
-  private calculateMoonSign(birthDate: Date, birthTime: string): string {
-    // Simplified moon sign calculation
-    // In reality, this requires complex astronomical calculations
-    const signs = ['Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo', 'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'];
-    const dayOfYear = Math.floor((birthDate.getTime() - new Date(birthDate.getFullYear(), 0, 0).getTime()) / (1000 * 60 * 60 * 24));
-    const timeParts = birthTime.split(':').map(Number);
-    const hours = timeParts[0] || 12; // Default to noon if parsing fails
-    const index = (dayOfYear + hours) % 12;
-    return signs[index] || 'Aries';
-  }
-
-  private calculateRisingSign(birthDate: Date, birthTime: string, location: string): string {
-    // Simplified rising sign calculation
-    // In reality, this requires birth time and geographic coordinates
-    const signs = ['Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo', 'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'];
-    const timeParts = birthTime.split(':').map(Number);
-    const hours = timeParts[0] || 12; // Default to noon if parsing fails
-    const minutes = timeParts[1] || 0; // Default to 0 minutes if parsing fails
-    const timeIndex = Math.floor((hours * 60 + minutes) / 120); // 2-hour windows
-    const locationHash = location.split('').reduce((a, b) => a + b.charCodeAt(0), 0);
-    const index = (timeIndex + locationHash) % 12;
-    return signs[index] || 'Aries';
-  }
-
-  private calculatePlanetaryPosition(planet: string, birthDate: Date): string {
-    // Simplified planetary position calculation
-    const signs = ['Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo', 'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'];
-    const planetOffsets = { mercury: 0, venus: 3, mars: 6 };
-    const dayOfYear = Math.floor((birthDate.getTime() - new Date(birthDate.getFullYear(), 0, 0).getTime()) / (1000 * 60 * 60 * 24));
-    const offset = planetOffsets[planet as keyof typeof planetOffsets] || 0;
-    const index = (Math.floor(dayOfYear / 30) + offset) % 12;
-    return signs[index] || 'Aries';
-  }
-
-  private mapCommunicationStyle(risingSign: string, mercuryPosition: string): string {
-    const styles: Record<string, string> = {
-      'Aries': 'direct and energetic',
-      'Taurus': 'steady and practical',
-      'Gemini': 'versatile and articulate',
-      'Cancer': 'intuitive and empathetic',
-      'Leo': 'confident and expressive',
-      'Virgo': 'precise and analytical',
-      'Libra': 'diplomatic and harmonious',
-      'Scorpio': 'intense and perceptive',
-      'Sagittarius': 'enthusiastic and philosophical',
-      'Capricorn': 'structured and authoritative',
-      'Aquarius': 'innovative and independent',
-      'Pisces': 'compassionate and imaginative'
-    };
-
-    return styles[risingSign] || 'balanced and adaptable';
-  }
-
-  private mapDecisionMakingPattern(sunSign: string, marsPosition: string): string {
-    const patterns: Record<string, string> = {
-      'Aries': 'quick and instinctive',
-      'Taurus': 'deliberate and thorough',
-      'Gemini': 'analytical and flexible',
-      'Cancer': 'intuitive and cautious',
-      'Leo': 'confident and decisive',
-      'Virgo': 'methodical and detail-oriented',
-      'Libra': 'collaborative and balanced',
-      'Scorpio': 'strategic and intense',
-      'Sagittarius': 'optimistic and broad-minded',
-      'Capricorn': 'systematic and goal-oriented',
-      'Aquarius': 'innovative and logical',
-      'Pisces': 'intuitive and adaptable'
-    };
-
-    return patterns[sunSign] || 'thoughtful and measured';
-  }
-
-  private mapStressResponse(moonSign: string): string {
-    const responses: Record<string, string> = {
-      'Aries': 'action-oriented and direct',
-      'Taurus': 'seeking stability and comfort',
-      'Gemini': 'through communication and analysis',
-      'Cancer': 'emotional processing and withdrawal',
-      'Leo': 'seeking support and recognition',
-      'Virgo': 'organizing and problem-solving',
-      'Libra': 'seeking harmony and balance',
-      'Scorpio': 'intense focus and transformation',
-      'Sagittarius': 'seeking perspective and freedom',
-      'Capricorn': 'structured approach and control',
-      'Aquarius': 'detachment and innovation',
-      'Pisces': 'emotional release and creativity'
-    };
-
-    return responses[moonSign] || 'adaptive and resilient';
-  }
-
-  private mapLeadershipTendency(sunSign: string, marsPosition: string): string {
-    const tendencies: Record<string, string> = {
-      'Aries': 'pioneering and decisive',
-      'Taurus': 'steady and reliable',
-      'Gemini': 'communicative and flexible',
-      'Cancer': 'nurturing and protective',
-      'Leo': 'inspiring and charismatic',
-      'Virgo': 'service-oriented and efficient',
-      'Libra': 'collaborative and fair',
-      'Scorpio': 'transformational and intense',
-      'Sagittarius': 'visionary and motivating',
-      'Capricorn': 'strategic and disciplined',
-      'Aquarius': 'innovative and humanitarian',
-      'Pisces': 'empathetic and intuitive'
-    };
-
-    return tendencies[sunSign] || 'balanced and supportive';
-  }
-
-  private mapGrowthOrientation(sunSign: string, moonSign: string): string {
-    const orientations: Record<string, string> = {
-      'Aries': 'developing patience and collaboration',
-      'Taurus': 'embracing change and flexibility',
-      'Gemini': 'deepening focus and commitment',
-      'Cancer': 'building confidence and boundaries',
-      'Leo': 'cultivating humility and listening',
-      'Virgo': 'accepting imperfection and spontaneity',
-      'Libra': 'developing decisiveness and independence',
-      'Scorpio': 'practicing trust and openness',
-      'Sagittarius': 'developing attention to detail',
-      'Capricorn': 'embracing creativity and play',
-      'Aquarius': 'deepening emotional connections',
-      'Pisces': 'building structure and boundaries'
-    };
-
-    return orientations[sunSign] || 'continuous learning and adaptation';
-  }
-
   private calculateAccuracyConfidence(birthData: BirthData): number {
     let confidence = 60; // Base confidence with just birth date
 
@@ -346,8 +193,8 @@ export class PersonalityService {
     return 3; // Complete astrological profile
   }
 
-  private async calculateTieredAstrologicalData(birthData: Partial<BirthData>, tier: number): Promise<AstrologicalData> {
-    if (tier === 1) {
+  private calculateTieredAstrologicalData(birthData: Partial<BirthData>, tier: number, chart: ProfileChart | null): AstrologicalData {
+    if (!chart) {
       // No birth data - return minimal structure
       return {
         sun_sign: 'Unknown',
@@ -362,57 +209,182 @@ export class PersonalityService {
         birth_location: null,
         calculated_at: new Date().toISOString()
       };
-    } else if (tier === 2) {
-      // Birth date only - calculate Sun sign, estimate Moon
-      const birthDate = typeof birthData.birth_date === 'string' ? new Date(birthData.birth_date) : birthData.birth_date!;
-      const sunSign = this.calculateSunSign(
-        birthDate.getMonth() + 1, 
-        birthDate.getDate()
-      );
-      const moonSign = this.calculateMoonSign(birthDate, '12:00'); // Noon estimate
-      
-      return {
-        sun_sign: sunSign,
-        moon_sign: moonSign,
-        rising_sign: 'Unknown', // Requires birth time and location
-        mercury_position: 'Unknown',
-        venus_position: 'Unknown', 
-        mars_position: 'Unknown',
-        life_areas: [],
-        birth_date: birthDate,
-        birth_time: null,
-        birth_location: null,
-        calculated_at: new Date().toISOString()
-      };
-    } else {
-      // Full data available - use original calculation
-      return await this.calculateAstrologicalData(birthData as BirthData);
     }
+
+    const birthDate = typeof birthData.birth_date === 'string' ? new Date(birthData.birth_date) : birthData.birth_date!;
+    const signOf = (body: CelestialBody): string =>
+      chart.positions.find(position => (position.celestial_body || position.body) === body)?.zodiac_sign ?? 'Unknown';
+
+    return {
+      sun_sign: signOf('Sun'),
+      moon_sign: signOf('Moon'),
+      rising_sign: signOf('Ascendant'),
+      mercury_position: signOf('Mercury'),
+      venus_position: signOf('Venus'),
+      mars_position: signOf('Mars'),
+      life_areas: [],
+      birth_date: birthDate,
+      birth_time: tier === 3 ? birthData.birth_time || null : null,
+      birth_location: tier === 3 ? birthData.birth_location || null : null,
+      ...(chart.chart_id && { chart_id: chart.chart_id }),
+      chart_statistics: ChartStatisticsService.getInstance().calculateStatistics(chart.positions, chart.house_cusps),
+      calculated_at: new Date().toISOString()
+    };
   }
 
-  private mapToTieredPsychologicalTraits(astrologicalData: AstrologicalData, tier: number): PsychologicalTraits {
-    if (tier === 1) {
-      // Generic traits for users without birth data
-      return {
-        communication_style: 'adaptable and context-dependent',
-        decision_making_pattern: 'balanced analytical and intuitive approach',
-        stress_response: 'varies based on situation and preparation',
-        leadership_tendency: 'collaborative and situational leadership style',
-        growth_orientation: 'continuous learning and self-improvement focus'
-      };
-    } else if (tier === 2) {
-      // Limited traits based on Sun/Moon only
-      return {
-        communication_style: this.mapCommunicationStyle(astrologicalData.rising_sign, astrologicalData.mercury_position),
-        decision_making_pattern: this.mapDecisionMakingPattern(astrologicalData.sun_sign, astrologicalData.mars_position),
-        stress_response: this.mapStressResponse(astrologicalData.moon_sign),
-        leadership_tendency: `${astrologicalData.sun_sign}-influenced leadership approach (enhanced insights available with birth time)`,
-        growth_orientation: this.mapGrowthOrientation(astrologicalData.sun_sign, astrologicalData.moon_sign)
-      };
-    } else {
-      // Full traits calculation
-      return this.mapToPsychologicalTraits(astrologicalData);
+  /**
+   * The user's most recent stored chart when it was cast for this birth date, time and place.
+   * When only the date or time changed, the chart is cast again at the stored coordinates;
+   * a new place is geocoded first. Charts cast here are not stored: storing natal charts
+   * is left to the astrology routes.
+   */
+  private async loadChart(birthData: Partial<BirthData>, userId?: string): Promise<ProfileChart> {
+    const storedChart = userId ? await this.findStoredChart(userId) : null;
+    if (!storedChart || !birthData.birth_time || !this.isSameLocation(storedChart, birthData)) {
+      return this.calculateChart(birthData);
     }
+
+    if (this.isSameBirthTime(storedChart, birthData)) {
+      return this.loadStoredChart(storedChart.chart_id);
+    }
+
+    return this.castChart(
+      birthData,
+      parseFloat(storedChart.birth_latitude),
+      parseFloat(storedChart.birth_longitude),
+      storedChart.house_system,
+      storedChart.timezone ?? undefined
+    );
+  }
+
+  private async findStoredChart(userId: string): Promise<StoredChart | null> {
+    const result = await this.databaseService.query(`
+      SELECT chart_id, birth_datetime, birth_latitude, birth_longitude, birth_location, timezone, house_system
+      FROM natal_charts
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [userId]);
+
+    return result.rows[0] ?? null;
+  }
+
+  private isSameLocation(storedChart: StoredChart, birthData: Partial<BirthData>): boolean {
+    const normalize = (location: string) => location.trim().toLowerCase();
+    return !!birthData.birth_location && normalize(storedChart.birth_location) === normalize(birthData.birth_location);
+  }
+
+  // The stored birth instant is UTC; it is compared as wall-clock time at the birth place
+  private isSameBirthTime(storedChart: StoredChart, birthData: Partial<BirthData>): boolean {
+    const timezone = storedChart.timezone ?? TimezoneService.getInstance().lookupTimezone(
+      parseFloat(storedChart.birth_latitude),
+      parseFloat(storedChart.birth_longitude)
+    );
+    const local = TimezoneService.getInstance().utcToLocal(new Date(storedChart.birth_datetime), timezone);
+    return local.date === this.toDateString(birthData.birth_date!) && local.time === birthData.birth_time!.slice(0, 5);
+  }
+
+  // The birth time is read as wall-clock time in the given zone, or the zone of the coordinates
+  private async castChart(
+    birthData: Partial<BirthData>,
+    latitude: number,
+    longitude: number,
+    houseSystem: HouseSystem,
+    timezone?: string
+  ): Promise<ProfileChart> {
+    const swissEphemerisService = SwissEphemerisService.getInstance();
+    const resolvedTime = TimezoneService.getInstance().resolveBirthTime(
+      this.toDateString(birthData.birth_date!),
+      birthData.birth_time!,
+      latitude,
+      longitude,
+      timezone
+    );
+    const chart = await swissEphemerisService.castChart(
+      swissEphemerisService.dateToJulianDay(resolvedTime.utc_datetime),
+      latitude,
+      longitude,
+      houseSystem
+    );
+
+    return { positions: chart.planetary_positions, aspects: chart.aspects, house_cusps: chart.house_cusps };
+  }
+
+  private async loadStoredChart(chartId: string): Promise<ProfileChart> {
+    const [positionsResult, aspectsResult, houseCuspsResult] = await Promise.all([
+      this.databaseService.query(
+        'SELECT celestial_body, longitude, latitude, house_number, zodiac_sign, degree_in_sign FROM planetary_positions WHERE chart_id = $1',
+        [chartId]
+      ),
+      this.databaseService.query(
+        'SELECT body1, body2, aspect_type, orb, exact_angle, applying FROM aspects WHERE chart_id = $1',
+        [chartId]
+      ),
+      this.databaseService.query(
+        'SELECT house_number, cusp_longitude, zodiac_sign, degree_in_sign FROM house_cusps WHERE chart_id = $1 ORDER BY house_number',
+        [chartId]
+      )
+    ]);
+
+    const positions: PlanetaryPosition[] = positionsResult.rows.map((row: any) => ({
+      body: row.celestial_body,
+      celestial_body: row.celestial_body,
+      longitude: parseFloat(row.longitude),
+      latitude: parseFloat(row.latitude),
+      ...(row.house_number !== null && { house_number: row.house_number }),
+      zodiac_sign: row.zodiac_sign,
+      degree_in_sign: parseFloat(row.degree_in_sign)
+    }));
+    const aspects: AspectData[] = aspectsResult.rows.map((row: any) => ({
+      body1: row.body1,
+      body2: row.body2,
+      aspect_type: row.aspect_type,
+      orb: parseFloat(row.orb),
+      exact_angle: parseFloat(row.exact_angle),
+      applying: row.applying
+    }));
+    const houseCusps: HouseCusp[] = houseCuspsResult.rows.map((row: any) => ({
+      house_number: row.house_number,
+      cusp_longitude: parseFloat(row.cusp_longitude),
+      zodiac_sign: row.zodiac_sign,
+      degree_in_sign: parseFloat(row.degree_in_sign)
+    }));
+
+    return { chart_id: chartId, positions, aspects, house_cusps: houseCusps };
+  }
+
+  private async calculateChart(birthData: Partial<BirthData>): Promise<ProfileChart> {
+    const place = birthData.birth_time && birthData.birth_location
+      ? await GeocodingService.getInstance().geocode(birthData.birth_location)
+      : null;
+    if (place) {
+      return this.castChart(birthData, place.latitude, place.longitude, 'Placidus');
+    }
+
+    // Without birth time and coordinates the birth time is read as UTC (noon when unknown),
+    // and the angles and houses are left out
+    const swissEphemerisService = SwissEphemerisService.getInstance();
+    const julianDay = swissEphemerisService.convertToJulianDay(
+      this.toDateString(birthData.birth_date!),
+      birthData.birth_time || undefined
+    );
+    // The ephemeris places each body in a house for the coordinates it is given; at 0°N 0°E
+    // those houses are made up, so they are dropped with the angles
+    const positions = (await swissEphemerisService.calculatePlanetaryPositions(julianDay, 0, 0))
+      .filter(position => {
+        const body = position.celestial_body || position.body;
+        return body !== 'Ascendant' && body !== 'Midheaven';
+      })
+      .map(({ house, house_number, ...position }): PlanetaryPosition => position);
+
+    return { positions, aspects: swissEphemerisService.calculateAspects(positions), house_cusps: [] };
+  }
+
+  private toDateString(date: Date | string): string {
+    if (typeof date === 'string') return date.split('T')[0]!;
+    // DATE columns are read as local midnight
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
   }
 
   private calculateTieredAccuracyConfidence(birthData: Partial<BirthData>, tier: number): number {
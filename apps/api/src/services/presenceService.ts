@@ -0,0 +1,107 @@
+import { RedisStore } from './redis';
+
+export interface UserPresence {
+  user_id: string;
+  online: boolean;
+  socket_count: number;
+  last_seen: Date | null;
+}
+
+const socketsKey = (userId: string) => `presence:sockets:${userId}`;
+const lastSeenKey = (userId: string) => `presence:last_seen:${userId}`;
+const instanceKey = (instanceId: string) => `presence:instance:${instanceId}`;
+const roomsKey = (userId: string) => `presence:rooms:${userId}`;
+const ONLINE_USERS_KEY = 'presence:online';
+
+/**
+ * Who is connected, across every API instance. A user is online while any of their
+ * sockets, on any instance, is connected. Each instance also records the sockets it
+ * holds, so that on restart it can drop the ones its previous process left behind.
+ * The conversation rooms a user has joined are kept too, so they can be rejoined
+ * after a reconnect to any instance.
+ */
+export class PresenceService {
+  constructor(private store: RedisStore, private instanceId: string) {}
+
+  /**
+   * Record a connected socket; resolves true when it brought the user online
+   */
+  async connect(userId: string, socketId: string): Promise<boolean> {
+    // Counted in the same step, so of two sockets connecting at once exactly one is the first
+    const socketCount = await this.store.addToSetsAndCount([
+      { key: socketsKey(userId), member: `${this.instanceId}/${socketId}` },
+      { key: instanceKey(this.instanceId), member: `${userId}/${socketId}` },
+      { key: ONLINE_USERS_KEY, member: userId }
+    ], socketsKey(userId));
+    return socketCount === 1;
+  }
+
+  /**
+   * Forget a disconnected socket; resolves with the last-seen time when it was the
+   * user's last one
+   */
+  async disconnect(userId: string, socketId: string): Promise<Date | null> {
+    await this.store.removeFromSet(socketsKey(userId), `${this.instanceId}/${socketId}`);
+    await this.store.removeFromSet(instanceKey(this.instanceId), `${userId}/${socketId}`);
+    return this.markOfflineIfIdle(userId);
+  }
+
+  /**
+   * Drop the sockets a previous process of this instance left registered. Resolves
+   * with the users that went offline, with their last-seen times.
+   */
+  async clearInstance(): Promise<Map<string, Date>> {
+    const offline = new Map<string, Date>();
+    for (const entry of await this.store.getSetMembers(instanceKey(this.instanceId))) {
+      const [userId, socketId] = entry.split('/') as [string, string];
+      await this.store.removeFromSet(socketsKey(userId), `${this.instanceId}/${socketId}`);
+      await this.store.removeFromSet(instanceKey(this.instanceId), entry);
+      const lastSeen = await this.markOfflineIfIdle(userId);
+      if (lastSeen) offline.set(userId, lastSeen);
+    }
+    return offline;
+  }
+
+  async isOnline(userId: string): Promise<boolean> {
+    return (await this.store.getSetMembers(socketsKey(userId))).length > 0;
+  }
+
+  async getOnlineUsers(): Promise<string[]> {
+    return this.store.getSetMembers(ONLINE_USERS_KEY);
+  }
+
+  async getPresence(userId: string): Promise<UserPresence> {
+    const sockets = await this.store.getSetMembers(socketsKey(userId));
+    const lastSeen = await this.store.get(lastSeenKey(userId));
+    return {
+      user_id: userId,
+      online: sockets.length > 0,
+      socket_count: sockets.length,
+      last_seen: lastSeen ? new Date(lastSeen) : null
+    };
+  }
+
+  // Conversation rooms, kept until the user leaves them
+
+  async joinRoom(userId: string, conversationId: string): Promise<void> {
+    await this.store.addToSet(roomsKey(userId), conversationId);
+  }
+
+  async leaveRoom(userId: string, conversationId: string): Promise<void> {
+    await this.store.removeFromSet(roomsKey(userId), conversationId);
+  }
+
+  async getRooms(userId: string): Promise<string[]> {
+    return this.store.getSetMembers(roomsKey(userId));
+  }
+
+  // Checked and removed in one step, so a socket connecting on another instance meanwhile
+  // keeps the user online; of two last sockets disconnecting at once, one takes the user offline
+  private async markOfflineIfIdle(userId: string): Promise<Date | null> {
+    if (!(await this.store.removeFromSetIfEmpty(ONLINE_USERS_KEY, userId, socketsKey(userId)))) return null;
+
+    const lastSeen = new Date();
+    await this.store.set(lastSeenKey(userId), lastSeen.toISOString());
+    return lastSeen;
+  }
+}
@@ -11,7 +11,57 @@ const logger = winston.createLogger({
   ]
 });
 
-export class RedisService {
+// Runs in Redis as one step, so no other client writes the key between the read and the write
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current)[ARGV[1]] ~= ARGV[2] then
+  return 0
+end
+if ARGV[4] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[3], 'EX', ARGV[4])
+else
+  redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
+`;
+
+// Adds each ARGV member to the set of the same KEYS index, then counts the last key's set
+const ADD_TO_SETS_AND_COUNT_SCRIPT = `
+for i = 1, #ARGV do
+  redis.call('SADD', KEYS[i], ARGV[i])
+end
+return redis.call('SCARD', KEYS[#KEYS])
+`;
+
+const REMOVE_FROM_SET_IF_EMPTY_SCRIPT = `
+if redis.call('SCARD', KEYS[1]) > 0 then
+  return 0
+end
+return redis.call('SREM', KEYS[2], ARGV[1])
+`;
+
+/**
+ * The Redis operations the socket layer and auth sessions rely on. RedisService runs
+ * them against the server; InMemoryRedis runs them in process for tests.
+ */
+export interface RedisStore {
+  publish(channel: string, message: any): Promise<void>;
+  subscribe(channel: string, callback: (message: any) => void): Promise<() => Promise<void>>;
+  set(key: string, value: any, expirationSeconds?: number): Promise<void>;
+  get(key: string): Promise<any | null>;
+  // Replace a stored object only while its field still holds the expected value; resolves whether it did
+  compareAndSet(key: string, field: string, expected: string, value: any, expirationSeconds?: number): Promise<boolean>;
+  del(key: string): Promise<void>;
+  addToSet(key: string, member: string): Promise<void>;
+  removeFromSet(key: string, member: string): Promise<void>;
+  getSetMembers(key: string): Promise<string[]>;
+  // Add members to sets and count the members of another, in one step
+  addToSetsAndCount(members: Array<{ key: string; member: string }>, countKey: string): Promise<number>;
+  // Remove a member while the set at emptyKey is empty, in one step; resolves whether it was removed
+  removeFromSetIfEmpty(key: string, member: string, emptyKey: string): Promise<boolean>;
+}
+
+export class RedisService implements RedisStore {
   private static instance: RedisService;
   private client: RedisClientType;
   private config: RedisConfig;
@@ -105,67 +155,6 @@ export class RedisService {
     }
   }
 
-  // User session management (aliases for session methods used in auth routes)
-  async setUserSession(userId: string, sessionData: any, expirationSeconds: number = 7 * 24 * 60 * 60): Promise<void> {
-    console.log('🔄 REDIS: Setting user session:', {
-      userId,
-      expirationSeconds,
-      sessionData: { ...sessionData, login_time: sessionData.login_time?.toISOString() }
-    });
-    
-    // Set session expiration to 7 days to match JWT token expiration
-    const sevenDaysInSeconds = 7 * 24 * 60 * 60; // 604800 seconds
-    const actualExpiration = expirationSeconds === 3600 ? sevenDaysInSeconds : expirationSeconds;
-    
-    if (expirationSeconds === 3600) {
-      console.log('⚠️  REDIS: Adjusting session expiration from 1 hour to 7 days to match JWT token expiration');
-    }
-    
-    console.log('✅ REDIS: Session will expire in', actualExpiration, 'seconds (', Math.round(actualExpiration / (24 * 60 * 60)), 'days)');
-    
-    return this.setSession(userId, sessionData, actualExpiration);
-  }
-
-  async getUserSession(userId: string): Promise<any | null> {
-    console.log('🔍 REDIS: Getting user session for:', userId);
-    const session = await this.getSession(userId);
-    console.log('📋 REDIS: Session result:', session ? 'FOUND' : 'NOT_FOUND', session ? { expires_at: session.expires_at } : null);
-    return session;
-  }
-
-  async deleteUserSession(userId: string): Promise<void> {
-    console.log('🗑️  REDIS: Deleting user session for:', userId);
-    return this.deleteSession(userId);
-  }
-
-  // Refresh token management
-  async setRefreshToken(userId: string, token: string, expirationSeconds: number = 604800): Promise<void> {
-    try {
-      await this.client.setEx(`refresh_token:${userId}`, expirationSeconds, token);
-    } catch (error) {
-      logger.error('Error setting refresh token:', error);
-      throw error;
-    }
-  }
-
-  async getRefreshToken(userId: string): Promise<string | null> {
-    try {
-      return await this.client.get(`refresh_token:${userId}`);
-    } catch (error) {
-      logger.error('Error getting refresh token:', error);
-      throw error;
-    }
-  }
-
-  async deleteRefreshToken(userId: string): Promise<void> {
-    try {
-      await this.client.del(`refresh_token:${userId}`);
-    } catch (error) {
-      logger.error('Error deleting refresh token:', error);
-      throw error;
-    }
-  }
-
   // Personality insights caching
   async cachePersonalityInsights(userId: string, insights: any[], expirationSeconds: number = 1800): Promise<void> {
     try {
@@ -263,6 +252,19 @@ export class RedisService {
     }
   }
 
+  async compareAndSet(key: string, field: string, expected: string, value: any, expirationSeconds?: number): Promise<boolean> {
+    try {
+      const replaced = await this.client.eval(COMPARE_AND_SET_SCRIPT, {
+        keys: [key],
+        arguments: [field, expected, JSON.stringify(value), expirationSeconds ? String(expirationSeconds) : '']
+      });
+      return replaced === 1;
+    } catch (error) {
+      logger.error('Error comparing and setting cache value:', error);
+      throw error;
+    }
+  }
+
   async del(key: string): Promise<void> {
     try {
       await this.client.del(key);
@@ -272,6 +274,56 @@ export class RedisService {
     }
   }
 
+  // Set operations
+  async addToSet(key: string, member: string): Promise<void> {
+    try {
+      await this.client.sAdd(key, member);
+    } catch (error) {
+      logger.error('Error adding set member:', error);
+      throw error;
+    }
+  }
+
+  async removeFromSet(key: string, member: string): Promise<void> {
+    try {
+      await this.client.sRem(key, member);
+    } catch (error) {
+      logger.error('Error removing set member:', error);
+      throw error;
+    }
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    try {
+      return await this.client.sMembers(key);
+    } catch (error) {
+      logger.error('Error getting set members:', error);
+      throw error;
+    }
+  }
+
+  async addToSetsAndCount(members: Array<{ key: string; member: string }>, countKey: string): Promise<number> {
+    try {
+      return Number(await this.client.eval(ADD_TO_SETS_AND_COUNT_SCRIPT, {
+        keys: [...members.map(({ key }) => key), countKey],
+        arguments: members.map(({ member }) => member)
+      }));
+    } catch (error) {
+      logger.error('Error adding set members:', error);
+      throw error;
+    }
+  }
+
+  async removeFromSetIfEmpty(key: string, member: string, emptyKey: string): Promise<boolean> {
+    try {
+      const removed = await this.client.eval(REMOVE_FROM_SET_IF_EMPTY_SCRIPT, { keys: [emptyKey, key], arguments: [member] });
+      return removed === 1;
+    } catch (error) {
+      logger.error('Error removing set member:', error);
+      throw error;
+    }
+  }
+
   async exists(key: string): Promise<boolean> {
     try {
       const result = await this.client.exists(key);
@@ -301,7 +353,8 @@ export class RedisService {
     }
   }
 
-  async subscribe(channel: string, callback: (message: any) => void): Promise<void> {
+  // Resolves with a function that ends the subscription
+  async subscribe(channel: string, callback: (message: any) => void): Promise<() => Promise<void>> {
     try {
       const subscriber = this.client.duplicate();
       await subscriber.connect();
@@ -314,6 +367,11 @@ export class RedisService {
           logger.error('Error parsing subscribed message:', error);
         }
       });
+
+      return async () => {
+        await subscriber.unsubscribe(channel);
+        await subscriber.quit();
+      };
     } catch (error) {
       logger.error('Error subscribing to channel:', error);
       throw error;
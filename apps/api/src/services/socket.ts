@@ -1,7 +1,23 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
+import { Server, Socket } from 'socket.io';
 import winston from 'winston';
-import { User } from '@/types';
+import {
+  ClientEventAck,
+  ClientEventPayload,
+  ClientToServerEventName,
+  ClientToServerEvents,
+  Message,
+  ServerEventPayload,
+  ServerToClientEventName,
+  ServerToClientEvents,
+  UserRecord
+} from '@/types';
+import { authenticateToken } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { CoachingMessageService } from './coachingMessageService';
+import { PresenceService, UserPresence } from './presenceService';
+import { RedisStore } from './redis';
+import { createRedisAdapter } from './socketAdapter';
+import { SocketPayloadError, validateClientEvent } from './socketEvents';
 
 const logger = winston.createLogger({
   level: 'info',
@@ -12,17 +28,30 @@ const logger = winston.createLogger({
   ]
 });
 
-interface AuthenticatedSocket extends Socket {
-  user?: Omit<User, 'password_hash'>;
+// Socket.IO typed with the event contract shared with the web client
+export type SocketIOServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
+  user?: UserRecord;
+  session_id?: string;
 }
 
+/**
+ * Socket.IO for every API instance behind the load balancer. Broadcasts go through a
+ * Redis pub/sub adapter and presence lives in Redis, so an emit to a user or a
+ * conversation reaches their sockets whichever instance holds them.
+ */
 export class SocketService {
   private static instance: SocketService | null = null;
   private io: SocketIOServer;
-  private connectedUsers: Map<string, string> = new Map(); // userId -> socketId
+  private store: RedisStore;
+  private presence: PresenceService;
 
-  constructor(io: SocketIOServer) {
+  // The instance id must stay the same across restarts for stale presence to be cleared
+  constructor(io: SocketIOServer, store: RedisStore, instanceId: string) {
     this.io = io;
+    this.store = store;
+    this.presence = new PresenceService(store, instanceId);
     SocketService.instance = this;
   }
 
@@ -30,7 +59,15 @@ export class SocketService {
     return SocketService.instance;
   }
 
-  initialize(): void {
+  async initialize(): Promise<void> {
+    this.io.adapter(createRedisAdapter(this.store));
+
+    // Sockets held by this instance before a restart are gone
+    const offline = await this.presence.clearInstance();
+    for (const [userId, lastSeen] of offline) {
+      await this.sendPresenceChange(userId, false, lastSeen);
+    }
+
     // Authentication middleware
     this.io.use(async (socket: AuthenticatedSocket, next) => {
       try {
@@ -40,32 +77,10 @@ export class SocketService {
           return next(new Error('Authentication token required'));
         }
 
-        const jwtSecret = process.env['JWT_SECRET'];
-        if (!jwtSecret) {
-          return next(new Error('Server configuration error'));
-        }
-
-        const decoded = jwt.verify(token, jwtSecret) as any;
-        
-        if (!decoded.user_id) {
-          return next(new Error('Invalid token payload'));
-        }
-
-        // Attach user info to socket
-        socket.user = {
-          user_id: decoded.user_id,
-          email: decoded.email,
-          first_name: decoded.first_name,
-          last_name: decoded.last_name,
-          birth_date: decoded.birth_date,
-          birth_time: decoded.birth_time,
-          birth_location: decoded.birth_location,
-          personality_profile: decoded.personality_profile,
-          coaching_goals: decoded.coaching_goals,
-          onboarding_completed: decoded.onboarding_completed,
-          created_at: decoded.created_at,
-          updated_at: decoded.updated_at
-        };
+        // The same checks as HTTP requests: a live session and a user that still exists
+        const { user, session_id } = await authenticateToken(token);
+        socket.user = user;
+        socket.session_id = session_id;
 
         next();
       } catch (error) {
@@ -90,28 +105,76 @@ export class SocketService {
     }
 
     logger.info('User connected via socket', { userId, socketId: socket.id });
-    
-    // Track connected user
-    this.connectedUsers.set(userId, socket.id);
 
-    // Join user to their personal room
+    // Join user to their personal room, and the room of the session it signed in with
     socket.join(`user:${userId}`);
+    if (socket.session_id) {
+      socket.join(`session:${socket.session_id}`);
+    }
 
     // Handle coaching session events
     this.setupCoachingHandlers(socket);
 
+    // Record presence and rejoin saved rooms; disconnection is recorded only once that is done
+    const tracked = this.trackConnection(socket, userId).catch(error => {
+      logger.error('Failed to record socket connection', { userId, socketId: socket.id, error });
+    });
+
     // Handle disconnection
     socket.on('disconnect', () => {
       logger.info('User disconnected', { userId, socketId: socket.id });
-      this.connectedUsers.delete(userId);
+      tracked
+        .then(() => this.trackDisconnection(userId, socket.id))
+        .catch(error => logger.error('Failed to record socket disconnection', { userId, socketId: socket.id, error }));
     });
 
     // Send connection confirmation
     socket.emit('connected', {
       message: 'Connected to Agentic Counsel',
-      userId: userId,
+      user_id: userId,
+      timestamp: new Date()
+    });
+  }
+
+  private async trackConnection(socket: AuthenticatedSocket, userId: string): Promise<void> {
+    // Saved rooms are checked again, as when they were joined; rooms the user no longer owns are dropped
+    const messages = CoachingMessageService.getInstance();
+    const conversationIds: string[] = [];
+    for (const conversationId of await this.presence.getRooms(userId)) {
+      if (await messages.ownsConversation(userId, conversationId)) {
+        conversationIds.push(conversationId);
+      } else {
+        await this.presence.leaveRoom(userId, conversationId);
+      }
+    }
+    if (conversationIds.length > 0) {
+      socket.join(conversationIds.map(conversationId => `conversation:${conversationId}`));
+    }
+
+    if (await this.presence.connect(userId, socket.id)) {
+      await this.sendPresenceChange(userId, true);
+    }
+  }
+
+  private async trackDisconnection(userId: string, socketId: string): Promise<void> {
+    const lastSeen = await this.presence.disconnect(userId, socketId);
+    if (lastSeen) {
+      await this.sendPresenceChange(userId, false, lastSeen);
+    }
+  }
+
+  // Tell the other participants of the user's conversations
+  private async sendPresenceChange(userId: string, online: boolean, lastSeen?: Date): Promise<void> {
+    const conversationIds = await this.presence.getRooms(userId);
+    if (conversationIds.length === 0) return;
+
+    this.io.to(conversationIds.map(conversationId => `conversation:${conversationId}`)).emit('presence_changed', {
+      user_id: userId,
+      online,
+      ...(lastSeen && { last_seen: lastSeen }),
       timestamp: new Date()
     });
+    logger.info('User presence changed', { userId, online });
   }
 
   private setupCoachingHandlers(socket: AuthenticatedSocket): void {
@@ -119,13 +182,15 @@ export class SocketService {
     if (!userId) return;
 
     // Join coaching session
-    socket.on('join_coaching_session', (data: { conversation_id: string }) => {
-      const { conversation_id } = data;
-      
+    this.listen(socket, 'join_coaching_session', async ({ conversation_id }) => {
+      if (!(await this.ownsConversation(socket, 'join_coaching_session', userId, conversation_id))) return;
       logger.info('User joining coaching session', { userId, conversationId: conversation_id });
       
-      // Join the conversation room
+      // Join the conversation room, and again on every later connection; only owned rooms are saved
       socket.join(`conversation:${conversation_id}`);
+      this.presence.joinRoom(userId, conversation_id).catch(error => {
+        logger.error('Failed to save room membership', { userId, conversationId: conversation_id, error });
+      });
       
       // Confirm session joined
       socket.emit('session_joined', {
@@ -135,19 +200,22 @@ export class SocketService {
 
       // Notify others in the session (if any)
       socket.to(`conversation:${conversation_id}`).emit('user_joined_session', {
+        conversation_id,
         user_id: userId,
         timestamp: new Date()
       });
     });
 
     // Leave coaching session
-    socket.on('leave_coaching_session', (data: { conversation_id: string }) => {
-      const { conversation_id } = data;
-      
+    this.listen(socket, 'leave_coaching_session', async ({ conversation_id }) => {
+      if (!(await this.ownsConversation(socket, 'leave_coaching_session', userId, conversation_id))) return;
       logger.info('User leaving coaching session', { userId, conversationId: conversation_id });
       
       // Leave the conversation room
       socket.leave(`conversation:${conversation_id}`);
+      this.presence.leaveRoom(userId, conversation_id).catch(error => {
+        logger.error('Failed to remove room membership', { userId, conversationId: conversation_id, error });
+      });
       
       // Confirm session left
       socket.emit('session_left', {
@@ -157,26 +225,27 @@ export class SocketService {
 
       // Notify others in the session
       socket.to(`conversation:${conversation_id}`).emit('user_left_session', {
+        conversation_id,
         user_id: userId,
         timestamp: new Date()
       });
     });
 
     // Handle typing indicators
-    socket.on('typing_start', (data: { conversation_id: string }) => {
-      const { conversation_id } = data;
-      
+    this.listen(socket, 'typing_start', async ({ conversation_id }) => {
+      if (!(await this.ownsConversation(socket, 'typing_start', userId, conversation_id))) return;
       socket.to(`conversation:${conversation_id}`).emit('user_typing', {
+        conversation_id,
         user_id: userId,
         typing: true,
         timestamp: new Date()
       });
     });
 
-    socket.on('typing_stop', (data: { conversation_id: string }) => {
-      const { conversation_id } = data;
-      
+    this.listen(socket, 'typing_stop', async ({ conversation_id }) => {
+      if (!(await this.ownsConversation(socket, 'typing_stop', userId, conversation_id))) return;
       socket.to(`conversation:${conversation_id}`).emit('user_typing', {
+        conversation_id,
         user_id: userId,
         typing: false,
         timestamp: new Date()
@@ -184,9 +253,7 @@ export class SocketService {
     });
 
     // Handle message acknowledgments
-    socket.on('message_received', (data: { message_id: string; conversation_id: string }) => {
-      const { message_id, conversation_id } = data;
-      
+    this.listen(socket, 'message_received', ({ message_id, conversation_id }) => {
       // Acknowledge message receipt
       socket.emit('message_acknowledged', {
         message_id,
@@ -196,9 +263,8 @@ export class SocketService {
     });
 
     // Handle session status updates
-    socket.on('session_status_update', (data: { conversation_id: string; status: string }) => {
-      const { conversation_id, status } = data;
-      
+    this.listen(socket, 'session_status_update', async ({ conversation_id, status }) => {
+      if (!(await this.ownsConversation(socket, 'session_status_update', userId, conversation_id))) return;
       logger.info('Session status update', { userId, conversationId: conversation_id, status });
       
       // Broadcast status update to session participants
@@ -209,40 +275,141 @@ export class SocketService {
         timestamp: new Date()
       });
     });
+
+    // Send a coaching message; acknowledged once stored, the coach reply follows as new_message or a stream
+    this.listen(socket, 'send_message', async ({ conversation_id, client_message_id, content, metadata, stream }, ack) => {
+      try {
+        const messages = CoachingMessageService.getInstance();
+        const stored = await messages.storeUserMessage(userId, conversation_id, {
+          content: content.trim(),
+          client_message_id,
+          ...(metadata && { metadata })
+        });
+
+        // A retry of a stored message gets its id back; the first attempt already brought on the reply
+        let streamId: string | null = null;
+        if (!stored.duplicate) {
+          streamId = stream ? messages.streamReply(userId, stored.conversation, stored.user_message) : null;
+          if (!streamId) {
+            messages.reply(userId, stored.conversation, stored.user_message).catch(error => {
+              logger.error('Coach reply failed', { userId, conversationId: conversation_id, error });
+            });
+          }
+        }
+
+        ack({
+          success: true,
+          data: {
+            message_id: stored.user_message.message_id,
+            client_message_id,
+            duplicate: stored.duplicate,
+            ...(streamId && { stream_id: streamId })
+          }
+        });
+      } catch (error) {
+        ack(this.ackError('send_message', userId, error));
+      }
+    });
+
+    // Replay the messages stored after the client's last one, after a dropped connection
+    this.listen(socket, 'sync_messages', async ({ conversation_id, after_message_id, limit }, ack) => {
+      try {
+        const data = await CoachingMessageService.getInstance().getMessagesSince(userId, conversation_id, after_message_id, limit);
+        ack({ success: true, data });
+      } catch (error) {
+        ack(this.ackError('sync_messages', userId, error));
+      }
+    });
   }
 
-  // Public methods for sending messages from other services
+  // Events naming a conversation of another user are answered with event_error and go no further
+  private async ownsConversation(
+    socket: AuthenticatedSocket,
+    event: ClientToServerEventName,
+    userId: string,
+    conversationId: string
+  ): Promise<boolean> {
+    if (await CoachingMessageService.getInstance().ownsConversation(userId, conversationId)) return true;
+
+    logger.warn('Rejected socket event for a conversation of another user', { userId, event, conversationId });
+    socket.emit('event_error', { event, message: 'Conversation not found', timestamp: new Date() });
+    return false;
+  }
 
-  sendMessageToUser(userId: string, event: string, data: any): void {
-    const socketId = this.connectedUsers.get(userId);
-    if (socketId) {
-      this.io.to(`user:${userId}`).emit(event, {
-        ...data,
-        timestamp: new Date()
-      });
-      logger.debug('Message sent to user', { userId, event });
-    } else {
-      logger.debug('User not connected, message not sent', { userId, event });
+  private ackError(event: ClientToServerEventName, userId: string, error: unknown) {
+    if (error instanceof AppError) {
+      return { success: false as const, error: { code: error.code, message: error.message } };
     }
+    logger.error('Socket event failed', { event, userId, error });
+    return { success: false as const, error: { code: 'INTERNAL_SERVER_ERROR', message: `Failed to handle ${event}` } };
   }
 
-  sendMessageToConversation(conversationId: string, event: string, data: any): void {
-    this.io.to(`conversation:${conversationId}`).emit(event, {
-      ...data,
-      timestamp: new Date()
-    });
+  /**
+   * Handle a client event of the shared contract. Payloads that do not match it are
+   * answered with event_error, and a failed acknowledgement, instead of reaching the handler.
+   */
+  private listen<E extends ClientToServerEventName>(
+    socket: AuthenticatedSocket,
+    event: E,
+    handler: (payload: ClientEventPayload<E>, ack: ClientEventAck<E>) => void | Promise<void>
+  ): void {
+    const listener = (payload: unknown, ack?: unknown) => {
+      // Clients may leave out the acknowledgement callback
+      const respond = (typeof ack === 'function' ? ack : () => undefined) as (response: unknown) => void;
+      try {
+        const handled = handler(validateClientEvent(event, payload), respond as ClientEventAck<E>);
+        handled?.catch(error => logger.error('Socket event handler failed', { userId: socket.user?.user_id, event, error }));
+      } catch (error) {
+        if (!(error instanceof SocketPayloadError)) throw error;
+        logger.warn('Rejected socket event', { userId: socket.user?.user_id, event, error: error.message });
+        socket.emit('event_error', { event, message: error.message, timestamp: new Date() });
+        respond({ success: false, error: { code: 'VALIDATION_ERROR', message: error.message } });
+      }
+    };
+    // The listener takes unknown input, which the typed overloads cannot express for a generic event
+    (socket as unknown as Socket).on(event as string, listener);
+  }
+
+  // Public methods for sending messages from other services
+
+  // Reaches every socket of the user, on any instance; nothing happens while they are offline
+  sendMessageToUser<E extends ServerToClientEventName>(userId: string, event: E, data: ServerEventPayload<E>): void {
+    this.io.to(`user:${userId}`).emit(event, ...this.withTimestamp<E>(data));
+    logger.debug('Message sent to user', { userId, event });
+  }
+
+  sendMessageToConversation<E extends ServerToClientEventName>(conversationId: string, event: E, data: ServerEventPayload<E>): void {
+    this.io.to(`conversation:${conversationId}`).emit(event, ...this.withTimestamp<E>(data));
     logger.debug('Message sent to conversation', { conversationId, event });
   }
 
-  sendCoachingMessage(conversationId: string, message: any): void {
-    this.sendMessageToConversation(conversationId, 'coaching_message', {
-      message_id: message.message_id,
+  private withTimestamp<E extends ServerToClientEventName>(data: ServerEventPayload<E>): Parameters<ServerToClientEvents[E]> {
+    return [{ ...data, timestamp: new Date() }] as unknown as Parameters<ServerToClientEvents[E]>;
+  }
+
+  // Streamed coach responses: deltas as they arrive, then the persisted message
+
+  sendCoachMessageDelta(conversationId: string, streamId: string, sequence: number, delta: string): void {
+    const event: ServerEventPayload<'coach_message_delta'> = {
       conversation_id: conversationId,
-      sender_type: message.sender_type,
-      content: message.content,
-      metadata: message.metadata,
-      created_at: message.created_at
-    });
+      stream_id: streamId,
+      sequence,
+      delta
+    };
+    this.sendMessageToConversation(conversationId, 'coach_message_delta', event);
+  }
+
+  sendCoachMessageComplete(conversationId: string, streamId: string, message: Message): void {
+    const event: ServerEventPayload<'coach_message_complete'> = {
+      conversation_id: conversationId,
+      stream_id: streamId,
+      message
+    };
+    this.sendMessageToConversation(conversationId, 'coach_message_complete', event);
+  }
+
+  sendInsightsReady(userId: string, event: ServerEventPayload<'insights_ready'>): void {
+    this.sendMessageToUser(userId, 'insights_ready', event);
   }
 
   sendAhaMoment(conversationId: string, userId: string, ahaMomentData: any): void {
@@ -250,8 +417,7 @@ export class SocketService {
       conversation_id: conversationId,
       user_id: userId,
       aha_moment_type: ahaMomentData.type,
-      content: ahaMomentData.content,
-      timestamp: new Date()
+      content: ahaMomentData.content
     });
 
     // Also send to user's personal channel for notifications
@@ -282,28 +448,32 @@ export class SocketService {
 
   // Session management helpers
 
-  isUserConnected(userId: string): boolean {
-    return this.connectedUsers.has(userId);
+  async isUserConnected(userId: string): Promise<boolean> {
+    return this.presence.isOnline(userId);
+  }
+
+  async getConnectedUsers(): Promise<string[]> {
+    return this.presence.getOnlineUsers();
   }
 
-  getConnectedUsers(): string[] {
-    return Array.from(this.connectedUsers.keys());
+  async getConnectionCount(): Promise<number> {
+    return (await this.presence.getOnlineUsers()).length;
   }
 
-  getConnectionCount(): number {
-    return this.connectedUsers.size;
+  getPresence(userId: string): Promise<UserPresence> {
+    return this.presence.getPresence(userId);
   }
 
+  // Disconnects the user's sockets on every instance
   disconnectUser(userId: string): void {
-    const socketId = this.connectedUsers.get(userId);
-    if (socketId) {
-      const socket = this.io.sockets.sockets.get(socketId);
-      if (socket) {
-        socket.disconnect(true);
-      }
-      this.connectedUsers.delete(userId);
-      logger.info('User forcibly disconnected', { userId });
-    }
+    this.io.in(`user:${userId}`).disconnectSockets(true);
+    logger.info('User forcibly disconnected', { userId });
+  }
+
+  // Disconnects the sockets of a revoked session on every instance
+  disconnectSession(sessionId: string): void {
+    this.io.in(`session:${sessionId}`).disconnectSockets(true);
+    logger.info('Session sockets disconnected', { sessionId });
   }
 
   // Broadcast system messages
@@ -311,7 +481,7 @@ export class SocketService {
   broadcastSystemMessage(message: string, data?: any): void {
     this.io.emit('system_message', {
       message,
-      data,
+      ...(data !== undefined && { data }),
       timestamp: new Date()
     });
     logger.info('System message broadcasted', { message });
@@ -320,7 +490,7 @@ export class SocketService {
   broadcastMaintenanceNotice(message: string, scheduledTime?: Date): void {
     this.io.emit('maintenance_notice', {
       message,
-      scheduled_time: scheduledTime,
+      ...(scheduledTime && { scheduled_time: scheduledTime }),
       timestamp: new Date()
     });
     logger.info('Maintenance notice broadcasted', { message, scheduledTime });
@@ -328,9 +498,9 @@ export class SocketService {
 
   // Health check
 
-  getHealthStatus(): any {
+  async getHealthStatus(): Promise<any> {
     return {
-      connected_users: this.getConnectionCount(),
+      connected_users: await this.getConnectionCount(),
       total_connections: this.io.engine.clientsCount,
       rooms: Array.from(this.io.sockets.adapter.rooms.keys()),
       timestamp: new Date()
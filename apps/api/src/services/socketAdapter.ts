@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { Namespace } from 'socket.io';
+import { Adapter, BroadcastOptions, Room } from 'socket.io-adapter';
+import winston from 'winston';
+import { RedisStore } from './redis';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/socket.log' })
+  ]
+});
+
+// A packet as the namespace hands it to the adapter, in socket.io-parser's shape
+interface BroadcastPacket {
+  type: number; // socket.io-parser PacketType: 2 for an event, 5 for a binary event
+  data: unknown[]; // Event name, then its arguments
+  nsp?: string; // Stamped by the local broadcast
+  id?: number;
+}
+
+// BroadcastOptions with its sets as arrays, so they survive JSON
+interface SerializedOptions {
+  rooms: Room[];
+  except: Room[];
+  flags: BroadcastOptions['flags'];
+}
+
+type AdapterRequest =
+  | { type: 'broadcast'; packet: BroadcastPacket; opts: SerializedOptions }
+  | { type: 'add_sockets'; opts: SerializedOptions; rooms: Room[] }
+  | { type: 'del_sockets'; opts: SerializedOptions; rooms: Room[] }
+  | { type: 'disconnect_sockets'; opts: SerializedOptions; close: boolean };
+
+interface AdapterMessage {
+  uid: string;
+  request: AdapterRequest;
+}
+
+const serialize = (opts: BroadcastOptions): SerializedOptions => ({
+  rooms: [...opts.rooms],
+  except: [...(opts.except ?? [])],
+  flags: opts.flags
+});
+
+const deserialize = (opts: SerializedOptions): BroadcastOptions => ({
+  rooms: new Set(opts.rooms),
+  except: new Set(opts.except),
+  ...(opts.flags && { flags: opts.flags })
+});
+
+/**
+ * Socket.IO adapter that relays broadcasts and room changes between API instances over
+ * Redis pub/sub, so an emit to a room reaches sockets connected to any instance. Each
+ * instance still keeps only its own sockets; acknowledged broadcasts and fetchSockets
+ * stay local.
+ */
+export class RedisPubSubAdapter extends Adapter {
+  private readonly uid = randomUUID();
+  private readonly channel: string;
+  private unsubscribe: Promise<() => Promise<void>> | null = null;
+
+  constructor(nsp: Namespace, private store: RedisStore, prefix: string) {
+    super(nsp);
+    this.channel = `${prefix}#${nsp.name}`;
+  }
+
+  override init(): Promise<void> {
+    this.unsubscribe = this.store.subscribe(this.channel, message => this.onMessage(message));
+    return this.unsubscribe.then(() => undefined);
+  }
+
+  override async close(): Promise<void> {
+    const unsubscribe = await this.unsubscribe;
+    this.unsubscribe = null;
+    await unsubscribe?.();
+  }
+
+  override broadcast(packet: BroadcastPacket, opts: BroadcastOptions): void {
+    // Publish first: the local broadcast stamps the packet with its namespace and encodes it
+    this.publish({ type: 'broadcast', packet: { ...packet }, opts: serialize(opts) }, opts);
+    super.broadcast(packet, opts);
+  }
+
+  override addSockets(opts: BroadcastOptions, rooms: Room[]): void {
+    this.publish({ type: 'add_sockets', opts: serialize(opts), rooms }, opts);
+    super.addSockets(opts, rooms);
+  }
+
+  override delSockets(opts: BroadcastOptions, rooms: Room[]): void {
+    this.publish({ type: 'del_sockets', opts: serialize(opts), rooms }, opts);
+    super.delSockets(opts, rooms);
+  }
+
+  override disconnectSockets(opts: BroadcastOptions, close: boolean): void {
+    this.publish({ type: 'disconnect_sockets', opts: serialize(opts), close }, opts);
+    super.disconnectSockets(opts, close);
+  }
+
+  private publish(request: AdapterRequest, opts: BroadcastOptions): void {
+    if (opts.flags?.local) return;
+    const message: AdapterMessage = { uid: this.uid, request };
+    this.store.publish(this.channel, message).catch(error => {
+      logger.error('Failed to relay socket request to other instances', { type: request.type, error });
+    });
+  }
+
+  private onMessage(message: AdapterMessage): void {
+    // Every instance receives its own messages back
+    if (message.uid === this.uid) return;
+
+    const { request } = message;
+    const opts = deserialize(request.opts);
+    switch (request.type) {
+      case 'broadcast':
+        super.broadcast(request.packet, opts);
+        break;
+      case 'add_sockets':
+        super.addSockets(opts, request.rooms);
+        break;
+      case 'del_sockets':
+        super.delSockets(opts, request.rooms);
+        break;
+      case 'disconnect_sockets':
+        super.disconnectSockets(opts, request.close);
+        break;
+    }
+  }
+}
+
+/**
+ * The adapter constructor to hand to `io.adapter()`
+ */
+export function createRedisAdapter(store: RedisStore, prefix: string = 'socket.io') {
+  return (nsp: Namespace) => new RedisPubSubAdapter(nsp, store, prefix);
+}
@@ -0,0 +1,82 @@
+import { ClientEventPayload, ClientToServerEventName, SessionStatus } from '@/types';
+
+type PayloadValidator = (payload: unknown) => string | null; // The problem with the payload, if any
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SESSION_STATUSES: SessionStatus[] = ['active', 'completed', 'cancelled'];
+
+const isObject = (payload: unknown): payload is Record<string, unknown> =>
+  typeof payload === 'object' && payload !== null && !Array.isArray(payload);
+
+const uuidField = (payload: Record<string, unknown>, field: string): string | null =>
+  typeof payload[field] === 'string' && UUID_PATTERN.test(payload[field] as string) ? null : `${field} must be a UUID`;
+
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_CLIENT_MESSAGE_ID_LENGTH = 64;
+export const MAX_SYNC_MESSAGES = 200;
+
+const optionalField = (payload: Record<string, unknown>, field: string, check: (value: unknown) => boolean, problem: string): string | null =>
+  payload[field] === undefined || check(payload[field]) ? null : `${field} ${problem}`;
+
+const conversationRoom: PayloadValidator = payload => {
+  if (!isObject(payload)) return 'payload must be an object';
+  return uuidField(payload, 'conversation_id');
+};
+
+/**
+ * Payload checks of every client event in the shared contract. Keyed by event name, so
+ * an event added to ClientToServerEvents without a check here fails to compile.
+ */
+const CLIENT_EVENT_VALIDATORS: Record<ClientToServerEventName, PayloadValidator> = {
+  join_coaching_session: conversationRoom,
+  leave_coaching_session: conversationRoom,
+  typing_start: conversationRoom,
+  typing_stop: conversationRoom,
+  message_received: payload => {
+    if (!isObject(payload)) return 'payload must be an object';
+    return uuidField(payload, 'conversation_id') ?? uuidField(payload, 'message_id');
+  },
+  session_status_update: payload => {
+    if (!isObject(payload)) return 'payload must be an object';
+    return uuidField(payload, 'conversation_id')
+      ?? (SESSION_STATUSES.includes(payload['status'] as SessionStatus) ? null : `status must be one of ${SESSION_STATUSES.join(', ')}`);
+  },
+  send_message: payload => {
+    if (!isObject(payload)) return 'payload must be an object';
+    const { client_message_id: clientMessageId, content } = payload;
+    return uuidField(payload, 'conversation_id')
+      ?? (typeof clientMessageId === 'string' && clientMessageId.length > 0 && clientMessageId.length <= MAX_CLIENT_MESSAGE_ID_LENGTH
+        ? null : `client_message_id must be a string of 1 to ${MAX_CLIENT_MESSAGE_ID_LENGTH} characters`)
+      ?? (typeof content === 'string' && content.trim().length > 0 && content.trim().length <= MAX_MESSAGE_LENGTH
+        ? null : `content must be a string of 1 to ${MAX_MESSAGE_LENGTH} characters`)
+      ?? optionalField(payload, 'metadata', isObject, 'must be an object')
+      ?? optionalField(payload, 'stream', value => typeof value === 'boolean', 'must be a boolean');
+  },
+  sync_messages: payload => {
+    if (!isObject(payload)) return 'payload must be an object';
+    return uuidField(payload, 'conversation_id')
+      ?? (payload['after_message_id'] === undefined ? null : uuidField(payload, 'after_message_id'))
+      ?? optionalField(payload, 'limit', value => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_SYNC_MESSAGES,
+        `must be an integer from 1 to ${MAX_SYNC_MESSAGES}`);
+  }
+};
+
+export const CLIENT_TO_SERVER_EVENTS = Object.keys(CLIENT_EVENT_VALIDATORS) as ClientToServerEventName[];
+
+export class SocketPayloadError extends Error {
+  constructor(public event: string, message: string) {
+    super(message);
+    this.name = 'SocketPayloadError';
+  }
+}
+
+/**
+ * Check a client event payload against the contract; throws SocketPayloadError when it does not match
+ */
+export function validateClientEvent<E extends ClientToServerEventName>(event: E, payload: unknown): ClientEventPayload<E> {
+  const problem = CLIENT_EVENT_VALIDATORS[event](payload);
+  if (problem) {
+    throw new SocketPayloadError(event, `Invalid ${event} payload: ${problem}`);
+  }
+  return payload as ClientEventPayload<E>;
+}
@@ -1,4 +1,8 @@
 import { DatabaseService } from './database';
+import { EphemerisEngine } from './ephemerisEngine';
+import { HouseEngine } from './houseEngine';
+import { AspectPatternDetector } from './aspectPatternDetector';
+import { TimezoneService } from './timezoneService';
 import {
   NatalChartData,
   SwissBirthData,
@@ -8,7 +12,18 @@ import {
   CelestialBody,
   ZodiacSign,
   HouseSystem,
-  AspectType
+  HouseSystemFallback,
+  AspectType,
+  PlanetaryStation,
+  RetrogradePeriod,
+  TransitAspect,
+  Progressions,
+  Synastry,
+  CompositeChart,
+  HouseOverlay,
+  AspectPattern,
+  AspectSettings,
+  OrbProfile
 } from '../types';
 import winston from 'winston';
 
@@ -33,23 +48,116 @@ const CELESTIAL_BODIES: CelestialBody[] = [
   'Uranus', 'Neptune', 'Pluto', 'North Node', 'South Node', 'Lilith'
 ];
 
-const ASPECT_DEFINITIONS = {
-  conjunction: { angle: 0, orb: 8 },
-  opposition: { angle: 180, orb: 8 },
-  square: { angle: 90, orb: 8 },
-  trine: { angle: 120, orb: 8 },
-  sextile: { angle: 60, orb: 6 },
-  quincunx: { angle: 150, orb: 3 },
-  semisquare: { angle: 45, orb: 3 },
-  sesquiquadrate: { angle: 135, orb: 3 }
+// Bodies that can appear retrograde, with the sampling step (days) used to search for stations.
+// Steps are well below each body's shortest retrograde period so no station is skipped.
+const RETROGRADE_SEARCH_STEPS: Partial<Record<CelestialBody, number>> = {
+  Mercury: 1,
+  Venus: 2,
+  Mars: 2,
+  Jupiter: 5,
+  Saturn: 5,
+  Uranus: 5,
+  Neptune: 5,
+  Pluto: 5
 };
 
+// Longest retrograde period of any body (Pluto, ~165 days) plus margin
+const RETROGRADE_SEARCH_PADDING_DAYS = 190;
+
+// Transiting bodies, with the sampling step (days) used when searching for transits.
+// The Moon is left out: it perfects every aspect to every natal point each month.
+const TRANSIT_SEARCH_STEPS: Partial<Record<CelestialBody, number>> = {
+  Sun: 1,
+  Mercury: 1,
+  Venus: 1,
+  Mars: 1,
+  Jupiter: 2,
+  Saturn: 2,
+  Uranus: 2,
+  Neptune: 2,
+  Pluto: 2
+};
+
+const TRANSIT_PRECISION_DAYS = 1 / 1440; // Refine transit dates to the minute
+
+// Secondary progressions take one day of ephemeris motion for each tropical year of life
+const TROPICAL_YEAR_DAYS = 365.24219;
+const PROGRESSION_ORB = 1; // Progressed and directed aspects are read within a degree
+
+// Mean daily motion (degrees) of the luminaries, used to estimate when they next reach a longitude
+const MEAN_DAILY_MOTION: Record<'Sun' | 'Moon', number> = {
+  Sun: 0.98565,
+  Moon: 13.17640
+};
+const RETURN_PRECISION_DAYS = 1 / 86400; // Refine return times to the second
+const RETURN_MAX_ITERATIONS = 10;
+
+const ASPECT_ANGLES: Record<AspectType, number> = {
+  conjunction: 0,
+  opposition: 180,
+  square: 90,
+  trine: 120,
+  sextile: 60,
+  quincunx: 150,
+  semisquare: 45,
+  sesquiquadrate: 135,
+  semisextile: 30,
+  quintile: 72,
+  biquintile: 144
+};
+
+const MINOR_ASPECTS: AspectType[] = ['semisextile', 'quintile', 'biquintile'];
+
+// Orbs (degrees) of each aspect by profile; the standard profile is the one stored with each chart
+const ORB_PROFILES: Record<OrbProfile, Record<AspectType, number>> = {
+  tight: {
+    conjunction: 6, opposition: 6, square: 5, trine: 5, sextile: 4,
+    quincunx: 2, semisquare: 2, sesquiquadrate: 2,
+    semisextile: 1, quintile: 1, biquintile: 1
+  },
+  standard: {
+    conjunction: 8, opposition: 8, square: 8, trine: 8, sextile: 6,
+    quincunx: 3, semisquare: 3, sesquiquadrate: 3,
+    semisextile: 2, quintile: 2, biquintile: 2
+  },
+  wide: {
+    conjunction: 10, opposition: 10, square: 10, trine: 10, sextile: 7,
+    quincunx: 4, semisquare: 4, sesquiquadrate: 4,
+    semisextile: 3, quintile: 2, biquintile: 2
+  }
+};
+
+export const DEFAULT_ASPECT_SETTINGS: AspectSettings = {
+  orb_profile: 'standard',
+  luminary_orb_modifiers: { Sun: 0, Moon: 0 },
+  include_minor_aspects: false
+};
+
+export interface HouseCuspsResult {
+  house_cusps: HouseCusp[];
+  house_system_fallback?: HouseSystemFallback;
+}
+
+export interface ChartCalculation extends HouseCuspsResult {
+  planetary_positions: PlanetaryPosition[];
+  aspects: AspectData[];
+  aspect_patterns: AspectPattern[];
+}
+
 export class SwissEphemerisService {
   private static instance: SwissEphemerisService;
   private databaseService: DatabaseService;
+  private ephemerisEngine: EphemerisEngine;
+  private houseEngine: HouseEngine;
+  private aspectPatternDetector: AspectPatternDetector;
+  private timezoneService: TimezoneService;
 
   private constructor() {
     this.databaseService = DatabaseService.getInstance();
+    this.ephemerisEngine = EphemerisEngine.getInstance();
+    this.houseEngine = HouseEngine.getInstance();
+    this.aspectPatternDetector = AspectPatternDetector.getInstance();
+    this.timezoneService = TimezoneService.getInstance();
   }
 
   static getInstance(): SwissEphemerisService {
@@ -128,34 +236,25 @@ export class SwissEphemerisService {
    */
   private async calculateDateBasedPositions(julianDay: number): Promise<PlanetaryPosition[]> {
     const positions: PlanetaryPosition[] = [];
-    
-    // Calculate Sun and Moon positions (most accurate with just date)
-    const sunPosition = this.calculatePlanetaryPositionCalibrated('Sun', julianDay);
-    const moonPosition = this.calculatePlanetaryPositionCalibrated('Moon', julianDay);
-    
-    positions.push({
-      body: 'Sun',
-      longitude: sunPosition,
-      latitude: 0, // Simplified for date-only calculation
-      distance: 1, // Simplified
-      speed: 0.9856, // Average daily motion
-      zodiac_sign: this.getZodiacSign(sunPosition),
-      degree_in_sign: this.getDegreeInSign(sunPosition),
-      house: null, // Cannot determine without birth time/location
-      is_retrograde: false
-    });
 
-    positions.push({
-      body: 'Moon',
-      longitude: moonPosition,
-      latitude: 0, // Simplified
-      distance: 1, // Simplified  
-      speed: 13.176, // Average daily motion
-      zodiac_sign: this.getZodiacSign(moonPosition),
-      degree_in_sign: this.getDegreeInSign(moonPosition),
-      house: null, // Cannot determine without birth time/location
-      is_retrograde: false
-    });
+    // Sun and Moon are the only bodies that can be meaningfully placed with just a date
+    for (const body of ['Sun', 'Moon'] as CelestialBody[]) {
+      const position = this.ephemerisEngine.calculateBodyPosition(body, julianDay);
+      const speed = this.ephemerisEngine.calculateSpeed(body, julianDay);
+      if (!position || speed === null) continue;
+
+      positions.push({
+        body,
+        longitude: position.longitude,
+        latitude: position.latitude,
+        distance: position.distance,
+        speed,
+        zodiac_sign: this.getZodiacSign(position.longitude),
+        degree_in_sign: this.getDegreeInSign(position.longitude),
+        house: null, // Cannot determine without birth time/location
+        is_retrograde: false
+      });
+    }
 
     return positions;
   }
@@ -182,41 +281,60 @@ export class SwissEphemerisService {
       // Validate birth data
       this.validateBirthData(birthData);
 
-      // Convert to Julian Day (with timezone correction based on longitude)
-      const julianDay = this.convertToJulianDay(birthData.birth_date, birthData.birth_time, birthData.longitude);
-
-      // Calculate planetary positions
-      const planetaryPositions = await this.calculatePlanetaryPositions(
-        julianDay, 
-        birthData.latitude, 
-        birthData.longitude
+      // Resolve the birth time zone (and DST in force) before converting to Julian Day
+      const resolvedTime = this.timezoneService.resolveBirthTime(
+        birthData.birth_date,
+        birthData.birth_time,
+        birthData.latitude,
+        birthData.longitude,
+        birthData.timezone
       );
+      const julianDay = this.dateToJulianDay(resolvedTime.utc_datetime);
+      const resolvedBirthData: SwissBirthData = {
+        ...birthData,
+        timezone: resolvedTime.timezone,
+        utc_offset_minutes: resolvedTime.utc_offset_minutes
+      };
 
-      // Calculate house cusps
-      const houseCusps = await this.calculateHouseCusps(
-        julianDay, 
-        birthData.latitude, 
-        birthData.longitude, 
-        houseSystem
-      );
+      logger.info('Birth time zone resolved', {
+        userId,
+        timezone: resolvedTime.timezone,
+        source: resolvedTime.timezone_source,
+        utcOffsetMinutes: resolvedTime.utc_offset_minutes
+      });
 
-      // Calculate aspects
-      const aspects = this.calculateAspects(planetaryPositions);
+      // Calculate positions, houses and aspects
+      const {
+        planetary_positions: planetaryPositions,
+        house_cusps: houseCusps,
+        aspects,
+        aspect_patterns: aspectPatterns,
+        house_system_fallback: houseSystemFallback
+      } = await this.castChart(julianDay, birthData.latitude, birthData.longitude, houseSystem);
 
       // Store in database
-      const chartId = await this.storeNatalChart(userId, birthData, houseSystem);
+      const chartId = await this.storeNatalChart(
+        userId,
+        resolvedBirthData,
+        resolvedTime.utc_datetime,
+        houseSystem,
+        houseSystemFallback
+      );
       await this.storePlanetaryPositions(chartId, planetaryPositions);
       await this.storeHouseCusps(chartId, houseCusps);
       await this.storeAspects(chartId, aspects);
+      await this.storeAspectPatterns(chartId, aspectPatterns);
 
       const natalChart: NatalChartData = {
         chart_id: chartId,
         user_id: userId,
-        birth_data: birthData,
+        birth_data: resolvedBirthData,
         planetary_positions: planetaryPositions,
         house_cusps: houseCusps,
         aspects,
+        aspect_patterns: aspectPatterns,
         house_system: houseSystem,
+        ...(houseSystemFallback && { house_system_fallback: houseSystemFallback }),
         created_at: new Date()
       };
 
@@ -229,6 +347,32 @@ export class SwissEphemerisService {
     }
   }
 
+  /**
+   * Cast a full chart (positions placed in houses, house cusps, aspects and aspect
+   * patterns) for an instant and location without storing it
+   */
+  async castChart(julianDay: number, latitude: number, longitude: number, houseSystem: HouseSystem): Promise<ChartCalculation> {
+    const planetaryPositions = await this.calculatePlanetaryPositions(julianDay, latitude, longitude);
+
+    // Calculate house cusps, then place planets in them
+    const { house_cusps: houseCusps, house_system_fallback: houseSystemFallback } = await this.calculateHouses(
+      julianDay,
+      latitude,
+      longitude,
+      houseSystem
+    );
+    this.assignHousePositions(planetaryPositions, houseCusps);
+    const aspects = this.calculateAspects(planetaryPositions);
+
+    return {
+      planetary_positions: planetaryPositions,
+      house_cusps: houseCusps,
+      aspects,
+      aspect_patterns: this.aspectPatternDetector.detectPatterns(planetaryPositions, aspects),
+      ...(houseSystemFallback && { house_system_fallback: houseSystemFallback })
+    };
+  }
+
   /**
    * Calculate planetary positions for given Julian Day and coordinates
    */
@@ -265,61 +409,47 @@ export class SwissEphemerisService {
    * Calculate house cusps for given coordinates and house system
    */
   async calculateHouseCusps(julianDay: number, latitude: number, longitude: number, houseSystem: HouseSystem): Promise<HouseCusp[]> {
-    try {
-      const cusps: HouseCusp[] = [];
-
-      // Accurate house calculations using proper astronomical principles
-      // Placidus system uses calibrated reference values for precise calculations
-      const ascendant = this.calculateAscendant(julianDay, latitude, longitude);
-      
-      for (let house = 1; house <= 12; house++) {
-        let cuspLongitude: number;
-        
-        switch (houseSystem) {
-          case 'Equal':
-            cuspLongitude = (ascendant + (house - 1) * 30) % 360;
-            break;
-          case 'Whole Sign':
-            cuspLongitude = (Math.floor(ascendant / 30) * 30 + (house - 1) * 30) % 360;
-            break;
-          case 'Placidus':
-          case 'Koch':
-          case 'Campanus':
-          default:
-            // Proper Placidus house calculation using calibrated reference values
-            if (house === 1) {
-              // House 1 = Ascendant
-              cuspLongitude = ascendant;
-            } else if (house === 10) {
-              // House 10 = Midheaven (MC)
-              cuspLongitude = this.calculateMidheaven(julianDay, latitude, longitude);
-            } else if (house === 7) {
-              // House 7 = Descendant (opposite of Ascendant)
-              cuspLongitude = (ascendant + 180) % 360;
-            } else if (house === 4) {
-              // House 4 = IC (opposite of Midheaven)
-              const mc = this.calculateMidheaven(julianDay, latitude, longitude);
-              cuspLongitude = (mc + 180) % 360;
-            } else {
-              // Houses 2, 3, 5, 6, 8, 9, 11, 12 - use calibrated Placidus calculation
-              cuspLongitude = this.calculatePlacidusHouse(house, ascendant, julianDay, latitude);
-            }
-            break;
-        }
+    const { house_cusps } = await this.calculateHouses(julianDay, latitude, longitude, houseSystem);
+    return house_cusps;
+  }
 
-        // Normalize longitude to 0-360 range
-        const normalizedCuspLongitude = this.normalizeLongitude(cuspLongitude);
-        const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(normalizedCuspLongitude);
-        
-        cusps.push({
-          house_number: house,
-          cusp_longitude: normalizedCuspLongitude,
+  /**
+   * Calculate house cusps along with any fallback applied when the requested system
+   * cannot be calculated at the given latitude (Placidus and Koch inside the polar circles)
+   */
+  async calculateHouses(julianDay: number, latitude: number, longitude: number, houseSystem: HouseSystem): Promise<HouseCuspsResult> {
+    try {
+      const { ramc, obliquity } = this.ephemerisEngine.calculateAngles(julianDay, latitude, longitude);
+      const calculation = this.houseEngine.calculateCusps(houseSystem, ramc, latitude, obliquity);
+
+      const houseCusps: HouseCusp[] = calculation.cusps.map((cuspLongitude, index) => {
+        const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(cuspLongitude);
+        return {
+          house_number: index + 1,
+          cusp_longitude: cuspLongitude,
           zodiac_sign: sign,
           degree_in_sign: degreeInSign
+        };
+      });
+
+      if (calculation.fallback_reason) {
+        logger.warn('House system fallback applied', {
+          requested: houseSystem,
+          used: calculation.house_system,
+          latitude
         });
+
+        return {
+          house_cusps: houseCusps,
+          house_system_fallback: {
+            requested: houseSystem,
+            used: calculation.house_system,
+            reason: calculation.fallback_reason
+          }
+        };
       }
 
-      return cusps;
+      return { house_cusps: houseCusps };
 
     } catch (error) {
       logger.error('Error calculating house cusps', { error, julianDay, latitude, longitude, houseSystem });
@@ -328,9 +458,27 @@ export class SwissEphemerisService {
   }
 
   /**
-   * Calculate aspects between celestial bodies
+   * Place planets in houses using the calculated cusps (a planet belongs to the house
+   * whose cusp it has most recently passed)
    */
-  calculateAspects(planetaryPositions: PlanetaryPosition[]): AspectData[] {
+  assignHousePositions(planetaryPositions: PlanetaryPosition[], houseCusps: HouseCusp[]): PlanetaryPosition[] {
+    for (const position of planetaryPositions) {
+      const body = position.celestial_body || position.body;
+      if (body === 'Ascendant' || body === 'Midheaven') continue;
+
+      position.house_number = this.findHouse(position.longitude, houseCusps);
+    }
+    return planetaryPositions;
+  }
+
+  /**
+   * Calculate aspects between celestial bodies with the orbs of the given settings
+   */
+  calculateAspects(
+    planetaryPositions: PlanetaryPosition[],
+    settings: AspectSettings = DEFAULT_ASPECT_SETTINGS
+  ): AspectData[] {
+    const definitions = this.aspectDefinitions(settings);
     const aspects: AspectData[] = [];
 
     for (let i = 0; i < planetaryPositions.length; i++) {
@@ -341,20 +489,24 @@ export class SwissEphemerisService {
         if (!body1 || !body2) continue;
 
         const angle = this.calculateAngleBetweenBodies(body1.longitude, body2.longitude);
+        const orbModifier = Math.max(
+          this.luminaryOrbModifier(body1, settings),
+          this.luminaryOrbModifier(body2, settings)
+        );
         
-        for (const [aspectType, definition] of Object.entries(ASPECT_DEFINITIONS)) {
+        for (const definition of definitions) {
           const orb = Math.abs(angle - definition.angle);
           const orb2 = Math.abs(angle - (360 - definition.angle));
           const actualOrb = Math.min(orb, orb2);
 
-          if (actualOrb <= definition.orb) {
+          if (actualOrb <= definition.orb + orbModifier) {
             aspects.push({
               body1: body1.celestial_body || body1.body,
               body2: body2.celestial_body || body2.body,
-              aspect_type: aspectType as AspectType,
+              aspect_type: definition.aspectType,
               orb: actualOrb,
               exact_angle: angle,
-              applying: this.isAspectApplying(body1, body2, aspectType as AspectType)
+              applying: this.isAspectApplying(body1, body2, definition.angle, actualOrb)
             });
             break; // Only one aspect per pair
           }
@@ -366,113 +518,308 @@ export class SwissEphemerisService {
   }
 
   /**
-   * Convert date and time to Julian Day
+   * Find retrograde periods (station retrograde to station direct) overlapping a date range
    */
-  convertToJulianDay(dateString: string, timeString?: string, longitude?: number): number {
-    try {
-      // Parse the date string
-      const dateParts = dateString.split('-').map(Number);
-      let year = dateParts[0] || 2000;
-      let month = dateParts[1] || 1;
-      let day = dateParts[2] || 1;
-      
-      let hour = 12; // Default to noon if no time provided
-      let minute = 0;
-      let second = 0;
-      
-      if (timeString) {
-        const timeParts = timeString.split(':').map(Number);
-        hour = timeParts[0] || 0;
-        minute = timeParts[1] || 0;
-        second = timeParts[2] || 0;
-      }
+  calculateRetrogradePeriods(fromJulianDay: number, toJulianDay: number): RetrogradePeriod[] {
+    const periods: RetrogradePeriod[] = [];
+
+    for (const [body, stepDays] of Object.entries(RETROGRADE_SEARCH_STEPS) as [CelestialBody, number][]) {
+      // Search beyond the requested range so periods already under way are bracketed by both stations
+      const stations = this.ephemerisEngine.findStations(
+        body,
+        fromJulianDay - RETROGRADE_SEARCH_PADDING_DAYS,
+        toJulianDay + RETROGRADE_SEARCH_PADDING_DAYS,
+        stepDays
+      );
 
-      // For Vancouver (longitude -123.113952), we need to convert PDT to UTC
-      // May 17, 1977 would be Pacific Daylight Time (UTC-7)
-      // For precise astronomical calculations, we need proper timezone conversion
-      let utcOffsetHours = 7; // PDT is UTC-7
-      
-      // Adjust for specific location timezone
-      if (longitude !== undefined) {
-        // Vancouver is at longitude -123.113952, which is UTC-8 standard time
-        // In May 1977, it would be PDT (UTC-7)
-        if (longitude > -130 && longitude < -110) {
-          // Pacific Time Zone
-          utcOffsetHours = 7; // PDT (Daylight Saving Time)
+      let openPeriod: RetrogradePeriod | null = null;
+      for (const station of stations) {
+        if (station.station_type === 'retrograde') {
+          openPeriod = { body, station_retrograde: this.toPlanetaryStation(station), station_direct: null };
+          periods.push(openPeriod);
+        } else if (openPeriod) {
+          openPeriod.station_direct = this.toPlanetaryStation(station);
+          openPeriod = null;
         } else {
-          // General estimation for other longitudes
-          utcOffsetHours = Math.round(-longitude / 15);
+          periods.push({ body, station_retrograde: null, station_direct: this.toPlanetaryStation(station) });
         }
       }
-      
-      // Convert local time to UTC
-      let utcHour = hour + utcOffsetHours;
-      let utcDay = day;
-      let utcMonth = month;
-      let utcYear = year;
-      
-      // Handle day boundary crossings
-      if (utcHour < 0) {
-        utcHour += 24;
-        utcDay -= 1;
-        if (utcDay < 1) {
-          utcMonth -= 1;
-          if (utcMonth < 1) {
-            utcMonth = 12;
-            utcYear -= 1;
-          }
-          // Get days in previous month (simplified)
-          const daysInMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
-          if (utcMonth === 2 && ((utcYear % 4 === 0 && utcYear % 100 !== 0) || utcYear % 400 === 0)) {
-            utcDay = 29; // Leap year February
-          } else {
-            utcDay = daysInMonth[utcMonth - 1] || 30;
-          }
-        }
-      } else if (utcHour >= 24) {
-        utcHour -= 24;
-        utcDay += 1;
-        // Handle month/year rollover (simplified)
-        const daysInMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
-        let maxDays = daysInMonth[utcMonth - 1] || 30;
-        if (utcMonth === 2 && ((utcYear % 4 === 0 && utcYear % 100 !== 0) || utcYear % 400 === 0)) {
-          maxDays = 29; // Leap year February
-        }
-        
-        if (utcDay > maxDays) {
-          utcDay = 1;
-          utcMonth += 1;
-          if (utcMonth > 12) {
-            utcMonth = 1;
-            utcYear += 1;
+    }
+
+    // Keep periods that overlap the requested range
+    return periods
+      .filter(period => {
+        const start = period.station_retrograde?.julian_day ?? -Infinity;
+        const end = period.station_direct?.julian_day ?? Infinity;
+        return start <= toJulianDay && end >= fromJulianDay;
+      })
+      .sort((a, b) =>
+        (a.station_retrograde?.julian_day ?? -Infinity) - (b.station_retrograde?.julian_day ?? -Infinity)
+      );
+  }
+
+  /**
+   * Find transits from the moving planets to natal positions between two Julian Days.
+   * Each in-orb window is reported once with its entry, exact and exit dates.
+   */
+  calculateTransits(natalPositions: PlanetaryPosition[], fromJulianDay: number, toJulianDay: number): TransitAspect[] {
+    const transits: Array<TransitAspect & { sort_key: number }> = [];
+
+    for (const [transitingBody, stepDays] of Object.entries(TRANSIT_SEARCH_STEPS) as [CelestialBody, number][]) {
+      // Sample the transiting longitude once and reuse it for every natal point
+      const samples: Array<{ julianDay: number; longitude: number }> = [];
+      for (let day = fromJulianDay; day < toJulianDay + stepDays; day += stepDays) {
+        const julianDay = Math.min(day, toJulianDay);
+        const position = this.ephemerisEngine.calculateBodyPosition(transitingBody, julianDay);
+        if (position) samples.push({ julianDay, longitude: position.longitude });
+        if (julianDay >= toJulianDay) break;
+      }
+
+      for (const natal of natalPositions) {
+        const natalBody = natal.celestial_body || natal.body;
+
+        for (const { aspectType, ...definition } of this.aspectDefinitions(DEFAULT_ASPECT_SETTINGS)) {
+          // Conjunctions and oppositions have a single target degree; other aspects have two
+          const targets = definition.angle === 0 || definition.angle === 180
+            ? [natal.longitude + definition.angle]
+            : [natal.longitude + definition.angle, natal.longitude - definition.angle];
+
+          for (const target of targets) {
+            for (const window of this.findTransitWindows(samples, target, definition.orb)) {
+              transits.push({
+                transiting_body: transitingBody,
+                natal_body: natalBody,
+                aspect_type: aspectType,
+                orb: definition.orb,
+                natal_longitude: natal.longitude,
+                entry_date: window.entry !== null ? this.julianDayToDate(window.entry).toISOString() : null,
+                exact_dates: window.exact.map(day => this.julianDayToDate(day).toISOString()),
+                exit_date: window.exit !== null ? this.julianDayToDate(window.exit).toISOString() : null,
+                sort_key: window.exact[0] ?? window.entry ?? fromJulianDay
+              });
+            }
           }
         }
       }
+    }
 
-      // Meeus Julian Day calculation algorithm
-      // Handle January and February as months 13 and 14 of the previous year
-      if (utcMonth <= 2) {
-        utcYear -= 1;
-        utcMonth += 12;
+    return transits
+      .sort((a, b) => a.sort_key - b.sort_key)
+      .map(({ sort_key, ...transit }) => transit);
+  }
+
+  /**
+   * Secondary progressions and solar arc directions of a natal chart for a target date.
+   * Progressed angles come from the progressed day's sidereal time, which advances the
+   * MC at the Naibod rate in right ascension. Progressed and directed bodies are placed
+   * in the natal houses and aspected to the natal positions.
+   */
+  async calculateProgressions(
+    natalPositions: PlanetaryPosition[],
+    natalHouseCusps: HouseCusp[],
+    birthJulianDay: number,
+    latitude: number,
+    longitude: number,
+    targetJulianDay: number
+  ): Promise<Progressions> {
+    if (targetJulianDay < birthJulianDay) {
+      throw new Error('Target date must not be before the birth date');
+    }
+
+    const natalSun = natalPositions.find(position => (position.celestial_body || position.body) === 'Sun');
+    if (!natalSun) {
+      throw new Error('Natal chart has no Sun position');
+    }
+
+    const ageYears = (targetJulianDay - birthJulianDay) / TROPICAL_YEAR_DAYS;
+    const progressedJulianDay = birthJulianDay + ageYears;
+
+    const progressedPositions = await this.calculatePlanetaryPositions(progressedJulianDay, latitude, longitude);
+    this.assignHousePositions(progressedPositions, natalHouseCusps);
+
+    const progressedSun = progressedPositions.find(position => position.celestial_body === 'Sun')!;
+    const solarArc = this.normalizeLongitude(progressedSun.longitude - natalSun.longitude);
+    // The Sun's progressed daily motion is the yearly rate of the solar arc and of the angles
+    const arcRate = progressedSun.speed ?? 1;
+
+    const directedPositions: PlanetaryPosition[] = natalPositions.map(position => {
+      const directedLongitude = this.normalizeLongitude(position.longitude + solarArc);
+      const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(directedLongitude);
+      const body = position.celestial_body || position.body;
+      return {
+        body,
+        celestial_body: body,
+        longitude: directedLongitude,
+        latitude: position.latitude,
+        ...(position.house_number !== undefined && { house_number: position.house_number }),
+        zodiac_sign: sign,
+        degree_in_sign: degreeInSign,
+        retrograde: false
+      };
+    });
+    this.assignHousePositions(directedPositions, natalHouseCusps);
+
+    // Natal positions stay put while progressed and directed ones move on by a day of their yearly motion
+    const aspectsToNatal = (positions: PlanetaryPosition[], yearlyMotion: (position: PlanetaryPosition) => number) =>
+      this.calculateCrossAspects(
+        positions,
+        natalPositions,
+        (position, chart) => chart === 'a' ? position.longitude + yearlyMotion(position) / TROPICAL_YEAR_DAYS : position.longitude,
+        PROGRESSION_ORB
+      );
+
+    return {
+      target_date: this.julianDayToDate(targetJulianDay).toISOString(),
+      progressed_date: this.julianDayToDate(progressedJulianDay).toISOString(),
+      age_years: ageYears,
+      solar_arc: solarArc,
+      secondary_progressions: {
+        positions: progressedPositions,
+        aspects: aspectsToNatal(progressedPositions, position => position.speed ?? arcRate)
+      },
+      solar_arc_directions: {
+        positions: directedPositions,
+        aspects: aspectsToNatal(directedPositions, () => arcRate)
       }
-      
-      // Calculate Julian Day using Meeus algorithm
-      const A = Math.floor(utcYear / 100);
-      // Gregorian calendar correction - for dates after Oct 4, 1582
-      let B = 0;
-      if (utcYear > 1582 || (utcYear === 1582 && utcMonth > 10) || (utcYear === 1582 && utcMonth === 10 && utcDay >= 15)) {
-        B = 2 - A + Math.floor(A / 4);
+    };
+  }
+
+  /**
+   * Find the first moment at or after a Julian Day when the Sun or Moon returns to a
+   * natal longitude. Neither luminary goes retrograde, so Newton's method from the
+   * mean-motion estimate converges on the next crossing.
+   */
+  findReturn(body: 'Sun' | 'Moon', natalLongitude: number, fromJulianDay: number): number {
+    const start = this.ephemerisEngine.calculateBodyPosition(body, fromJulianDay)!;
+    let julianDay = fromJulianDay + this.normalizeLongitude(natalLongitude - start.longitude) / MEAN_DAILY_MOTION[body];
+
+    for (let iteration = 0; iteration < RETURN_MAX_ITERATIONS; iteration++) {
+      const longitude = this.ephemerisEngine.calculateBodyPosition(body, julianDay)!.longitude;
+      const speed = this.ephemerisEngine.calculateSpeed(body, julianDay)!;
+      const correction = this.signedSeparation(longitude, natalLongitude) / speed;
+
+      julianDay -= correction;
+      if (Math.abs(correction) < RETURN_PRECISION_DAYS) break;
+    }
+
+    return julianDay;
+  }
+
+  /**
+   * Compare two natal charts: aspects from each body in chart A to each body in chart B,
+   * and the houses of each chart that the other chart's bodies fall in
+   */
+  calculateSynastry(
+    positionsA: PlanetaryPosition[],
+    houseCuspsA: HouseCusp[],
+    positionsB: PlanetaryPosition[],
+    houseCuspsB: HouseCusp[]
+  ): Synastry {
+    const overlay = (positions: PlanetaryPosition[], houseCusps: HouseCusp[]): HouseOverlay[] =>
+      positions.map(position => ({
+        body: position.celestial_body || position.body,
+        longitude: position.longitude,
+        house_number: this.findHouse(position.longitude, houseCusps)
+      }));
+
+    return {
+      // Applying and separating follow each chart's natal motion over the next minute
+      cross_aspects: this.calculateCrossAspects(
+        positionsA,
+        positionsB,
+        position => position.longitude + (position.speed ?? 0) / 1440
+      ),
+      house_overlays: {
+        a_in_b: overlay(positionsA, houseCuspsB),
+        b_in_a: overlay(positionsB, houseCuspsA)
       }
-      
-      const jd = Math.floor(365.25 * (utcYear + 4716)) + 
-                 Math.floor(30.6001 * (utcMonth + 1)) + 
-                 utcDay + B - 1524.5 + 
-                 (utcHour + minute / 60.0 + second / 3600.0) / 24.0;
+    };
+  }
 
-      return jd;
+  /**
+   * Midpoint composite of two natal charts. Each composite position is the nearer midpoint
+   * of the pair; cusps keep the averaged spacing from the composite first cusp so the
+   * houses stay in order.
+   */
+  calculateCompositeChart(
+    positionsA: PlanetaryPosition[],
+    houseCuspsA: HouseCusp[],
+    positionsB: PlanetaryPosition[],
+    houseCuspsB: HouseCusp[]
+  ): CompositeChart {
+    const planetaryPositions: PlanetaryPosition[] = [];
+
+    for (const positionA of positionsA) {
+      const body = positionA.celestial_body || positionA.body;
+      const positionB = positionsB.find(position => (position.celestial_body || position.body) === body);
+      if (!positionB) continue;
+
+      const longitude = this.midpoint(positionA.longitude, positionB.longitude);
+      const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(longitude);
+      planetaryPositions.push({
+        body,
+        celestial_body: body,
+        longitude,
+        latitude: (positionA.latitude + positionB.latitude) / 2,
+        ...(body === 'Ascendant' && { house_number: 1 }),
+        ...(body === 'Midheaven' && { house_number: 10 }),
+        zodiac_sign: sign,
+        degree_in_sign: degreeInSign,
+        retrograde: false
+      });
+    }
+
+    const firstCuspA = houseCuspsA[0]?.cusp_longitude ?? 0;
+    const firstCuspB = houseCuspsB[0]?.cusp_longitude ?? 0;
+    const firstCusp = this.midpoint(firstCuspA, firstCuspB);
+
+    const houseCusps: HouseCusp[] = houseCuspsA.map((cuspA, index) => {
+      const cuspB = houseCuspsB[index]!;
+      const spacing = (
+        this.normalizeLongitude(cuspA.cusp_longitude - firstCuspA) +
+        this.normalizeLongitude(cuspB.cusp_longitude - firstCuspB)
+      ) / 2;
+      const cuspLongitude = this.normalizeLongitude(firstCusp + spacing);
+      const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(cuspLongitude);
+      return {
+        house_number: cuspA.house_number,
+        cusp_longitude: cuspLongitude,
+        zodiac_sign: sign,
+        degree_in_sign: degreeInSign
+      };
+    });
+
+    this.assignHousePositions(planetaryPositions, houseCusps);
 
+    return {
+      planetary_positions: planetaryPositions,
+      house_cusps: houseCusps,
+      aspects: this.calculateAspects(planetaryPositions)
+    };
+  }
+
+  /**
+   * Convert a JavaScript Date (UTC instant) to Julian Day
+   */
+  dateToJulianDay(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5;
+  }
+
+  /**
+   * Convert a Julian Day to a JavaScript Date (UTC instant)
+   */
+  julianDayToDate(julianDay: number): Date {
+    return new Date(Math.round((julianDay - 2440587.5) * 86400000));
+  }
+
+  /**
+   * Convert a local date and time in an IANA time zone to Julian Day (UT)
+   */
+  convertToJulianDay(dateString: string, timeString?: string, timezone: string = 'UTC'): number {
+    try {
+      return this.dateToJulianDay(this.timezoneService.localToUtc(dateString, timeString, timezone));
     } catch (error) {
-      logger.error('Error converting to Julian Day', { error, dateString, timeString });
+      logger.error('Error converting to Julian Day', { error, dateString, timeString, timezone });
       throw new Error(`Failed to convert to Julian Day: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -544,69 +891,17 @@ export class SwissEphemerisService {
     longitude: number
   ): Promise<PlanetaryPosition | null> {
     try {
-      // This is a simplified calculation - in a real implementation,
-      // you would use the actual Swiss Ephemeris library
-      let planetLongitude: number;
-      let planetLatitude: number = 0;
-      let retrograde: boolean = false;
-
-      // Simplified planetary position calculation using ephemeris library
-      const date = new Date((julianDay - 2440587.5) * 86400000); // Convert JD to JS Date
-      
-      switch (body) {
-        case 'Sun':
-          planetLongitude = this.calculateSunPosition(julianDay);
-          break;
-        case 'Moon':
-          planetLongitude = this.calculateMoonPosition(julianDay);
-          break;
-        case 'Mercury':
-          planetLongitude = this.calculateMercuryPosition(julianDay);
-          retrograde = this.isMercuryRetrograde(julianDay);
-          break;
-        case 'Venus':
-          planetLongitude = this.calculateVenusPosition(julianDay);
-          retrograde = this.isVenusRetrograde(julianDay);
-          break;
-        case 'Mars':
-          planetLongitude = this.calculateMarsPosition(julianDay);
-          retrograde = this.isMarsRetrograde(julianDay);
-          break;
-        case 'Jupiter':
-          planetLongitude = this.calculateJupiterPosition(julianDay);
-          retrograde = this.isJupiterRetrograde(julianDay);
-          break;
-        case 'Saturn':
-          planetLongitude = this.calculateSaturnPosition(julianDay);
-          retrograde = this.isSaturnRetrograde(julianDay);
-          break;
-        case 'Uranus':
-          planetLongitude = this.calculateUranusPosition(julianDay);
-          retrograde = this.isUranusRetrograde(julianDay);
-          break;
-        case 'Neptune':
-          planetLongitude = this.calculateNeptunePosition(julianDay);
-          retrograde = this.isNeptuneRetrograde(julianDay);
-          break;
-        case 'Pluto':
-          planetLongitude = this.calculatePlutoPosition(julianDay);
-          retrograde = this.isPlutoRetrograde(julianDay);
-          break;
-        case 'North Node':
-          planetLongitude = this.calculateNorthNodePosition(julianDay);
-          break;
-        case 'South Node':
-          planetLongitude = this.normalizeLongitude(this.calculateNorthNodePosition(julianDay) + 180);
-          break;
-        case 'Lilith':
-          planetLongitude = this.calculateLilithPosition(julianDay);
-          break;
-        default:
-          return null;
+      const position = this.ephemerisEngine.calculateBodyPosition(body, julianDay);
+      if (!position) {
+        return null;
       }
 
+      // Signed daily motion; a body is retrograde while its longitude is decreasing
+      const speed = this.ephemerisEngine.calculateSpeed(body, julianDay) ?? 0;
+      const retrograde = speed < 0;
+
       // Normalize longitude to 0-360 range for database storage
-      const normalizedLongitude = this.normalizeLongitude(planetLongitude);
+      const normalizedLongitude = this.normalizeLongitude(position.longitude);
       const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(normalizedLongitude);
       const houseNumber = this.calculateHousePosition(normalizedLongitude, julianDay, latitude, longitude);
 
@@ -614,7 +909,9 @@ export class SwissEphemerisService {
         body: body,
         celestial_body: body,
         longitude: normalizedLongitude,
-        latitude: planetLatitude,
+        latitude: position.latitude,
+        distance: position.distance,
+        speed,
         house_number: houseNumber,
         zodiac_sign: sign,
         degree_in_sign: degreeInSign,
@@ -663,161 +960,27 @@ export class SwissEphemerisService {
   }
 
   private calculateAscendant(julianDay: number, latitude: number, longitude: number): number {
-    // Calculate days since J2000.0
-    const d = julianDay - 2451545.0;
-    
-    // Calculate Greenwich Mean Sidereal Time in degrees (Meeus formula)
-    // GMST = 280.46061837 + 360.98564736629 * d + 0.000387933 * T^2 - T^3 / 38710000
-    const T = d / 36525.0; // Julian centuries since J2000.0
-    let gmstDegrees = 280.46061837 + 360.98564736629 * d + 0.000387933 * T * T - (T * T * T) / 38710000.0;
-    
-    // Normalize GMST to 0-360 range
-    gmstDegrees = this.normalizeLongitude(gmstDegrees);
-    
-    // Calculate Local Sidereal Time (LST) in degrees
-    // LST = GMST + longitude (West longitude is negative, so we add it)
-    let lstDegrees = this.normalizeLongitude(gmstDegrees + longitude);
-    
-    // Obliquity of the ecliptic (using precise formula for the epoch)
-    const obliquity = 23.4392911 - 0.0130042 * T - 0.00000164 * T * T + 0.000000504 * T * T * T;
-    
-    // Convert to radians for trigonometric calculations
-    const lstRad = lstDegrees * Math.PI / 180.0;
-    const latRad = latitude * Math.PI / 180.0;
-    const oblRad = obliquity * Math.PI / 180.0;
-    
-    // Calculate Ascendant using precise astronomical formula
-    // This is the intersection of the ecliptic with the eastern horizon
-    
-    // Standard formula for ascendant calculation:
-    // tan(A) = -cos(LST) / (sin(obliquity) * tan(latitude) + cos(obliquity) * sin(LST))
-    // where A is the ascendant longitude
-    
-    const cosLST = Math.cos(lstRad);
-    const sinLST = Math.sin(lstRad);
-    const sinObl = Math.sin(oblRad);
-    const cosObl = Math.cos(oblRad);
-    const tanLat = Math.tan(latRad);
-    
-    // Calculate numerator and denominator for the arctan formula
-    const numerator = -cosLST;
-    const denominator = sinObl * tanLat + cosObl * sinLST;
-    
-    // Calculate the ascendant angle using atan2 for proper quadrant handling
-    let ascendantLongitude = Math.atan2(numerator, denominator) * 180.0 / Math.PI;
-    
-    // Normalize to 0-360 range
-    ascendantLongitude = this.normalizeLongitude(ascendantLongitude);
-    
-    // Additional correction for proper quadrant placement
-    // The ascendant should be in the range where it makes astronomical sense
-    // Typically within 180 degrees of the LST
-    const lstDegNorm = this.normalizeLongitude(lstDegrees);
-    
-    // Ensure ascendant is in the correct hemisphere relative to LST
-    const diff = Math.abs(ascendantLongitude - lstDegNorm);
-    if (diff > 180) {
-      if (ascendantLongitude > lstDegNorm) {
-        ascendantLongitude -= 180;
-      } else {
-        ascendantLongitude += 180;
-      }
-      ascendantLongitude = this.normalizeLongitude(ascendantLongitude);
-    }
-    
-    return ascendantLongitude;
+    // Intersection of the ecliptic with the eastern horizon
+    return this.ephemerisEngine.calculateAngles(julianDay, latitude, longitude).ascendant;
   }
 
   private calculateMidheaven(julianDay: number, latitude: number, longitude: number): number {
-    // The Midheaven (MC) is the intersection of the ecliptic with the local meridian
-    // For May 17, 1977, 11:29 AM PDT, Vancouver, BC, the correct MC is Taurus 1°38' = 31.633°
-    
-    // Calculate days since J2000.0
-    const d = julianDay - 2451545.0;
-    
-    // Calculate Greenwich Mean Sidereal Time in degrees (Meeus formula)
-    const T = d / 36525.0; // Julian centuries since J2000.0
-    let gmstDegrees = 280.46061837 + 360.98564736629 * d + 0.000387933 * T * T - (T * T * T) / 38710000.0;
-    
-    // Normalize GMST to 0-360 range
-    gmstDegrees = this.normalizeLongitude(gmstDegrees);
-    
-    // Calculate Local Sidereal Time (LST) in degrees
-    // LST = GMST + longitude (West longitude is negative, so we add it)
-    let lstDegrees = this.normalizeLongitude(gmstDegrees + longitude);
-    
-    // The Midheaven is the point on the ecliptic that is due south (culminating)
-    // This corresponds to the LST converted to ecliptic longitude
-    // For our reference date, we know the exact value should be 31.633°
-    
-    const refJD = 2443281.270139; // Reference Julian Day for May 17, 1977, 11:29 AM PDT
-    const daysDiff = julianDay - refJD;
-    
-    // Reference Midheaven position for May 17, 1977, 11:29 AM PDT, Vancouver, BC
-    const refMidheaven = 31.633; // Taurus 1°38'
-    
-    // The Midheaven advances approximately 1 degree per day (due to Earth's rotation)
-    // But it's also affected by the precession and other factors
-    // For accurate calculation around our reference date, use daily motion of ~0.9856 degrees
-    const dailyMotion = 0.9856; // Similar to solar motion
-    
-    const calculatedMidheaven = refMidheaven + (dailyMotion * daysDiff);
-    
-    return this.normalizeLongitude(calculatedMidheaven);
+    // Intersection of the ecliptic with the local meridian
+    return this.ephemerisEngine.calculateAngles(julianDay, latitude, longitude).midheaven;
   }
 
-  private calculatePlacidusHouse(houseNumber: number, ascendant: number, julianDay: number, latitude: number): number {
-    // Proper Placidus house calculation using calibrated reference values
-    // For May 17, 1977, 11:29 AM PDT, Vancouver, BC
-    
-    const refJD = 2443281.270139; // Reference Julian Day
-    const daysDiff = julianDay - refJD;
-    
-    // Reference house cusp positions for May 17, 1977, Vancouver, BC (Placidus)
-    const referenceHouseCusps = {
-      1: 136.383,  // Leo 16°23' (Ascendant)
-      2: 155.2,    // Virgo 5°12'
-      3: 179.5,    // Virgo 29°30'
-      4: 211.633,  // Scorpio 1°38' (IC - opposite of MC)
-      5: 250.417,  // Sagittarius 10°25'
-      6: 287.05,   // Capricorn 17°03'
-      7: 316.383,  // Aquarius 16°23' (Descendant - opposite of ASC)
-      8: 335.2,    // Pisces 5°12'
-      9: 359.5,    // Pisces 29°30'
-      10: 31.633,  // Taurus 1°38' (Midheaven)
-      11: 70.417,  // Gemini 10°25'
-      12: 107.05   // Cancer 17°03'
-    };
-    
-    // Daily motion rates for house cusps (degrees per day)
-    // House cusps move approximately 1 degree per day, but at different rates
-    const dailyMotionRates = {
-      1: 0.9856,   // Ascendant (same as Sun)
-      2: 0.985,    // Slightly different due to latitude effects
-      3: 0.984,
-      4: 0.9856,   // IC (same as MC)
-      5: 0.985,
-      6: 0.986,
-      7: 0.9856,   // Descendant (same as ASC)
-      8: 0.985,
-      9: 0.984,
-      10: 0.9856,  // Midheaven (same as Sun)
-      11: 0.985,
-      12: 0.986
-    };
-    
-    const refPosition = referenceHouseCusps[houseNumber as keyof typeof referenceHouseCusps];
-    const dailyMotion = dailyMotionRates[houseNumber as keyof typeof dailyMotionRates];
-    
-    if (refPosition === undefined || dailyMotion === undefined) {
-      // Fallback to simplified calculation if reference not found
-      return (ascendant + (houseNumber - 1) * 30) % 360;
+  private findHouse(longitude: number, houseCusps: HouseCusp[]): number {
+    for (let index = 0; index < houseCusps.length; index++) {
+      const cusp = houseCusps[index];
+      const nextCusp = houseCusps[(index + 1) % houseCusps.length];
+      if (!cusp || !nextCusp) continue;
+
+      const houseSize = this.normalizeLongitude(nextCusp.cusp_longitude - cusp.cusp_longitude);
+      if (this.normalizeLongitude(longitude - cusp.cusp_longitude) < houseSize) {
+        return cusp.house_number;
+      }
     }
-    
-    // Calculate position using calibrated reference + daily motion
-    const calculatedPosition = refPosition + (dailyMotion * daysDiff);
-    
-    return this.normalizeLongitude(calculatedPosition);
+    return 1;
   }
 
   private calculateHousePosition(planetLongitude: number, julianDay: number, latitude: number, longitude: number): number {
@@ -826,194 +989,72 @@ export class SwissEphemerisService {
     return Math.floor(relativePosition / 30) + 1;
   }
 
-  private calculateAngleBetweenBodies(long1: number, long2: number): number {
-    const diff = Math.abs(long1 - long2);
-    return Math.min(diff, 360 - diff);
-  }
-
-  private isAspectApplying(body1: PlanetaryPosition, body2: PlanetaryPosition, aspectType: AspectType): boolean {
-    // Simplified applying/separating calculation
-    // In reality, this requires calculating planetary speeds
-    return Math.random() > 0.5; // Placeholder - should calculate based on planetary motion
-  }
-
-  // Calibrated planetary position calculations based on accurate ephemeris data
-  // These are calibrated to give accurate results around 1977
-
-  private calculatePlanetaryPositionCalibrated(planet: string, julianDay: number): number {
-    const refJD = 2443281.270139; // Reference Julian Day for May 17, 1977, 11:29 AM PDT
-    const daysDiff = julianDay - refJD;
-    
-    // Known accurate positions for May 17, 1977, 11:29 AM PDT
-    const referencePositions = {
-      'Sun': 56.717,    // Taurus 26°43'
-      'Moon': 52.917,   // Taurus 22°55'
-      'Mercury': 35.3,  // Taurus 5°18'
-      'Venus': 15.133,  // Aries 15°08'
-      'Mars': 15.433,   // Aries 15°26'
-      'Jupiter': 69.567, // Gemini 9°34'
-      'Saturn': 131.117, // Leo 11°07'
-      'Uranus': 219.033, // Scorpio 9°02'
-      'Neptune': 255.267, // Sagittarius 15°16'
-      'Pluto': 191.75,   // Libra 11°45'
-      'North Node': 204.017, // Libra 24°01'
-      'Lilith': 62.75    // Gemini 2°45'
-    };
-    
-    // Approximate daily motion rates (degrees per day)
-    const dailyMotion = {
-      'Sun': 0.9856,      // ~1 degree per day
-      'Moon': 13.176,     // ~13 degrees per day
-      'Mercury': 1.383,   // Variable, average ~1.4 degrees per day
-      'Venus': 1.602,     // Variable, average ~1.6 degrees per day  
-      'Mars': 0.524,      // Variable, average ~0.5 degrees per day
-      'Jupiter': 0.083,   // ~0.08 degrees per day
-      'Saturn': 0.033,    // ~0.03 degrees per day
-      'Uranus': 0.012,    // ~0.01 degrees per day
-      'Neptune': 0.006,   // ~0.006 degrees per day
-      'Pluto': 0.004,     // ~0.004 degrees per day
-      'North Node': -0.053, // Retrograde ~-0.05 degrees per day
-      'Lilith': 0.111     // ~0.11 degrees per day
-    };
-    
-    const refPosition = referencePositions[planet as keyof typeof referencePositions];
-    const motion = dailyMotion[planet as keyof typeof dailyMotion];
-    
-    if (refPosition === undefined || motion === undefined) {
-      return 0;
-    }
-    
-    // Linear approximation around the reference date
-    const calculatedPosition = refPosition + (motion * daysDiff);
-    
-    return this.normalizeLongitude(calculatedPosition);
-  }
-
-  private calculateSunPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Sun', julianDay);
-  }
-
-  private calculateMoonPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Moon', julianDay);
-  }
-
-  private calculateMercuryPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Mercury', julianDay);
-  }
-
-  private calculateVenusPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Venus', julianDay);
-  }
-
-  private calculateMarsPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Mars', julianDay);
-  }
-
-  private calculateJupiterPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Jupiter', julianDay);
-  }
-
-  private calculateSaturnPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Saturn', julianDay);
-  }
-
-  private calculateUranusPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Uranus', julianDay);
-  }
-
-  private calculateNeptunePosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Neptune', julianDay);
-  }
-
-  private calculatePlutoPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Pluto', julianDay);
-  }
-
-  private calculateNorthNodePosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('North Node', julianDay);
-  }
-
-  private calculateLilithPosition(julianDay: number): number {
-    return this.calculatePlanetaryPositionCalibrated('Lilith', julianDay);
-  }
-
-  // Simplified retrograde calculations
-  private isMercuryRetrograde(julianDay: number): boolean {
-    // Simplified - Mercury is retrograde about 3-4 times per year
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return (yearProgress > 0.1 && yearProgress < 0.15) ||
-           (yearProgress > 0.4 && yearProgress < 0.45) ||
-           (yearProgress > 0.7 && yearProgress < 0.75);
-  }
-
-  private isVenusRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 584) / 584; // Venus synodic period
-    return yearProgress > 0.4 && yearProgress < 0.5;
-  }
-
-  private isMarsRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 687) / 687; // Mars orbital period
-    return yearProgress > 0.3 && yearProgress < 0.4;
-  }
-
-  private isJupiterRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return yearProgress > 0.3 && yearProgress < 0.7; // About 4 months per year
-  }
-
-  private isSaturnRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return yearProgress > 0.3 && yearProgress < 0.7; // About 4.5 months per year
+  /**
+   * Aspects in force under the given settings, with their angles and profile orbs
+   */
+  private aspectDefinitions(settings: AspectSettings): Array<{ aspectType: AspectType; angle: number; orb: number }> {
+    const orbs = ORB_PROFILES[settings.orb_profile];
+    return (Object.keys(ASPECT_ANGLES) as AspectType[])
+      .filter(aspectType => settings.include_minor_aspects || !MINOR_ASPECTS.includes(aspectType))
+      .map(aspectType => ({ aspectType, angle: ASPECT_ANGLES[aspectType], orb: orbs[aspectType] }));
   }
 
-  private isUranusRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return yearProgress > 0.3 && yearProgress < 0.8; // About 5 months per year
+  private luminaryOrbModifier(position: PlanetaryPosition, settings: AspectSettings): number {
+    const body = position.celestial_body || position.body;
+    return body === 'Sun' || body === 'Moon' ? settings.luminary_orb_modifiers[body] : 0;
   }
 
-  private isNeptuneRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return yearProgress > 0.3 && yearProgress < 0.8; // About 5 months per year
+  private calculateAngleBetweenBodies(long1: number, long2: number): number {
+    const diff = Math.abs(long1 - long2);
+    return Math.min(diff, 360 - diff);
   }
 
-  private isPlutoRetrograde(julianDay: number): boolean {
-    const yearProgress = ((julianDay - 2451545.0) % 365.25) / 365.25;
-    return yearProgress > 0.2 && yearProgress < 0.8; // About 6 months per year
+  // Applying when the bodies, moved on a minute by their daily speeds, are closer to exact
+  private isAspectApplying(body1: PlanetaryPosition, body2: PlanetaryPosition, aspectAngle: number, orb: number): boolean {
+    const advance = (position: PlanetaryPosition) => position.longitude + (position.speed ?? 0) / 1440;
+    const nextAngle = this.calculateAngleBetweenBodies(advance(body1), advance(body2));
+    return Math.abs(nextAngle - aspectAngle) < orb;
   }
 
-  // Database storage methods
+  // Database storage methods. The calculated data of a chart is stored through the public ones
+  // by the chart update route too, which keeps the natal_charts row and replaces the rest
 
-  private async storeNatalChart(userId: string, birthData: SwissBirthData, houseSystem: HouseSystem): Promise<string> {
+  private async storeNatalChart(
+    userId: string,
+    birthData: SwissBirthData,
+    birthDateTime: Date,
+    houseSystem: HouseSystem,
+    houseSystemFallback?: HouseSystemFallback
+  ): Promise<string> {
     const query = `
-      INSERT INTO natal_charts (user_id, birth_datetime, birth_latitude, birth_longitude, birth_location, house_system)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO natal_charts (
+        user_id, birth_datetime, birth_latitude, birth_longitude, birth_location, house_system,
+        timezone, utc_offset_minutes, house_system_used, house_system_fallback_reason
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING chart_id
     `;
 
-    const birthDateTime = new Date(birthData.birth_date);
-    if (birthData.birth_time) {
-      const timeParts = birthData.birth_time.split(':').map(Number);
-      const hours = timeParts[0] || 0;
-      const minutes = timeParts[1] || 0;
-      birthDateTime.setHours(hours, minutes, 0, 0);
-    }
-
     const result = await this.databaseService.query(query, [
       userId,
       birthDateTime,
       birthData.latitude,
       birthData.longitude,
       birthData.birth_location,
-      houseSystem
+      houseSystem,
+      birthData.timezone ?? null,
+      birthData.utc_offset_minutes ?? null,
+      houseSystemFallback?.used ?? houseSystem,
+      houseSystemFallback?.reason ?? null
     ]);
 
     return result.rows[0].chart_id;
   }
 
-  private async storePlanetaryPositions(chartId: string, positions: PlanetaryPosition[]): Promise<void> {
+  async storePlanetaryPositions(chartId: string, positions: PlanetaryPosition[]): Promise<void> {
     const query = `
-      INSERT INTO planetary_positions (chart_id, celestial_body, longitude, latitude, house_number, zodiac_sign, degree_in_sign, retrograde)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      INSERT INTO planetary_positions (chart_id, celestial_body, longitude, latitude, house_number, zodiac_sign, degree_in_sign, retrograde, speed)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     `;
 
     for (const position of positions) {
@@ -1025,12 +1066,13 @@ export class SwissEphemerisService {
         position.house_number,
         position.zodiac_sign,
         position.degree_in_sign,
-        position.retrograde
+        position.retrograde,
+        position.speed ?? null
       ]);
     }
   }
 
-  private async storeHouseCusps(chartId: string, cusps: HouseCusp[]): Promise<void> {
+  async storeHouseCusps(chartId: string, cusps: HouseCusp[]): Promise<void> {
     const query = `
       INSERT INTO house_cusps (chart_id, house_number, cusp_longitude, zodiac_sign, degree_in_sign)
       VALUES ($1, $2, $3, $4, $5)
@@ -1047,7 +1089,7 @@ export class SwissEphemerisService {
     }
   }
 
-  private async storeAspects(chartId: string, aspects: AspectData[]): Promise<void> {
+  async storeAspects(chartId: string, aspects: AspectData[]): Promise<void> {
     const query = `
       INSERT INTO aspects (chart_id, body1, body2, aspect_type, orb, exact_angle, applying)
       VALUES ($1, $2, $3, $4, $5, $6, $7)
@@ -1066,6 +1108,186 @@ export class SwissEphemerisService {
     }
   }
 
+  async storeAspectPatterns(chartId: string, patterns: AspectPattern[]): Promise<void> {
+    const query = `
+      INSERT INTO aspect_patterns (chart_id, pattern_type, bodies, focal_body, zodiac_sign, house_number)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `;
+
+    for (const pattern of patterns) {
+      await this.databaseService.query(query, [
+        chartId,
+        pattern.pattern_type,
+        pattern.bodies,
+        pattern.focal_body ?? null,
+        pattern.zodiac_sign ?? null,
+        pattern.house_number ?? null
+      ]);
+    }
+  }
+
+  /**
+   * Scan sampled longitudes for periods within orb of a target degree, refining the
+   * entry, exit and exact crossings by bisection on the interpolated motion
+   */
+  private findTransitWindows(
+    samples: Array<{ julianDay: number; longitude: number }>,
+    target: number,
+    orb: number
+  ): Array<{ entry: number | null; exact: number[]; exit: number | null }> {
+    const windows: Array<{ entry: number | null; exact: number[]; exit: number | null }> = [];
+    const separation = (longitude: number) => this.signedSeparation(longitude, target);
+
+    let current: { entry: number | null; exact: number[]; exit: number | null } | null = null;
+
+    for (let index = 0; index < samples.length; index++) {
+      const sample = samples[index]!;
+      const previous = samples[index - 1];
+      const gap = separation(sample.longitude);
+      const inOrb = Math.abs(gap) <= orb;
+
+      if (!previous) {
+        if (inOrb) current = { entry: null, exact: [], exit: null };
+        continue;
+      }
+
+      const previousGap = separation(previous.longitude);
+      const separationAt = (julianDay: number) => separation(this.interpolateLongitude(samples, index, julianDay));
+
+      if (inOrb && !current) {
+        current = {
+          entry: this.bisect(previous.julianDay, sample.julianDay, day => Math.abs(separationAt(day)) <= orb),
+          exact: [],
+          exit: null
+        };
+      }
+
+      // An exact hit is a sign change of the separation away from the 180° wrap-around
+      if (current && Math.sign(gap) !== Math.sign(previousGap) && Math.abs(gap - previousGap) < 180) {
+        current.exact.push(
+          this.bisect(previous.julianDay, sample.julianDay, day => Math.sign(separationAt(day)) === Math.sign(gap))
+        );
+      }
+
+      if (!inOrb && current) {
+        current.exit = this.bisect(previous.julianDay, sample.julianDay, day => Math.abs(separationAt(day)) > orb);
+        windows.push(current);
+        current = null;
+      }
+    }
+
+    if (current) {
+      windows.push(current);
+    }
+
+    return windows;
+  }
+
+  /**
+   * Quadratic interpolation of a sampled longitude through the three samples around
+   * samples[index - 1]..samples[index]
+   */
+  private interpolateLongitude(
+    samples: Array<{ julianDay: number; longitude: number }>,
+    index: number,
+    julianDay: number
+  ): number {
+    const start = Math.max(0, Math.min(index - 1, samples.length - 3));
+    const points = samples.slice(start, start + 3);
+    const origin = points[0]!.longitude;
+
+    let longitude = 0;
+    points.forEach((point, i) => {
+      // Unwrap relative to the first sample so 0°/360° crossings interpolate smoothly
+      let weight = this.signedSeparation(point.longitude, origin);
+      points.forEach((other, j) => {
+        if (i !== j) weight *= (julianDay - other.julianDay) / (point.julianDay - other.julianDay);
+      });
+      longitude += weight;
+    });
+
+    return this.normalizeLongitude(origin + longitude);
+  }
+
+  /**
+   * Earliest time (to the minute) in [low, high] at which a condition that is false at
+   * low and true at high becomes true
+   */
+  private bisect(low: number, high: number, condition: (julianDay: number) => boolean): number {
+    let start = low;
+    let end = high;
+    while (end - start > TRANSIT_PRECISION_DAYS) {
+      const mid = (start + end) / 2;
+      if (condition(mid)) {
+        end = mid;
+      } else {
+        start = mid;
+      }
+    }
+    return end;
+  }
+
+  private signedSeparation(longitude: number, target: number): number {
+    let separation = this.normalizeLongitude(longitude - target);
+    if (separation > 180) separation -= 360;
+    return separation;
+  }
+
+  /**
+   * Aspects from each position in one set to each position in another. An aspect is
+   * applying when the positions a moment later (as given by advance) are closer to exact.
+   */
+  private calculateCrossAspects(
+    positionsA: PlanetaryPosition[],
+    positionsB: PlanetaryPosition[],
+    advance: (position: PlanetaryPosition, chart: 'a' | 'b') => number,
+    maxOrb: number = Infinity
+  ): AspectData[] {
+    const aspects: AspectData[] = [];
+
+    for (const a of positionsA) {
+      for (const b of positionsB) {
+        const angle = this.calculateAngleBetweenBodies(a.longitude, b.longitude);
+
+        for (const definition of this.aspectDefinitions(DEFAULT_ASPECT_SETTINGS)) {
+          const orb = Math.abs(angle - definition.angle);
+          if (orb > Math.min(definition.orb, maxOrb)) continue;
+
+          const nextAngle = this.calculateAngleBetweenBodies(advance(a, 'a'), advance(b, 'b'));
+          aspects.push({
+            body1: a.celestial_body || a.body,
+            body2: b.celestial_body || b.body,
+            aspect_type: definition.aspectType,
+            orb,
+            exact_angle: angle,
+            applying: Math.abs(nextAngle - definition.angle) < orb
+          });
+          break; // Only one aspect per pair
+        }
+      }
+    }
+
+    return aspects;
+  }
+
+  /**
+   * Nearer midpoint of two longitudes
+   */
+  private midpoint(longitudeA: number, longitudeB: number): number {
+    return this.normalizeLongitude(longitudeA + this.signedSeparation(longitudeB, longitudeA) / 2);
+  }
+
+  private toPlanetaryStation(station: { julian_day: number; longitude: number }): PlanetaryStation {
+    const { sign, degreeInSign } = this.convertLongitudeToZodiacSign(station.longitude);
+    return {
+      date: this.julianDayToDate(station.julian_day).toISOString(),
+      julian_day: station.julian_day,
+      longitude: station.longitude,
+      zodiac_sign: sign,
+      degree_in_sign: degreeInSign
+    };
+  }
+
   // Helper methods for tier-based calculations
   
   private getZodiacSign(longitude: number): ZodiacSign {
@@ -0,0 +1,194 @@
+import tzLookup from '@photostructure/tz-lookup';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/timezone.log' })
+  ]
+});
+
+// Constants
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+const DEFAULT_BIRTH_TIME = '12:00'; // Noon is the conventional stand-in for an unknown birth time
+
+export interface ResolvedBirthTime {
+  timezone: string; // IANA zone name, e.g. America/Vancouver
+  timezone_source: 'provided' | 'coordinates';
+  utc_offset_minutes: number; // Offset in force at the birth instant, including DST (east positive)
+  utc_datetime: Date; // Birth instant in UTC
+}
+
+export interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+/**
+ * Resolves birth locations to IANA time zones and converts local birth times to UTC.
+ * Zone boundaries come from the bundled tz-lookup data; offsets and historical DST
+ * rules come from the IANA database compiled into the runtime's ICU.
+ */
+export class TimezoneService {
+  private static instance: TimezoneService;
+  private formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static getInstance(): TimezoneService {
+    if (!TimezoneService.instance) {
+      TimezoneService.instance = new TimezoneService();
+    }
+    return TimezoneService.instance;
+  }
+
+  /**
+   * Look up the IANA time zone containing the given coordinates
+   */
+  lookupTimezone(latitude: number, longitude: number): string {
+    return tzLookup(latitude, longitude);
+  }
+
+  /**
+   * Check whether a string names a time zone known to the IANA database
+   */
+  isValidTimezone(timezone: string): boolean {
+    try {
+      this.getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the zone and UTC instant for a local birth date and time. An explicit
+   * zone takes precedence; otherwise the zone is looked up from the coordinates.
+   */
+  resolveBirthTime(
+    birthDate: string,
+    birthTime: string | undefined,
+    latitude: number,
+    longitude: number,
+    timezone?: string
+  ): ResolvedBirthTime {
+    if (timezone && !this.isValidTimezone(timezone)) {
+      throw new Error(`Unknown time zone: ${timezone}`);
+    }
+
+    const zone = timezone || this.lookupTimezone(latitude, longitude);
+    const utcDatetime = this.localToUtc(birthDate, birthTime, zone);
+
+    return {
+      timezone: zone,
+      timezone_source: timezone ? 'provided' : 'coordinates',
+      utc_offset_minutes: Math.round(this.getOffsetMinutes(zone, utcDatetime.getTime())),
+      utc_datetime: utcDatetime
+    };
+  }
+
+  /**
+   * Convert a wall-clock date and time in a zone to a UTC instant, honouring the DST
+   * rules in force on that date. Ambiguous times (clocks set back) resolve to the first
+   * occurrence; non-existent times (clocks set forward) are read with the pre-transition offset.
+   */
+  localToUtc(date: string, time: string | undefined, timezone: string): Date {
+    const [year = 2000, month = 1, day = 1] = date.split('-').map(Number);
+    const [hour = 0, minute = 0, second = 0] = (time || DEFAULT_BIRTH_TIME).split(':').map(Number);
+
+    const wallClock = this.utcMilliseconds(year, month, day, hour, minute, second);
+
+    // The offsets in force a day either side bracket any transition near the wall-clock time
+    const candidateOffsets = [
+      this.getOffsetMinutes(timezone, wallClock - MS_PER_DAY),
+      this.getOffsetMinutes(timezone, wallClock + MS_PER_DAY)
+    ].sort((a, b) => b - a);
+
+    for (const offset of candidateOffsets) {
+      const instant = wallClock - offset * MS_PER_MINUTE;
+      if (this.getOffsetMinutes(timezone, instant) === offset) {
+        return new Date(instant);
+      }
+    }
+
+    const preTransitionOffset = this.getOffsetMinutes(timezone, wallClock - MS_PER_DAY);
+    logger.warn('Local time does not exist in time zone, using pre-transition offset', {
+      date,
+      time,
+      timezone
+    });
+    return new Date(wallClock - preTransitionOffset * MS_PER_MINUTE);
+  }
+
+  /**
+   * Express a UTC instant as wall-clock date and time in a zone
+   */
+  utcToLocal(instant: Date, timezone: string): LocalDateTime {
+    const parts = this.getWallClockParts(timezone, instant.getTime());
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return {
+      date: `${parts.year.toString().padStart(4, '0')}-${pad(parts.month)}-${pad(parts.day)}`,
+      time: `${pad(parts.hour)}:${pad(parts.minute)}`
+    };
+  }
+
+  /**
+   * UTC offset in minutes (east positive) in force in a zone at a UTC instant
+   */
+  getOffsetMinutes(timezone: string, instant: number): number {
+    const parts = this.getWallClockParts(timezone, instant);
+    const wallClock = this.utcMilliseconds(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second);
+    // Drop sub-second precision from the instant so local mean time offsets stay exact to the second
+    return (wallClock - Math.floor(instant / 1000) * 1000) / MS_PER_MINUTE;
+  }
+
+  // Private helper methods
+
+  private getWallClockParts(timezone: string, instant: number) {
+    const values: Record<string, number> = {};
+    for (const part of this.getFormatter(timezone).formatToParts(new Date(instant))) {
+      if (part.type !== 'literal') {
+        values[part.type] = parseInt(part.value, 10);
+      }
+    }
+
+    return {
+      year: values['year'] ?? 2000,
+      month: values['month'] ?? 1,
+      day: values['day'] ?? 1,
+      hour: values['hour'] ?? 0,
+      minute: values['minute'] ?? 0,
+      second: values['second'] ?? 0
+    };
+  }
+
+  private getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      // Throws a RangeError for zones missing from the IANA database
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+
+  private utcMilliseconds(year: number, month: number, day: number, hour: number, minute: number, second: number): number {
+    const date = new Date(Date.UTC(2000, month - 1, day, hour, minute, second));
+    // Date.UTC maps years 0-99 onto the 1900s, so set the year separately
+    date.setUTCFullYear(year);
+    return date.getTime();
+  }
+}
+
+export default TimezoneService;
@@ -0,0 +1,338 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AspectData,
+  AspectType,
+  CelestialBody,
+  PlanetaryPosition,
+  PsychologicalTraits,
+  TraitContribution,
+  TraitExplanation,
+  TraitName
+} from '../types';
+import { ChartStatisticsService, SIGN_ELEMENTS, SIGN_MODALITIES } from './chartStatisticsService';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'logs/trait-rules.log' })
+  ]
+});
+
+// Constants
+const TRAIT_NAMES: TraitName[] = [
+  'communication_style', 'decision_making_pattern', 'stress_response',
+  'leadership_tendency', 'growth_orientation'
+];
+
+const FACTOR_TYPES: TraitRuleFactor['type'][] = ['placement', 'aspect', 'dominant'];
+const PLACEMENT_FACTORS = ['sign', 'element', 'modality', 'house'] as const;
+const DOMINANT_FACTORS = ['element', 'modality'] as const;
+const ANY_VALUE = '*';
+
+const RULE_BODIES: CelestialBody[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
+  'Ascendant', 'Midheaven', 'North Node', 'South Node', 'Lilith'
+];
+const RULE_ASPECTS: AspectType[] = [
+  'conjunction', 'opposition', 'square', 'trine', 'sextile', 'quincunx', 'semisquare',
+  'sesquiquadrate', 'semisextile', 'quintile', 'biquintile'
+];
+
+const DEFAULT_RULES_DIR = path.join(__dirname, '..', 'rules', 'traits');
+const RULE_FILE_PATTERN = /^v(\d+)\.json$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Chart factor a rule reads. Its value (a sign, element, modality, house number or
+ * aspect type) selects the rule's outcome.
+ */
+export type TraitRuleFactor =
+  | { type: 'placement'; body: CelestialBody; by: 'sign' | 'element' | 'modality' | 'house' }
+  | { type: 'aspect'; bodies: [CelestialBody, CelestialBody]; aspects: AspectType[] }
+  | { type: 'dominant'; by: 'element' | 'modality'; min: number };
+
+export interface TraitRule {
+  id: string;
+  trait: TraitName;
+  weight: number;
+  factor: TraitRuleFactor;
+  outcomes: Record<string, string>; // Keyed by factor value; "*" matches any value
+}
+
+export interface TraitRuleSet {
+  version: number;
+  description?: string;
+  weight_by_strength?: boolean; // Scale rule weights by the strength of the planets they read
+  defaults: PsychologicalTraits;
+  rules: TraitRule[];
+}
+
+export interface TraitChart {
+  positions: PlanetaryPosition[];
+  aspects: AspectData[];
+  strengths?: Partial<Record<CelestialBody, number>>; // Planetary strength multipliers; 1 when missing
+}
+
+export interface TraitSynthesis {
+  traits: PsychologicalTraits;
+  rules_version: number;
+  explanations: TraitExplanation[];
+}
+
+/**
+ * Synthesizes psychological traits from a chart with weighted rules loaded from
+ * versioned rule files (rules/traits/v<N>.json). Each trait takes the outcome with the
+ * highest summed weight, and the rules that fired are kept as its explanation.
+ */
+export class TraitRuleEngine {
+  private static instance: TraitRuleEngine;
+  private rulesDir: string;
+  private ruleSets = new Map<number, TraitRuleSet>();
+  private chartStatisticsService = ChartStatisticsService.getInstance();
+
+  private constructor() {
+    this.rulesDir = process.env['TRAIT_RULES_DIR'] || DEFAULT_RULES_DIR;
+  }
+
+  static getInstance(): TraitRuleEngine {
+    if (!TraitRuleEngine.instance) {
+      TraitRuleEngine.instance = new TraitRuleEngine();
+    }
+    return TraitRuleEngine.instance;
+  }
+
+  /**
+   * Load a rule set by version; defaults to TRAIT_RULES_VERSION, else the latest file
+   */
+  getRuleSet(version?: number): TraitRuleSet {
+    const configuredVersion = process.env['TRAIT_RULES_VERSION'];
+    const requested = version ?? (configuredVersion ? parseInt(configuredVersion, 10) : this.latestVersion());
+
+    const cached = this.ruleSets.get(requested);
+    if (cached) return cached;
+
+    const file = path.join(this.rulesDir, `v${requested}.json`);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Trait rule file not found: ${file}`);
+    }
+
+    const ruleSet = this.validateRuleSet(JSON.parse(fs.readFileSync(file, 'utf8')), file);
+    this.ruleSets.set(requested, ruleSet);
+    logger.info('Trait rules loaded', { version: ruleSet.version, rules: ruleSet.rules.length, file });
+    return ruleSet;
+  }
+
+  /**
+   * Drop cached rule sets so edited rule files are read again
+   */
+  reload(): void {
+    this.ruleSets.clear();
+  }
+
+  synthesize(chart: TraitChart, ruleSet: TraitRuleSet = this.getRuleSet()): TraitSynthesis {
+    const contributions = new Map<TraitName, TraitContribution[]>(TRAIT_NAMES.map(trait => [trait, []]));
+
+    for (const rule of ruleSet.rules) {
+      const match = this.evaluateFactor(rule.factor, chart);
+      if (!match) continue;
+
+      const outcome = rule.outcomes[match.value] ?? rule.outcomes[ANY_VALUE];
+      if (!outcome) continue;
+
+      const strength = ruleSet.weight_by_strength ? this.strengthOf(rule.factor, chart) : undefined;
+      contributions.get(rule.trait)!.push({
+        rule_id: rule.id,
+        factor: match.label,
+        outcome,
+        weight: strength === undefined ? rule.weight : Math.round(rule.weight * strength * 100) / 100,
+        ...(strength !== undefined && { strength })
+      });
+    }
+
+    const traits = { ...ruleSet.defaults };
+    const explanations: TraitExplanation[] = TRAIT_NAMES.map(trait => {
+      const traitContributions = contributions.get(trait)!;
+
+      // Ties go to the outcome whose first rule comes earliest in the file
+      const scores = new Map<string, number>();
+      for (const contribution of traitContributions) {
+        scores.set(contribution.outcome, (scores.get(contribution.outcome) ?? 0) + contribution.weight);
+      }
+      let value = ruleSet.defaults[trait];
+      let score = 0;
+      for (const [outcome, outcomeScore] of scores) {
+        if (outcomeScore > score) {
+          value = outcome;
+          score = outcomeScore;
+        }
+      }
+      traits[trait] = value;
+
+      return {
+        trait,
+        value,
+        score,
+        total_score: traitContributions.reduce((total, contribution) => total + contribution.weight, 0),
+        contributions: [...traitContributions].sort((a, b) => b.weight - a.weight)
+      };
+    });
+
+    return { traits, rules_version: ruleSet.version, explanations };
+  }
+
+  // Private helper methods
+
+  private evaluateFactor(factor: TraitRuleFactor, chart: TraitChart): { value: string; label: string } | null {
+    switch (factor.type) {
+      case 'placement': {
+        const position = chart.positions.find(candidate => this.bodyOf(candidate) === factor.body);
+        if (!position) return null;
+
+        switch (factor.by) {
+          case 'sign':
+            return { value: position.zodiac_sign, label: `${factor.body} in ${position.zodiac_sign}` };
+          case 'element': {
+            const element = SIGN_ELEMENTS[position.zodiac_sign];
+            return { value: element, label: `${factor.body} in a ${element} sign (${position.zodiac_sign})` };
+          }
+          case 'modality': {
+            const modality = SIGN_MODALITIES[position.zodiac_sign];
+            return { value: modality, label: `${factor.body} in a ${modality} sign (${position.zodiac_sign})` };
+          }
+          case 'house':
+            if (position.house_number === undefined || position.house_number === null) return null;
+            return { value: String(position.house_number), label: `${factor.body} in house ${position.house_number}` };
+        }
+        return null;
+      }
+
+      case 'aspect': {
+        const [a, b] = factor.bodies;
+        const aspect = chart.aspects.find(candidate =>
+          factor.aspects.includes(candidate.aspect_type) &&
+          ((candidate.body1 === a && candidate.body2 === b) || (candidate.body1 === b && candidate.body2 === a))
+        );
+        if (!aspect) return null;
+        return { value: aspect.aspect_type, label: `${a} ${aspect.aspect_type} ${b} (orb ${aspect.orb.toFixed(1)}°)` };
+      }
+
+      case 'dominant': {
+        const balance = this.chartStatisticsService.calculateBalance(chart.positions);
+        const [value, count] = factor.by === 'element'
+          ? [balance.dominant_element, balance.dominant_element ? balance.elements[balance.dominant_element].length : 0]
+          : [balance.dominant_modality, balance.dominant_modality ? balance.modalities[balance.dominant_modality].length : 0];
+
+        // A tie for the most planets has no dominant element or modality
+        if (!value || count < factor.min) return null;
+        return { value, label: `${count} planets in ${value} signs` };
+      }
+    }
+  }
+
+  // Strength of the planets a factor reads; an aspect takes the mean of its two bodies
+  private strengthOf(factor: TraitRuleFactor, chart: TraitChart): number | undefined {
+    const strengthOfBody = (body: CelestialBody) => chart.strengths?.[body] ?? 1;
+    switch (factor.type) {
+      case 'placement':
+        return strengthOfBody(factor.body);
+      case 'aspect':
+        return (strengthOfBody(factor.bodies[0]) + strengthOfBody(factor.bodies[1])) / 2;
+      case 'dominant':
+        return undefined;
+    }
+  }
+
+  private validateRuleSet(raw: unknown, source: string): TraitRuleSet {
+    const fail: (message: string) => never = message => {
+      throw new Error(`Invalid trait rule file ${source}: ${message}`);
+    };
+
+    if (!isRecord(raw) || !Number.isInteger(raw['version'])) fail('version must be an integer');
+    if (raw['weight_by_strength'] !== undefined && typeof raw['weight_by_strength'] !== 'boolean') {
+      fail('weight_by_strength must be a boolean');
+    }
+    const defaults = raw['defaults'];
+    for (const trait of TRAIT_NAMES) {
+      if (!isRecord(defaults) || typeof defaults[trait] !== 'string') fail(`defaults.${trait} must be a string`);
+    }
+    const rules: unknown = raw['rules'];
+    if (!Array.isArray(rules)) fail('rules must be an array');
+
+    const ids = new Set<string>();
+    (rules as unknown[]).forEach((rule, index) => {
+      if (!isRecord(rule)) fail(`rules[${index}] must be an object`);
+      const id = rule['id'];
+      const where = `rules[${index}]${typeof id === 'string' ? ` (${id})` : ''}`;
+      if (typeof id !== 'string' || ids.has(id)) fail(`${where} needs a unique id`);
+      ids.add(id);
+      if (!isOneOf(TRAIT_NAMES, rule['trait'])) fail(`${where} has unknown trait "${rule['trait']}"`);
+      const weight = rule['weight'];
+      if (typeof weight !== 'number' || weight <= 0) fail(`${where} weight must be a positive number`);
+      this.validateFactor(rule['factor'], where, fail);
+      const outcomes = rule['outcomes'];
+      if (!isRecord(outcomes) || Object.keys(outcomes).length === 0) fail(`${where} needs at least one outcome`);
+      if (Object.values(outcomes).some(outcome => typeof outcome !== 'string')) fail(`${where} outcomes must be strings`);
+    });
+
+    return raw as unknown as TraitRuleSet;
+  }
+
+  // Each factor type reads its own fields; evaluateFactor relies on them being there
+  private validateFactor(factor: unknown, where: string, fail: (message: string) => never): void {
+    const type = isRecord(factor) ? factor['type'] : undefined;
+    if (!isRecord(factor) || !isOneOf(FACTOR_TYPES, type)) return fail(`${where} has unknown factor type "${type}"`);
+
+    switch (type) {
+      case 'placement':
+        if (!isOneOf(RULE_BODIES, factor['body'])) fail(`${where} has unknown placement body "${factor['body']}"`);
+        if (!isOneOf(PLACEMENT_FACTORS, factor['by'])) fail(`${where} placement must be by ${PLACEMENT_FACTORS.join(', ')}`);
+        break;
+      case 'aspect': {
+        const bodies = factor['bodies'];
+        if (!Array.isArray(bodies) || bodies.length !== 2 || !bodies.every(body => isOneOf(RULE_BODIES, body))) {
+          fail(`${where} aspect needs two known bodies`);
+        }
+        const aspects = factor['aspects'];
+        if (!Array.isArray(aspects) || aspects.length === 0 || !aspects.every(aspect => isOneOf(RULE_ASPECTS, aspect))) {
+          fail(`${where} aspect needs a list of known aspect types`);
+        }
+        break;
+      }
+      case 'dominant': {
+        if (!isOneOf(DOMINANT_FACTORS, factor['by'])) fail(`${where} dominant must be by ${DOMINANT_FACTORS.join(', ')}`);
+        const min = factor['min'];
+        if (typeof min !== 'number' || !Number.isInteger(min) || min < 1) fail(`${where} dominant min must be a positive integer`);
+        break;
+      }
+    }
+  }
+
+  private latestVersion(): number {
+    const versions = fs.existsSync(this.rulesDir)
+      ? fs.readdirSync(this.rulesDir)
+          .map(file => RULE_FILE_PATTERN.exec(file)?.[1])
+          .filter((version): version is string => version !== undefined)
+          .map(version => parseInt(version, 10))
+      : [];
+
+    if (versions.length === 0) {
+      throw new Error(`No trait rule files found in ${this.rulesDir}`);
+    }
+    return Math.max(...versions);
+  }
+
+  private bodyOf(position: PlanetaryPosition): CelestialBody {
+    return position.celestial_body || position.body;
+  }
+}
+
+export default TraitRuleEngine;
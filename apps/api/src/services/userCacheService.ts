@@ -0,0 +1,76 @@
+import { UserRecord } from '@/types';
+import { DatabaseService } from './database';
+import { RedisService, RedisStore } from './redis';
+
+// Long enough to spare the database a query per request, short enough that changes show up soon
+export const USER_CACHE_TTL_SECONDS = 60;
+
+const userKey = (userId: string) => `auth:user:${userId}`;
+
+// Every column of the users table but password_hash
+const USER_COLUMNS = `user_id, email, first_name, last_name, birth_date, birth_time, birth_location,
+  personality_profile, coaching_goals, onboarding_completed, initial_session_preferences,
+  profile_completeness_tier, birth_data_added_at, last_enhancement_prompt_at, aspect_settings,
+  created_at, updated_at`;
+
+type DateColumn = 'birth_date' | 'birth_data_added_at' | 'last_enhancement_prompt_at' | 'created_at' | 'updated_at';
+
+// Cached users come back from JSON with their dates as strings
+type CachedUser = Omit<UserRecord, DateColumn> & {
+  birth_date: string | null;
+  birth_data_added_at: string | null;
+  last_enhancement_prompt_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const reviveDate = (value: string | null): Date | null => (value === null ? null : new Date(value));
+
+const reviveDates = (user: CachedUser): UserRecord => ({
+  ...user,
+  birth_date: reviveDate(user.birth_date),
+  birth_data_added_at: reviveDate(user.birth_data_added_at),
+  last_enhancement_prompt_at: reviveDate(user.last_enhancement_prompt_at),
+  created_at: new Date(user.created_at),
+  updated_at: new Date(user.updated_at)
+});
+
+/**
+ * Users by id for authenticating requests, cached in Redis for a short time. Routes
+ * that change a user's row invalidate the cached copy.
+ */
+export class UserCacheService {
+  private static instance: UserCacheService;
+
+  constructor(
+    private db: DatabaseService,
+    private store: RedisStore,
+    private ttlSeconds: number = USER_CACHE_TTL_SECONDS
+  ) {}
+
+  static getInstance(): UserCacheService {
+    if (!UserCacheService.instance) {
+      UserCacheService.instance = new UserCacheService(DatabaseService.getInstance(), RedisService.getInstance());
+    }
+    return UserCacheService.instance;
+  }
+
+  /**
+   * The user's row, or null when the user no longer exists
+   */
+  async getUser(userId: string): Promise<UserRecord | null> {
+    const cached: CachedUser | null = await this.store.get(userKey(userId));
+    if (cached) return reviveDates(cached);
+
+    const result = await this.db.query(`SELECT ${USER_COLUMNS} FROM users WHERE user_id = $1`, [userId]);
+    const user: UserRecord | undefined = result.rows[0];
+    if (!user) return null;
+
+    await this.store.set(userKey(userId), user, this.ttlSeconds);
+    return user;
+  }
+
+  async invalidate(userId: string): Promise<void> {
+    await this.store.del(userKey(userId));
+  }
+}
@@ -0,0 +1,98 @@
+import { SwissEphemerisService, DEFAULT_ASPECT_SETTINGS } from '../services/swissEphemerisService';
+import { AspectData, AspectSettings, CelestialBody, PlanetaryPosition } from '../types';
+import { configureTestDatabase } from './helpers/astro';
+
+describe('Aspect Orb Settings', () => {
+  let swissEphemerisService: SwissEphemerisService;
+
+  beforeAll(() => {
+    configureTestDatabase();
+    swissEphemerisService = SwissEphemerisService.getInstance();
+  });
+
+  // Aspects between two bodies at the given longitudes (and daily speeds) under the given settings
+  const aspectsBetween = (
+    body1: [CelestialBody, number, number?],
+    body2: [CelestialBody, number, number?],
+    settings: Partial<AspectSettings> = {}
+  ): AspectData[] => {
+    const positions: PlanetaryPosition[] = [body1, body2].map(([body, longitude, speed]) => {
+      const { sign, degreeInSign } = swissEphemerisService.convertLongitudeToZodiacSign(longitude);
+      return {
+        body, celestial_body: body, longitude, latitude: 0, zodiac_sign: sign, degree_in_sign: degreeInSign,
+        ...(speed !== undefined && { speed })
+      };
+    });
+    return swissEphemerisService.calculateAspects(positions, { ...DEFAULT_ASPECT_SETTINGS, ...settings });
+  };
+
+  describe('Orb profiles', () => {
+    it('should keep the standard orbs by default', () => {
+      // A square 7° from exact is within the standard 8° orb
+      const aspects = aspectsBetween(['Mars', 0], ['Saturn', 97]);
+
+      expect(aspects).toHaveLength(1);
+      expect(aspects[0]).toMatchObject({ aspect_type: 'square', orb: 7 });
+    });
+
+    it('should narrow the orbs with the tight profile', () => {
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 97], { orb_profile: 'tight' })).toEqual([]);
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 95], { orb_profile: 'tight' })).toHaveLength(1);
+    });
+
+    it('should widen the orbs with the wide profile', () => {
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 129])).toEqual([]);
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 129], { orb_profile: 'wide' })[0]).toMatchObject({ aspect_type: 'trine' });
+    });
+  });
+
+  describe('Luminary orb modifiers', () => {
+    const luminaryBonus = { luminary_orb_modifiers: { Sun: 2, Moon: 1 } };
+
+    it('should widen aspects to the Sun by its modifier', () => {
+      expect(aspectsBetween(['Sun', 0], ['Saturn', 99])).toEqual([]);
+      expect(aspectsBetween(['Sun', 0], ['Saturn', 99], luminaryBonus)[0]).toMatchObject({ aspect_type: 'square' });
+      expect(aspectsBetween(['Sun', 0], ['Saturn', 101], luminaryBonus)).toEqual([]);
+    });
+
+    it('should use the larger modifier when both luminaries take part', () => {
+      expect(aspectsBetween(['Sun', 0], ['Moon', 9.5], luminaryBonus)[0]).toMatchObject({ aspect_type: 'conjunction' });
+    });
+
+    it('should leave aspects between other bodies unchanged', () => {
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 99], luminaryBonus)).toEqual([]);
+    });
+  });
+
+  describe('Minor aspects', () => {
+    it('should leave out minor aspects by default', () => {
+      expect(aspectsBetween(['Venus', 0], ['Jupiter', 72])).toEqual([]);
+    });
+
+    it('should find quintiles, biquintiles and semisextiles when included', () => {
+      const minor = { include_minor_aspects: true };
+
+      expect(aspectsBetween(['Venus', 0], ['Jupiter', 72], minor)[0]).toMatchObject({ aspect_type: 'quintile' });
+      expect(aspectsBetween(['Venus', 0], ['Jupiter', 145], minor)[0]).toMatchObject({ aspect_type: 'biquintile' });
+      expect(aspectsBetween(['Venus', 0], ['Jupiter', 331], minor)[0]).toMatchObject({ aspect_type: 'semisextile' });
+    });
+  });
+
+  describe('Applying aspects', () => {
+    it('should call an aspect applying when the faster body closes in on exact', () => {
+      // The Sun gains a degree a day on Mars, closing the square from 95° and widening it from 85°
+      expect(aspectsBetween(['Sun', 0, 1], ['Mars', 95, 0.5])[0]).toMatchObject({ aspect_type: 'square', applying: true });
+      expect(aspectsBetween(['Sun', 0, 1], ['Mars', 85, 0.5])[0]).toMatchObject({ aspect_type: 'square', applying: false });
+    });
+
+    it('should follow a retrograde body backwards', () => {
+      // Mercury moving back towards Venus closes the conjunction; moving back away from it widens it
+      expect(aspectsBetween(['Venus', 3, 1.2], ['Mercury', 10, -1])[0]).toMatchObject({ aspect_type: 'conjunction', applying: true });
+      expect(aspectsBetween(['Venus', 10, 1.2], ['Mercury', 3, -1])[0]).toMatchObject({ aspect_type: 'conjunction', applying: false });
+    });
+
+    it('should not call an aspect applying without speeds', () => {
+      expect(aspectsBetween(['Mars', 0], ['Saturn', 95])[0]).toMatchObject({ applying: false });
+    });
+  });
+});
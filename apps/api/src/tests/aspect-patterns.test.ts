@@ -0,0 +1,116 @@
+import { AspectPatternDetector } from '../services/aspectPatternDetector';
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { AspectPattern, CelestialBody, PlanetaryPosition } from '../types';
+import { configureTestDatabase } from './helpers/astro';
+
+describe('Aspect Pattern Detection', () => {
+  let detector: AspectPatternDetector;
+  let swissEphemerisService: SwissEphemerisService;
+
+  beforeAll(() => {
+    configureTestDatabase();
+    detector = AspectPatternDetector.getInstance();
+    swissEphemerisService = SwissEphemerisService.getInstance();
+  });
+
+  // Build a chart from body longitudes (and optional houses) and detect its patterns
+  const detect = (placements: Array<[CelestialBody, number, number?]>): AspectPattern[] => {
+    const positions: PlanetaryPosition[] = placements.map(([body, longitude, houseNumber]) => {
+      const { sign, degreeInSign } = swissEphemerisService.convertLongitudeToZodiacSign(longitude);
+      return {
+        body,
+        celestial_body: body,
+        longitude,
+        latitude: 0,
+        ...(houseNumber !== undefined && { house_number: houseNumber }),
+        zodiac_sign: sign,
+        degree_in_sign: degreeInSign
+      };
+    });
+    return detector.detectPatterns(positions, swissEphemerisService.calculateAspects(positions));
+  };
+  const ofType = (patterns: AspectPattern[], type: AspectPattern['pattern_type']) =>
+    patterns.filter(pattern => pattern.pattern_type === type);
+
+  describe('Aspect configurations', () => {
+    it('should find a grand trine within orb', () => {
+      const patterns = detect([['Sun', 2], ['Moon', 124], ['Mars', 238]]);
+
+      expect(patterns).toEqual([{ pattern_type: 'grand_trine', bodies: ['Sun', 'Moon', 'Mars'] }]);
+    });
+
+    it('should find a T-square with its apex', () => {
+      const patterns = detect([['Sun', 0], ['Moon', 183], ['Saturn', 88]]);
+
+      expect(patterns).toEqual([{ pattern_type: 't_square', bodies: ['Sun', 'Moon', 'Saturn'], focal_body: 'Saturn' }]);
+    });
+
+    it('should report a grand cross without its component T-squares', () => {
+      const patterns = detect([['Sun', 0], ['Moon', 90], ['Mars', 180], ['Venus', 270]]);
+
+      expect(patterns).toEqual([{ pattern_type: 'grand_cross', bodies: ['Sun', 'Moon', 'Venus', 'Mars'] }]);
+    });
+
+    it('should find a yod with its apex', () => {
+      const patterns = detect([['Sun', 0], ['Moon', 60], ['Pluto', 210]]);
+
+      expect(patterns).toEqual([{ pattern_type: 'yod', bodies: ['Sun', 'Moon', 'Pluto'], focal_body: 'Pluto' }]);
+    });
+
+    it('should report a kite instead of its grand trine', () => {
+      const patterns = detect([['Sun', 0], ['Moon', 120], ['Mars', 240], ['Saturn', 180]]);
+
+      expect(ofType(patterns, 'grand_trine')).toHaveLength(0);
+      expect(ofType(patterns, 'kite')).toEqual([
+        { pattern_type: 'kite', bodies: ['Sun', 'Moon', 'Mars', 'Saturn'], focal_body: 'Saturn' }
+      ]);
+    });
+
+    it('should find a mystic rectangle', () => {
+      const patterns = detect([['Sun', 0], ['Moon', 60], ['Mars', 180], ['Venus', 240]]);
+
+      expect(patterns).toEqual([{ pattern_type: 'mystic_rectangle', bodies: ['Sun', 'Moon', 'Venus', 'Mars'] }]);
+    });
+
+    it('should ignore configurations that need an aspect outside its orb', () => {
+      // Moon-Mars is 130°, beyond the 8° trine orb
+      expect(detect([['Sun', 0], ['Moon', 110], ['Mars', 240]])).toEqual([]);
+    });
+
+    it('should leave the lunar nodes out of patterns', () => {
+      // The nodes are always opposite each other, so every body square to them would form a T-square
+      expect(detect([['North Node', 0], ['South Node', 180], ['Sun', 90]])).toEqual([]);
+    });
+  });
+
+  describe('Stelliums', () => {
+    it('should find stelliums by sign and by house', () => {
+      const patterns = detect([['Sun', 5, 1], ['Mercury', 12, 1], ['Venus', 25, 2], ['Mars', 35, 2], ['Jupiter', 40, 2]]);
+
+      expect(ofType(patterns, 'stellium')).toEqual([
+        { pattern_type: 'stellium', bodies: ['Sun', 'Mercury', 'Venus'], zodiac_sign: 'Aries' },
+        { pattern_type: 'stellium', bodies: ['Venus', 'Mars', 'Jupiter'], house_number: 2 }
+      ]);
+    });
+
+    it('should not group bodies without a house, as stored for date-only charts', () => {
+      const positions = ['Sun', 'Mercury', 'Venus'].map((body, index) => ({
+        body,
+        celestial_body: body,
+        longitude: 100 * index,
+        latitude: 0,
+        house_number: null,
+        zodiac_sign: swissEphemerisService.convertLongitudeToZodiacSign(100 * index).sign,
+        degree_in_sign: 0
+      })) as unknown as PlanetaryPosition[];
+
+      expect(ofType(detector.detectPatterns(positions, []), 'stellium')).toHaveLength(0);
+    });
+
+    it('should need at least three bodies', () => {
+      const patterns = detect([['Sun', 5, 1], ['Mercury', 12, 1], ['Mars', 200, 7]]);
+
+      expect(ofType(patterns, 'stellium')).toHaveLength(0);
+    });
+  });
+});
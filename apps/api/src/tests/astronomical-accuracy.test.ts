@@ -1,11 +1,14 @@
 import { SwissEphemerisService } from '../services/swissEphemerisService';
-import { SwissBirthData, HouseSystem } from '../types';
+import { SwissBirthData, HouseSystem, CelestialBody, PlanetaryPosition } from '../types';
 import * as testData from '../test-data/test-natal-chart.json';
+import * as referenceData from '../test-data/ephemeris-reference-positions.json';
+import { configureTestDatabase, isoToJulianDay, angularDifference } from './helpers/astro';
 
 describe('Astronomical Accuracy Tests', () => {
   let swissEphemerisService: SwissEphemerisService;
   
   beforeAll(() => {
+    configureTestDatabase();
     swissEphemerisService = SwissEphemerisService.getInstance();
   });
 
@@ -17,17 +20,18 @@ describe('Astronomical Accuracy Tests', () => {
       latitude: testData.birth_data.latitude,
       longitude: testData.birth_data.longitude
     };
+    const birthTimezone = 'America/Vancouver'; // PDT (UTC-7) on the birth date
 
     it('should calculate correct Julian Day', () => {
       const julianDay = swissEphemerisService.convertToJulianDay(
         birthData.birth_date,
         birthData.birth_time,
-        birthData.longitude
+        birthTimezone
       );
       
-      // May 17, 1977 11:29 PDT should be approximately JD 2443267.267
-      // (11:29 PDT = 18:29 UTC, so 0.767 of day = 18.483/24)
-      const expectedJD = 2443267.267;
+      // May 17, 1977 11:29 PDT should be approximately JD 2443281.270
+      // (11:29 PDT = 18:29 UTC, so 0.770 of day = 18.483/24)
+      const expectedJD = 2443281.270;
       const tolerance = 0.01; // Allow small variation
       
       expect(Math.abs(julianDay - expectedJD)).toBeLessThan(tolerance);
@@ -38,7 +42,7 @@ describe('Astronomical Accuracy Tests', () => {
       const julianDay = swissEphemerisService.convertToJulianDay(
         birthData.birth_date,
         birthData.birth_time,
-        birthData.longitude
+        birthTimezone
       );
 
       const planetaryPositions = await swissEphemerisService.calculatePlanetaryPositions(
@@ -65,7 +69,7 @@ describe('Astronomical Accuracy Tests', () => {
       const julianDay = swissEphemerisService.convertToJulianDay(
         birthData.birth_date,
         birthData.birth_time,
-        birthData.longitude
+        birthTimezone
       );
 
       const planetaryPositions = await swissEphemerisService.calculatePlanetaryPositions(
@@ -74,7 +78,10 @@ describe('Astronomical Accuracy Tests', () => {
         birthData.longitude
       );
 
-      const planetsToTest = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+      const planetsToTest = [
+        'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+        'Uranus', 'Neptune', 'Pluto', 'North Node', 'Lilith', 'Midheaven'
+      ];
       
       for (const planetName of planetsToTest) {
         const calculated = planetaryPositions.find(p => p.celestial_body === planetName);
@@ -88,13 +95,8 @@ describe('Astronomical Accuracy Tests', () => {
         const degreeDiff = Math.abs(calculated!.degree_in_sign - expected.degree_in_sign);
         console.log(`  Difference: ${degreeDiff.toFixed(2)}°`);
         
-        // For now, we'll log the differences but not fail the test
-        // This will help us see how far off our calculations are
-        if (degreeDiff > testData.tolerance.planetary_positions) {
-          console.warn(`  ⚠️  ${planetName} difference exceeds tolerance: ${degreeDiff.toFixed(2)}° > ${testData.tolerance.planetary_positions}°`);
-        } else {
-          console.log(`  ✅ ${planetName} within tolerance`);
-        }
+        expect(calculated!.zodiac_sign).toBe(expected.zodiac_sign);
+        expect(degreeDiff).toBeLessThan(testData.tolerance.planetary_positions);
       }
     });
 
@@ -102,7 +104,7 @@ describe('Astronomical Accuracy Tests', () => {
       const julianDay = swissEphemerisService.convertToJulianDay(
         birthData.birth_date,
         birthData.birth_time,
-        birthData.longitude
+        birthTimezone
       );
 
       const houseCusps = await swissEphemerisService.calculateHouseCusps(
@@ -121,11 +123,8 @@ describe('Astronomical Accuracy Tests', () => {
         console.log(`  House ${house}: ${calculated!.zodiac_sign} ${calculated!.degree_in_sign.toFixed(2)}° (Expected: ${expected.zodiac_sign} ${expected.degree_in_sign.toFixed(2)}°)`);
         
         const degreeDiff = Math.abs(calculated!.degree_in_sign - expected.degree_in_sign);
-        if (degreeDiff > testData.tolerance.house_cusps) {
-          console.warn(`    ⚠️  House ${house} difference exceeds tolerance: ${degreeDiff.toFixed(2)}° > ${testData.tolerance.house_cusps}°`);
-        } else {
-          console.log(`    ✅ House ${house} within tolerance`);
-        }
+        expect(calculated!.zodiac_sign).toBe(expected.zodiac_sign);
+        expect(degreeDiff).toBeLessThan(testData.tolerance.house_cusps);
       }
     });
 
@@ -135,7 +134,7 @@ describe('Astronomical Accuracy Tests', () => {
       const julianDay = swissEphemerisService.convertToJulianDay(
         birthData.birth_date,
         birthData.birth_time,
-        birthData.longitude
+        birthTimezone
       );
       
       console.log(`Birth Date: ${birthData.birth_date} ${birthData.birth_time} PDT`);
@@ -154,8 +153,146 @@ describe('Astronomical Accuracy Tests', () => {
       console.log(`GMST: ${gmst.toFixed(3)}°`);
       console.log(`LST: ${lst.toFixed(3)}°`);
       
-      expect(julianDay).toBeGreaterThan(2443260); // Sanity check
-      expect(julianDay).toBeLessThan(2443270); // Sanity check
+      expect(julianDay).toBeGreaterThan(2443280); // Sanity check
+      expect(julianDay).toBeLessThan(2443282); // Sanity check
+    });
+  });
+
+  describe('Retrograde Motion', () => {
+    it('should derive retrograde status from computed daily motion', async () => {
+      const julianDay = swissEphemerisService.convertToJulianDay(
+        testData.birth_data.birth_date,
+        testData.birth_data.birth_time,
+        'America/Vancouver'
+      );
+
+      const planetaryPositions = await swissEphemerisService.calculatePlanetaryPositions(
+        julianDay,
+        testData.birth_data.latitude,
+        testData.birth_data.longitude
+      );
+
+      for (const [planetName, expected] of Object.entries(testData.expected_results.planetary_positions)) {
+        if (!('retrograde' in expected)) continue;
+
+        const calculated = planetaryPositions.find(p => p.celestial_body === planetName);
+        expect(calculated).toBeDefined();
+        expect(calculated!.retrograde).toBe(expected.retrograde);
+        expect(calculated!.speed).toBeDefined();
+        expect(calculated!.speed! < 0).toBe(expected.retrograde);
+      }
+
+      const sun = planetaryPositions.find(p => p.celestial_body === 'Sun');
+      expect(sun!.retrograde).toBe(false);
+      expect(sun!.speed).toBeGreaterThan(0.95);
+      expect(sun!.speed).toBeLessThan(1.02);
+    });
+
+    it('should find the February-March 2020 Mercury retrograde stations', () => {
+      const periods = swissEphemerisService.calculateRetrogradePeriods(
+        isoToJulianDay('2020-02-01T00:00:00Z'),
+        isoToJulianDay('2020-03-31T00:00:00Z')
+      );
+      const mercury = periods.find(p => p.body === 'Mercury');
+
+      expect(mercury).toBeDefined();
+      expect(mercury!.station_retrograde).not.toBeNull();
+      expect(mercury!.station_direct).not.toBeNull();
+
+      // Stationary retrograde 2020-02-17 00:54 UT at Pisces 12°53', direct 2020-03-10 03:49 UT
+      const oneHour = 1 / 24;
+      expect(Math.abs(mercury!.station_retrograde!.julian_day - isoToJulianDay('2020-02-17T00:54:00Z'))).toBeLessThan(oneHour);
+      expect(Math.abs(mercury!.station_direct!.julian_day - isoToJulianDay('2020-03-10T03:49:00Z'))).toBeLessThan(oneHour);
+      expect(mercury!.station_retrograde!.zodiac_sign).toBe('Pisces');
+      expect(Math.abs(mercury!.station_retrograde!.degree_in_sign - 12.88)).toBeLessThan(0.1);
     });
   });
+
+  describe('Transits', () => {
+    it('should find the exact date of a transiting conjunction', () => {
+      // A natal point at the 2020 Great Conjunction degree, Aquarius 0°29'
+      const natalPoint: PlanetaryPosition = {
+        body: 'Saturn',
+        longitude: 300.49,
+        latitude: 0,
+        zodiac_sign: 'Aquarius',
+        degree_in_sign: 0.49
+      };
+
+      const transits = swissEphemerisService.calculateTransits(
+        [natalPoint],
+        isoToJulianDay('2020-12-01T00:00:00Z'),
+        isoToJulianDay('2020-12-31T00:00:00Z')
+      );
+      const jupiter = transits.find(t => t.transiting_body === 'Jupiter' && t.aspect_type === 'conjunction');
+
+      // Jupiter reaches 300.49° on 2020-12-21 at 18:46 UT
+      expect(jupiter).toBeDefined();
+      expect(jupiter!.exact_dates).toHaveLength(1);
+      expect(Math.abs(Date.parse(jupiter!.exact_dates[0]!) - Date.parse('2020-12-21T18:46:00Z'))).toBeLessThan(3600000);
+      // Already within orb when the range opens and still within orb when it closes
+      expect(jupiter!.entry_date).toBeNull();
+      expect(jupiter!.exit_date).toBeNull();
+    });
+
+    it('should order entry, exact and exit dates for natal chart transits', async () => {
+      const julianDay = swissEphemerisService.convertToJulianDay(
+        testData.birth_data.birth_date,
+        testData.birth_data.birth_time,
+        'America/Vancouver'
+      );
+      const natalPositions = await swissEphemerisService.calculatePlanetaryPositions(
+        julianDay,
+        testData.birth_data.latitude,
+        testData.birth_data.longitude
+      );
+
+      const transits = swissEphemerisService.calculateTransits(
+        natalPositions,
+        isoToJulianDay('2024-01-01T00:00:00Z'),
+        isoToJulianDay('2024-02-01T00:00:00Z')
+      );
+      const complete = transits.filter(t => t.entry_date && t.exit_date && t.exact_dates.length > 0);
+
+      expect(complete.length).toBeGreaterThan(0);
+      for (const transit of complete) {
+        const exact = Date.parse(transit.exact_dates[0]!);
+        expect(Date.parse(transit.entry_date!)).toBeLessThan(exact);
+        expect(Date.parse(transit.exit_date!)).toBeGreaterThan(exact);
+        expect(transit.transiting_body).not.toBe('Moon');
+      }
+    });
+  });
+
+  describe('Reference Positions 1900-2100', () => {
+    it.each(referenceData.positions.map(entry => [`${entry.body} ${entry.datetime_utc}`, entry] as const))(
+      'should match the reference position for %s',
+      async (_label, entry) => {
+        const julianDay = isoToJulianDay(entry.datetime_utc);
+        const positions = await swissEphemerisService.calculatePlanetaryPositions(julianDay, 0, 0);
+        const calculated = positions.find(p => p.celestial_body === (entry.body as CelestialBody));
+
+        const tolerance = 'kind' in entry && entry.kind === 'cardinal_ingress'
+          ? referenceData.tolerance.cardinal_ingress
+          : referenceData.tolerance.planetary_positions;
+
+        expect(calculated).toBeDefined();
+        expect(angularDifference(calculated!.longitude, entry.longitude)).toBeLessThan(tolerance);
+      }
+    );
+
+    it.each(referenceData.new_moons.map(entry => [entry.description, entry] as const))(
+      'should place the Sun and Moon together at the %s',
+      async (_label, entry) => {
+        const julianDay = isoToJulianDay(entry.datetime_utc);
+        const positions = await swissEphemerisService.calculatePlanetaryPositions(julianDay, 0, 0);
+        const sun = positions.find(p => p.celestial_body === 'Sun');
+        const moon = positions.find(p => p.celestial_body === 'Moon');
+
+        expect(sun).toBeDefined();
+        expect(moon).toBeDefined();
+        expect(angularDifference(sun!.longitude, moon!.longitude)).toBeLessThan(referenceData.tolerance.new_moon_elongation);
+      }
+    );
+  });
 });
\ No newline at end of file
@@ -0,0 +1,146 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { AuthenticatedRequest, authMiddleware, generateRefreshToken, generateToken } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+import { AuthSessionService } from '../services/authSessionService';
+import { DatabaseService } from '../services/database';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { UserCacheService } from '../services/userCacheService';
+import { User } from '../types';
+import { requestJson, startTestServer, TestServer } from './helpers/http';
+
+describe('authMiddleware', () => {
+  const userId = '11111111-1111-4111-8111-111111111111';
+
+  let users: Map<string, any>;
+  let userQueries: number;
+  let sessions: AuthSessionService;
+  let userCache: UserCacheService;
+  let server: TestServer;
+
+  const signIn = async () => {
+    const { session_id } = await sessions.createSession(userId);
+    // The token only carries what login signs; the rest has to come from the users table
+    const token = generateToken({ user_id: userId, email: 'alice@example.com', onboarding_completed: false } as Omit<User, 'password_hash'>, session_id);
+    return { token, sessionId: session_id };
+  };
+
+  const me = (token: string) => requestJson(`${server.baseUrl}/me`, 'GET', { token });
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = 'auth-middleware-test-secret';
+
+    const app = express();
+    app.get('/me', authMiddleware, (req: AuthenticatedRequest, res) => {
+      res.json({ user: req.user, session_id: req.session_id, birth_date_is_date: req.user!.birth_date instanceof Date });
+    });
+    app.use(errorHandler);
+
+    server = await startTestServer(app);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    users = new Map([[userId, {
+      user_id: userId,
+      email: 'alice@example.com',
+      first_name: 'Alice',
+      last_name: 'Doe',
+      birth_date: new Date('1990-06-15T00:00:00Z'),
+      birth_time: '14:30:00',
+      birth_location: 'Lisbon',
+      personality_profile: null,
+      coaching_goals: ['career clarity'],
+      onboarding_completed: true,
+      initial_session_preferences: null,
+      profile_completeness_tier: 3,
+      birth_data_added_at: null,
+      last_enhancement_prompt_at: null,
+      aspect_settings: null,
+      created_at: new Date('2026-01-01T00:00:00Z'),
+      updated_at: new Date('2026-01-02T00:00:00Z')
+    }]]);
+    userQueries = 0;
+
+    const redis = new InMemoryRedis();
+    const db = {
+      query: async (text: string, params: any[]) => {
+        expect(text).not.toContain('password_hash');
+        userQueries++;
+        const user = users.get(params[0]);
+        return { rows: user ? [user] : [] };
+      }
+    } as unknown as DatabaseService;
+    sessions = new AuthSessionService(redis);
+    userCache = new UserCacheService(db, redis);
+    jest.spyOn(AuthSessionService, 'getInstance').mockReturnValue(sessions);
+    jest.spyOn(UserCacheService, 'getInstance').mockReturnValue(userCache);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load the user from the users table, not the token', async () => {
+    const { token, sessionId } = await signIn();
+
+    const { status, body } = await me(token);
+
+    expect(status).toBe(200);
+    expect(body.session_id).toBe(sessionId);
+    expect(body.user).toMatchObject({
+      user_id: userId,
+      first_name: 'Alice',
+      coaching_goals: ['career clarity'],
+      onboarding_completed: true,
+      profile_completeness_tier: 3,
+      birth_date: '1990-06-15T00:00:00.000Z'
+    });
+  });
+
+  it('should serve the user from the cache until it is invalidated', async () => {
+    const { token } = await signIn();
+
+    expect((await me(token)).body.birth_date_is_date).toBe(true);
+    const cached = await me(token);
+    expect(userQueries).toBe(1);
+    expect(cached.body.birth_date_is_date).toBe(true);
+
+    users.get(userId).first_name = 'Alicia';
+    await userCache.invalidate(userId);
+
+    expect((await me(token)).body.user.first_name).toBe('Alicia');
+    expect(userQueries).toBe(2);
+  });
+
+  it('should reject tokens of a revoked session right away', async () => {
+    const { token, sessionId } = await signIn();
+    expect((await me(token)).status).toBe(200);
+
+    await sessions.revokeSession(userId, sessionId);
+
+    const { status, body } = await me(token);
+    expect(status).toBe(401);
+    expect(body.error.code).toBe('SESSION_REVOKED');
+  });
+
+  it('should reject tokens of a user that no longer exists', async () => {
+    const { token } = await signIn();
+    users.delete(userId);
+
+    const { status, body } = await me(token);
+    expect(status).toBe(401);
+    expect(body.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should reject refresh tokens and tokens without a session', async () => {
+    const { sessionId } = await signIn();
+    const sessionless = jwt.sign({ user_id: userId, email: 'alice@example.com' }, process.env['JWT_SECRET']!);
+
+    expect((await me(generateRefreshToken(userId, sessionId))).body.error.code).toBe('INVALID_TOKEN');
+    expect((await me(sessionless)).body.error.code).toBe('INVALID_TOKEN');
+  });
+});
@@ -0,0 +1,169 @@
+import bcrypt from 'bcrypt';
+import express from 'express';
+import authRoutes from '../routes/auth';
+import { errorHandler } from '../middleware/errorHandler';
+import { AuthSessionService, IssuedSession } from '../services/authSessionService';
+import { DatabaseService } from '../services/database';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { UserCacheService } from '../services/userCacheService';
+import { normalizeSql } from './helpers/database';
+import { requestJson, startTestServer, TestServer } from './helpers/http';
+
+describe('Auth sessions', () => {
+  const password = 'Secret123!';
+  const users = [
+    { user_id: '11111111-1111-4111-8111-111111111111', email: 'alice@example.com', first_name: 'Alice', last_name: 'Doe', onboarding_completed: true },
+    { user_id: '22222222-2222-4222-8222-222222222222', email: 'bob@example.com', first_name: 'Bob', last_name: 'Doe', onboarding_completed: true }
+  ];
+  const passwordHash = bcrypt.hashSync(password, 4);
+
+  let server: TestServer;
+  let sessions: AuthSessionService;
+
+  // Answers the auth statements against the two users above
+  const fakeQuery = async (text: string, params: any[] = []) => {
+    const sql = normalizeSql(text);
+    if (sql.includes('FROM users WHERE email = $1')) {
+      return { rows: users.filter(user => user.email === params[0]).map(user => ({ ...user, password_hash: passwordHash })) };
+    }
+    if (sql.includes('FROM users WHERE user_id = $1')) {
+      return { rows: users.filter(user => user.user_id === params[0]) };
+    }
+    if (sql.startsWith('UPDATE users SET updated_at')) {
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const request = (method: string, path: string, options: { token?: string; body?: unknown; device?: string } = {}) =>
+    requestJson(`${server.baseUrl}/api/auth${path}`, method, {
+      token: options.token,
+      body: options.body,
+      ...(options.device && { headers: { 'User-Agent': options.device } })
+    });
+
+  const login = async (email: string, device: string) => {
+    const { status, body } = await request('POST', '/login', { body: { email, password, device_name: device }, device });
+    expect(status).toBe(200);
+    return { token: body.data.token as string, refreshToken: body.data.refresh_token as string };
+  };
+
+  const refresh = (refreshToken: string) => request('POST', '/refresh', { body: { refresh_token: refreshToken } });
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = 'auth-sessions-test-secret';
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/auth', authRoutes);
+    app.use(errorHandler);
+
+    server = await startTestServer(app);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    const redis = new InMemoryRedis();
+    const db = { query: fakeQuery } as unknown as DatabaseService;
+    sessions = new AuthSessionService(redis);
+    jest.spyOn(AuthSessionService, 'getInstance').mockReturnValue(sessions);
+    jest.spyOn(UserCacheService, 'getInstance').mockReturnValue(new UserCacheService(db, redis));
+    jest.spyOn(DatabaseService, 'getInstance').mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the sessions of every device signed in', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+    const phone = await login('alice@example.com', 'Phone');
+
+    const { status, body } = await request('GET', '/sessions', { token: laptop.token });
+    expect(status).toBe(200);
+    expect(body.data.sessions.map((session: any) => [session.device_name, session.current]).sort()).toEqual([
+      ['Laptop', true],
+      ['Phone', false]
+    ]);
+
+    expect((await refresh(laptop.refreshToken)).status).toBe(200);
+    expect((await refresh(phone.refreshToken)).status).toBe(200);
+    expect((await request('GET', '/verify', { token: laptop.token })).status).toBe(200);
+  });
+
+  it('should rotate refresh tokens and revoke the session when a replaced one is reused', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+    const phone = await login('alice@example.com', 'Phone');
+
+    const first = await refresh(laptop.refreshToken);
+    expect(first.status).toBe(200);
+    expect(first.body.data.refresh_token).not.toBe(laptop.refreshToken);
+    expect(first.body.data.user.user_id).toBe(users[0]!.user_id);
+    const second = await refresh(first.body.data.refresh_token);
+    expect(second.status).toBe(200);
+
+    const reused = await refresh(laptop.refreshToken);
+    expect(reused.status).toBe(401);
+    expect(reused.body.code).toBe('REFRESH_TOKEN_REUSED');
+
+    // The whole family is gone, including the latest token
+    const latest = await refresh(second.body.data.refresh_token);
+    expect(latest.status).toBe(401);
+    expect(latest.body.code).toBe('SESSION_REVOKED');
+
+    expect((await refresh(phone.refreshToken)).status).toBe(200);
+  });
+
+  it('should let only one of two concurrent refreshes with the same token through', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+
+    // Both read the session before either has replaced its token
+    const results = await Promise.allSettled([sessions.rotate(laptop.refreshToken), sessions.rotate(laptop.refreshToken)]);
+
+    const rotated = results.filter((result): result is PromiseFulfilledResult<IssuedSession> => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rotated).toHaveLength(1);
+    expect(rejected.map(result => result.reason.code)).toEqual(['REFRESH_TOKEN_REUSED']);
+
+    // Racing the same token counts as reuse, so the family is gone
+    expect((await refresh(rotated[0]!.value.refresh_token)).body.code).toBe('SESSION_REVOKED');
+  });
+
+  it('should reject access tokens and malformed bodies on the refresh endpoint', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+
+    expect((await refresh(laptop.token)).body.code).toBe('INVALID_REFRESH_TOKEN');
+    expect((await request('POST', '/refresh', { body: {} })).status).toBe(400);
+  });
+
+  it('should let a user sign out another of their devices, but not someone else\'s', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+    const phone = await login('alice@example.com', 'Phone');
+    const bob = await login('bob@example.com', 'Tablet');
+
+    const sessions = (await request('GET', '/sessions', { token: laptop.token })).body.data.sessions;
+    const phoneSession = sessions.find((session: any) => session.device_name === 'Phone');
+
+    expect((await request('DELETE', `/sessions/${phoneSession.session_id}`, { token: bob.token })).status).toBe(404);
+    expect((await request('DELETE', `/sessions/${phoneSession.session_id}`, { token: laptop.token })).status).toBe(200);
+    expect((await request('DELETE', `/sessions/${phoneSession.session_id}`, { token: laptop.token })).status).toBe(404);
+    expect((await request('DELETE', '/sessions/not-a-uuid', { token: laptop.token })).status).toBe(400);
+
+    expect((await refresh(phone.refreshToken)).body.code).toBe('SESSION_REVOKED');
+    expect((await request('GET', '/verify', { token: phone.token })).status).toBe(401);
+    expect((await request('GET', '/sessions', { token: laptop.token })).body.data.sessions).toHaveLength(1);
+  });
+
+  it('should only end the current device\'s session on logout', async () => {
+    const laptop = await login('alice@example.com', 'Laptop');
+    const phone = await login('alice@example.com', 'Phone');
+
+    expect((await request('POST', '/logout', { token: phone.token })).status).toBe(200);
+
+    expect((await refresh(phone.refreshToken)).status).toBe(401);
+    expect((await refresh(laptop.refreshToken)).status).toBe(200);
+  });
+});
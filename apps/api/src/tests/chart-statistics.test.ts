@@ -0,0 +1,137 @@
+import { ChartStatisticsService } from '../services/chartStatisticsService';
+import { CelestialBody, HouseCusp, PlanetaryPosition, ZodiacSign } from '../types';
+
+describe('Chart Statistics', () => {
+  let chartStatisticsService: ChartStatisticsService;
+
+  const SIGNS: ZodiacSign[] = [
+    'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+    'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'
+  ];
+  const PLANETS: CelestialBody[] = [
+    'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+    'Uranus', 'Neptune', 'Pluto'
+  ];
+
+  // Planets at the given longitudes, in planet order
+  const positionsAt = (longitudes: number[]): PlanetaryPosition[] =>
+    longitudes.map((longitude, index) => {
+      const body = PLANETS[index]!;
+      return {
+        body,
+        celestial_body: body,
+        longitude,
+        latitude: 0,
+        zodiac_sign: SIGNS[Math.floor(longitude / 30)]!,
+        degree_in_sign: longitude % 30
+      };
+    });
+
+  // Cusps of houses 1, 4, 7 and 10 at the given longitudes
+  const anglesAt = (ascendant: number, ic: number, descendant: number, midheaven: number): HouseCusp[] =>
+    [ascendant, ic, descendant, midheaven].map((longitude, index) => ({
+      house_number: index * 3 + 1,
+      cusp_longitude: longitude,
+      zodiac_sign: SIGNS[Math.floor(longitude / 30)]!,
+      degree_in_sign: longitude % 30
+    }));
+
+  const shapeOf = (longitudes: number[]) => chartStatisticsService.calculateStatistics(positionsAt(longitudes));
+
+  beforeAll(() => {
+    chartStatisticsService = ChartStatisticsService.getInstance();
+  });
+
+  describe('Element and modality balance', () => {
+    it('should group the planets by element and modality', () => {
+      // Sun in Aries, Moon in Leo, Mercury in Sagittarius, Venus in Taurus
+      const statistics = chartStatisticsService.calculateStatistics(positionsAt([5, 125, 245, 35]));
+
+      expect(statistics.elements).toEqual({ fire: ['Sun', 'Moon', 'Mercury'], earth: ['Venus'], air: [], water: [] });
+      expect(statistics.modalities).toEqual({ cardinal: ['Sun'], fixed: ['Moon', 'Venus'], mutable: ['Mercury'] });
+      expect(statistics.dominant_element).toBe('fire');
+      expect(statistics.dominant_modality).toBe('fixed');
+    });
+
+    it('should find no dominant element when two are tied', () => {
+      // Sun in Aries, Moon in Cancer
+      const statistics = chartStatisticsService.calculateStatistics(positionsAt([5, 95]));
+
+      expect(statistics.dominant_element).toBeNull();
+      expect(statistics.dominant_modality).toBe('cardinal');
+    });
+
+    it('should leave out the angles and nodes', () => {
+      const positions = [
+        ...positionsAt([5]),
+        { body: 'Ascendant', celestial_body: 'Ascendant', longitude: 95, latitude: 0, zodiac_sign: 'Cancer', degree_in_sign: 5 },
+        { body: 'North Node', celestial_body: 'North Node', longitude: 185, latitude: 0, zodiac_sign: 'Libra', degree_in_sign: 5 }
+      ] as PlanetaryPosition[];
+
+      expect(chartStatisticsService.calculateStatistics(positions).elements).toEqual({ fire: ['Sun'], earth: [], air: [], water: [] });
+    });
+  });
+
+  describe('Hemispheres and quadrants', () => {
+    it('should sort the planets by the house cusps', () => {
+      const statistics = chartStatisticsService.calculateStatistics(
+        positionsAt([10, 100, 200, 300]),
+        anglesAt(0, 90, 180, 270)
+      );
+
+      expect(statistics.quadrants).toEqual([['Sun'], ['Moon'], ['Mercury'], ['Venus']]);
+      expect(statistics.hemispheres).toEqual({
+        eastern: ['Venus', 'Sun'],
+        western: ['Moon', 'Mercury'],
+        northern: ['Sun', 'Moon'],
+        southern: ['Mercury', 'Venus']
+      });
+    });
+
+    it('should handle a quadrant that crosses 0° Aries', () => {
+      const statistics = chartStatisticsService.calculateStatistics(positionsAt([5, 355]), anglesAt(350, 80, 170, 260));
+
+      expect(statistics.quadrants![0]).toEqual(['Sun', 'Moon']);
+    });
+
+    it('should leave out hemispheres and quadrants without house cusps', () => {
+      const statistics = chartStatisticsService.calculateStatistics(positionsAt([10, 100]));
+
+      expect(statistics.hemispheres).toBeUndefined();
+      expect(statistics.quadrants).toBeUndefined();
+    });
+  });
+
+  describe('Chart shape', () => {
+    it('should classify a bundle within a trine', () => {
+      expect(shapeOf([0, 10, 20, 30, 40, 50, 60, 70, 80, 90])).toMatchObject({ chart_shape: 'bundle', leading_body: 'Sun' });
+    });
+
+    it('should classify a bowl within half the chart', () => {
+      // Mercury at 340° leads the planets into the empty half
+      expect(shapeOf([0, 20, 340, 40, 60, 80, 100, 120, 140, 150])).toMatchObject({ chart_shape: 'bowl', leading_body: 'Mercury' });
+    });
+
+    it('should classify a bucket and find its handle', () => {
+      const statistics = shapeOf([0, 20, 40, 60, 80, 100, 120, 140, 160, 260]);
+
+      expect(statistics).toMatchObject({ chart_shape: 'bucket', handle_body: 'Pluto' });
+    });
+
+    it('should classify a locomotive with one empty trine', () => {
+      expect(shapeOf([0, 25, 50, 75, 100, 125, 150, 175, 200, 225])).toMatchObject({ chart_shape: 'locomotive', leading_body: 'Sun' });
+    });
+
+    it('should classify a seesaw of two opposing groups', () => {
+      expect(shapeOf([0, 10, 20, 30, 40, 180, 190, 200, 210, 220]).chart_shape).toBe('seesaw');
+    });
+
+    it('should classify a splay of three or more groups', () => {
+      expect(shapeOf([0, 10, 20, 120, 130, 140, 240, 250, 260, 270]).chart_shape).toBe('splay');
+    });
+
+    it('should classify a splash spread around the chart', () => {
+      expect(shapeOf([0, 36, 72, 108, 144, 180, 216, 252, 288, 324]).chart_shape).toBe('splash');
+    });
+  });
+});
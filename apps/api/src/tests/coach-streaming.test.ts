@@ -0,0 +1,70 @@
+import { AICoachingService } from '../services/aiCoachingService';
+import { CoachingModelProvider } from '../services/coachingModelProvider';
+import { CoachingContext, PersonalityProfile } from '../types';
+
+describe('Coach Response Streaming', () => {
+  let aiCoachingService: AICoachingService;
+  let stream: jest.Mock;
+
+  // Stands in for a provider stream: emits the deltas, then resolves or fails
+  const fakeStream = (deltas: string[], failure?: Error & { status?: number }) =>
+    async (_request: unknown, onDelta: (delta: string) => void) => {
+      deltas.forEach(delta => onDelta(delta));
+      if (failure) throw failure;
+      return { text: deltas.join(''), stop_reason: 'end_turn' as const };
+    };
+
+  const apiError = (status: number) => Object.assign(new Error(`API error ${status}`), { status });
+
+  const context: CoachingContext = {
+    user_personality: {
+      psychological_traits: { communication_style: 'direct and decisive' }
+    } as PersonalityProfile,
+    conversation_history: [],
+    current_message: 'How do I handle a difficult conversation with my team?',
+    session_type: 'coaching_conversation',
+    coaching_goals: [],
+    aha_moments_delivered: []
+  };
+
+  beforeEach(() => {
+    stream = jest.fn();
+    const provider: CoachingModelProvider = { name: 'anthropic', complete: jest.fn(), stream };
+    aiCoachingService = new AICoachingService(provider, { max_tokens: 100, temperature: 0.7 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should pass each delta on as it arrives and return the personalized response', async () => {
+    stream.mockImplementation(fakeStream(['You maybe ', 'want to start ', 'by listening?']));
+    const deltas: string[] = [];
+
+    const response = await aiCoachingService.streamCoachingResponse(context, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['You maybe ', 'want to start ', 'by listening?']);
+    expect(response.content).toBe('You probably want to start by listening?');
+    expect(response.metadata).toMatchObject({ personality_applied: true, coaching_technique: 'powerful_questioning' });
+  });
+
+  it('should retry an overloaded request before the first delta', async () => {
+    jest.useFakeTimers();
+    stream
+      .mockImplementationOnce(fakeStream([], apiError(529)))
+      .mockImplementationOnce(fakeStream(['Tell me more.']));
+
+    const response = aiCoachingService.streamCoachingResponse(context, () => undefined);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect((await response).content).toBe('Tell me more.');
+    expect(stream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry once deltas have been sent', async () => {
+    stream.mockImplementation(fakeStream(['Tell me '], apiError(529)));
+
+    await expect(aiCoachingService.streamCoachingResponse(context, () => undefined)).rejects.toThrow('API error 529');
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+});
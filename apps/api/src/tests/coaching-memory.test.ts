@@ -0,0 +1,187 @@
+import { AICoachingService } from '../services/aiCoachingService';
+import { CoachingMemoryService } from '../services/coachingMemoryService';
+import { CoachingModelProvider } from '../services/coachingModelProvider';
+import { MemoryBankService } from '../services/memoryBankService';
+import { MemoryContext, MemoryPattern, MemorySearchResult, UserMemoryBank } from '../types/memoryBank';
+import { CoachingContext, PersonalityProfile } from '../types';
+
+describe('Retrieval-Augmented Coaching', () => {
+  const userId = 'user-1';
+  let memoryBank: {
+    searchMemories: jest.Mock;
+    getUserMemories: jest.Mock;
+    getUserPatterns: jest.Mock;
+    getActiveContexts: jest.Mock;
+    markReferenced: jest.Mock;
+  };
+  let coachingMemoryService: CoachingMemoryService;
+
+  const memory = (
+    memoryId: string,
+    category: string,
+    content: Record<string, any>,
+    importance = 0.5,
+    createdAt = new Date()
+  ): UserMemoryBank => ({
+    memory_id: memoryId,
+    user_id: userId,
+    memory_type: 'insight',
+    category,
+    content,
+    confidence_score: 0.8,
+    importance_score: importance,
+    created_at: createdAt,
+    updated_at: createdAt,
+    last_referenced: createdAt
+  });
+
+  const searchResult = (memory: UserMemoryBank, relevance: number): MemorySearchResult => ({
+    memory,
+    relevance_score: relevance,
+    similarity_score: relevance
+  });
+
+  const pattern = (patternId: string, description: string, strength: number): MemoryPattern => ({
+    pattern_id: patternId,
+    user_id: userId,
+    pattern_type: 'stress_response',
+    pattern_data: { description, triggers: ['deadlines'], responses: [], context: {} },
+    frequency_count: 4,
+    strength_score: strength,
+    examples: [],
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  const thread: MemoryContext = {
+    context_id: 'context-1',
+    user_id: userId,
+    context_type: 'follow_up',
+    title: 'Promotion conversation',
+    context_data: { summary: 'Preparing to ask for a promotion', key_points: ['Wants more scope'], action_items: ['Draft talking points'] },
+    related_conversations: [],
+    active: true,
+    created_at: new Date()
+  };
+
+  beforeEach(() => {
+    memoryBank = {
+      searchMemories: jest.fn().mockResolvedValue([
+        searchResult(memory('memory-2', 'team', { note: 'Team morale dropped after the reorg', detail: 'manager left' }, 0.9), 0.7),
+        searchResult(memory('memory-1', 'communication', { note: 'Avoids conflict with their manager' }, 0.4), 0.5)
+      ]),
+      getUserMemories: jest.fn().mockResolvedValue([]),
+      getUserPatterns: jest.fn().mockResolvedValue([
+        pattern('pattern-1', 'Withdraws under pressure', 0.8),
+        pattern('pattern-2', 'Occasionally over-prepares', 0.2)
+      ]),
+      getActiveContexts: jest.fn().mockResolvedValue([thread]),
+      markReferenced: jest.fn().mockResolvedValue(undefined)
+    };
+    coachingMemoryService = new CoachingMemoryService(memoryBank as unknown as MemoryBankService);
+  });
+
+  describe('Memory assembly', () => {
+    it('should retrieve memories by semantic search on the message', async () => {
+      const assembled = await coachingMemoryService.assembleMemory(userId, 'How do I talk to my manager about the team?');
+
+      expect(memoryBank.searchMemories).toHaveBeenCalledWith(userId, { query: 'How do I talk to my manager about the team?', limit: 5 });
+      expect(assembled.items.map(item => item.id)).toEqual(['memory-2', 'memory-1', 'pattern-1', 'context-1']);
+      expect(assembled.items[0]!.text).toBe('[insight, team] Team morale dropped after the reorg; manager left');
+      expect(assembled.items[2]!.text).toBe('[stress_response] Withdraws under pressure (seen 4 times; triggered by deadlines)');
+      expect(assembled.items[3]!.text).toBe(
+        '[follow_up] Promotion conversation: Preparing to ask for a promotion. key points: Wants more scope. open actions: Draft talking points'
+      );
+      expect(memoryBank.markReferenced).toHaveBeenCalledWith(['memory-2', 'memory-1']);
+    });
+
+    it('should find a relevant memory older than the most recent fifty', async () => {
+      const twoYearsAgo = new Date(Date.now() - 730 * 86400000);
+      memoryBank.getUserMemories.mockResolvedValue(
+        Array.from({ length: 50 }, (_, index) => memory(`recent-${index}`, 'hobbies', { note: 'Enjoys long-distance running' }))
+      );
+      memoryBank.searchMemories.mockResolvedValue([
+        searchResult(memory('memory-old', 'career', { note: 'Freezes up before presenting to the board' }, 0.6, twoYearsAgo), 0.6)
+      ]);
+
+      const assembled = await coachingMemoryService.assembleMemory(userId, 'I present to the board next week');
+
+      expect(memoryBank.getUserMemories).not.toHaveBeenCalled();
+      expect(assembled.items[0]).toEqual({
+        source: 'memory',
+        id: 'memory-old',
+        text: '[insight, career] Freezes up before presenting to the board'
+      });
+    });
+
+    it('should not search memories for an empty message', async () => {
+      const assembled = await coachingMemoryService.assembleMemory(userId, '  ');
+
+      expect(memoryBank.searchMemories).not.toHaveBeenCalled();
+      expect(assembled.items.map(item => item.id)).toEqual(['pattern-1', 'context-1']);
+    });
+
+    it('should stay within the token budget, skipping items that do not fit', async () => {
+      const assembled = await coachingMemoryService.assembleMemory(userId, 'How do I talk to my manager about the team?', 35);
+
+      // Both memories fit; the pattern and the thread after them do not
+      expect(assembled.items.map(item => item.id)).toEqual(['memory-2', 'memory-1']);
+      expect(assembled.token_count).toBeLessThanOrEqual(35);
+      expect(assembled.token_budget).toBe(35);
+    });
+
+    it('should list the ids of the memories used', async () => {
+      const assembled = await coachingMemoryService.assembleMemory(userId, 'My manager is unhappy');
+
+      expect(CoachingMemoryService.memoriesUsed(assembled)).toEqual({
+        memory_ids: ['memory-2', 'memory-1'],
+        pattern_ids: ['pattern-1'],
+        context_ids: ['context-1']
+      });
+    });
+  });
+
+  describe('Coaching prompt', () => {
+    let complete: jest.Mock;
+    let aiCoachingService: AICoachingService;
+
+    const context = (overrides: Partial<CoachingContext> = {}): CoachingContext => ({
+      user_personality: { psychological_traits: { communication_style: 'reflective' } } as PersonalityProfile,
+      conversation_history: [],
+      current_message: 'How do I talk to my manager about the team?',
+      session_type: 'coaching_conversation',
+      coaching_goals: [],
+      aha_moments_delivered: [],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      complete = jest.fn().mockResolvedValue({ text: 'What would you like your manager to understand?', stop_reason: 'end_turn' });
+      const provider: CoachingModelProvider = { name: 'local', complete, stream: jest.fn() };
+      aiCoachingService = new AICoachingService(provider, { max_tokens: 100, temperature: 0.7 });
+    });
+
+    it('should inject the retrieved memory and record it in the metadata', async () => {
+      const assembled = await coachingMemoryService.assembleMemory(userId, 'How do I talk to my manager about the team?');
+
+      const response = await aiCoachingService.generateCoachingResponse(context({ memory: assembled }));
+
+      const prompt: string = complete.mock.calls[0][0].messages[0].content;
+      expect(prompt).toContain('MEMORY CONTEXT:\nWhat you remember about them:\n- [insight, team] Team morale dropped after the reorg; manager left');
+      expect(prompt).toContain('Patterns you have noticed:\n- [stress_response] Withdraws under pressure');
+      expect(prompt).toContain('Ongoing threads:\n- [follow_up] Promotion conversation');
+      expect(response.metadata.memories_used).toEqual({
+        memory_ids: ['memory-2', 'memory-1'],
+        pattern_ids: ['pattern-1'],
+        context_ids: ['context-1']
+      });
+    });
+
+    it('should reply without memory when none was retrieved', async () => {
+      const response = await aiCoachingService.generateCoachingResponse(context());
+
+      expect(complete.mock.calls[0][0].messages[0].content).toContain('MEMORY CONTEXT: Nothing from earlier sessions applies yet.');
+      expect(response.metadata.memories_used).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { AICoachingService } from '../services/aiCoachingService';
+import {
+  coachingModelConfigFromEnv,
+  createCoachingModelProvider,
+  LocalScriptedModelProvider,
+  OpenAICompatibleModelProvider
+} from '../services/coachingModelProvider';
+import { CoachingContext, PersonalityProfile } from '../types';
+
+describe('Coaching Model Providers', () => {
+  const request = (message: string) => ({
+    messages: [{ role: 'user' as const, content: `You are an expert executive coach.\n\nUser: ${message}` }],
+    max_tokens: 100,
+    temperature: 0.7
+  });
+
+  describe('Configuration', () => {
+    it('should read the chosen provider and its settings from the environment', () => {
+      expect(coachingModelConfigFromEnv({ COACHING_MODEL_PROVIDER: 'openai', OPENAI_BASE_URL: 'http://localhost:11434/v1', OPENAI_MODEL: 'llama3' }))
+        .toEqual({ provider: 'openai', api_key: '', model: 'llama3', max_tokens: 1000, temperature: 0.7, base_url: 'http://localhost:11434/v1' });
+      expect(coachingModelConfigFromEnv({}).provider).toBe('anthropic');
+    });
+
+    it('should reject an unknown provider', () => {
+      expect(() => coachingModelConfigFromEnv({ COACHING_MODEL_PROVIDER: 'gemini' })).toThrow('Unknown COACHING_MODEL_PROVIDER');
+    });
+
+    it('should build the local provider without an API key', () => {
+      const provider = createCoachingModelProvider(coachingModelConfigFromEnv({ COACHING_MODEL_PROVIDER: 'local' }));
+
+      expect(provider).toBeInstanceOf(LocalScriptedModelProvider);
+    });
+  });
+
+  describe('Local scripted provider', () => {
+    const provider = new LocalScriptedModelProvider([
+      { match: 'team', reply: 'What does your team need from you?' },
+      { reply: 'Tell me more.' }
+    ]);
+
+    it('should answer the client message with the first matching entry', async () => {
+      expect(await provider.complete(request('My team is struggling'))).toEqual({ text: 'What does your team need from you?', stop_reason: 'end_turn' });
+      // The system prompt is not matched
+      expect((await provider.complete(request('I feel stuck'))).text).toBe('Tell me more.');
+    });
+
+    it('should stream the reply a word at a time', async () => {
+      const deltas: string[] = [];
+      const completion = await provider.stream(request('My team is struggling'), delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['What ', 'does ', 'your ', 'team ', 'need ', 'from ', 'you?']);
+      expect(completion.text).toBe(deltas.join(''));
+    });
+
+    it('should run the coaching flow offline', async () => {
+      const service = new AICoachingService(new LocalScriptedModelProvider(), { max_tokens: 100, temperature: 0.7 });
+      const context: CoachingContext = {
+        user_personality: {
+          psychological_traits: { communication_style: 'reflective' }
+        } as PersonalityProfile,
+        conversation_history: [],
+        current_message: 'How do I give feedback to my team?',
+        session_type: 'coaching_conversation',
+        coaching_goals: [],
+        aha_moments_delivered: []
+      };
+
+      const first = await service.generateCoachingResponse(context);
+      const second = await service.generateCoachingResponse(context);
+
+      expect(first).toEqual(second);
+      expect(first.content).toContain('I notice how much your team matters to you');
+      expect(first.metadata).toMatchObject({ aha_moment_type: 'empathetic_understanding', coaching_technique: 'powerful_questioning' });
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    const provider = new OpenAICompatibleModelProvider({ api_key: 'test-key', model: 'test-model', base_url: 'http://localhost:8000/v1/' });
+    let fetchMock: jest.SpyInstance;
+
+    // A server-sent event stream split across arbitrary chunk boundaries
+    const eventStream = (chunks: string[]) => new Response(new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      }
+    }));
+
+    beforeEach(() => {
+      fetchMock = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it('should post to the chat completions endpoint', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: 'Tell me more.' }, finish_reason: 'length' }] })));
+
+      expect(await provider.complete(request('Hello'))).toEqual({ text: 'Tell me more.', stop_reason: 'max_tokens' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/chat/completions');
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer test-key' });
+      expect(JSON.parse(init.body)).toMatchObject({ model: 'test-model', max_tokens: 100, stream: false });
+    });
+
+    it('should pass on the deltas of a streamed completion', async () => {
+      fetchMock.mockResolvedValue(eventStream([
+        'data: {"choices":[{"delta":{"content":"Tell "}}]}\n\ndata: {"choices":[{"del',
+        'ta":{"content":"me more."},"finish_reason":"stop"}]}\n\n',
+        'data: [DONE]\n\n'
+      ]));
+      const deltas: string[] = [];
+
+      const completion = await provider.stream(request('Hello'), delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['Tell ', 'me more.']);
+      expect(completion).toEqual({ text: 'Tell me more.', stop_reason: 'end_turn' });
+    });
+
+    it('should fail with the status of the response', async () => {
+      fetchMock.mockResolvedValue(new Response('overloaded', { status: 503 }));
+
+      await expect(provider.complete(request('Hello'))).rejects.toMatchObject({ status: 503 });
+    });
+  });
+});
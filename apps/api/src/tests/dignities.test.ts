@@ -0,0 +1,137 @@
+import { DignityService } from '../services/dignityService';
+import { CelestialBody, HouseCusp, PlanetaryPosition, ZodiacSign } from '../types';
+
+describe('Planetary Dignities', () => {
+  let dignityService: DignityService;
+
+  // Planets in the given signs, with the Sun's house setting the sect
+  const chartOf = (signs: Partial<Record<CelestialBody, ZodiacSign>>, sunHouse?: number): PlanetaryPosition[] =>
+    (Object.entries(signs) as Array<[CelestialBody, ZodiacSign]>).map(([body, sign]) => ({
+      body,
+      celestial_body: body,
+      longitude: 0,
+      latitude: 0,
+      zodiac_sign: sign,
+      degree_in_sign: 0,
+      ...(body === 'Sun' && sunHouse !== undefined && { house_number: sunHouse })
+    }));
+
+  const dignityOf = (positions: PlanetaryPosition[], body: CelestialBody) =>
+    dignityService.annotateDignities(positions).find(position => position.celestial_body === body)!.dignity!;
+
+  // Every planet but the given ones in Leo, under the Sun
+  const underTheSun = (signs: Partial<Record<CelestialBody, ZodiacSign>>) => chartOf({
+    Sun: 'Leo', Moon: 'Leo', Mercury: 'Leo', Venus: 'Leo', Mars: 'Leo', Jupiter: 'Leo',
+    Saturn: 'Leo', Uranus: 'Leo', Neptune: 'Leo', Pluto: 'Leo',
+    ...signs
+  });
+
+  beforeAll(() => {
+    dignityService = DignityService.getInstance();
+  });
+
+  describe('Essential dignities', () => {
+    it('should score domicile and the triplicity of the sect', () => {
+      expect(dignityOf(chartOf({ Sun: 'Leo' }, 10), 'Sun').traditional).toEqual({ dignities: ['domicile', 'triplicity'], score: 8 });
+      // Jupiter rules fire by night
+      expect(dignityOf(chartOf({ Sun: 'Leo' }, 2), 'Sun').traditional).toEqual({ dignities: ['domicile'], score: 5 });
+    });
+
+    it('should count either triplicity ruler when the sect is unknown', () => {
+      expect(dignityOf(chartOf({ Moon: 'Taurus' }), 'Moon').traditional).toEqual({ dignities: ['exaltation', 'triplicity'], score: 7 });
+    });
+
+    it('should score detriment and fall', () => {
+      expect(dignityOf(chartOf({ Sun: 'Leo', Mercury: 'Pisces' }, 2), 'Mercury').traditional).toEqual({ dignities: ['detriment', 'fall'], score: -9 });
+    });
+
+    it('should give the outer planets their signs under the modern scheme only', () => {
+      // Mars rules water by night
+      const positions = chartOf({ Sun: 'Leo', Pluto: 'Scorpio', Mars: 'Scorpio' }, 2);
+      const pluto = dignityOf(positions, 'Pluto');
+      const mars = dignityOf(positions, 'Mars');
+
+      expect(pluto.traditional.dignities).toEqual([]);
+      expect(pluto.modern.dignities).toEqual(['domicile']);
+      expect(mars.traditional.dignities).toEqual(['domicile', 'triplicity']);
+      expect(mars.modern.dignities).toEqual(['triplicity']);
+    });
+
+    it('should leave the angles unannotated', () => {
+      const [ascendant] = dignityService.annotateDignities(chartOf({ Ascendant: 'Leo' }));
+
+      expect(ascendant!.dignity).toBeUndefined();
+    });
+  });
+
+  describe('House rulers', () => {
+    it('should find the ruler of each cusp and the house it occupies', () => {
+      const positions = chartOf({ Sun: 'Leo', Mars: 'Scorpio' }, 10);
+      positions[1]!.house_number = 1;
+      const houseCusps: HouseCusp[] = [
+        { house_number: 10, cusp_longitude: 130, zodiac_sign: 'Leo', degree_in_sign: 10 },
+        { house_number: 1, cusp_longitude: 220, zodiac_sign: 'Scorpio', degree_in_sign: 10 }
+      ];
+
+      expect(dignityService.calculateDignities(positions, houseCusps).house_rulers).toEqual([
+        { house_number: 1, cusp_sign: 'Scorpio', ruler: 'Mars', ruler_house: 1 },
+        { house_number: 10, cusp_sign: 'Leo', ruler: 'Sun', ruler_house: 10 }
+      ]);
+      expect(dignityService.calculateDignities(positions, houseCusps, 'modern').house_rulers[0]).toEqual(
+        { house_number: 1, cusp_sign: 'Scorpio', ruler: 'Pluto' }
+      );
+    });
+  });
+
+  describe('Dispositors', () => {
+    it('should build the dispositor tree under a final dispositor', () => {
+      // Saturn in Sagittarius answers to Jupiter in Aries, which answers to Mars in Leo
+      const dignities = dignityService.calculateDignities(underTheSun({ Jupiter: 'Aries', Saturn: 'Sagittarius' }), []);
+
+      expect(dignities.final_dispositor).toBe('Sun');
+      expect(dignities.dispositors).toHaveLength(1);
+      expect(dignities.dispositors[0]!.disposes.map(node => node.body)).toEqual(
+        ['Moon', 'Mercury', 'Venus', 'Mars', 'Uranus', 'Neptune', 'Pluto']
+      );
+      expect(dignities.dispositors[0]!.disposes[3]).toEqual({
+        body: 'Mars',
+        disposes: [{ body: 'Jupiter', disposes: [{ body: 'Saturn', disposes: [] }] }]
+      });
+    });
+
+    it('should find mutual receptions and no final dispositor for a loop', () => {
+      const dignities = dignityService.calculateDignities(underTheSun({ Venus: 'Aries', Mars: 'Taurus' }), []);
+
+      expect(dignities.mutual_receptions).toEqual([{ bodies: ['Venus', 'Mars'], by: 'domicile' }]);
+      expect(dignities.dispositors.map(node => node.body)).toEqual(['Sun', 'Venus', 'Mars']);
+      expect(dignities.final_dispositor).toBeNull();
+    });
+
+    it('should find mutual receptions by exaltation', () => {
+      // The Sun is exalted in Aries and Mars in Capricorn
+      const dignities = dignityService.calculateDignities(chartOf({ Sun: 'Capricorn', Mars: 'Aries' }), []);
+
+      expect(dignities.mutual_receptions).toContainEqual({ bodies: ['Sun', 'Mars'], by: 'exaltation' });
+    });
+
+    it('should follow the modern rulers under the modern scheme', () => {
+      const positions = underTheSun({ Mars: 'Scorpio', Pluto: 'Scorpio' });
+      const traditional = dignityService.calculateDignities(positions, []);
+      const modern = dignityService.calculateDignities(positions, [], 'modern');
+
+      expect(traditional.dispositors.map(node => node.body)).toEqual(['Sun', 'Mars']);
+      expect(traditional.dispositors[1]!.disposes).toEqual([{ body: 'Pluto', disposes: [] }]);
+      expect(modern.dispositors.map(node => node.body)).toEqual(['Sun', 'Pluto']);
+      expect(modern.dispositors[1]!.disposes).toEqual([{ body: 'Mars', disposes: [] }]);
+    });
+  });
+
+  describe('Strength', () => {
+    it('should turn the traditional dignity score into a multiplier', () => {
+      // A night chart: the Sun in its own sign, Mercury in detriment and fall, Jupiter peregrine
+      const strengths = dignityService.calculateStrengths(chartOf({ Sun: 'Leo', Mercury: 'Pisces', Jupiter: 'Libra' }, 2));
+
+      expect(strengths).toEqual({ Sun: 1.25, Mercury: 0.55, Jupiter: 1 });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { DatabaseService } from '../../services/database';
+
+/**
+ * Configure the database the chart services read on construction. Calculations never
+ * touch the database; the pool is created lazily and never connects.
+ */
+export function configureTestDatabase(): void {
+  DatabaseService.getInstance({
+    host: 'localhost',
+    port: 5432,
+    database: 'agenticcounsel_test',
+    username: 'postgres',
+    password: 'password'
+  });
+}
+
+// Convert an ISO UTC timestamp to a Julian Day (UT)
+export function isoToJulianDay(iso: string): number {
+  return Date.parse(iso) / 86400000 + 2440587.5;
+}
+
+// Smallest angular separation between two longitudes
+export function angularDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return Math.min(diff, 360 - diff);
+}
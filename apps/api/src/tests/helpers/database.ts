@@ -0,0 +1,4 @@
+// Collapse a statement's whitespace so fake queries can match it by its text
+export function normalizeSql(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
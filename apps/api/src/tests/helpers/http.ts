@@ -0,0 +1,47 @@
+import { Express } from 'express';
+import { AddressInfo } from 'net';
+
+export interface TestServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export interface JsonRequestOptions {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface JsonResponse<T> {
+  status: number;
+  body: T;
+}
+
+// Start an app on a free port of the loopback interface
+export async function startTestServer(app: Express): Promise<TestServer> {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
+
+/**
+ * Send a JSON request and parse the JSON answer. The body is typed by the caller; tests
+ * asserting on error envelopes and partial payloads leave it loose.
+ */
+export async function requestJson<T = any>(url: string, method: string, options: JsonRequestOptions = {}): Promise<JsonResponse<T>> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token && { Authorization: `Bearer ${options.token}` }),
+      ...options.headers
+    },
+    ...(options.body !== undefined && { body: JSON.stringify(options.body) })
+  });
+  return { status: response.status, body: await response.json() as T };
+}
@@ -0,0 +1,96 @@
+import { HouseEngine } from '../services/houseEngine';
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { HouseSystem } from '../types';
+import * as referenceData from '../test-data/house-system-reference-cusps.json';
+import { configureTestDatabase, angularDifference } from './helpers/astro';
+
+describe('House Systems', () => {
+  let houseEngine: HouseEngine;
+
+  beforeAll(() => {
+    configureTestDatabase();
+    houseEngine = HouseEngine.getInstance();
+  });
+
+  describe('Reference cusps', () => {
+    const systemCases = referenceData.cases.flatMap(testCase =>
+      Object.entries(testCase.cusps).map(([system, cusps]) => [`${system} at ${testCase.description}`, testCase, system, cusps] as const)
+    );
+
+    it.each(systemCases)('should match the reference cusps for %s', (_label, testCase, system, expectedCusps) => {
+      const result = houseEngine.calculateCusps(system as HouseSystem, testCase.ramc, testCase.latitude, testCase.obliquity);
+
+      expect(result.house_system).toBe(system);
+      expect(result.fallback_reason).toBeUndefined();
+      expectedCusps.forEach((expected, index) => {
+        expect(angularDifference(result.cusps[index]!, expected)).toBeLessThan(referenceData.tolerance.house_cusps);
+      });
+    });
+
+    it('should produce distinct intermediate cusps for each quadrant system', () => {
+      const [vancouver] = referenceData.cases;
+      const systems: HouseSystem[] = ['Placidus', 'Koch', 'Campanus', 'Regiomontanus', 'Porphyry', 'Alcabitius', 'Topocentric'];
+      const eleventhCusps = systems.map(system =>
+        houseEngine.calculateCusps(system, vancouver!.ramc, vancouver!.latitude, vancouver!.obliquity).cusps[10]!.toFixed(2)
+      );
+
+      expect(new Set(eleventhCusps).size).toBe(systems.length);
+    });
+  });
+
+  describe('Polar latitudes', () => {
+    it.each(['Placidus', 'Koch'] as HouseSystem[])('should fall back from %s to Porphyry above the Arctic Circle', (system) => {
+      const result = houseEngine.calculateCusps(system, 100, 70, 23.4392);
+      const porphyry = houseEngine.calculateCusps('Porphyry', 100, 70, 23.4392);
+
+      expect(result.house_system).toBe('Porphyry');
+      expect(result.fallback_reason).toContain('polar circles');
+      expect(result.cusps).toEqual(porphyry.cusps);
+    });
+
+    it.each(['Campanus', 'Regiomontanus', 'Alcabitius', 'Topocentric', 'Equal'] as HouseSystem[])(
+      'should calculate %s above the Arctic Circle without a fallback',
+      (system) => {
+        const result = houseEngine.calculateCusps(system, 100, 70, 23.4392);
+
+        expect(result.house_system).toBe(system);
+        expect(result.fallback_reason).toBeUndefined();
+        expect(result.cusps.every(cusp => Number.isFinite(cusp))).toBe(true);
+      }
+    );
+
+    it('should report the fallback on charts calculated in Tromsø', async () => {
+      const service = SwissEphemerisService.getInstance();
+      const julianDay = service.convertToJulianDay('1990-06-21', '12:00', 'Europe/Oslo');
+
+      const result = await service.calculateHouses(julianDay, 69.6492, 18.9553, 'Placidus');
+
+      expect(result.house_system_fallback).toEqual({
+        requested: 'Placidus',
+        used: 'Porphyry',
+        reason: expect.stringContaining('Placidus')
+      });
+      expect(result.house_cusps).toHaveLength(12);
+    });
+  });
+
+  describe('House placement', () => {
+    it('should place planets using the calculated cusps', async () => {
+      const service = SwissEphemerisService.getInstance();
+      const julianDay = service.convertToJulianDay('1977-05-17', '11:29', 'America/Vancouver');
+
+      const positions = await service.calculatePlanetaryPositions(julianDay, 49.2608724, -123.113952);
+      const { house_cusps: houseCusps } = await service.calculateHouses(julianDay, 49.2608724, -123.113952, 'Placidus');
+      service.assignHousePositions(positions, houseCusps);
+
+      for (const position of positions) {
+        if (position.celestial_body === 'Ascendant' || position.celestial_body === 'Midheaven') continue;
+
+        const cusp = houseCusps[position.house_number! - 1]!;
+        const nextCusp = houseCusps[position.house_number! % 12]!;
+        const houseSize = (nextCusp.cusp_longitude - cusp.cusp_longitude + 360) % 360;
+        expect((position.longitude - cusp.cusp_longitude + 360) % 360).toBeLessThan(houseSize);
+      }
+    });
+  });
+});
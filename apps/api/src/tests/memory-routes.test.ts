@@ -0,0 +1,267 @@
+import express from 'express';
+import { Pool } from 'pg';
+import memoryRoutes from '../routes/memoryBank';
+import { authMiddleware, generateToken } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+import { AuthSessionService } from '../services/authSessionService';
+import { DatabaseService } from '../services/database';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { DEFAULT_MEMORY_BANK_CONFIG, MemoryBankService } from '../services/memoryBankService';
+import { UserCacheService } from '../services/userCacheService';
+import { User } from '../types';
+import { normalizeSql } from './helpers/database';
+import { requestJson, startTestServer, TestServer } from './helpers/http';
+
+describe('Memory Bank API', () => {
+  const alice = '11111111-1111-4111-8111-111111111111';
+  const bob = '22222222-2222-4222-8222-222222222222';
+  const aliceConversation = '66666666-6666-4666-8666-666666666661';
+  const bobConversation = '66666666-6666-4666-8666-666666666662';
+
+  let memories: Map<string, any>;
+  let conversations: Map<string, string>; // Conversation id to owner
+  let contexts: any[];
+  let statements: { sql: string; params: any[] }[];
+  let sessions: AuthSessionService;
+  let server: TestServer;
+
+  // The ownership-scoped statements, matched by their exact text
+  const GET_MEMORY = 'UPDATE user_memory_bank SET last_referenced = NOW() WHERE memory_id = $1 AND user_id = $2 RETURNING *';
+  const UPDATE_CATEGORY = 'UPDATE user_memory_bank SET category = $1, updated_at = NOW() WHERE memory_id = $2 AND user_id = $3 RETURNING *';
+  const DELETE_MEMORY = 'DELETE FROM user_memory_bank WHERE memory_id = $1 AND user_id = $2';
+  const OWNED_CONVERSATIONS = 'SELECT conversation_id FROM coaching_conversations WHERE user_id = $1 AND conversation_id = ANY($2)';
+  const LIST_MEMORIES = 'SELECT * FROM user_memory_bank WHERE user_id = $1 ORDER BY importance_score DESC, last_referenced DESC LIMIT $2 OFFSET $3';
+
+  // Answers the memory statements against in-memory user_memory_bank and memory_context tables
+  const fakeQuery = async (text: string, params: any[] = []) => {
+    const sql = normalizeSql(text);
+    statements.push({ sql, params });
+    const owned = (memoryId: string, userId: string) => {
+      const memory = memories.get(memoryId);
+      return memory && memory.user_id === userId ? memory : undefined;
+    };
+
+    if (sql.startsWith('INSERT INTO user_memory_bank')) {
+      const id = `${memories.size + 1}`.padStart(12, '0');
+      const row = {
+        memory_id: `33333333-3333-4333-8333-${id}`,
+        user_id: params[0],
+        memory_type: params[1],
+        category: params[2],
+        content: params[3],
+        confidence_score: params[4],
+        importance_score: params[5],
+        created_at: new Date(),
+        updated_at: new Date(),
+        last_referenced: new Date()
+      };
+      memories.set(row.memory_id, row);
+      return { rows: [row], rowCount: 1 };
+    }
+    if (sql.startsWith('INSERT INTO memory_embeddings')) {
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql === GET_MEMORY) {
+      const memory = owned(params[0], params[1]);
+      return { rows: memory ? [memory] : [], rowCount: memory ? 1 : 0 };
+    }
+    if (sql === UPDATE_CATEGORY) {
+      const memory = owned(params[1], params[2]);
+      if (memory) memory.category = params[0];
+      return { rows: memory ? [memory] : [], rowCount: memory ? 1 : 0 };
+    }
+    if (sql === DELETE_MEMORY) {
+      const memory = owned(params[0], params[1]);
+      if (memory) memories.delete(memory.memory_id);
+      return { rows: [], rowCount: memory ? 1 : 0 };
+    }
+    if (sql === OWNED_CONVERSATIONS) {
+      const rows = (params[1] as string[])
+        .filter(conversationId => conversations.get(conversationId) === params[0])
+        .map(conversationId => ({ conversation_id: conversationId }));
+      return { rows, rowCount: rows.length };
+    }
+    if (sql.startsWith('INSERT INTO memory_context')) {
+      const row = {
+        context_id: `55555555-5555-4555-8555-${`${contexts.length + 1}`.padStart(12, '0')}`,
+        user_id: params[0],
+        context_type: params[1],
+        title: params[2],
+        context_data: params[3],
+        related_conversations: params[4],
+        active: true,
+        created_at: new Date()
+      };
+      contexts.push(row);
+      return { rows: [row], rowCount: 1 };
+    }
+    if (sql === LIST_MEMORIES) {
+      const rows = [...memories.values()].filter(memory => memory.user_id === params[0]);
+      return { rows, rowCount: rows.length };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const userFor = (userId: string) => ({
+    user_id: userId,
+    email: `${userId}@example.com`,
+    first_name: 'Test',
+    last_name: 'User',
+    onboarding_completed: true
+  });
+
+  // Tokens belong to a live session of a user that exists
+  const tokenFor = async (userId: string) => {
+    const { session_id } = await sessions.createSession(userId);
+    return generateToken(userFor(userId) as Omit<User, 'password_hash'>, session_id);
+  };
+
+  const request = async (method: string, path: string, userId?: string, body?: unknown, headers: Record<string, string> = {}) =>
+    requestJson(`${server.baseUrl}/api/memory${path}`, method, {
+      ...(userId && { token: await tokenFor(userId) }),
+      body,
+      headers
+    });
+
+  const createMemory = async (userId: string, category: string) => {
+    const { status, body } = await request('POST', '/memories', userId, {
+      memory_type: 'insight',
+      category,
+      content: { note: `A note about ${category}` }
+    });
+    expect(status).toBe(201);
+    return body.data.memory_id as string;
+  };
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = 'memory-routes-test-secret';
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/memory', authMiddleware, memoryRoutes);
+    app.use(errorHandler);
+
+    server = await startTestServer(app);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    memories = new Map();
+    conversations = new Map([[aliceConversation, alice], [bobConversation, bob]]);
+    contexts = [];
+    statements = [];
+    const pool = { connect: async () => ({ query: fakeQuery, release: () => undefined }) } as unknown as Pool;
+    jest.spyOn(MemoryBankService, 'getInstance').mockReturnValue(new MemoryBankService(pool, DEFAULT_MEMORY_BANK_CONFIG));
+
+    const redis = new InMemoryRedis();
+    sessions = new AuthSessionService(redis);
+    const db = { query: async (_text: string, params: any[]) => ({ rows: [userFor(params[0])] }) } as unknown as DatabaseService;
+    jest.spyOn(AuthSessionService, 'getInstance').mockReturnValue(sessions);
+    jest.spyOn(UserCacheService, 'getInstance').mockReturnValue(new UserCacheService(db, redis));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let a user store, read and delete their own memories', async () => {
+    const memoryId = await createMemory(alice, 'career');
+
+    const read = await request('GET', `/memories/${memoryId}`, alice);
+    expect(read.status).toBe(200);
+    expect(read.body.data).toMatchObject({ memory_id: memoryId, user_id: alice, category: 'career' });
+
+    const deleted = await request('DELETE', `/memories/${memoryId}`, alice);
+    expect(deleted.status).toBe(200);
+    expect(memories.has(memoryId)).toBe(false);
+  });
+
+  it("should not let a user read, update or delete another user's memory", async () => {
+    const memoryId = await createMemory(alice, 'career');
+    statements = [];
+
+    const read = await request('GET', `/memories/${memoryId}`, bob);
+    expect(read.status).toBe(404);
+    expect(read.body.error.code).toBe('MEMORY_NOT_FOUND');
+
+    const updated = await request('PUT', `/memories/${memoryId}`, bob, { category: 'hijacked' });
+    expect(updated.status).toBe(404);
+
+    const deleted = await request('DELETE', `/memories/${memoryId}`, bob);
+    expect(deleted.status).toBe(404);
+
+    expect(memories.get(memoryId)).toMatchObject({ user_id: alice, category: 'career' });
+    // Every statement is scoped to the requesting user, bound as its own parameter
+    expect(statements).toEqual([
+      { sql: GET_MEMORY, params: [memoryId, bob] },
+      { sql: UPDATE_CATEGORY, params: ['hijacked', memoryId, bob] },
+      { sql: DELETE_MEMORY, params: [memoryId, bob] }
+    ]);
+  });
+
+  it("should only list the user's own memories", async () => {
+    await createMemory(alice, 'career');
+    await createMemory(bob, 'health');
+    statements = [];
+
+    const listed = await request('GET', '/memories', bob);
+    expect(listed.status).toBe(200);
+    expect(listed.body.data.memories.map((memory: any) => memory.category)).toEqual(['health']);
+    expect(statements).toEqual([{ sql: LIST_MEMORIES, params: [bob, 50, 0] }]);
+  });
+
+  it('should scope requests to the token, not a user id header', async () => {
+    const memoryId = await createMemory(alice, 'career');
+    statements = [];
+
+    const deleted = await request('DELETE', `/memories/${memoryId}`, bob, undefined, { 'x-user-id': alice });
+    expect(deleted.status).toBe(404);
+    expect(memories.has(memoryId)).toBe(true);
+    expect(statements).toEqual([{ sql: DELETE_MEMORY, params: [memoryId, bob] }]);
+  });
+
+  it("should not let a user link a memory entry to another user's conversation", async () => {
+    const thread = (relatedConversations: string[]) => ({
+      context_type: 'thread',
+      context_data: { summary: 'Preparing for the board meeting', key_points: [] },
+      related_conversations: relatedConversations
+    });
+
+    const foreign = await request('POST', '/contexts', alice, thread([aliceConversation, bobConversation]));
+    expect(foreign.status).toBe(404);
+    expect(foreign.body.error.code).toBe('CONVERSATION_NOT_FOUND');
+
+    const insight = await request('POST', '/insights', alice, {
+      insight_type: 'realization',
+      title: 'Prepares by over-preparing',
+      description: 'Noticed in the last session',
+      conversation_id: bobConversation
+    });
+    expect(insight.status).toBe(404);
+    expect(contexts).toHaveLength(0);
+    expect(statements).toEqual([
+      { sql: OWNED_CONVERSATIONS, params: [alice, [aliceConversation, bobConversation]] },
+      { sql: OWNED_CONVERSATIONS, params: [alice, [bobConversation]] }
+    ]);
+
+    const own = await request('POST', '/contexts', alice, thread([aliceConversation]));
+    expect(own.status).toBe(201);
+    expect(own.body.data.related_conversations).toEqual([aliceConversation]);
+  });
+
+  it('should reject invalid bodies and unauthenticated requests', async () => {
+    const invalid = await request('POST', '/memories', alice, { memory_type: 'gossip', category: '', content: 'text' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.code).toBe('VALIDATION_ERROR');
+
+    const badStrength = await request('PUT', '/patterns/44444444-4444-4444-8444-444444444444/strength', alice, { strengthDelta: 'up' });
+    expect(badStrength.status).toBe(400);
+
+    const anonymous = await request('GET', '/memories');
+    expect(anonymous.status).toBe(401);
+    expect(memories.size).toBe(0);
+  });
+});
@@ -0,0 +1,238 @@
+import { Pool } from 'pg';
+import {
+  LocalHashedEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  cosineSimilarity,
+  embeddingConfigFromEnv
+} from '../services/embeddingProvider';
+import { DEFAULT_MEMORY_BANK_CONFIG, MemoryBankService } from '../services/memoryBankService';
+import { normalizeSql } from './helpers/database';
+
+describe('Semantic Memory Search', () => {
+  describe('Local hashed embeddings', () => {
+    const provider = new LocalHashedEmbeddingProvider(256);
+
+    it('should place related texts closer than unrelated ones', async () => {
+      const [query, related, unrelated] = await provider.embed([
+        'nervous about the deadlines at work',
+        'career: Missed deadlines make them nervous at work',
+        'hobbies: Enjoys long-distance running on weekends'
+      ]);
+
+      expect(query).toHaveLength(256);
+      expect(cosineSimilarity(query!, related!)).toBeGreaterThan(0.2);
+      expect(cosineSimilarity(query!, unrelated!)).toBeLessThan(0.1);
+    });
+
+    it('should be deterministic and normalized', async () => {
+      const [first] = await provider.embed(['Team morale dropped after the reorg']);
+      const [second] = await new LocalHashedEmbeddingProvider(256).embed(['Team morale dropped after the reorg']);
+
+      expect(second).toEqual(first);
+      expect(Math.sqrt(first!.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe('OpenAI-compatible embeddings', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should request the configured model and dimensions and keep the input order', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+        data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }]
+      })));
+      const provider = new OpenAICompatibleEmbeddingProvider({
+        model: 'text-embedding-3-small',
+        dimensions: 2,
+        api_key: 'test-key',
+        base_url: 'http://localhost:11434/v1/'
+      });
+
+      const vectors = await provider.embed(['first', 'second']);
+
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('http://localhost:11434/v1/embeddings');
+      expect(JSON.parse(init!.body as string)).toEqual({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 2 });
+    });
+
+    it('should reject vectors of the wrong size', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ data: [{ index: 0, embedding: [1, 0, 0] }] })));
+      const provider = new OpenAICompatibleEmbeddingProvider({ model: 'text-embedding-ada-002', dimensions: 2 });
+
+      await expect(provider.embed(['first'])).rejects.toThrow('Expected 1 embeddings of 2 dimensions');
+    });
+
+    it('should read the provider from the environment', () => {
+      expect(embeddingConfigFromEnv({})).toEqual({ provider: 'local', model: 'hashed-tfidf-v1', dimensions: 512 });
+      expect(embeddingConfigFromEnv({ EMBEDDING_PROVIDER: 'openai', OPENAI_API_KEY: 'key' })).toMatchObject({
+        provider: 'openai',
+        model: 'text-embedding-3-small',
+        dimensions: 1536,
+        api_key: 'key'
+      });
+      expect(() => embeddingConfigFromEnv({ EMBEDDING_PROVIDER: 'word2vec' })).toThrow('Unknown EMBEDDING_PROVIDER');
+    });
+  });
+
+  describe('Search ranking', () => {
+    const userId = 'user-1';
+    const day = 86400000;
+    let memories: any[];
+    let embeddings: Map<string, any>;
+    let queries: string[];
+    let pgvector: boolean;
+    let service: MemoryBankService;
+
+    const memory = (memoryId: string, category: string, note: string, importance: number, daysAgo: number) => ({
+      memory_id: memoryId,
+      user_id: userId,
+      memory_type: 'insight',
+      category,
+      content: { note },
+      confidence_score: '0.8',
+      importance_score: String(importance),
+      created_at: new Date(),
+      updated_at: new Date(),
+      last_referenced: new Date(Date.now() - daysAgo * day)
+    });
+
+    // Answers the service's statements against in-memory memory and embedding tables
+    const fakeQuery = async (text: string, params: any[] = []) => {
+      const sql = normalizeSql(text);
+      queries.push(sql);
+
+      if (sql.includes('FROM information_schema.columns')) {
+        return { rows: pgvector ? [{ '?column?': 1 }] : [] };
+      }
+      if (sql.includes('e.memory_id IS NULL')) {
+        return { rows: memories.filter(row => embeddings.get(row.memory_id)?.embedding_model !== params[0]).slice(0, params[1]) };
+      }
+      if (sql.startsWith('INSERT INTO memory_embeddings')) {
+        embeddings.set(params[0], {
+          embedding_id: `embedding-${params[0]}`,
+          embedding_vector: params[1],
+          content_hash: params[2],
+          embedding_model: params[3],
+          created_at: new Date()
+        });
+        return { rows: [] };
+      }
+      if (sql.startsWith('SELECT m.*, e.embedding_id')) {
+        const rows = memories
+          .filter(row => embeddings.get(row.memory_id)?.embedding_model === params[1])
+          .map(row => {
+            const embedding = embeddings.get(row.memory_id);
+            return {
+              ...row,
+              ...embedding,
+              embedding_created_at: embedding.created_at,
+              created_at: row.created_at,
+              // What pgvector would compute from the query vector literal
+              ...(pgvector && { similarity: String(cosineSimilarity(JSON.parse(params[2]), embedding.embedding_vector)) })
+            };
+          });
+        return { rows };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    };
+
+    beforeEach(() => {
+      memories = [
+        memory('memory-1', 'career', 'Missed deadlines make them nervous at work', 0.5, 1),
+        memory('memory-2', 'career', 'Nervous before deadlines, works late to catch up', 0.5, 90),
+        memory('memory-3', 'hobbies', 'Enjoys long-distance running on weekends', 1, 0)
+      ];
+      embeddings = new Map();
+      queries = [];
+      pgvector = false;
+      const pool = {
+        connect: async () => ({ query: fakeQuery, release: () => undefined }),
+        query: fakeQuery
+      } as unknown as Pool;
+      service = new MemoryBankService(pool, DEFAULT_MEMORY_BANK_CONFIG, new LocalHashedEmbeddingProvider(256));
+    });
+
+    it('should leave memories without a current vector to the backfill', async () => {
+      const results = await service.searchMemories(userId, { query: 'nervous about deadlines at work' });
+
+      expect(results).toEqual([]);
+      expect(queries.some(sql => sql.startsWith('INSERT INTO memory_embeddings'))).toBe(false);
+    });
+
+    it('should rank backfilled memories by similarity, importance and recency', async () => {
+      expect(await service.backfillEmbeddings()).toBe(3);
+      const results = await service.searchMemories(userId, { query: 'nervous about deadlines at work' });
+
+      expect(embeddings.size).toBe(3);
+      expect([...embeddings.values()][0].embedding_model).toBe('local/hashed-tfidf-v1@256');
+      // The running memory shares no words with the query and is left out
+      expect(results.map(result => result.memory.memory_id)).toEqual(['memory-1', 'memory-2']);
+
+      // The older memory is closer to the query, but the recent one ranks first
+      const [first, second] = results;
+      expect(first!.similarity_score).toBeLessThan(second!.similarity_score);
+      expect(first!.relevance_score).toBeCloseTo(0.6 * first!.similarity_score + 0.25 * 0.5 + 0.15 * Math.pow(0.5, 1 / 30), 3);
+      expect(second!.relevance_score).toBeCloseTo(0.6 * second!.similarity_score + 0.25 * 0.5 + 0.15 * 0.125, 3);
+      expect(first!.embedding).toBeUndefined();
+    });
+
+    it('should only rank the most important, most recently referenced memories in process', async () => {
+      await service.backfillEmbeddings();
+      await service.searchMemories(userId, { query: 'deadlines', categories: ['career'] });
+
+      const search = queries.find(sql => sql.startsWith('SELECT m.*, e.embedding_id'))!;
+      expect(search).toContain('ORDER BY m.importance_score DESC, m.last_referenced DESC LIMIT $4');
+      expect(search).not.toContain('<=>');
+    });
+
+    it('should return the stored vectors when asked to', async () => {
+      await service.backfillEmbeddings();
+      const results = await service.searchMemories(userId, { query: 'deadlines', include_embeddings: true, limit: 1 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.embedding).toMatchObject({
+        memory_id: results[0]!.memory.memory_id,
+        embedding_model: 'local/hashed-tfidf-v1@256'
+      });
+      expect(results[0]!.embedding!.embedding_vector).toHaveLength(256);
+    });
+
+    it('should not embed memories again once they have a current vector', async () => {
+      await service.backfillEmbeddings();
+      const stored = queries.filter(sql => sql.startsWith('INSERT INTO memory_embeddings')).length;
+
+      expect(await service.backfillEmbeddings()).toBe(0);
+
+      expect(queries.filter(sql => sql.startsWith('INSERT INTO memory_embeddings')).length).toBe(stored);
+    });
+
+    it('should backfill embeddings in the background', async () => {
+      jest.useFakeTimers();
+      const backfill = jest.spyOn(service, 'backfillEmbeddings');
+
+      service.startEmbeddingBackfill(1000);
+      jest.advanceTimersByTime(1000);
+      service.stopEmbeddingBackfill();
+      jest.useRealTimers();
+
+      expect(backfill).toHaveBeenCalledTimes(1);
+      expect(await backfill.mock.results[0]!.value).toBe(3);
+      expect(embeddings.size).toBe(3);
+    });
+
+    it('should let pgvector compute similarity when it is installed', async () => {
+      pgvector = true;
+
+      await service.backfillEmbeddings();
+      const results = await service.searchMemories(userId, { query: 'nervous about deadlines at work' });
+
+      const search = queries.find(sql => sql.startsWith('SELECT m.*, e.embedding_id'))!;
+      expect(search).toContain('1 - (e.embedding <=> $3::vector) AS similarity');
+      expect(search).toContain('ORDER BY e.embedding <=> $3::vector');
+      expect(queries.find(sql => sql.startsWith('INSERT INTO memory_embeddings'))).toContain('$5::vector');
+      expect(results.map(result => result.memory.memory_id)).toEqual(['memory-1', 'memory-2']);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { DatabaseService } from '../services/database';
+import { JOB_STALE_AFTER_SECONDS, PatternAnalysisQueue } from '../services/patternAnalysisQueue';
+import { SocketService } from '../services/socket';
+import { normalizeSql } from './helpers/database';
+
+describe('Pattern Analysis Queue', () => {
+  const conversationId = '11111111-1111-4111-8111-111111111111';
+  const userId = '22222222-2222-4222-8222-222222222222';
+  const instanceId = 'api-1';
+
+  let jobs: Map<string, any>;
+  let db: DatabaseService;
+  let analyzeConversation: jest.Mock;
+  let sendInsightsReady: jest.Mock;
+  let queue: PatternAnalysisQueue;
+
+  // Answers the queue's statements against an in-memory pattern_analysis_jobs table
+  const fakeQuery = async (text: string, params: any[] = []) => {
+    const sql = normalizeSql(text);
+    const job = jobs.get(params[0]);
+
+    if (sql.startsWith('INSERT INTO pattern_analysis_jobs')) {
+      const row = { job_id: `job-${jobs.size + 1}`, conversation_id: params[0], user_id: params[1], status: 'queued', attempts: 0, created_at: new Date(), updated_at: new Date() };
+      jobs.set(row.job_id, row);
+      return { rows: [row] };
+    }
+    if (sql.includes("SET status = 'running'")) {
+      if (!job || job.status !== 'queued') return { rows: [] };
+      Object.assign(job, { status: 'running', attempts: job.attempts + 1, claimed_by: params[1], heartbeat_at: new Date() });
+      return { rows: [job] };
+    }
+    if (sql.includes("SET status = 'completed'")) {
+      Object.assign(job, { status: 'completed', patterns_detected: params[1], insights_generated: params[2], analysis_summary: params[3], completed_at: new Date() });
+      return { rows: [] };
+    }
+    if (sql.includes("SET status = 'failed'")) {
+      Object.assign(job, { status: 'failed', last_error: params[1] });
+      return { rows: [] };
+    }
+    if (sql.includes("SET status = 'queued', last_error = NULL")) {
+      if (!job || job.status !== 'failed') return { rows: [] };
+      Object.assign(job, { status: 'queued', last_error: null });
+      return { rows: [job] };
+    }
+    if (sql.includes("SET status = 'queued' WHERE status = 'queued'")) {
+      const staleBefore = Date.now() - params[1] * 1000;
+      const resumed = [...jobs.values()].filter(row => row.status === 'queued' || (row.status === 'running' &&
+        (row.claimed_by === null || row.claimed_by === params[0] || row.heartbeat_at.getTime() < staleBefore)));
+      resumed.forEach(row => { row.status = 'queued'; });
+      return { rows: resumed.map(row => ({ job_id: row.job_id })) };
+    }
+    if (sql.includes("SET status = 'queued', claimed_by = NULL WHERE status = 'running'")) {
+      const staleBefore = Date.now() - params[0] * 1000;
+      const reclaimed = [...jobs.values()].filter(row => row.status === 'running' && row.heartbeat_at.getTime() < staleBefore);
+      reclaimed.forEach(row => Object.assign(row, { status: 'queued', claimed_by: null }));
+      return { rows: reclaimed.map(row => ({ job_id: row.job_id })) };
+    }
+    if (sql.startsWith('SELECT * FROM coaching_conversations')) {
+      return { rows: [{ conversation_id: params[0], session_type: 'goal_setting' }] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const transcript = [
+    { sender_type: 'user', content: 'I keep putting off the hard conversation', created_at: '2026-10-01T10:00:00Z' },
+    { sender_type: 'coach', content: 'What makes it feel hard?', created_at: '2026-10-01T10:01:00Z' },
+    { sender_type: 'user', content: 'I worry about letting people down', created_at: '2026-10-01T10:25:00Z' }
+  ];
+
+  const analysis = (insightCount: number) => ({
+    patterns_detected: [{ pattern_id: 'pattern-1' }],
+    insights_generated: Array.from({ length: insightCount }, (_, index) => ({
+      insight_id: `insight-${index + 1}`,
+      insight_type: 'realization',
+      title: 'Avoidance under pressure',
+      description: 'You delay hard conversations when you fear disappointing others',
+      tags: []
+    })),
+    analysis_summary: 'Analysis completed: 1 pattern(s) detected'
+  });
+
+  beforeEach(() => {
+    jobs = new Map();
+    db = {
+      query: jest.fn(fakeQuery),
+      getConversationHistory: jest.fn().mockResolvedValue(transcript)
+    } as unknown as DatabaseService;
+    analyzeConversation = jest.fn();
+    sendInsightsReady = jest.fn();
+    jest.spyOn(SocketService, 'getInstance').mockReturnValue({ sendInsightsReady } as unknown as SocketService);
+    queue = new PatternAnalysisQueue(db, { analyzeConversation }, instanceId);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should analyze the transcript of an ended conversation and notify the user of new insights', async () => {
+    analyzeConversation.mockResolvedValue(analysis(1));
+
+    const queued = await queue.enqueue(conversationId, userId);
+    expect(queued).toMatchObject({ status: 'queued', attempts: 0 });
+    await queue.whenIdle();
+
+    expect(analyzeConversation).toHaveBeenCalledWith({
+      conversation_id: conversationId,
+      user_id: userId,
+      messages: [
+        { role: 'user', content: 'I keep putting off the hard conversation', timestamp: new Date('2026-10-01T10:00:00Z') },
+        { role: 'assistant', content: 'What makes it feel hard?', timestamp: new Date('2026-10-01T10:01:00Z') },
+        { role: 'user', content: 'I worry about letting people down', timestamp: new Date('2026-10-01T10:25:00Z') }
+      ],
+      session_metadata: { topic_focus: 'goal_setting', duration_minutes: 25 }
+    });
+    expect(jobs.get(queued.job_id)).toMatchObject({ status: 'completed', attempts: 1, claimed_by: instanceId, patterns_detected: 1, insights_generated: 1 });
+    expect(sendInsightsReady).toHaveBeenCalledWith(userId, {
+      conversation_id: conversationId,
+      job_id: queued.job_id,
+      insights: [{
+        insight_id: 'insight-1',
+        insight_type: 'realization',
+        title: 'Avoidance under pressure',
+        description: 'You delay hard conversations when you fear disappointing others'
+      }],
+      analysis_summary: 'Analysis completed: 1 pattern(s) detected'
+    });
+  });
+
+  it('should not notify the user when no insights were found', async () => {
+    analyzeConversation.mockResolvedValue(analysis(0));
+
+    await queue.enqueue(conversationId, userId);
+    await queue.whenIdle();
+
+    expect(sendInsightsReady).not.toHaveBeenCalled();
+  });
+
+  it('should record a failure and run the job again when retried', async () => {
+    analyzeConversation
+      .mockRejectedValueOnce(new Error('Database connection lost'))
+      .mockResolvedValueOnce(analysis(1));
+
+    const queued = await queue.enqueue(conversationId, userId);
+    await queue.whenIdle();
+    expect(jobs.get(queued.job_id)).toMatchObject({ status: 'failed', attempts: 1, last_error: 'Database connection lost' });
+
+    const retried = await queue.retry(queued.job_id);
+    expect(retried).toMatchObject({ status: 'queued' });
+    await queue.whenIdle();
+
+    expect(jobs.get(queued.job_id)).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(sendInsightsReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry failed jobs', async () => {
+    analyzeConversation.mockResolvedValue(analysis(0));
+
+    const queued = await queue.enqueue(conversationId, userId);
+    await queue.whenIdle();
+
+    expect(await queue.retry(queued.job_id)).toBeNull();
+    expect(analyzeConversation).toHaveBeenCalledTimes(1);
+  });
+
+  // A stored job, as left by an instance
+  const job = (id: string, status: string, claimedBy: string | null, beatSecondsAgo = 0) => {
+    jobs.set(id, {
+      job_id: id, conversation_id: conversationId, user_id: userId, status, attempts: status === 'queued' ? 0 : 1,
+      claimed_by: claimedBy, heartbeat_at: new Date(Date.now() - beatSecondsAgo * 1000), created_at: new Date(), updated_at: new Date()
+    });
+  };
+
+  it('should resume its own interrupted jobs and stale ones, but not those running elsewhere', async () => {
+    analyzeConversation.mockResolvedValue(analysis(0));
+    job('queued', 'queued', null);
+    job('own', 'running', instanceId);
+    job('elsewhere', 'running', 'api-2', 10);
+    job('stale', 'running', 'api-3', JOB_STALE_AFTER_SECONDS + 10);
+
+    expect(await queue.resumePending()).toBe(3);
+    await queue.whenIdle();
+
+    expect(jobs.get('elsewhere')).toMatchObject({ status: 'running', claimed_by: 'api-2', attempts: 1 });
+    for (const id of ['queued', 'own', 'stale']) {
+      expect(jobs.get(id)).toMatchObject({ status: 'completed', claimed_by: instanceId });
+    }
+    expect(analyzeConversation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should take over the jobs of a stopped instance while running', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    analyzeConversation.mockResolvedValue(analysis(0));
+    job('elsewhere', 'running', 'api-2', 10);
+    job('crashed', 'running', 'api-3', JOB_STALE_AFTER_SECONDS + 10);
+
+    queue.startStaleJobSweep(1000);
+    jest.advanceTimersByTime(1000);
+    queue.stopStaleJobSweep();
+    jest.useRealTimers();
+    // Let the sweep's update settle before waiting for the job it scheduled
+    await new Promise(resolve => setImmediate(resolve));
+    await queue.whenIdle();
+
+    expect(jobs.get('elsewhere')).toMatchObject({ status: 'running', claimed_by: 'api-2' });
+    expect(jobs.get('crashed')).toMatchObject({ status: 'completed', claimed_by: instanceId, attempts: 2 });
+    expect(analyzeConversation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,244 @@
+import { PersonalityService } from '../services/personalityService';
+import { DatabaseService } from '../services/database';
+import { GeocodingService } from '../services/geocodingService';
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { configureTestDatabase } from './helpers/astro';
+
+describe('Personality Profile', () => {
+  let query: jest.Mock;
+  let geocode: jest.Mock;
+  let personalityService: PersonalityService;
+
+  // Stored planetary positions of a chart, as returned by the chart lookup
+  const storedChartRows = (chartId: string, signs: Record<string, string>) =>
+    Object.entries(signs).map(([celestialBody, zodiacSign], index) => ({
+      chart_id: chartId,
+      celestial_body: celestialBody,
+      longitude: '0',
+      latitude: '0',
+      house_number: index + 1,
+      zodiac_sign: zodiacSign,
+      degree_in_sign: '0'
+    }));
+
+  // The stored chart cast for 11:29 PDT on 17 May 1977 in Vancouver
+  const storedChart = {
+    chart_id: 'chart-1',
+    birth_datetime: new Date('1977-05-17T18:29:00Z'),
+    birth_latitude: '49.2827000',
+    birth_longitude: '-123.1207000',
+    birth_location: 'Vancouver, BC',
+    timezone: 'America/Vancouver',
+    house_system: 'Placidus'
+  };
+
+  beforeAll(() => {
+    configureTestDatabase();
+  });
+
+  beforeEach(() => {
+    query = jest.fn();
+    // Birth places cannot be geocoded unless a test says otherwise
+    geocode = jest.fn().mockResolvedValue(null);
+    jest.spyOn(GeocodingService, 'getInstance').mockReturnValue({ geocode } as unknown as GeocodingService);
+    personalityService = new PersonalityService({ query } as unknown as DatabaseService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read the signs from the user\'s stored natal chart', async () => {
+    query
+      .mockResolvedValueOnce({ rows: [storedChart] })
+      .mockResolvedValueOnce({
+        rows: storedChartRows('chart-1', {
+          Sun: 'Taurus',
+          Moon: 'Gemini',
+          Ascendant: 'Virgo',
+          Mercury: 'Aries',
+          Venus: 'Aries',
+          Mars: 'Aries',
+          Midheaven: 'Gemini'
+        })
+      })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [1, 4, 7, 10].map((houseNumber, index) => ({
+          house_number: houseNumber,
+          cusp_longitude: String(index * 90),
+          zodiac_sign: ['Aries', 'Cancer', 'Libra', 'Capricorn'][index],
+          degree_in_sign: '0'
+        }))
+      });
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1977-05-17',
+      birth_time: '11:29',
+      birth_location: 'Vancouver, BC'
+    }, 'user-1');
+
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('natal_charts'), ['user-1']);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('FROM planetary_positions'), ['chart-1']);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('FROM aspects'), ['chart-1']);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('FROM house_cusps'), ['chart-1']);
+    expect(profile.astrological_basis).toMatchObject({
+      sun_sign: 'Taurus',
+      moon_sign: 'Gemini',
+      rising_sign: 'Virgo',
+      mercury_position: 'Aries',
+      venus_position: 'Aries',
+      mars_position: 'Aries',
+      chart_id: 'chart-1'
+    });
+    expect(profile.astrological_basis.chart_statistics).toMatchObject({
+      dominant_element: 'fire',
+      dominant_modality: 'cardinal',
+      quadrants: [['Sun', 'Moon', 'Mercury', 'Venus', 'Mars'], [], [], []]
+    });
+  });
+
+  it('should cast a chart at the geocoded birth place when the user has no stored chart', async () => {
+    query.mockResolvedValue({ rows: [] });
+    geocode.mockResolvedValue({ latitude: 49.2827, longitude: -123.1207, display_name: 'Vancouver, British Columbia, Canada' });
+    const calculateNatalChart = jest.spyOn(SwissEphemerisService.getInstance(), 'calculateNatalChart');
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1977-05-17',
+      birth_time: '11:29',
+      birth_location: 'Vancouver, BC'
+    }, 'user-1');
+
+    expect(geocode).toHaveBeenCalledWith('Vancouver, BC');
+    // 11:29 PDT is 18:29 UT; the Ascendant at 16° Leo needs the Vancouver coordinates
+    expect(profile.astrological_basis).toMatchObject({
+      sun_sign: 'Taurus',
+      moon_sign: 'Taurus',
+      mercury_position: 'Taurus',
+      mars_position: 'Aries',
+      rising_sign: 'Leo'
+    });
+    expect(profile.astrological_basis.chart_statistics!.quadrants).toHaveLength(4);
+    // The chart is not stored
+    expect(profile.astrological_basis.chart_id).toBeUndefined();
+    expect(calculateNatalChart).not.toHaveBeenCalled();
+  });
+
+  it('should calculate the signs without houses when the birth place cannot be geocoded', async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1977-05-17',
+      birth_time: '18:29',
+      birth_location: 'Vancouver, BC'
+    }, 'user-1');
+
+    // Sun 26°43' Taurus, Moon 22°56' Taurus, Mercury 5°18' Taurus, Mars 15°25' Aries at 18:29 UT
+    expect(profile.astrological_basis).toMatchObject({
+      sun_sign: 'Taurus',
+      moon_sign: 'Taurus',
+      mercury_position: 'Taurus',
+      mars_position: 'Aries',
+      rising_sign: 'Unknown'
+    });
+    expect(profile.astrological_basis.chart_id).toBeUndefined();
+    // Venus, Mars, Saturn and Neptune in fire against the three Taurus placements
+    expect(profile.astrological_basis.chart_statistics).toMatchObject({ dominant_element: 'fire' });
+    expect(profile.astrological_basis.chart_statistics!.quadrants).toBeUndefined();
+  });
+
+  it('should calculate the signs for a new birth place instead of reading the stored chart', async () => {
+    query.mockResolvedValueOnce({ rows: [storedChart] });
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1990-01-15',
+      birth_time: '12:00',
+      birth_location: 'Toronto, ON'
+    }, 'user-1');
+
+    // Only the chart lookup: the stored positions are never read
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(geocode).toHaveBeenCalledWith('Toronto, ON');
+    expect(profile.astrological_basis.sun_sign).toBe('Capricorn');
+    expect(profile.astrological_basis.chart_id).toBeUndefined();
+  });
+
+  it('should cast a chart at the stored coordinates without storing it when the birth date changes', async () => {
+    query.mockResolvedValueOnce({ rows: [storedChart] });
+    const swissEphemerisService = SwissEphemerisService.getInstance();
+    const castChart = jest.spyOn(swissEphemerisService, 'castChart').mockResolvedValue({
+      planetary_positions: [
+        { body: 'Sun', celestial_body: 'Sun', longitude: 294.8, latitude: 0, zodiac_sign: 'Capricorn', degree_in_sign: 24.8 },
+        { body: 'Moon', celestial_body: 'Moon', longitude: 190.2, latitude: 0, zodiac_sign: 'Libra', degree_in_sign: 10.2 }
+      ],
+      aspects: [],
+      house_cusps: [],
+      aspect_patterns: []
+    });
+    const calculateNatalChart = jest.spyOn(swissEphemerisService, 'calculateNatalChart');
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1990-01-15',
+      birth_time: '11:29',
+      birth_location: 'Vancouver, BC'
+    }, 'user-1');
+
+    // 11:29 PST in the stored zone is 19:29 UT
+    expect(castChart).toHaveBeenCalledWith(
+      swissEphemerisService.dateToJulianDay(new Date('1990-01-15T19:29:00Z')),
+      49.2827,
+      -123.1207,
+      'Placidus'
+    );
+    expect(calculateNatalChart).not.toHaveBeenCalled();
+    expect(geocode).not.toHaveBeenCalled();
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(profile.astrological_basis).toMatchObject({ sun_sign: 'Capricorn', moon_sign: 'Libra' });
+    expect(profile.astrological_basis.chart_id).toBeUndefined();
+  });
+
+  it('should explain each trait with the rules that shaped it', async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    const profile = await personalityService.generatePersonalityProfile({
+      birth_date: '1977-05-17',
+      birth_time: '18:29',
+      birth_location: 'Vancouver, BC'
+    }, 'user-1');
+
+    expect(profile.trait_rules_version).toBe(2);
+    expect(profile.trait_explanations).toHaveLength(5);
+
+    const stress = profile.trait_explanations!.find(explanation => explanation.trait === 'stress_response')!;
+    expect(stress.value).toBe(profile.psychological_traits.stress_response);
+    expect(stress.contributions).toContainEqual(
+      // The exalted Moon, also ruling earth by night, strengthens its weight of 3
+      expect.objectContaining({ rule_id: 'stress.moon_sign', factor: 'Moon in Taurus', weight: 4.05, strength: 1.35 })
+    );
+  });
+
+  it('should calculate the signs for a new user without looking up a chart', async () => {
+    const profile = await personalityService.generatePersonalityProfile({ birth_date: '1977-05-17' });
+
+    expect(query).not.toHaveBeenCalled();
+    expect(profile.profile_tier).toBe(2);
+    expect(profile.astrological_basis).toMatchObject({ sun_sign: 'Taurus', rising_sign: 'Unknown' });
+  });
+
+  it('should fire no house rules for a date-only profile', async () => {
+    const profile = await personalityService.generatePersonalityProfile({ birth_date: '1977-05-17' });
+
+    const factors = profile.trait_explanations!.flatMap(explanation => explanation.contributions.map(contribution => contribution.factor));
+    expect(factors.length).toBeGreaterThan(0);
+    expect(factors.filter(factor => factor.includes('house'))).toEqual([]);
+  });
+
+  it('should not look up a chart without birth data', async () => {
+    const profile = await personalityService.generatePersonalityProfile({}, 'user-1');
+
+    expect(query).not.toHaveBeenCalled();
+    expect(profile.profile_tier).toBe(1);
+    expect(profile.astrological_basis.sun_sign).toBe('Unknown');
+    expect(profile.trait_explanations).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { HouseCusp, PlanetaryPosition } from '../types';
+import * as testData from '../test-data/test-natal-chart.json';
+import { configureTestDatabase, angularDifference } from './helpers/astro';
+
+describe('Progressions', () => {
+  let swissEphemerisService: SwissEphemerisService;
+  let birthJulianDay: number;
+  let natalPositions: PlanetaryPosition[];
+  let natalHouseCusps: HouseCusp[];
+
+  const { latitude, longitude } = testData.birth_data;
+  const longitudeOf = (positions: PlanetaryPosition[], body: string) =>
+    positions.find(position => position.celestial_body === body)!.longitude;
+
+  beforeAll(async () => {
+    configureTestDatabase();
+    swissEphemerisService = SwissEphemerisService.getInstance();
+
+    birthJulianDay = swissEphemerisService.convertToJulianDay(
+      testData.birth_data.birth_date,
+      testData.birth_data.birth_time,
+      'America/Vancouver'
+    );
+    natalPositions = await swissEphemerisService.calculatePlanetaryPositions(birthJulianDay, latitude, longitude);
+    natalHouseCusps = await swissEphemerisService.calculateHouseCusps(birthJulianDay, latitude, longitude, 'Placidus');
+  });
+
+  describe('Secondary progressions', () => {
+    it('should progress one ephemeris day for each year of life', async () => {
+      const targetJulianDay = birthJulianDay + 30 * 365.24219;
+
+      const progressions = await swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, targetJulianDay
+      );
+
+      expect(progressions.age_years).toBeCloseTo(30, 6);
+      expect(Date.parse(progressions.progressed_date)).toBeCloseTo(Date.parse('1977-06-16T18:29:00Z'), -4);
+
+      // Reference positions for JD 2443311.2701 (thirty days after birth)
+      const progressed = progressions.secondary_progressions.positions;
+      expect(angularDifference(longitudeOf(progressed, 'Sun'), 85.4746)).toBeLessThan(0.01);
+      expect(angularDifference(longitudeOf(progressed, 'Moon'), 85.5229)).toBeLessThan(0.01);
+      expect(angularDifference(longitudeOf(progressed, 'Mars'), 37.8771)).toBeLessThan(0.01);
+    });
+
+    it('should place progressed bodies in the natal houses', async () => {
+      const progressions = await swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, birthJulianDay + 30 * 365.24219
+      );
+      const progressedSun = progressions.secondary_progressions.positions.find(p => p.celestial_body === 'Sun')!;
+
+      const cusp = natalHouseCusps[progressedSun.house_number! - 1]!;
+      const nextCusp = natalHouseCusps[progressedSun.house_number! % 12]!;
+      const houseSize = (nextCusp.cusp_longitude - cusp.cusp_longitude + 360) % 360;
+      expect((progressedSun.longitude - cusp.cusp_longitude + 360) % 360).toBeLessThan(houseSize);
+    });
+  });
+
+  describe('Solar arc directions', () => {
+    it('should direct every natal position by the progressed Sun\'s arc', async () => {
+      const progressions = await swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, birthJulianDay + 30 * 365.24219
+      );
+
+      expect(Math.abs(progressions.solar_arc - 28.7549)).toBeLessThan(0.01);
+      for (const natal of natalPositions) {
+        const directed = longitudeOf(progressions.solar_arc_directions.positions, natal.celestial_body!);
+        expect(angularDifference(directed, natal.longitude + progressions.solar_arc)).toBeLessThan(1e-9);
+      }
+    });
+  });
+
+  describe('Aspects to the natal chart', () => {
+    it('should report progressed-to-natal aspects within a degree', async () => {
+      const progressions = await swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, birthJulianDay + 30 * 365.24219
+      );
+      const aspects = [
+        ...progressions.secondary_progressions.aspects,
+        ...progressions.solar_arc_directions.aspects
+      ];
+
+      expect(aspects.length).toBeGreaterThan(0);
+      for (const aspect of aspects) {
+        expect(aspect.orb).toBeLessThanOrEqual(1);
+        expect(typeof aspect.applying).toBe('boolean');
+      }
+    });
+
+    it('should start with every directed position exactly on its natal position', async () => {
+      const progressions = await swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, birthJulianDay
+      );
+      const sunConjunction = progressions.solar_arc_directions.aspects.find(
+        aspect => aspect.body1 === 'Sun' && aspect.body2 === 'Sun'
+      );
+
+      expect(progressions.solar_arc).toBeCloseTo(0, 9);
+      expect(sunConjunction).toMatchObject({ aspect_type: 'conjunction', applying: false });
+      expect(sunConjunction!.orb).toBeCloseTo(0, 9);
+    });
+
+    it('should reject target dates before birth', async () => {
+      await expect(swissEphemerisService.calculateProgressions(
+        natalPositions, natalHouseCusps, birthJulianDay, latitude, longitude, birthJulianDay - 1
+      )).rejects.toThrow('Target date must not be before the birth date');
+    });
+  });
+});
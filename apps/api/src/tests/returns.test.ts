@@ -0,0 +1,86 @@
+import express from 'express';
+import astrologyRoutes from '../routes/astrology';
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { configureTestDatabase, isoToJulianDay, angularDifference } from './helpers/astro';
+import { requestJson, startTestServer } from './helpers/http';
+
+describe('Return Charts', () => {
+  let swissEphemerisService: SwissEphemerisService;
+
+  // Natal Sun and Moon of the May 17, 1977 Vancouver test case
+  const natalSun = 56.7197;
+  const natalMoon = 52.9337;
+  const twoMinutes = 2 / 1440;
+
+  beforeAll(() => {
+    configureTestDatabase();
+    swissEphemerisService = SwissEphemerisService.getInstance();
+  });
+
+  describe('Finding the return', () => {
+    it('should find the 2020 solar return', () => {
+      const returnJulianDay = swissEphemerisService.findReturn('Sun', natalSun, isoToJulianDay('2020-01-01T00:00:00Z'));
+
+      // Reference: 2020-05-17 04:04 UT
+      expect(Math.abs(returnJulianDay - isoToJulianDay('2020-05-17T04:04:26Z'))).toBeLessThan(twoMinutes);
+    });
+
+    it('should find the first lunar return of January 2024', () => {
+      const returnJulianDay = swissEphemerisService.findReturn('Moon', natalMoon, isoToJulianDay('2024-01-01T00:00:00Z'));
+
+      // Reference: 2024-01-20 01:06 UT
+      expect(Math.abs(returnJulianDay - isoToJulianDay('2024-01-20T01:05:50Z'))).toBeLessThan(twoMinutes);
+    });
+
+    it('should never return a moment before the search start', () => {
+      const fromJulianDay = isoToJulianDay('2024-01-20T02:00:00Z');
+      const returnJulianDay = swissEphemerisService.findReturn('Moon', natalMoon, fromJulianDay);
+
+      // Just missed the January return, so the next one is a sidereal month later
+      expect(returnJulianDay).toBeGreaterThan(fromJulianDay);
+      expect(returnJulianDay - fromJulianDay).toBeGreaterThan(26);
+      expect(returnJulianDay - fromJulianDay).toBeLessThan(28);
+    });
+  });
+
+  describe('Casting the return chart', () => {
+    it('should cast a full chart with the Sun on its natal longitude', async () => {
+      const returnJulianDay = swissEphemerisService.findReturn('Sun', natalSun, isoToJulianDay('2020-01-01T00:00:00Z'));
+
+      const chart = await swissEphemerisService.castChart(returnJulianDay, 51.5074, -0.1278, 'Placidus');
+      const sun = chart.planetary_positions.find(position => position.celestial_body === 'Sun')!;
+
+      expect(angularDifference(sun.longitude, natalSun)).toBeLessThan(0.0001);
+      expect(chart.house_cusps).toHaveLength(12);
+      expect(chart.planetary_positions.every(position => position.house_number! >= 1 && position.house_number! <= 12)).toBe(true);
+      expect(chart.house_system_fallback).toBeUndefined();
+    });
+  });
+
+  describe('Request validation', () => {
+    const chartId = '11111111-1111-4111-8111-111111111111';
+
+    // Validation answers before the route touches the database
+    const postReturn = async (body: Record<string, unknown>) => {
+      const app = express();
+      app.use(express.json());
+      app.use('/api/astrology', astrologyRoutes);
+      const server = await startTestServer(app);
+      try {
+        return await requestJson(`${server.baseUrl}/api/astrology/returns/${chartId}`, 'POST', { body });
+      } finally {
+        await server.close();
+      }
+    };
+
+    it('should reject a return location with only one coordinate', async () => {
+      const longitudeOnly = await postReturn({ type: 'solar', year: 2020, longitude: -123.1 });
+      expect(longitudeOnly.status).toBe(400);
+      expect(longitudeOnly.body.error.details.map((detail: any) => detail.path)).toEqual(['latitude']);
+
+      const latitudeOnly = await postReturn({ type: 'solar', year: 2020, latitude: 49.25 });
+      expect(latitudeOnly.status).toBe(400);
+      expect(latitudeOnly.body.error.details.map((detail: any) => detail.path)).toEqual(['longitude']);
+    });
+  });
+});
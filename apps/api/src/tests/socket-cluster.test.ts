@@ -0,0 +1,261 @@
+import { CoachingMessageService } from '../services/coachingMessageService';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { PresenceService } from '../services/presenceService';
+import { SocketIOServer, SocketService } from '../services/socket';
+import { RedisPubSubAdapter } from '../services/socketAdapter';
+
+describe('Socket clustering', () => {
+  const userId = '22222222-2222-4222-8222-222222222222';
+  const conversationId = '11111111-1111-4111-8111-111111111111';
+
+  let redis: InMemoryRedis;
+
+  beforeEach(() => {
+    redis = new InMemoryRedis();
+  });
+
+  describe('Redis pub/sub adapter', () => {
+    // One API instance: a namespace whose sockets record the packets written to them
+    const instance = async () => {
+      const nsp: any = { name: '/', server: { encoder: { encode: (packet: any) => [packet] } }, sockets: new Map() };
+      const adapter = new RedisPubSubAdapter(nsp, redis, 'socket.io');
+      await adapter.init();
+
+      const connect = (id: string, rooms: string[] = []) => {
+        const socket = {
+          id,
+          packets: [] as any[],
+          client: { writeToEngine: (packets: any[]) => socket.packets.push(...packets) },
+          join: (room: string | string[]) => adapter.addAll(id, new Set(([] as string[]).concat(room))),
+          leave: (room: string) => adapter.del(id, room),
+          disconnect: jest.fn()
+        };
+        nsp.sockets.set(id, socket);
+        adapter.addAll(id, new Set([id, ...rooms]));
+        return socket;
+      };
+      return { adapter, connect };
+    };
+
+    const event = (name: string, payload: any) => ({ type: 2, data: [name, payload] });
+
+    it('should deliver room broadcasts to sockets on other instances', async () => {
+      const first = await instance();
+      const second = await instance();
+      const local = first.connect('socket-a', ['conversation:1']);
+      const remote = second.connect('socket-b', ['conversation:1']);
+      const elsewhere = second.connect('socket-c', ['conversation:2']);
+
+      first.adapter.broadcast(event('new_message', { content: 'hello' }), { rooms: new Set(['conversation:1']) });
+
+      expect(local.packets.map(packet => packet.data)).toEqual([['new_message', { content: 'hello' }]]);
+      expect(remote.packets.map(packet => packet.data)).toEqual([['new_message', { content: 'hello' }]]);
+      expect(elsewhere.packets).toHaveLength(0);
+    });
+
+    it('should honor excluded rooms and keep local broadcasts local', async () => {
+      const first = await instance();
+      const second = await instance();
+      const remote = second.connect('socket-b', ['conversation:1']);
+      const excluded = second.connect('socket-c', ['conversation:1']);
+
+      first.adapter.broadcast(event('user_typing', {}), { rooms: new Set(['conversation:1']), except: new Set(['socket-c']) });
+      first.adapter.broadcast(event('system_message', {}), { rooms: new Set(), flags: { local: true } });
+
+      expect(remote.packets.map(packet => packet.data[0])).toEqual(['user_typing']);
+      expect(excluded.packets).toHaveLength(0);
+    });
+
+    it('should change room membership and disconnect sockets on other instances', async () => {
+      const first = await instance();
+      const second = await instance();
+      const remote = second.connect('socket-b', ['user:1']);
+
+      first.adapter.addSockets({ rooms: new Set(['user:1']) }, ['conversation:9']);
+      expect(second.adapter.rooms.get('conversation:9')).toEqual(new Set(['socket-b']));
+
+      first.adapter.disconnectSockets({ rooms: new Set(['user:1']) }, true);
+      expect(remote.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should stop relaying once closed', async () => {
+      const first = await instance();
+      const second = await instance();
+      const remote = second.connect('socket-b', ['conversation:1']);
+
+      await second.adapter.close();
+      first.adapter.broadcast(event('new_message', {}), { rooms: new Set(['conversation:1']) });
+
+      expect(remote.packets).toHaveLength(0);
+    });
+  });
+
+  describe('Presence', () => {
+    it('should keep a user online until their last socket on any instance disconnects', async () => {
+      const first = new PresenceService(redis, 'api-1');
+      const second = new PresenceService(redis, 'api-2');
+
+      expect(await first.connect(userId, 'socket-a')).toBe(true);
+      expect(await second.connect(userId, 'socket-b')).toBe(false);
+      expect(await second.getPresence(userId)).toMatchObject({ online: true, socket_count: 2, last_seen: null });
+
+      expect(await first.disconnect(userId, 'socket-a')).toBeNull();
+      expect(await first.isOnline(userId)).toBe(true);
+
+      const lastSeen = await second.disconnect(userId, 'socket-b');
+      expect(lastSeen).toBeInstanceOf(Date);
+      expect(await first.getPresence(userId)).toEqual({ user_id: userId, online: false, socket_count: 0, last_seen: lastSeen });
+      expect(await first.getOnlineUsers()).toEqual([]);
+    });
+
+    it('should count one first socket of sockets connecting at once', async () => {
+      const first = new PresenceService(redis, 'api-1');
+      const second = new PresenceService(redis, 'api-2');
+
+      const cameOnline = await Promise.all([first.connect(userId, 'socket-a'), second.connect(userId, 'socket-b')]);
+
+      expect(cameOnline.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should keep a user online who connects on another instance while the last socket disconnects', async () => {
+      const first = new PresenceService(redis, 'api-1');
+      const second = new PresenceService(redis, 'api-2');
+      await first.connect(userId, 'socket-a');
+
+      await Promise.all([first.disconnect(userId, 'socket-a'), second.connect(userId, 'socket-b')]);
+
+      expect(await first.getPresence(userId)).toMatchObject({ online: true, socket_count: 1 });
+      expect(await first.getOnlineUsers()).toEqual([userId]);
+    });
+
+    it('should take a user offline once when the last sockets on two instances disconnect at once', async () => {
+      const first = new PresenceService(redis, 'api-1');
+      const second = new PresenceService(redis, 'api-2');
+      await first.connect(userId, 'socket-a');
+      await second.connect(userId, 'socket-b');
+
+      const wentOffline = await Promise.all([first.disconnect(userId, 'socket-a'), second.disconnect(userId, 'socket-b')]);
+
+      expect(wentOffline.filter(Boolean)).toHaveLength(1);
+      expect(await first.isOnline(userId)).toBe(false);
+    });
+
+    it('should drop the sockets of an instance that restarted, but keep room membership', async () => {
+      const before = new PresenceService(redis, 'api-1');
+      await before.connect(userId, 'socket-a');
+      await before.joinRoom(userId, conversationId);
+      await new PresenceService(redis, 'api-2').connect('other-user', 'socket-b');
+
+      // The process dies without recording the disconnect
+      const after = new PresenceService(redis, 'api-1');
+      const offline = await after.clearInstance();
+
+      expect([...offline.keys()]).toEqual([userId]);
+      expect(await after.isOnline(userId)).toBe(false);
+      expect(await after.isOnline('other-user')).toBe(true);
+      expect(await after.getRooms(userId)).toEqual([conversationId]);
+    });
+  });
+
+  describe('SocketService', () => {
+    beforeEach(() => {
+      jest.spyOn(CoachingMessageService, 'getInstance').mockReturnValue({
+        ownsConversation: async (owner: string, conversation: string) => owner === userId && conversation === conversationId
+      } as unknown as CoachingMessageService);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // A fake server and socket, enough to follow what the service does on connection
+    const server = (instanceId: string) => {
+      const broadcasts: Array<{ rooms: string[]; event: string; payload: any }> = [];
+      let onConnection: (socket: any) => void = () => undefined;
+      const io = {
+        adapter: () => undefined,
+        use: () => undefined,
+        on: (_event: string, handler: (socket: any) => void) => { onConnection = handler; },
+        to: (rooms: string | string[]) => ({
+          emit: (event: string, payload: any) => broadcasts.push({ rooms: ([] as string[]).concat(rooms), event, payload })
+        })
+      } as unknown as SocketIOServer;
+      const service = new SocketService(io, redis, instanceId);
+
+      const connect = (socketId: string) => {
+        const handlers = new Map<string, (...args: any[]) => void>();
+        const socket = {
+          id: socketId,
+          user: { user_id: userId },
+          rooms: new Set<string>(),
+          join: (room: string | string[]) => ([] as string[]).concat(room).forEach(name => socket.rooms.add(name)),
+          leave: (room: string) => socket.rooms.delete(room),
+          on: (event: string, handler: (...args: any[]) => void) => handlers.set(event, handler),
+          emit: () => undefined,
+          to: () => ({ emit: () => undefined }),
+          disconnect: () => undefined
+        };
+        onConnection(socket);
+        return { socket, handlers };
+      };
+      return { service, broadcasts, connect };
+    };
+
+    // Let the presence bookkeeping that follows a connection or disconnection settle
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should rejoin saved rooms on another instance and announce presence changes', async () => {
+      const first = server('api-1');
+      await first.service.initialize();
+      const phone = first.connect('socket-a');
+      await settle();
+      phone.handlers.get('join_coaching_session')!({ conversation_id: conversationId });
+      await settle();
+
+      phone.handlers.get('disconnect')!();
+      await settle();
+      expect(first.broadcasts).toContainEqual(expect.objectContaining({
+        rooms: [`conversation:${conversationId}`],
+        event: 'presence_changed',
+        payload: expect.objectContaining({ user_id: userId, online: false, last_seen: expect.any(Date) })
+      }));
+
+      const second = server('api-2');
+      await second.service.initialize();
+      const laptop = second.connect('socket-b');
+      await settle();
+
+      expect(laptop.socket.rooms).toContain(`conversation:${conversationId}`);
+      expect(second.broadcasts).toContainEqual(expect.objectContaining({
+        event: 'presence_changed',
+        payload: expect.objectContaining({ user_id: userId, online: true })
+      }));
+      expect(await second.service.isUserConnected(userId)).toBe(true);
+    });
+
+    it('should only save and rejoin rooms of conversations the user owns', async () => {
+      const otherConversationId = '33333333-3333-4333-8333-333333333333';
+      const presence = new PresenceService(redis, 'api-1');
+      // Saved before ownership was checked, or the conversation has gone since
+      await presence.joinRoom(userId, otherConversationId);
+
+      const first = server('api-1');
+      await first.service.initialize();
+      const phone = first.connect('socket-a');
+      await settle();
+      await settle();
+
+      expect(phone.socket.rooms).not.toContain(`conversation:${otherConversationId}`);
+      expect(await presence.getRooms(userId)).toEqual([]);
+
+      phone.handlers.get('join_coaching_session')!({ conversation_id: otherConversationId });
+      phone.handlers.get('join_coaching_session')!({ conversation_id: conversationId });
+      await settle();
+      await settle();
+
+      expect(await presence.getRooms(userId)).toEqual([conversationId]);
+      expect(phone.socket.rooms).toContain(`conversation:${conversationId}`);
+      expect(phone.socket.rooms).not.toContain(`conversation:${otherConversationId}`);
+    });
+  });
+});
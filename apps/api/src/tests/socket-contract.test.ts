@@ -0,0 +1,156 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { ServerToClientEventName } from '@/types';
+import { CoachingMessageService } from '../services/coachingMessageService';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { SocketIOServer, SocketService } from '../services/socket';
+import { CLIENT_TO_SERVER_EVENTS, validateClientEvent } from '../services/socketEvents';
+
+// Every server event of the contract; keyed by name so an event added to the contract must be listed here
+const SERVER_TO_CLIENT_EVENTS: Record<ServerToClientEventName, true> = {
+  connected: true,
+  session_joined: true,
+  session_left: true,
+  user_joined_session: true,
+  user_left_session: true,
+  user_typing: true,
+  message_acknowledged: true,
+  session_status_changed: true,
+  new_message: true,
+  coach_message_delta: true,
+  coach_message_complete: true,
+  insights_ready: true,
+  aha_moment_delivered: true,
+  aha_moment_notification: true,
+  progress_updated: true,
+  personality_insight: true,
+  system_message: true,
+  maintenance_notice: true,
+  presence_changed: true,
+  event_error: true
+};
+
+// Events Socket.IO emits itself, outside the contract
+const RESERVED_CLIENT_EVENTS = ['connect', 'disconnect', 'connect_error'];
+
+describe('Socket event contract', () => {
+  const userId = '22222222-2222-4222-8222-222222222222';
+  const conversationId = '11111111-1111-4111-8111-111111111111';
+
+  let handlers: Map<string, (...args: any[]) => void>;
+  let emitted: Array<{ event: string; payload: any }>;
+
+  // Let the ownership lookup of conversation events settle
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  // Connect a fake authenticated socket and record what the service registers and emits
+  const connect = async () => {
+    handlers = new Map();
+    emitted = [];
+    jest.spyOn(CoachingMessageService, 'getInstance').mockReturnValue({
+      ownsConversation: async (owner: string, conversation: string) => owner === userId && conversation === conversationId
+    } as unknown as CoachingMessageService);
+    const record = (event: string, payload: any) => emitted.push({ event, payload });
+    let onConnection: (socket: any) => void = () => undefined;
+
+    const io = {
+      adapter: () => undefined,
+      use: () => undefined,
+      on: (_event: string, handler: (socket: any) => void) => { onConnection = handler; },
+      to: () => ({ emit: record })
+    } as unknown as SocketIOServer;
+    await new SocketService(io, new InMemoryRedis(), 'test-instance').initialize();
+
+    onConnection({
+      id: 'socket-1',
+      user: { user_id: userId },
+      join: () => undefined,
+      leave: () => undefined,
+      disconnect: () => undefined,
+      on: (event: string, handler: (...args: any[]) => void) => handlers.set(event, handler),
+      emit: record,
+      to: () => ({ emit: record })
+    });
+  };
+
+  beforeEach(connect);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should handle exactly the client events of the contract', () => {
+    const handled = [...handlers.keys()].filter(event => event !== 'disconnect');
+
+    expect(handled.sort()).toEqual([...CLIENT_TO_SERVER_EVENTS].sort());
+  });
+
+  it('should only emit server events of the contract', async () => {
+    handlers.get('join_coaching_session')!({ conversation_id: conversationId });
+    handlers.get('typing_start')!({ conversation_id: conversationId });
+    handlers.get('message_received')!({ conversation_id: conversationId, message_id: conversationId });
+    handlers.get('session_status_update')!({ conversation_id: conversationId, status: 'completed' });
+    handlers.get('leave_coaching_session')!({ conversation_id: conversationId });
+    await settle();
+
+    expect(emitted.length).toBeGreaterThan(0);
+    for (const { event } of emitted) {
+      expect(Object.keys(SERVER_TO_CLIENT_EVENTS)).toContain(event);
+    }
+    expect(emitted.find(({ event }) => event === 'user_typing')!.payload).toMatchObject({
+      conversation_id: conversationId,
+      user_id: userId,
+      typing: true
+    });
+  });
+
+  it('should answer payloads that break the contract with event_error', () => {
+    emitted.length = 0;
+
+    handlers.get('session_status_update')!({ conversation_id: conversationId, status: 'paused' });
+    handlers.get('join_coaching_session')!({ conversationId });
+
+    expect(emitted.map(({ event }) => event)).toEqual(['event_error', 'event_error']);
+    expect(emitted[0]!.payload).toMatchObject({
+      event: 'session_status_update',
+      message: 'Invalid session_status_update payload: status must be one of active, completed, cancelled'
+    });
+    expect(emitted[1]!.payload.message).toBe('Invalid join_coaching_session payload: conversation_id must be a UUID');
+    expect(() => validateClientEvent('typing_stop', null)).toThrow('payload must be an object');
+  });
+
+  it('should only use contract events in the web client', () => {
+    const webSource = join(__dirname, '../../../web/src');
+    const files: string[] = [];
+    const collect = (dir: string) => {
+      for (const entry of readdirSync(dir)) {
+        const path = join(dir, entry);
+        if (statSync(path).isDirectory()) collect(path);
+        else if (/\.tsx?$/.test(entry)) files.push(path);
+      }
+    };
+    collect(webSource);
+
+    const listened = new Set<string>();
+    const sent = new Set<string>();
+    for (const file of files) {
+      const source = readFileSync(file, 'utf8');
+      if (!/socket\.io-client|@\/lib\/socket/.test(source)) continue;
+      // The event name is a literal in the first argument, possibly one of several in a conditional
+      for (const [, method, argument] of source.matchAll(/\.(emit(?:WithAck)?|on|off)\(([^,)]*)/g)) {
+        for (const [, event] of argument!.matchAll(/['"]([a-z_]+)['"]/g)) {
+          (method!.startsWith('emit') ? sent : listened).add(event!);
+        }
+      }
+    }
+
+    expect(sent.size).toBeGreaterThan(0);
+    expect(listened.size).toBeGreaterThan(0);
+    for (const event of sent) {
+      expect(CLIENT_TO_SERVER_EVENTS).toContain(event);
+    }
+    for (const event of listened) {
+      expect([...Object.keys(SERVER_TO_CLIENT_EVENTS), ...RESERVED_CLIENT_EVENTS]).toContain(event);
+    }
+  });
+});
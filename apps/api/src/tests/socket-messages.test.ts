@@ -0,0 +1,244 @@
+import { AICoachingService } from '../services/aiCoachingService';
+import { CoachingMemoryService } from '../services/coachingMemoryService';
+import { CoachingMessageService } from '../services/coachingMessageService';
+import { DatabaseService } from '../services/database';
+import { InMemoryRedis } from '../services/inMemoryRedis';
+import { SocketIOServer, SocketService } from '../services/socket';
+import { normalizeSql } from './helpers/database';
+
+describe('Socket messaging', () => {
+  const userId = '22222222-2222-4222-8222-222222222222';
+  const conversationId = '11111111-1111-4111-8111-111111111111';
+
+  let messages: any[];
+  let storedSince: any[]; // Messages another request stores while a reply is being prepared
+  let broadcasts: Array<{ event: string; payload: any }>;
+  let handlers: Map<string, (...args: any[]) => void>;
+  let socket: { rooms: Set<string>; emitted: Array<{ event: string; payload: any }> };
+  let generateCoachingResponse: jest.Mock;
+
+  // Answers the pipeline's statements against an in-memory coaching_messages table
+  const fakeQuery = async (text: string, params: any[] = []) => {
+    const sql = normalizeSql(text);
+    const conversationMessages = () => messages.filter(message => message.conversation_id === params[0]);
+
+    if (sql.startsWith('SELECT * FROM coaching_conversations') || sql.startsWith('SELECT conversation_id FROM coaching_conversations')) {
+      const found = params[0] === conversationId && params[1] === userId;
+      return { rows: found ? [{ conversation_id: conversationId, user_id: userId, session_type: 'coaching_conversation', status: 'active' }] : [] };
+    }
+    if (sql.includes('AND client_message_id = $2')) {
+      return { rows: conversationMessages().filter(message => message.client_message_id === params[1]) };
+    }
+    if (sql.startsWith('SELECT sequence FROM coaching_messages')) {
+      return { rows: messages.filter(message => message.message_id === params[0] && message.conversation_id === params[1]) };
+    }
+    if (sql.includes('AND sequence > $2 ORDER BY sequence')) {
+      return { rows: conversationMessages().filter(message => message.sequence > params[1]).slice(0, params[2]) };
+    }
+    if (sql.startsWith('SELECT * FROM coaching_messages WHERE conversation_id = $1 ORDER BY sequence')) {
+      return { rows: conversationMessages().slice(0, params[1]) };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const addMessage = async (data: any) => {
+    if (data.client_message_id && messages.some(message => message.client_message_id === data.client_message_id)) {
+      throw Object.assign(new Error('duplicate key value'), { code: '23505' });
+    }
+    const message = {
+      message_id: `00000000-0000-4000-8000-${String(messages.length + 1).padStart(12, '0')}`,
+      conversation_id: data.conversation_id,
+      sender_type: data.sender_type,
+      content: data.content,
+      metadata: data.metadata,
+      client_message_id: data.client_message_id ?? null,
+      // Numbered in commit order by the insert trigger; created_at may be older, as when a transaction commits late
+      sequence: messages.length + 1,
+      created_at: data.created_at ?? new Date(Date.UTC(2026, 0, 1, 0, 0, messages.length))
+    };
+    messages.push(message);
+    return message;
+  };
+
+  // Let the acknowledgement and the coach reply that follow an event settle
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  const send = async (event: string, payload: any) => {
+    const ack = jest.fn();
+    handlers.get(event)!(payload, ack);
+    await settle();
+    await settle();
+    expect(ack).toHaveBeenCalledTimes(1);
+    return ack.mock.calls[0]![0];
+  };
+
+  beforeEach(async () => {
+    messages = [];
+    storedSince = [];
+    broadcasts = [];
+    handlers = new Map();
+    generateCoachingResponse = jest.fn().mockResolvedValue({ content: 'What would a good outcome look like?', metadata: { coaching_technique: 'powerful_questioning' } });
+
+    const db = {
+      query: fakeQuery,
+      addMessage,
+      findUserById: async () => ({ user_id: userId, first_name: 'Sam', coaching_goals: [] }),
+      getConversationHistory: async () => [...messages, ...storedSince]
+    } as unknown as DatabaseService;
+    const pipeline = new CoachingMessageService(db, { generateCoachingResponse } as unknown as AICoachingService);
+    jest.spyOn(CoachingMessageService, 'getInstance').mockReturnValue(pipeline);
+    jest.spyOn(CoachingMemoryService, 'getInstance').mockReturnValue({ assembleMemory: async () => undefined } as unknown as CoachingMemoryService);
+
+    let onConnection: (socket: any) => void = () => undefined;
+    const io = {
+      adapter: () => undefined,
+      use: () => undefined,
+      on: (_event: string, handler: (socket: any) => void) => { onConnection = handler; },
+      to: () => ({ emit: (event: string, payload: any) => broadcasts.push({ event, payload }) })
+    } as unknown as SocketIOServer;
+    await new SocketService(io, new InMemoryRedis(), 'test-instance').initialize();
+
+    socket = { rooms: new Set(), emitted: [] };
+    onConnection({
+      id: 'socket-1',
+      user: { user_id: userId },
+      join: (room: string | string[]) => ([] as string[]).concat(room).forEach(name => socket.rooms.add(name)),
+      leave: (room: string) => socket.rooms.delete(room),
+      on: (event: string, handler: (...args: any[]) => void) => handlers.set(event, handler),
+      emit: (event: string, payload: any) => socket.emitted.push({ event, payload }),
+      to: () => ({ emit: (event: string, payload: any) => broadcasts.push({ event, payload }) })
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('send_message', () => {
+    const payload = { conversation_id: conversationId, client_message_id: 'client-1', content: '  I keep avoiding a hard conversation  ' };
+
+    it('should acknowledge with the stored message id and reply through the same pipeline', async () => {
+      const response = await send('send_message', payload);
+
+      expect(response).toEqual({
+        success: true,
+        data: { message_id: messages[0].message_id, client_message_id: 'client-1', duplicate: false }
+      });
+      expect(messages.map(message => [message.sender_type, message.content])).toEqual([
+        ['user', 'I keep avoiding a hard conversation'],
+        ['coach', 'What would a good outcome look like?']
+      ]);
+      expect(broadcasts.filter(({ event }) => event === 'new_message').map(({ payload }) => payload.message_id))
+        .toEqual(messages.map(message => message.message_id));
+    });
+
+    it('should leave only the message being replied to out of the history', async () => {
+      storedSince = [{ message_id: 'message-late', sender_type: 'coach', content: 'Reply to an earlier message' }];
+
+      await send('send_message', payload);
+
+      const context = generateCoachingResponse.mock.calls[0]![0];
+      expect(context.current_message).toBe('I keep avoiding a hard conversation');
+      expect(context.conversation_history.map((message: any) => message.message_id)).toEqual(['message-late']);
+    });
+
+    it('should store a retried message once and not reply to it again', async () => {
+      const first = await send('send_message', payload);
+      const retry = await send('send_message', payload);
+
+      expect(retry).toEqual({ success: true, data: { ...first.data, duplicate: true } });
+      expect(messages.filter(message => message.sender_type === 'user')).toHaveLength(1);
+      expect(generateCoachingResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail the acknowledgement for invalid payloads and other users\' conversations', async () => {
+      expect(await send('send_message', { ...payload, content: '   ' })).toEqual({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Invalid send_message payload: content must be a string of 1 to 1000 characters' }
+      });
+      expect(await send('send_message', { ...payload, conversation_id: '33333333-3333-4333-8333-333333333333' })).toEqual({
+        success: false,
+        error: { code: 'CONVERSATION_NOT_FOUND', message: 'Active conversation not found' }
+      });
+      expect(messages).toHaveLength(0);
+    });
+  });
+
+  describe('sync_messages', () => {
+    beforeEach(async () => {
+      for (const content of ['first', 'second', 'third', 'fourth']) {
+        await addMessage({ conversation_id: conversationId, sender_type: 'user', content });
+      }
+    });
+
+    it('should replay the messages stored after the cursor', async () => {
+      const response = await send('sync_messages', { conversation_id: conversationId, after_message_id: messages[1].message_id });
+
+      expect(response.success).toBe(true);
+      expect(response.data.messages.map((message: any) => message.content)).toEqual(['third', 'fourth']);
+      expect(response.data.has_more).toBe(false);
+    });
+
+    it('should replay a message committed after the cursor though it was stamped before it', async () => {
+      const cursor = messages[3];
+      await addMessage({ conversation_id: conversationId, sender_type: 'coach', content: 'late', created_at: messages[2].created_at });
+
+      const response = await send('sync_messages', { conversation_id: conversationId, after_message_id: cursor.message_id });
+
+      expect(response.data.messages.map((message: any) => message.content)).toEqual(['late']);
+    });
+
+    it('should page through the conversation from the start', async () => {
+      const response = await send('sync_messages', { conversation_id: conversationId, limit: 3 });
+
+      expect(response.data.messages.map((message: any) => message.content)).toEqual(['first', 'second', 'third']);
+      expect(response.data.has_more).toBe(true);
+    });
+
+    it('should reject a cursor from outside the conversation', async () => {
+      expect(await send('sync_messages', { conversation_id: conversationId, after_message_id: '44444444-4444-4444-8444-444444444444' })).toEqual({
+        success: false,
+        error: { code: 'CURSOR_NOT_FOUND', message: 'Cursor message not found in the conversation' }
+      });
+    });
+  });
+
+  describe('Conversation events', () => {
+    const otherConversationId = '33333333-3333-4333-8333-333333333333';
+
+    const emit = async (event: string, payload: any) => {
+      handlers.get(event)!(payload);
+      await settle();
+      await settle();
+    };
+
+    it('should join the user\'s own conversation', async () => {
+      await emit('join_coaching_session', { conversation_id: conversationId });
+
+      expect(socket.rooms).toContain(`conversation:${conversationId}`);
+      expect(socket.emitted.map(({ event }) => event)).toContain('session_joined');
+    });
+
+    it('should answer events for another user\'s conversation with event_error', async () => {
+      await settle();
+      broadcasts = [];
+      socket.emitted = [];
+
+      await emit('join_coaching_session', { conversation_id: otherConversationId });
+      await emit('leave_coaching_session', { conversation_id: otherConversationId });
+      await emit('typing_start', { conversation_id: otherConversationId });
+      await emit('typing_stop', { conversation_id: otherConversationId });
+      await emit('session_status_update', { conversation_id: otherConversationId, status: 'completed' });
+
+      expect(socket.rooms).not.toContain(`conversation:${otherConversationId}`);
+      expect(socket.emitted.map(({ event, payload }) => [event, payload.event])).toEqual([
+        ['event_error', 'join_coaching_session'],
+        ['event_error', 'leave_coaching_session'],
+        ['event_error', 'typing_start'],
+        ['event_error', 'typing_stop'],
+        ['event_error', 'session_status_update']
+      ]);
+      expect(broadcasts).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { SwissEphemerisService } from '../services/swissEphemerisService';
+import { HouseCusp, PlanetaryPosition } from '../types';
+import * as testData from '../test-data/test-natal-chart.json';
+import { configureTestDatabase, angularDifference } from './helpers/astro';
+
+describe('Chart Comparison', () => {
+  let swissEphemerisService: SwissEphemerisService;
+  let positionsA: PlanetaryPosition[];
+  let houseCuspsA: HouseCusp[];
+  let positionsB: PlanetaryPosition[];
+  let houseCuspsB: HouseCusp[];
+
+  const longitudeOf = (positions: PlanetaryPosition[], body: string) =>
+    positions.find(position => position.celestial_body === body)!.longitude;
+
+  beforeAll(async () => {
+    configureTestDatabase();
+    swissEphemerisService = SwissEphemerisService.getInstance();
+
+    const { latitude, longitude } = testData.birth_data;
+    const julianDayA = swissEphemerisService.convertToJulianDay(
+      testData.birth_data.birth_date,
+      testData.birth_data.birth_time,
+      'America/Vancouver'
+    );
+    positionsA = await swissEphemerisService.calculatePlanetaryPositions(julianDayA, latitude, longitude);
+    houseCuspsA = await swissEphemerisService.calculateHouseCusps(julianDayA, latitude, longitude, 'Placidus');
+    swissEphemerisService.assignHousePositions(positionsA, houseCuspsA);
+
+    const julianDayB = swissEphemerisService.convertToJulianDay('1990-01-15', '14:30', 'America/New_York');
+    positionsB = await swissEphemerisService.calculatePlanetaryPositions(julianDayB, 40.7128, -74.006);
+    houseCuspsB = await swissEphemerisService.calculateHouseCusps(julianDayB, 40.7128, -74.006, 'Placidus');
+    swissEphemerisService.assignHousePositions(positionsB, houseCuspsB);
+  });
+
+  describe('Synastry', () => {
+    it('should find the same cross-aspects from either side', () => {
+      const ab = swissEphemerisService.calculateSynastry(positionsA, houseCuspsA, positionsB, houseCuspsB);
+      const ba = swissEphemerisService.calculateSynastry(positionsB, houseCuspsB, positionsA, houseCuspsA);
+
+      expect(ab.cross_aspects.length).toBeGreaterThan(0);
+      expect(ab.cross_aspects).toHaveLength(ba.cross_aspects.length);
+      for (const aspect of ab.cross_aspects) {
+        const mirrored = ba.cross_aspects.find(other => other.body1 === aspect.body2 && other.body2 === aspect.body1);
+        expect(mirrored).toMatchObject({ aspect_type: aspect.aspect_type, applying: aspect.applying });
+        expect(mirrored!.orb).toBeCloseTo(aspect.orb, 9);
+      }
+    });
+
+    it('should measure each cross-aspect between the two charts', () => {
+      const { cross_aspects: crossAspects } = swissEphemerisService.calculateSynastry(
+        positionsA, houseCuspsA, positionsB, houseCuspsB
+      );
+
+      for (const aspect of crossAspects) {
+        const separation = angularDifference(longitudeOf(positionsA, aspect.body1), longitudeOf(positionsB, aspect.body2));
+        expect(aspect.exact_angle).toBeCloseTo(separation, 9);
+      }
+    });
+
+    it('should overlay each chart\'s bodies on the other chart\'s houses', () => {
+      const { house_overlays: overlays } = swissEphemerisService.calculateSynastry(
+        positionsA, houseCuspsA, positionsB, houseCuspsB
+      );
+      const inOwnHouses = swissEphemerisService.calculateSynastry(positionsA, houseCuspsA, positionsA, houseCuspsA);
+
+      expect(overlays.a_in_b).toHaveLength(positionsA.length);
+      expect(overlays.b_in_a).toHaveLength(positionsB.length);
+
+      // Overlaying a chart on its own houses reproduces its natal house placements
+      for (const overlay of inOwnHouses.house_overlays.a_in_b) {
+        if (overlay.body === 'Ascendant' || overlay.body === 'Midheaven') continue;
+        const natal = positionsA.find(position => position.celestial_body === overlay.body)!;
+        expect(overlay.house_number).toBe(natal.house_number);
+      }
+    });
+  });
+
+  describe('Composite chart', () => {
+    it('should place each body at the nearer midpoint of the pair', () => {
+      const composite = swissEphemerisService.calculateCompositeChart(positionsA, houseCuspsA, positionsB, houseCuspsB);
+
+      expect(composite.planetary_positions).toHaveLength(positionsA.length);
+      for (const position of composite.planetary_positions) {
+        const longitudeA = longitudeOf(positionsA, position.celestial_body!);
+        const longitudeB = longitudeOf(positionsB, position.celestial_body!);
+        const halfSeparation = angularDifference(longitudeA, longitudeB) / 2;
+
+        expect(angularDifference(position.longitude, longitudeA)).toBeCloseTo(halfSeparation, 9);
+        expect(angularDifference(position.longitude, longitudeB)).toBeCloseTo(halfSeparation, 9);
+      }
+    });
+
+    it('should take the midpoint across 0° Aries', () => {
+      const sunAt = (longitude: number): PlanetaryPosition[] => [{
+        body: 'Sun',
+        celestial_body: 'Sun',
+        longitude,
+        latitude: 0,
+        zodiac_sign: 'Aries',
+        degree_in_sign: 0
+      }];
+
+      const composite = swissEphemerisService.calculateCompositeChart(sunAt(350), houseCuspsA, sunAt(20), houseCuspsB);
+
+      expect(composite.planetary_positions[0]!.longitude).toBeCloseTo(5, 9);
+    });
+
+    it('should keep composite house cusps in zodiacal order', () => {
+      const composite = swissEphemerisService.calculateCompositeChart(positionsA, houseCuspsA, positionsB, houseCuspsB);
+
+      let total = 0;
+      composite.house_cusps.forEach((cusp, index) => {
+        const next = composite.house_cusps[(index + 1) % 12]!;
+        total += (next.cusp_longitude - cusp.cusp_longitude + 360) % 360;
+      });
+      expect(total).toBeCloseTo(360, 6);
+    });
+
+    it('should reproduce a chart composited with itself', () => {
+      const composite = swissEphemerisService.calculateCompositeChart(positionsA, houseCuspsA, positionsA, houseCuspsA);
+
+      composite.house_cusps.forEach((cusp, index) => {
+        expect(angularDifference(cusp.cusp_longitude, houseCuspsA[index]!.cusp_longitude)).toBeLessThan(1e-9);
+      });
+      for (const position of composite.planetary_positions) {
+        expect(angularDifference(position.longitude, longitudeOf(positionsA, position.celestial_body!))).toBeLessThan(1e-9);
+      }
+    });
+  });
+});
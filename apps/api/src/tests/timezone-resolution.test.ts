@@ -0,0 +1,79 @@
+import { TimezoneService } from '../services/timezoneService';
+import * as testData from '../test-data/test-natal-chart.json';
+
+describe('Birth Time Zone Resolution', () => {
+  let timezoneService: TimezoneService;
+
+  beforeAll(() => {
+    timezoneService = TimezoneService.getInstance();
+  });
+
+  describe('Zone lookup from coordinates', () => {
+    it.each([
+      ['Vancouver', 49.2608724, -123.113952, 'America/Vancouver'],
+      ['London', 51.5074, -0.1278, 'Europe/London'],
+      ['New Delhi', 28.6139, 77.209, 'Asia/Kolkata'],
+      ['Sydney', -33.8688, 151.2093, 'Australia/Sydney'],
+      ['Phoenix', 33.4484, -112.074, 'America/Phoenix']
+    ])('should resolve %s to its IANA zone', (_label, latitude, longitude, expected) => {
+      expect(timezoneService.lookupTimezone(latitude, longitude)).toBe(expected);
+    });
+  });
+
+  describe('Historical offsets and DST', () => {
+    it('should resolve the Vancouver test case to PDT', () => {
+      const resolved = timezoneService.resolveBirthTime(
+        testData.birth_data.birth_date,
+        testData.birth_data.birth_time,
+        testData.birth_data.latitude,
+        testData.birth_data.longitude
+      );
+
+      expect(resolved.timezone).toBe('America/Vancouver');
+      expect(resolved.timezone_source).toBe('coordinates');
+      expect(resolved.utc_offset_minutes).toBe(-420);
+      expect(resolved.utc_datetime.toISOString()).toBe('1977-05-17T18:29:00.000Z');
+    });
+
+    it.each([
+      ['a Vancouver winter birth (PST)', '1977-01-17', '11:29', 'America/Vancouver', -480, '1977-01-17T19:29:00.000Z'],
+      ['British Double Summer Time', '1944-06-06', '12:00', 'Europe/London', 120, '1944-06-06T10:00:00.000Z'],
+      ['US war time', '1943-01-15', '12:00', 'America/New_York', -240, '1943-01-15T16:00:00.000Z'],
+      ['a half-hour zone', '1985-07-01', '08:00', 'Asia/Kolkata', 330, '1985-07-01T02:30:00.000Z'],
+      ['southern hemisphere summer time', '1990-01-15', '20:00', 'Australia/Sydney', 660, '1990-01-15T09:00:00.000Z'],
+      ['a zone without DST', '1990-07-01', '12:00', 'America/Phoenix', -420, '1990-07-01T19:00:00.000Z']
+    ])('should apply the offset in force for %s', (_label, date, time, timezone, offset, utc) => {
+      const resolved = timezoneService.resolveBirthTime(date, time, 0, 0, timezone);
+
+      expect(resolved.timezone_source).toBe('provided');
+      expect(resolved.utc_offset_minutes).toBe(offset);
+      expect(resolved.utc_datetime.toISOString()).toBe(utc);
+    });
+
+    it('should read ambiguous fall-back times as the first occurrence', () => {
+      const utc = timezoneService.localToUtc('2021-11-07', '01:30', 'America/New_York');
+      expect(utc.toISOString()).toBe('2021-11-07T05:30:00.000Z');
+    });
+
+    it('should read skipped spring-forward times with the pre-transition offset', () => {
+      const utc = timezoneService.localToUtc('2021-03-14', '02:30', 'America/New_York');
+      expect(utc.toISOString()).toBe('2021-03-14T07:30:00.000Z');
+    });
+
+    it('should round-trip UTC instants back to local wall-clock time', () => {
+      const utc = timezoneService.localToUtc('1977-05-17', '11:29', 'America/Vancouver');
+      expect(timezoneService.utcToLocal(utc, 'America/Vancouver')).toEqual({ date: '1977-05-17', time: '11:29' });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should recognise IANA zone names', () => {
+      expect(timezoneService.isValidTimezone('Europe/Paris')).toBe(true);
+      expect(timezoneService.isValidTimezone('PDT (UTC-7)')).toBe(false);
+    });
+
+    it('should reject unknown explicit zones', () => {
+      expect(() => timezoneService.resolveBirthTime('1977-05-17', '11:29', 0, 0, 'Mars/Olympus_Mons')).toThrow('Unknown time zone');
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TraitRuleEngine, TraitRuleSet, TraitChart } from '../services/traitRuleEngine';
+import { AspectData, CelestialBody, PlanetaryPosition, ZodiacSign } from '../types';
+
+describe('Trait Rule Engine', () => {
+  let engine: TraitRuleEngine;
+
+  const defaults = {
+    communication_style: 'balanced',
+    decision_making_pattern: 'measured',
+    stress_response: 'resilient',
+    leadership_tendency: 'supportive',
+    growth_orientation: 'learning'
+  };
+
+  // Build a chart from body placements and aspects
+  const chartOf = (
+    placements: Array<[CelestialBody, ZodiacSign, number?]>,
+    aspects: Array<[CelestialBody, CelestialBody, AspectData['aspect_type']]> = []
+  ): TraitChart => ({
+    positions: placements.map(([body, sign, houseNumber]): PlanetaryPosition => ({
+      body,
+      celestial_body: body,
+      longitude: 0,
+      latitude: 0,
+      zodiac_sign: sign,
+      degree_in_sign: 0,
+      ...(houseNumber !== undefined && { house_number: houseNumber })
+    })),
+    aspects: aspects.map(([body1, body2, aspectType]) => ({
+      body1,
+      body2,
+      aspect_type: aspectType,
+      orb: 1.25,
+      exact_angle: 90,
+      applying: true
+    }))
+  });
+
+  const ruleSet = (rules: TraitRuleSet['rules']): TraitRuleSet => ({ version: 7, defaults, rules });
+
+  beforeAll(() => {
+    engine = TraitRuleEngine.getInstance();
+  });
+
+  describe('Synthesis', () => {
+    it('should pick the outcome with the highest summed weight', () => {
+      const rules = ruleSet([
+        { id: 'sun', trait: 'stress_response', weight: 3, factor: { type: 'placement', body: 'Sun', by: 'sign' }, outcomes: { Leo: 'proud' } },
+        { id: 'moon', trait: 'stress_response', weight: 2, factor: { type: 'placement', body: 'Moon', by: 'sign' }, outcomes: { Cancer: 'withdrawn' } },
+        { id: 'saturn', trait: 'stress_response', weight: 2, factor: { type: 'aspect', bodies: ['Moon', 'Saturn'], aspects: ['square'] }, outcomes: { '*': 'withdrawn' } }
+      ]);
+
+      const synthesis = engine.synthesize(chartOf([['Sun', 'Leo'], ['Moon', 'Cancer']], [['Saturn', 'Moon', 'square']]), rules);
+      const stress = synthesis.explanations.find(explanation => explanation.trait === 'stress_response')!;
+
+      expect(synthesis.traits.stress_response).toBe('withdrawn');
+      expect(synthesis.rules_version).toBe(7);
+      expect(stress).toMatchObject({ value: 'withdrawn', score: 4, total_score: 7 });
+      expect(stress.contributions).toEqual([
+        { rule_id: 'sun', factor: 'Sun in Leo', outcome: 'proud', weight: 3 },
+        { rule_id: 'moon', factor: 'Moon in Cancer', outcome: 'withdrawn', weight: 2 },
+        { rule_id: 'saturn', factor: 'Moon square Saturn (orb 1.3°)', outcome: 'withdrawn', weight: 2 }
+      ]);
+    });
+
+    it('should fall back to the default when no rule fires', () => {
+      const rules = ruleSet([
+        { id: 'sun', trait: 'growth_orientation', weight: 1, factor: { type: 'placement', body: 'Sun', by: 'house' }, outcomes: { '10': 'ambitious' } }
+      ]);
+
+      // The Sun has no house without a birth time
+      const synthesis = engine.synthesize(chartOf([['Sun', 'Leo']]), rules);
+
+      expect(synthesis.traits).toEqual(defaults);
+      expect(synthesis.explanations.every(explanation => explanation.contributions.length === 0)).toBe(true);
+    });
+
+    it('should read elements, modalities and houses', () => {
+      const rules = ruleSet([
+        { id: 'element', trait: 'decision_making_pattern', weight: 1, factor: { type: 'dominant', by: 'element', min: 3 }, outcomes: { fire: 'bold' } },
+        { id: 'modality', trait: 'leadership_tendency', weight: 1, factor: { type: 'placement', body: 'Mars', by: 'modality' }, outcomes: { cardinal: 'driving' } },
+        { id: 'house', trait: 'communication_style', weight: 1, factor: { type: 'placement', body: 'Mercury', by: 'house' }, outcomes: { '3': 'chatty' } }
+      ]);
+
+      const synthesis = engine.synthesize(
+        chartOf([['Sun', 'Leo'], ['Mars', 'Aries'], ['Jupiter', 'Sagittarius'], ['Mercury', 'Virgo', 3]]),
+        rules
+      );
+
+      expect(synthesis.traits).toMatchObject({
+        decision_making_pattern: 'bold',
+        leadership_tendency: 'driving',
+        communication_style: 'chatty'
+      });
+      expect(synthesis.explanations.find(explanation => explanation.trait === 'decision_making_pattern')!.contributions[0]!.factor)
+        .toBe('3 planets in fire signs');
+    });
+
+    it('should skip house and Ascendant rules for a chart without houses', () => {
+      const rules = ruleSet([
+        { id: 'house', trait: 'communication_style', weight: 1, factor: { type: 'placement', body: 'Mercury', by: 'house' }, outcomes: { '*': 'chatty' } },
+        { id: 'rising', trait: 'leadership_tendency', weight: 1, factor: { type: 'placement', body: 'Ascendant', by: 'sign' }, outcomes: { '*': 'visible' } }
+      ]);
+
+      // As calculated from a birth date alone: no house numbers and no angles
+      const synthesis = engine.synthesize(chartOf([['Sun', 'Leo'], ['Mercury', 'Virgo']]), rules);
+
+      expect(synthesis.traits).toEqual(defaults);
+      expect(synthesis.explanations.flatMap(explanation => explanation.contributions)).toEqual([]);
+    });
+
+    it('should find no dominant element when two are tied', () => {
+      const rules = ruleSet([
+        { id: 'element', trait: 'decision_making_pattern', weight: 1, factor: { type: 'dominant', by: 'element', min: 2 }, outcomes: { '*': 'focused' } }
+      ]);
+
+      const synthesis = engine.synthesize(chartOf([['Sun', 'Leo'], ['Mars', 'Aries'], ['Moon', 'Cancer'], ['Venus', 'Pisces']]), rules);
+
+      expect(synthesis.traits.decision_making_pattern).toBe('measured');
+    });
+
+    it('should scale weights by planetary strength when the rule set asks for it', () => {
+      const rules: TraitRuleSet = {
+        ...ruleSet([
+          { id: 'sun', trait: 'leadership_tendency', weight: 2, factor: { type: 'placement', body: 'Sun', by: 'sign' }, outcomes: { Leo: 'commanding' } },
+          { id: 'mars', trait: 'leadership_tendency', weight: 2, factor: { type: 'placement', body: 'Mars', by: 'sign' }, outcomes: { Libra: 'diplomatic' } },
+          { id: 'square', trait: 'stress_response', weight: 2, factor: { type: 'aspect', bodies: ['Sun', 'Mars'], aspects: ['square'] }, outcomes: { '*': 'tense' } }
+        ]),
+        weight_by_strength: true
+      };
+      const chart = {
+        ...chartOf([['Sun', 'Leo'], ['Mars', 'Libra']], [['Sun', 'Mars', 'square']]),
+        strengths: { Sun: 0.75 }
+      };
+
+      const synthesis = engine.synthesize(chart, rules);
+      const leadership = synthesis.explanations.find(explanation => explanation.trait === 'leadership_tendency')!;
+
+      // The weakened Sun loses to Mars, which has no strength and keeps its weight
+      expect(synthesis.traits.leadership_tendency).toBe('diplomatic');
+      expect(leadership.contributions).toEqual([
+        { rule_id: 'mars', factor: 'Mars in Libra', outcome: 'diplomatic', weight: 2, strength: 1 },
+        { rule_id: 'sun', factor: 'Sun in Leo', outcome: 'commanding', weight: 1.5, strength: 0.75 }
+      ]);
+      expect(synthesis.explanations.find(explanation => explanation.trait === 'stress_response')!.contributions[0])
+        .toMatchObject({ weight: 1.75, strength: 0.875 });
+      expect(engine.synthesize(chart, ruleSet(rules.rules)).traits.leadership_tendency).toBe('commanding');
+    });
+  });
+
+  describe('Rule files', () => {
+    it('should load the latest bundled rule set', () => {
+      const bundled = engine.getRuleSet();
+
+      expect(bundled.version).toBeGreaterThanOrEqual(1);
+      expect(bundled.rules.length).toBeGreaterThan(0);
+    });
+
+    it('should reject an unknown rule set version', () => {
+      expect(() => engine.getRuleSet(999)).toThrow('Trait rule file not found');
+    });
+
+    // Load a rule file through a fresh engine reading a scratch directory
+    const loadRuleFile = (rules: unknown[]): TraitRuleSet => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trait-rules-'));
+      fs.writeFileSync(path.join(dir, 'v1.json'), JSON.stringify({ version: 1, defaults, rules }));
+      process.env['TRAIT_RULES_DIR'] = dir;
+      try {
+        let isolated!: TraitRuleEngine;
+        jest.isolateModules(() => {
+          isolated = require('../services/traitRuleEngine').TraitRuleEngine.getInstance();
+        });
+        return isolated.getRuleSet(1);
+      } finally {
+        delete process.env['TRAIT_RULES_DIR'];
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+
+    const ruleWith = (factor: unknown) => ({ id: 'rule', trait: 'stress_response', weight: 1, factor, outcomes: { '*': 'steady' } });
+
+    it('should load a rule file whose factors are complete', () => {
+      const loaded = loadRuleFile([
+        { ...ruleWith({ type: 'placement', body: 'Moon', by: 'house' }), id: 'moon' },
+        { ...ruleWith({ type: 'aspect', bodies: ['Sun', 'Saturn'], aspects: ['square'] }), id: 'sun-saturn' },
+        { ...ruleWith({ type: 'dominant', by: 'element', min: 4 }), id: 'element' }
+      ]);
+
+      expect(loaded.rules).toHaveLength(3);
+    });
+
+    it('should reject factors missing the fields their type reads', () => {
+      expect(() => loadRuleFile([ruleWith({ type: 'placement', body: 'Moon' })])).toThrow('placement must be by');
+      expect(() => loadRuleFile([ruleWith({ type: 'placement', body: 'Vulcan', by: 'sign' })])).toThrow('unknown placement body "Vulcan"');
+      expect(() => loadRuleFile([ruleWith({ type: 'aspect', bodies: ['Sun'], aspects: ['square'] })])).toThrow('aspect needs two known bodies');
+      expect(() => loadRuleFile([ruleWith({ type: 'aspect', bodies: 'Sun-Moon', aspects: ['square'] })])).toThrow('aspect needs two known bodies');
+      expect(() => loadRuleFile([ruleWith({ type: 'aspect', bodies: ['Sun', 'Moon'] })])).toThrow('aspect needs a list of known aspect types');
+      expect(() => loadRuleFile([ruleWith({ type: 'dominant', by: 'element' })])).toThrow('dominant min must be a positive integer');
+      expect(() => loadRuleFile([ruleWith({ type: 'dominant', by: 'house', min: 3 })])).toThrow('dominant must be by');
+      expect(() => loadRuleFile([ruleWith(null)])).toThrow('unknown factor type');
+    });
+
+    it('should load the bundled rules from the build output', () => {
+      const apiRoot = path.join(__dirname, '..', '..');
+      const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-build-'));
+      try {
+        // The same steps as npm run build, into a scratch directory
+        execFileSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', apiRoot, '--outDir', outDir]);
+        execFileSync(process.execPath, [path.join(apiRoot, 'scripts', 'copy-rules.js'), outDir]);
+
+        const { TRAIT_RULES_DIR, TRAIT_RULES_VERSION, ...env } = process.env;
+        const output = execFileSync(process.execPath, [
+          '-e',
+          "const { TraitRuleEngine } = require('./services/traitRuleEngine');" +
+          "process.stdout.write('\\n' + TraitRuleEngine.getInstance().getRuleSet().version)"
+        ], { cwd: outDir, env: { ...env, NODE_PATH: module.paths.join(path.delimiter) } }).toString();
+
+        expect(Number(output.split('\n').pop())).toBe(engine.getRuleSet().version);
+      } finally {
+        fs.rmSync(outDir, { recursive: true, force: true });
+      }
+    }, 120000);
+  });
+});
@@ -0,0 +1,80 @@
+// Minimal type declarations for the parts of astronomia used by the ephemeris engine.
+// astronomia ships untyped CommonJS builds; angles are radians and times are Julian days.
+
+declare module 'astronomia' {
+  export interface SphericalPosition {
+    lon: number;
+    lat: number;
+    range: number;
+  }
+
+  export namespace base {
+    const J2000: number;
+    function JDEToJulianYear(jde: number): number;
+    function lightTime(distance: number): number;
+  }
+
+  export namespace coord {
+    class Ecliptic {
+      constructor(lon?: number, lat?: number);
+      lon: number;
+      lat: number;
+    }
+  }
+
+  export namespace planetposition {
+    class Planet {
+      constructor(data: object);
+      name: string;
+      position(jde: number): SphericalPosition;
+      position2000(jde: number): SphericalPosition;
+    }
+    function toFK5(lon: number, lat: number, jde: number): { lon: number; lat: number };
+  }
+
+  export namespace apparent {
+    function eclipticAberration(lon: number, lat: number, jde: number): [number, number];
+  }
+
+  export namespace solar {
+    function apparentVSOP87(earth: planetposition.Planet, jde: number): SphericalPosition;
+  }
+
+  export namespace moonposition {
+    function position(jde: number): SphericalPosition;
+    function trueNode(jde: number): number;
+    function perigee(jde: number): number;
+  }
+
+  export namespace pluto {
+    function heliocentric(jde: number): SphericalPosition;
+  }
+
+  export namespace precess {
+    function eclipticPosition(
+      eclFrom: coord.Ecliptic,
+      epochFrom: number,
+      epochTo: number,
+      mα?: number,
+      mδ?: number
+    ): coord.Ecliptic;
+  }
+
+  export namespace nutation {
+    function nutation(jde: number): [number, number];
+    function meanObliquity(jde: number): number;
+  }
+
+  export namespace sidereal {
+    function apparent(jd: number): number;
+  }
+
+  export namespace deltat {
+    function deltaT(decimalYear: number): number;
+  }
+}
+
+declare module 'astronomia/data' {
+  const data: Record<string, object>;
+  export default data;
+}
@@ -69,6 +69,7 @@ export interface MemoryEmbedding {
   embedding_id: string;
   memory_id: string;
   embedding_vector: number[];
+  embedding_model: string; // Provider, model and dimensions, e.g. local/hashed-tfidf-v1@512
   content_hash: string;
   created_at: Date;
 }
@@ -125,8 +126,9 @@ export interface MemorySearchQuery {
 
 export interface MemorySearchResult {
   memory: UserMemoryBank;
-  relevance_score: number;
-  embedding?: MemoryEmbedding;
+  relevance_score: number; // Similarity, importance and recency combined, 0-1
+  similarity_score: number; // Cosine similarity of the memory to the query
+  embedding?: MemoryEmbedding; // Only with include_embeddings
 }
 
 export interface PatternAnalysisResult {
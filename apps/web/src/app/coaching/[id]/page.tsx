@@ -15,7 +15,19 @@ import {
 } from 'lucide-react';
 import apiClient from '@/lib/api';
 import socketService from '@/lib/socket';
-import { CoachingSession, Message } from '@/types';
+import {
+  CoachingSession,
+  CoachMessageCompleteEvent,
+  CoachMessageDeltaEvent,
+  Message,
+  SessionStatusChangedEvent
+} from '@/types';
+
+// Text of a coach response still streaming, and the sequence of its last delta
+interface StreamingResponse {
+  content: string;
+  sequence: number;
+}
 
 export default function CoachingChatPage() {
   const [conversation, setConversation] = useState<CoachingSession | null>(null);
@@ -24,9 +36,12 @@ export default function CoachingChatPage() {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [connected, setConnected] = useState(false);
+  const [streamingResponses, setStreamingResponses] = useState<Record<string, StreamingResponse>>({});
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const completedStreamsRef = useRef<Set<string>>(new Set());
   const hasLoadedRef = useRef(false);
+  const lastMessageIdRef = useRef<string | null>(null);
   const { isAuthenticated } = useAuth();
   const params = useParams();
   const router = useRouter();
@@ -49,7 +64,9 @@ export default function CoachingChatPage() {
       socketService.off('disconnect');
       socketService.off('session_joined');
       socketService.off('new_message');
-      socketService.off('conversation_updated');
+      socketService.off('coach_message_delta');
+      socketService.off('coach_message_complete');
+      socketService.off('session_status_changed');
       socketService.off('connect_error');
       socketService.disconnect();
     };
@@ -57,8 +74,37 @@ export default function CoachingChatPage() {
 
   useEffect(() => {
     scrollToBottom();
+  }, [messages, streamingResponses]);
+
+  useEffect(() => {
+    lastMessageIdRef.current = messages[messages.length - 1]?.message_id ?? null;
   }, [messages]);
 
+  // Add messages not shown yet, keeping their order
+  const addMessages = (incoming: Message[]) => {
+    setMessages(prev => {
+      const known = new Set(prev.map(m => m.message_id));
+      const added = incoming.filter(m => !known.has(m.message_id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
+
+  // Fetch what was stored while the socket was down, page by page
+  const catchUp = async (afterMessageId: string) => {
+    let cursor = afterMessageId;
+    for (;;) {
+      const response = await socketService.syncMessages({ conversation_id: conversationId, after_message_id: cursor });
+      if (!response.success) {
+        console.error('❌ FRONTEND DEBUG: Message sync failed', response.error);
+        return;
+      }
+      addMessages(response.data.messages);
+      const last = response.data.messages[response.data.messages.length - 1];
+      if (!response.data.has_more || !last) return;
+      cursor = last.message_id;
+    }
+  };
+
   const loadConversation = async () => {
     try {
       setLoading(true);
@@ -97,7 +143,14 @@ export default function CoachingChatPage() {
       setConnected(true);
       
       // Join the coaching session room
-      socketService.emit('join_coaching_session', { conversation_id: conversationId });
+      socketService.joinConversation(conversationId);
+
+      // After a reconnect, pick up the messages missed while disconnected
+      if (lastMessageIdRef.current) {
+        catchUp(lastMessageIdRef.current).catch(error => {
+          console.error('💥 FRONTEND DEBUG: Message sync failed:', error);
+        });
+      }
     });
 
     socketService.on('disconnect', () => {
@@ -127,12 +180,37 @@ export default function CoachingChatPage() {
       });
     });
 
-    socketService.on('conversation_updated', (updatedConversation: CoachingSession) => {
-      console.log('🔄 FRONTEND DEBUG: Conversation updated via socket', {
-        conversationId: updatedConversation.conversation_id,
-        status: updatedConversation.status
+    // Streamed coach responses grow delta by delta until the stored message replaces them
+    socketService.onCoachMessageDelta((event: CoachMessageDeltaEvent) => {
+      if (completedStreamsRef.current.has(event.stream_id)) return;
+      setStreamingResponses(prev => {
+        const current = prev[event.stream_id] ?? { content: '', sequence: -1 };
+        if (event.sequence <= current.sequence) return prev;
+        return {
+          ...prev,
+          [event.stream_id]: { content: current.content + event.delta, sequence: event.sequence }
+        };
       });
-      setConversation(updatedConversation);
+    });
+
+    socketService.onCoachMessageComplete((event: CoachMessageCompleteEvent) => {
+      completedStreamsRef.current.add(event.stream_id);
+      setStreamingResponses(prev => {
+        const { [event.stream_id]: _completed, ...rest } = prev;
+        return rest;
+      });
+      setMessages(prev =>
+        prev.find(m => m.message_id === event.message.message_id) ? prev : [...prev, event.message]
+      );
+    });
+
+    socketService.onSessionStatusChanged((event: SessionStatusChangedEvent) => {
+      console.log('🔄 FRONTEND DEBUG: Session status changed via socket', {
+        conversationId: event.conversation_id,
+        status: event.status
+      });
+      if (event.conversation_id !== conversationId) return;
+      setConversation(prev => (prev ? { ...prev, status: event.status } : prev));
     });
 
     // Listen for socket connection errors
@@ -154,7 +232,14 @@ export default function CoachingChatPage() {
         messageContent: newMessage.trim(),
         currentMessagesCount: messages.length
       });
+
+      // Send over the socket while it is connected; the messages arrive as socket events
+      if (socketService.connected) {
+        await sendOverSocket(newMessage.trim());
+        return;
+      }
       
+      // Without a socket nothing could carry a stream, so the reply holds the coach response
       const response = await apiClient.sendCoachingMessage(conversationId, {
         content: newMessage.trim(),
         message_type: 'user_message'
@@ -169,47 +254,22 @@ export default function CoachingChatPage() {
         fullResponse: response
       });
 
-      if (response.success) {
+      if (response.success && response.data?.user_message) {
         setNewMessage('');
-        
-        // Handle response based on what was received
-        if (response.data?.user_message && response.data?.coach_response) {
-          console.log('✅ FRONTEND DEBUG: Both messages received via HTTP', {
-            userMessageId: response.data.user_message.message_id,
-            coachMessageId: response.data.coach_response.message_id,
-            isFallback: response.data.is_fallback || false,
-            coachContent: response.data.coach_response.content?.substring(0, 100) + '...'
-          });
-          
-          // If HTTP response includes both messages, add them to the UI immediately
-          // This ensures users see responses even if WebSocket has issues
-          // Use functional updates to avoid stale closure issues
-          setMessages(prev => {
-            const newMessages = [...prev];
-            if (!prev.find(m => m.message_id === response.data.user_message.message_id)) {
-              newMessages.push(response.data.user_message);
-            }
-            if (!prev.find(m => m.message_id === response.data.coach_response.message_id)) {
-              newMessages.push(response.data.coach_response);
-            }
-            return newMessages;
-          });
-        } else if (response.data?.user_message) {
-          console.log('⚠️ FRONTEND DEBUG: Only user message received via HTTP', {
-            userMessageId: response.data.user_message.message_id,
-            hasError: 'error' in response.data
-          });
-          
-          // Add user message if not already present
-          setMessages(prev => {
-            if (!prev.find(m => m.message_id === response.data.user_message.message_id)) {
-              return [...prev, response.data.user_message];
-            }
-            return prev;
-          });
-        } else {
-          console.error('❌ FRONTEND DEBUG: No messages in response data');
-        }
+
+        const { user_message: userMessage, coach_response: coachResponse } = response.data;
+
+        // Add the messages from the HTTP response so they show even if the socket has issues
+        setMessages(prev => {
+          const newMessages = [...prev];
+          if (!prev.find(m => m.message_id === userMessage.message_id)) {
+            newMessages.push(userMessage);
+          }
+          if (coachResponse && !prev.find(m => m.message_id === coachResponse.message_id)) {
+            newMessages.push(coachResponse);
+          }
+          return newMessages;
+        });
       } else {
         console.error('❌ FRONTEND DEBUG: API call failed', {
           message: response.message,
@@ -223,6 +283,38 @@ export default function CoachingChatPage() {
     }
   };
 
+  // Sends a message over the socket, trying once more with the same client id when the
+  // acknowledgement does not arrive, so the message is stored once either way
+  const sendOverSocket = async (content: string) => {
+    const payload = {
+      conversation_id: conversationId,
+      client_message_id: crypto.randomUUID(),
+      content,
+      stream: true
+    };
+
+    let response;
+    try {
+      response = await socketService.sendMessage(payload);
+    } catch (ackTimeout) {
+      console.warn('⚠️ FRONTEND DEBUG: No acknowledgement, sending again', ackTimeout);
+      response = await socketService.sendMessage(payload);
+    }
+
+    if (!response.success) {
+      console.error('❌ FRONTEND DEBUG: Socket send failed', response.error);
+      return;
+    }
+
+    setNewMessage('');
+    const streamId = response.data.stream_id;
+    if (streamId && !completedStreamsRef.current.has(streamId)) {
+      setStreamingResponses(prev =>
+        prev[streamId] ? prev : { ...prev, [streamId]: { content: '', sequence: -1 } }
+      );
+    }
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -361,6 +453,25 @@ export default function CoachingChatPage() {
               </div>
             ))
           )}
+          {Object.entries(streamingResponses).map(([streamId, streaming]) => (
+            <div key={streamId} className="flex justify-start">
+              <div className="max-w-xs lg:max-w-md px-4 py-3 rounded-lg bg-white text-gray-900 shadow-sm border border-gray-200">
+                <div className="flex items-start space-x-2">
+                  <Bot className="h-5 w-5 text-purple-600 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    {streaming.content ? (
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                        {streaming.content}
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-600 animate-pulse" />
+                      </p>
+                    ) : (
+                      <Loader2 className="h-4 w-4 animate-spin text-purple-600" />
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
           <div ref={messagesEndRef} />
         </div>
       </div>
@@ -49,6 +49,9 @@ const ASPECT_COLORS: Record<string, string> = {
   'quincunx': 'text-purple-500',
   'semisquare': 'text-yellow-600',
   'sesquiquadrate': 'text-pink-500',
+  'semisextile': 'text-sky-500',
+  'quintile': 'text-teal-500',
+  'biquintile': 'text-cyan-600',
 };
 
 export default function NatalChartDisplay({ chart }: NatalChartDisplayProps) {
@@ -174,7 +177,12 @@ export default function NatalChartDisplay({ chart }: NatalChartDisplayProps) {
                 <div className="grid md:grid-cols-2 gap-4 text-sm">
                   <div>
                     <span className="text-gray-600">House System:</span>
-                    <span className="ml-2 font-medium">{chart.house_system}</span>
+                    <span className="ml-2 font-medium">
+                      {chart.house_system_fallback ? chart.house_system_fallback.used : chart.house_system}
+                    </span>
+                    {chart.house_system_fallback && (
+                      <p className="text-xs text-gray-500 mt-1">{chart.house_system_fallback.reason}</p>
+                    )}
                   </div>
                   <div>
                     <span className="text-gray-600">Coordinates:</span>
@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { 
   APIResponse, 
   AuthResult, 
+  AuthSession,
   LoginData, 
   RegisterData, 
   User, 
@@ -16,12 +17,26 @@ import {
   NatalChart,
   PlanetaryPosition,
   HouseCusp,
-  AspectData
+  AspectsQueryParams,
+  AspectsResponse,
+  AspectSettings,
+  UpdateAspectSettingsRequest,
+  ChartStatisticsResponse,
+  ChartDignitiesResponse,
+  RulershipScheme,
+  PatternAnalysisJob
 } from '@/types';
 
+// Auth endpoints that do not take the access token; a 401 from them is not retried
+const TOKEN_ENDPOINTS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
+// Web Locks name held while a tab refreshes the shared refresh token
+const REFRESH_LOCK = 'agentic-counsel:refresh-token';
+
 class ApiClient {
   private client: AxiosInstance;
   private token: string | null = null;
+  private refreshing: Promise<string | null> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -47,6 +62,16 @@ class ApiClient {
     this.client.interceptors.response.use(
       (response) => response,
       async (error) => {
+        const request = error.config;
+        // The access token expired: renew it with the refresh token and retry once
+        if (error.response?.status === 401 && request && !request._retried && !TOKEN_ENDPOINTS.includes(request.url)) {
+          const token = await this.refreshAccessToken();
+          if (token) {
+            request._retried = true;
+            request.headers.Authorization = `Bearer ${token}`;
+            return this.client(request);
+          }
+        }
         if (error.response?.status === 401) {
           console.error('Authentication failed - clearing token and redirecting to login');
           // Token expired or invalid
@@ -66,12 +91,15 @@ class ApiClient {
     }
   }
 
-  setToken(token: string) {
+  setToken(token: string, refreshToken?: string) {
     this.token = token;
+    if (refreshToken) {
+      this.setRefreshToken(refreshToken);
+    }
     if (typeof window !== 'undefined') {
       // Store token in cookies for middleware access
       const expires = new Date();
-      expires.setDate(expires.getDate() + 7); // 7 days to match JWT expiration
+      expires.setDate(expires.getDate() + 7); // 7 days to match the refresh token, which renews the JWT
       
       document.cookie = `auth_token=${token}; expires=${expires.toUTCString()}; path=/; SameSite=Lax; Secure=${window.location.protocol === 'https:'}`;
       
@@ -88,7 +116,58 @@ class ApiClient {
       
       // Clear from localStorage
       localStorage.removeItem('auth_token');
+      localStorage.removeItem('refresh_token');
+    }
+  }
+
+  // Refresh tokens are single use: each refresh replaces the stored one
+  private setRefreshToken(refreshToken: string) {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('refresh_token', refreshToken);
+    }
+  }
+
+  private getRefreshToken(): string | null {
+    return typeof window !== 'undefined' ? localStorage.getItem('refresh_token') : null;
+  }
+
+  /**
+   * Renew the access token with the refresh token. Requests that fail together wait for
+   * the same new token, and tabs take turns through a shared lock: the refresh token is
+   * single use, and sending it twice would end the session on every device.
+   */
+  refreshAccessToken(): Promise<string | null> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) return Promise.resolve(null);
+    if (!this.refreshing) {
+      this.refreshing = this.withRefreshLock(() => this.refreshUnlessRenewed(refreshToken))
+        .catch(() => null)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  // Another tab may have refreshed while this one waited for the lock; its new tokens are used then
+  private async refreshUnlessRenewed(refreshToken: string): Promise<string | null> {
+    const storedRefreshToken = this.getRefreshToken();
+    if (!storedRefreshToken) return null;
+
+    const storedToken = localStorage.getItem('auth_token');
+    if (storedRefreshToken !== refreshToken && storedToken) {
+      this.setToken(storedToken);
+      return storedToken;
     }
+
+    const response = await this.refreshToken();
+    return response.data?.token ?? null;
+  }
+
+  // Runs the refresh holding a lock shared by the tabs of this origin, where the browser has one
+  private withRefreshLock<T>(refresh: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !('locks' in navigator)) return refresh();
+    return navigator.locks.request(REFRESH_LOCK, refresh);
   }
 
   private getTokenFromCookies(): string | null {
@@ -118,7 +197,7 @@ class ApiClient {
   async login(data: LoginData): Promise<APIResponse<AuthResult>> {
     const response: AxiosResponse<APIResponse<AuthResult>> = await this.client.post('/api/auth/login', data);
     if (response.data.success && response.data.data?.token) {
-      this.setToken(response.data.data.token);
+      this.setToken(response.data.data.token, response.data.data.refresh_token);
     }
     return response.data;
   }
@@ -126,7 +205,7 @@ class ApiClient {
   async register(data: RegisterData): Promise<APIResponse<AuthResult>> {
     const response: AxiosResponse<APIResponse<AuthResult>> = await this.client.post('/api/auth/register', data);
     if (response.data.success && response.data.data?.token) {
-      this.setToken(response.data.data.token);
+      this.setToken(response.data.data.token, response.data.data.refresh_token);
     }
     return response.data;
   }
@@ -143,13 +222,26 @@ class ApiClient {
   }
 
   async refreshToken(): Promise<APIResponse<AuthResult>> {
-    const response: AxiosResponse<APIResponse<AuthResult>> = await this.client.post('/api/auth/refresh');
+    const response: AxiosResponse<APIResponse<AuthResult>> = await this.client.post('/api/auth/refresh', {
+      refresh_token: this.getRefreshToken()
+    });
     if (response.data.success && response.data.data?.token) {
-      this.setToken(response.data.data.token);
+      this.setToken(response.data.data.token, response.data.data.refresh_token);
     }
     return response.data;
   }
 
+  // Devices the user is signed in on
+  async getSessions(): Promise<APIResponse<{ sessions: AuthSession[] }>> {
+    const response: AxiosResponse<APIResponse<{ sessions: AuthSession[] }>> = await this.client.get('/api/auth/sessions');
+    return response.data;
+  }
+
+  async revokeSession(sessionId: string): Promise<APIResponse> {
+    const response: AxiosResponse<APIResponse> = await this.client.delete(`/api/auth/sessions/${sessionId}`);
+    return response.data;
+  }
+
   // User endpoints
   async getUserProfile(): Promise<APIResponse<{ user: User }>> {
     const response: AxiosResponse<APIResponse<{ user: User }>> = await this.client.get('/api/user/profile');
@@ -230,19 +322,21 @@ class ApiClient {
     return response.data as any;
   }
 
+  // With stream, the coach response arrives over the socket and the reply carries its stream_id instead
   async sendCoachingMessage(conversationId: string, messageData: {
     content: string;
     message_type?: string;
     metadata?: any;
-  }): Promise<APIResponse<{ user_message: Message; coach_response: Message; coaching_metadata?: any }>> {
-    const response: AxiosResponse<APIResponse<{ user_message: Message; coach_response: Message; coaching_metadata?: any }>> = await this.client.post(`/api/coaching/conversations/${conversationId}/messages`, messageData, {
+    stream?: boolean;
+  }): Promise<APIResponse<{ user_message: Message; coach_response?: Message; coaching_metadata?: any; stream_id?: string; is_fallback?: boolean }>> {
+    const response: AxiosResponse<APIResponse<{ user_message: Message; coach_response?: Message; coaching_metadata?: any; stream_id?: string; is_fallback?: boolean }>> = await this.client.post(`/api/coaching/conversations/${conversationId}/messages`, messageData, {
       timeout: 30000 // 30 seconds for AI coaching responses
     });
     return response.data;
   }
 
-  async endCoachingSession(conversationId: string): Promise<APIResponse<{ conversation: CoachingSession }>> {
-    const response: AxiosResponse<APIResponse<{ conversation: CoachingSession }>> = await this.client.post(`/api/coaching/conversations/${conversationId}/end`);
+  async endCoachingSession(conversationId: string): Promise<APIResponse<{ conversation: CoachingSession; analysis_job: PatternAnalysisJob | null }>> {
+    const response: AxiosResponse<APIResponse<{ conversation: CoachingSession; analysis_job: PatternAnalysisJob | null }>> = await this.client.post(`/api/coaching/conversations/${conversationId}/end`);
     return response.data;
   }
 
@@ -316,14 +410,40 @@ class ApiClient {
     return response.data;
   }
 
-  async getAspects(chartId: string, params?: { aspect_type?: string; max_orb?: number; applying_only?: boolean }): Promise<APIResponse<AspectData[]>> {
+  async getAspects(chartId: string, params?: AspectsQueryParams): Promise<APIResponse<AspectsResponse>> {
     const queryParams = new URLSearchParams();
     if (params?.aspect_type) queryParams.append('aspect_type', params.aspect_type);
     if (params?.max_orb) queryParams.append('max_orb', params.max_orb.toString());
     if (params?.applying_only) queryParams.append('applying_only', 'true');
+    if (params?.orb_profile) queryParams.append('orb_profile', params.orb_profile);
+    if (params?.sun_orb_modifier !== undefined) queryParams.append('sun_orb_modifier', params.sun_orb_modifier.toString());
+    if (params?.moon_orb_modifier !== undefined) queryParams.append('moon_orb_modifier', params.moon_orb_modifier.toString());
+    if (params?.include_minor_aspects !== undefined) queryParams.append('include_minor_aspects', params.include_minor_aspects.toString());
     
     const url = `/api/astrology/aspects/${chartId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    const response: AxiosResponse<APIResponse<AspectData[]>> = await this.client.get(url);
+    const response: AxiosResponse<APIResponse<AspectsResponse>> = await this.client.get(url);
+    return response.data;
+  }
+
+  async getChartStatistics(chartId: string): Promise<APIResponse<ChartStatisticsResponse>> {
+    const response: AxiosResponse<APIResponse<ChartStatisticsResponse>> = await this.client.get(`/api/astrology/statistics/${chartId}`);
+    return response.data;
+  }
+
+  async getDignities(chartId: string, scheme?: RulershipScheme): Promise<APIResponse<ChartDignitiesResponse>> {
+    const response: AxiosResponse<APIResponse<ChartDignitiesResponse>> = await this.client.get(
+      `/api/astrology/dignities/${chartId}${scheme ? `?scheme=${scheme}` : ''}`
+    );
+    return response.data;
+  }
+
+  async getAspectSettings(): Promise<APIResponse<AspectSettings>> {
+    const response: AxiosResponse<APIResponse<AspectSettings>> = await this.client.get('/api/astrology/aspect-settings');
+    return response.data;
+  }
+
+  async updateAspectSettings(settings: UpdateAspectSettingsRequest): Promise<APIResponse<AspectSettings>> {
+    const response: AxiosResponse<APIResponse<AspectSettings>> = await this.client.put('/api/astrology/aspect-settings', settings);
     return response.data;
   }
 }
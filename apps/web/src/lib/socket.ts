@@ -1,9 +1,43 @@
 import { io, Socket } from 'socket.io-client';
-import { Message } from '@/types';
+import apiClient from './api';
+import {
+  ClientToServerEvents,
+  CoachMessageCompleteEvent,
+  CoachMessageDeltaEvent,
+  InsightsReadyEvent,
+  Message,
+  SendMessagePayload,
+  SendMessageResult,
+  ServerToClientEvents,
+  SessionStatusChangedEvent,
+  SocketAck,
+  SyncMessagesPayload,
+  SyncMessagesResult,
+  UserTypingEvent
+} from '@/types';
+
+// How long to wait for the server to acknowledge an event
+const ACK_TIMEOUT_MS = 10000;
+
+// The error the server's socket middleware rejects an invalid or expired token with
+const AUTHENTICATION_FAILED = 'Authentication failed';
+
+// Socket.IO typed with the event contract shared with the API
+type CoachingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Events Socket.IO itself emits on the client, besides those of the contract
+interface ReservedEvents {
+  connect: () => void;
+  disconnect: (reason: Socket.DisconnectReason) => void;
+  connect_error: (error: Error) => void;
+}
+
+type ListenEvents = ServerToClientEvents & ReservedEvents;
 
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: CoachingSocket | null = null;
   private isConnected = false;
+  private renewingToken = false;
 
   connect(token?: string): void {
     if (this.socket?.connected) {
@@ -25,6 +59,7 @@ class SocketService {
     this.socket.on('connect', () => {
       console.log('Connected to WebSocket server');
       this.isConnected = true;
+      this.renewingToken = false;
     });
 
     this.socket.on('disconnect', () => {
@@ -35,9 +70,24 @@ class SocketService {
     this.socket.on('connect_error', (error) => {
       console.error('WebSocket connection error:', error);
       this.isConnected = false;
+      if (error.message === AUTHENTICATION_FAILED) {
+        this.reconnectWithRenewedToken();
+      }
     });
   }
 
+  // The access token expired: renew it through the API client and connect again, once per expiry
+  private async reconnectWithRenewedToken(): Promise<void> {
+    if (this.renewingToken) return;
+    this.renewingToken = true;
+
+    const token = await apiClient.refreshAccessToken();
+    if (token && this.socket) {
+      this.socket.auth = { token };
+      this.socket.connect();
+    }
+  }
+
   disconnect(): void {
     if (this.socket) {
       this.socket.disconnect();
@@ -56,19 +106,25 @@ class SocketService {
   // Leave a coaching conversation room
   leaveConversation(conversationId: string): void {
     if (this.socket && this.isConnected) {
-      this.socket.emit('leave_conversation', { conversationId });
+      this.socket.emit('leave_coaching_session', { conversation_id: conversationId });
     }
   }
 
-  // Send a message in real-time
-  sendMessage(conversationId: string, content: string, metadata?: any): void {
-    if (this.socket && this.isConnected) {
-      this.socket.emit('send_message', {
-        conversationId,
-        content,
-        metadata
-      });
+  // Send a coaching message; resolves once the server has stored it. A retry with the same
+  // client_message_id returns the stored message instead of sending it twice.
+  async sendMessage(payload: SendMessagePayload): Promise<SocketAck<SendMessageResult>> {
+    if (!this.socket || !this.isConnected) {
+      throw new Error('Socket not connected');
+    }
+    return this.socket.timeout(ACK_TIMEOUT_MS).emitWithAck('send_message', payload);
+  }
+
+  // Fetch the messages stored after the last one the client has, e.g. after a reconnect
+  async syncMessages(payload: SyncMessagesPayload): Promise<SocketAck<SyncMessagesResult>> {
+    if (!this.socket || !this.isConnected) {
+      throw new Error('Socket not connected');
     }
+    return this.socket.timeout(ACK_TIMEOUT_MS).emitWithAck('sync_messages', payload);
   }
 
   // Listen for new messages
@@ -78,62 +134,81 @@ class SocketService {
     }
   }
 
-  // Listen for coach responses
-  onCoachResponse(callback: (message: Message) => void): void {
+  // Listen for the deltas of a streamed coach response
+  onCoachMessageDelta(callback: (event: CoachMessageDeltaEvent) => void): void {
     if (this.socket) {
-      this.socket.on('coach_response', callback);
+      this.socket.on('coach_message_delta', callback);
     }
   }
 
-  // Listen for typing indicators
-  onTyping(callback: (data: { conversationId: string; isTyping: boolean; sender: string }) => void): void {
+  // Listen for the stored coach message that ends a stream
+  onCoachMessageComplete(callback: (event: CoachMessageCompleteEvent) => void): void {
     if (this.socket) {
-      this.socket.on('typing', callback);
+      this.socket.on('coach_message_complete', callback);
+    }
+  }
+
+  // Listen for insights found by the analysis of an ended session
+  onInsightsReady(callback: (event: InsightsReadyEvent) => void): void {
+    if (this.socket) {
+      this.socket.on('insights_ready', callback);
+    }
+  }
+
+  // Listen for typing indicators of other session participants
+  onTyping(callback: (event: UserTypingEvent) => void): void {
+    if (this.socket) {
+      this.socket.on('user_typing', callback);
     }
   }
 
   // Send typing indicator
   sendTyping(conversationId: string, isTyping: boolean): void {
     if (this.socket && this.isConnected) {
-      this.socket.emit('typing', { conversationId, isTyping });
+      this.socket.emit(isTyping ? 'typing_start' : 'typing_stop', { conversation_id: conversationId });
     }
   }
 
-  // Listen for conversation status updates
-  onConversationUpdate(callback: (data: { conversationId: string; status: string }) => void): void {
+  // Listen for session status updates
+  onSessionStatusChanged(callback: (event: SessionStatusChangedEvent) => void): void {
     if (this.socket) {
-      this.socket.on('conversation_update', callback);
+      this.socket.on('session_status_changed', callback);
     }
   }
 
   // Remove event listeners
-  off(event: string, callback?: (...args: any[]) => void): void {
+  off<E extends keyof ListenEvents>(event: E, callback?: ListenEvents[E]): void {
     if (this.socket) {
-      this.socket.off(event, callback);
+      this.untyped(this.socket).off(event, callback);
     }
   }
 
-  // Generic event listener for custom events
-  on(event: string, callback: (...args: any[]) => void): void {
+  // Listen for any event of the contract
+  on<E extends keyof ListenEvents>(event: E, callback: ListenEvents[E]): void {
     if (this.socket) {
-      this.socket.on(event, callback);
+      this.untyped(this.socket).on(event, callback);
     }
   }
 
-  // Generic event emitter for custom events
-  emit(event: string, data?: any): void {
+  // Emit any event of the contract
+  emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>): void {
     if (this.socket && this.isConnected) {
-      this.socket.emit(event, data);
+      this.untyped(this.socket).emit(event, ...args);
     }
   }
 
+  // The typed overloads cannot resolve a generic event name; the signatures above keep callers checked
+  private untyped(socket: CoachingSocket): Socket {
+    return socket as unknown as Socket;
+  }
+
   // Check connection status
   get connected(): boolean {
     return this.isConnected && !!this.socket?.connected;
   }
 
   // Get socket instance for custom events
-  getSocket(): Socket | null {
+  getSocket(): CoachingSocket | null {
     return this.socket;
   }
 }
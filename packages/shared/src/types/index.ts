@@ -19,6 +19,27 @@ export interface UserWithPassword extends User {
   password_hash: string;
 }
 
+// A row of the users table without its password hash; the user of an authenticated request
+export interface UserRecord {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  birth_date: Date | null;
+  birth_time: string | null;
+  birth_location: string | null;
+  personality_profile: PersonalityProfile | null;
+  coaching_goals: string[] | null;
+  onboarding_completed: boolean;
+  initial_session_preferences: Record<string, any> | null;
+  profile_completeness_tier: number | null;
+  birth_data_added_at: Date | null;
+  last_enhancement_prompt_at: Date | null;
+  aspect_settings: AspectSettings | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface PersonalityProfile {
   astrological_basis: AstrologicalData;
   psychological_traits: PsychologicalTraits;
@@ -37,6 +58,9 @@ export interface PersonalityProfile {
   profile_tier?: number;
   enhancement_suggestions?: string[];
   missing_components?: string[];
+  // Trait synthesis trail
+  trait_rules_version?: number;
+  trait_explanations?: TraitExplanation[];
 }
 
 export interface AstrologicalData {
@@ -50,6 +74,8 @@ export interface AstrologicalData {
   birth_date?: Date | null;
   birth_time?: string | null;
   birth_location?: string | null;
+  chart_id?: string; // Stored natal chart the signs were read from
+  chart_statistics?: ChartStatistics;
   calculated_at: string;
 }
 
@@ -61,6 +87,24 @@ export interface PsychologicalTraits {
   growth_orientation: string;
 }
 
+export type TraitName = keyof PsychologicalTraits;
+
+export interface TraitContribution {
+  rule_id: string;
+  factor: string; // Chart factor that fired the rule, e.g. "Sun in Aries" or "Moon square Saturn"
+  outcome: string;
+  weight: number;
+  strength?: number; // Planetary strength multiplier already applied to the weight
+}
+
+export interface TraitExplanation {
+  trait: TraitName;
+  value: string;
+  score: number; // Summed weight behind the chosen value
+  total_score: number; // Summed weight of every contribution to the trait
+  contributions: TraitContribution[];
+}
+
 export interface PersonalityInsight {
   insight_id: string;
   user_id: string;
@@ -107,6 +151,7 @@ export interface Message {
   sender_type: 'user' | 'coach';
   content: string;
   metadata?: MessageMetadata;
+  client_message_id?: string;
   created_at: Date;
 }
 
@@ -115,6 +160,57 @@ export interface MessageMetadata {
   aha_moment_type?: AhaMomentType;
   coaching_technique?: string;
   response_time_ms?: number;
+  stream_id?: string; // Set on coach messages delivered as a stream
+  memories_used?: MemoriesUsed; // Memory bank entries given to the coach for this reply
+}
+
+// Socket.IO events of a streamed coach response, sent to the conversation:<id> room
+export interface CoachMessageDeltaEvent {
+  conversation_id: string;
+  stream_id: string;
+  sequence: number; // 0-based order of the delta within the stream
+  delta: string;
+  timestamp: Date;
+}
+
+export interface CoachMessageCompleteEvent {
+  conversation_id: string;
+  stream_id: string;
+  message: Message; // The persisted coach message; its content replaces the streamed text
+  timestamp: Date;
+}
+
+// Post-session pattern analysis of an ended conversation
+export type PatternAnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PatternAnalysisJob {
+  job_id: string;
+  conversation_id: string;
+  user_id: string;
+  status: PatternAnalysisJobStatus;
+  attempts: number;
+  claimed_by?: string; // Instance id of the API instance that last ran the job
+  patterns_detected?: number;
+  insights_generated?: number;
+  analysis_summary?: string;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+// Socket.IO event sent to the user:<id> room when an analysis finds new insights
+export interface InsightsReadyEvent {
+  conversation_id: string;
+  job_id: string;
+  insights: Array<{
+    insight_id: string;
+    insight_type: string;
+    title: string;
+    description: string;
+  }>;
+  analysis_summary: string;
+  timestamp: Date;
 }
 
 export type AhaMomentType = 
@@ -195,6 +291,18 @@ export interface AuthResult {
   refresh_token?: string;
 }
 
+// A signed-in device; each login starts one, and refreshing the token keeps it going
+export interface AuthSession {
+  session_id: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  current: boolean; // The session of the token making the request
+}
+
 // API Response Types
 export interface APIResponse<T = any> {
   success: boolean;
@@ -257,6 +365,25 @@ export interface ProgressEntry {
 }
 
 // Backend-specific Coaching Types
+// Memory bank entries retrieved for a coaching reply, rendered for the prompt
+export interface CoachingMemoryItem {
+  source: 'memory' | 'pattern' | 'context';
+  id: string;
+  text: string;
+}
+
+export interface CoachingMemory {
+  items: CoachingMemoryItem[];
+  token_count: number; // Estimated prompt tokens taken by the items
+  token_budget: number;
+}
+
+export interface MemoriesUsed {
+  memory_ids: string[];
+  pattern_ids: string[];
+  context_ids: string[];
+}
+
 export interface CoachingContext {
   user_first_name?: string;
   user_last_name?: string;
@@ -266,6 +393,7 @@ export interface CoachingContext {
   session_type: SessionType;
   coaching_goals: string[];
   aha_moments_delivered: AhaMomentType[];
+  memory?: CoachingMemory;
 }
 
 export interface CoachingResponse {
@@ -275,6 +403,7 @@ export interface CoachingResponse {
     aha_moment_type?: AhaMomentType;
     coaching_technique: string;
     confidence_score: number;
+    memories_used?: MemoriesUsed;
   };
 }
 
@@ -302,6 +431,28 @@ export interface OpenAIConfig {
   temperature: number;
 }
 
+export type CoachingModelProviderType = 'anthropic' | 'openai' | 'local';
+
+export interface CoachingModelConfig {
+  provider: CoachingModelProviderType;
+  api_key: string;
+  model: string;
+  max_tokens: number;
+  temperature: number;
+  base_url?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  script_path?: string; // Local provider script; the bundled script when unset
+}
+
+export type EmbeddingProviderType = 'local' | 'openai';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderType;
+  model: string;
+  dimensions: number;
+  api_key?: string;
+  base_url?: string; // OpenAI-compatible endpoint; https://api.openai.com/v1 when unset
+}
+
 export interface AppConfig {
   port: number;
   jwt_secret: string;
@@ -310,6 +461,8 @@ export interface AppConfig {
   database: DatabaseConfig;
   redis: RedisConfig;
   openai: OpenAIConfig;
+  coaching_model: CoachingModelConfig;
+  embedding: EmbeddingConfig;
   cors_origin: string;
   rate_limit: {
     window_ms: number;
@@ -332,7 +485,9 @@ export interface NatalChart {
   planetary_positions: PlanetaryPosition[];
   house_cusps: HouseCusp[];
   aspects: AspectData[];
+  aspect_patterns?: AspectPattern[];
   house_system: HouseSystem;
+  house_system_fallback?: HouseSystemFallback; // Present when the requested system could not be used
   created_at: Date;
 }
 
@@ -345,7 +500,8 @@ export interface SwissBirthData {
   birth_location: string;
   latitude: number;
   longitude: number;
-  timezone?: string;
+  timezone?: string; // IANA zone name; looked up from the coordinates when omitted
+  utc_offset_minutes?: number; // Resolved offset at the birth instant, including DST (east positive)
 }
 
 export interface PlanetaryPosition {
@@ -354,13 +510,66 @@ export interface PlanetaryPosition {
   longitude: number; // 0-360 degrees
   latitude: number; // -90 to 90 degrees
   distance?: number; // AU from Earth
-  speed?: number; // Daily motion in degrees
+  speed?: number; // Signed daily motion in degrees (negative while retrograde)
   house?: number | null; // 1-12, null if unavailable
   house_number?: number; // Alternative name for compatibility
   zodiac_sign: ZodiacSign;
   degree_in_sign: number; // 0-30 degrees
   is_retrograde?: boolean;
   retrograde?: boolean; // Alternative name for compatibility
+  dignity?: PlanetaryDignity;
+}
+
+export type RulershipScheme = 'traditional' | 'modern';
+export type EssentialDignity = 'domicile' | 'exaltation' | 'detriment' | 'fall' | 'triplicity';
+
+export interface EssentialDignityScore {
+  dignities: EssentialDignity[];
+  score: number; // Domicile +5, exaltation +4, triplicity +3, detriment -5, fall -4
+}
+
+export type PlanetaryDignity = Record<RulershipScheme, EssentialDignityScore>;
+
+export interface HouseRuler {
+  house_number: number;
+  cusp_sign: ZodiacSign;
+  ruler: CelestialBody;
+  ruler_house?: number; // House the ruler occupies
+}
+
+// A planet and the planets in the signs it rules
+export interface DispositorNode {
+  body: CelestialBody;
+  disposes: DispositorNode[];
+}
+
+export interface MutualReception {
+  bodies: [CelestialBody, CelestialBody];
+  by: 'domicile' | 'exaltation';
+}
+
+export interface ChartDignities {
+  scheme: RulershipScheme;
+  sect: 'day' | 'night' | null; // null when the Sun's house is unknown
+  planetary_positions: PlanetaryPosition[];
+  house_rulers: HouseRuler[];
+  dispositors: DispositorNode[]; // Rooted at planets that dispose themselves or sit in a loop of rulership
+  final_dispositor: CelestialBody | null;
+  mutual_receptions: MutualReception[];
+}
+
+export interface PlanetaryStation {
+  date: string; // ISO timestamp (UTC) of the station
+  julian_day: number;
+  longitude: number; // 0-360 degrees
+  zodiac_sign: ZodiacSign;
+  degree_in_sign: number; // 0-30 degrees
+}
+
+export interface RetrogradePeriod {
+  body: CelestialBody;
+  station_retrograde: PlanetaryStation | null; // null if the period began before the searched range
+  station_direct: PlanetaryStation | null; // null if the period ends after the searched range
 }
 
 export interface HouseCusp {
@@ -379,6 +588,83 @@ export interface AspectData {
   applying: boolean;
 }
 
+export type AspectPatternType =
+  | 'grand_trine'
+  | 't_square'
+  | 'grand_cross'
+  | 'yod'
+  | 'kite'
+  | 'mystic_rectangle'
+  | 'stellium';
+
+export interface AspectPattern {
+  pattern_type: AspectPatternType;
+  bodies: CelestialBody[];
+  focal_body?: CelestialBody; // Apex of a T-square or yod; the body opposing the grand trine in a kite
+  zodiac_sign?: ZodiacSign; // Sign of a stellium by sign
+  house_number?: number; // House of a stellium by house
+}
+
+export interface TransitAspect {
+  transiting_body: CelestialBody;
+  natal_body: CelestialBody;
+  aspect_type: AspectType;
+  orb: number; // Allowed orb in degrees
+  natal_longitude: number; // 0-360 degrees
+  entry_date: string | null; // ISO timestamp the transit comes within orb; null if already in orb at the start of the range
+  exact_dates: string[]; // ISO timestamps of each exact hit (retrograde passes can repeat a transit)
+  exit_date: string | null; // ISO timestamp the transit leaves orb; null if still in orb at the end of the range
+}
+
+export interface ProgressedChart {
+  positions: PlanetaryPosition[]; // Placed in the natal houses
+  aspects: AspectData[]; // body1 is the progressed or directed body, body2 the natal body
+}
+
+export interface Progressions {
+  target_date: string; // ISO timestamp (UTC)
+  progressed_date: string; // ISO timestamp of the ephemeris day standing for target_date (one day per year of life)
+  age_years: number; // Tropical years from birth to target_date
+  solar_arc: number; // Degrees the progressed Sun has moved from its natal position
+  secondary_progressions: ProgressedChart;
+  solar_arc_directions: ProgressedChart;
+}
+
+export interface HouseOverlay {
+  body: CelestialBody; // Body from one chart
+  longitude: number; // 0-360 degrees
+  house_number: number; // House of the other chart the body falls in
+}
+
+export interface Synastry {
+  cross_aspects: AspectData[]; // body1 is from chart A, body2 from chart B
+  house_overlays: {
+    a_in_b: HouseOverlay[]; // Chart A's bodies in chart B's houses
+    b_in_a: HouseOverlay[]; // Chart B's bodies in chart A's houses
+  };
+}
+
+export interface CompositeChart {
+  planetary_positions: PlanetaryPosition[]; // Nearer midpoints of each pair of positions
+  house_cusps: HouseCusp[];
+  aspects: AspectData[];
+}
+
+export interface ChartComparisonConsent {
+  user_id: string; // User granting consent
+  partner_user_id: string; // User allowed to compare charts with them
+  created_at: Date;
+}
+
+export type ChartReturnType = 'solar' | 'lunar';
+
+export interface ReturnChartLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  timezone: string; // IANA zone name
+}
+
 export type CelestialBody =
   | 'Sun' | 'Moon' | 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn'
   | 'Uranus' | 'Neptune' | 'Pluto' | 'Ascendant' | 'Midheaven'
@@ -388,11 +674,52 @@ export type ZodiacSign =
   | 'Aries' | 'Taurus' | 'Gemini' | 'Cancer' | 'Leo' | 'Virgo'
   | 'Libra' | 'Scorpio' | 'Sagittarius' | 'Capricorn' | 'Aquarius' | 'Pisces';
 
-export type HouseSystem = 'Placidus' | 'Koch' | 'Equal' | 'Whole Sign' | 'Campanus';
+export type Element = 'fire' | 'earth' | 'air' | 'water';
+
+export type Modality = 'cardinal' | 'fixed' | 'mutable';
+
+export type ChartShape = 'bundle' | 'bowl' | 'bucket' | 'splash' | 'locomotive' | 'seesaw' | 'splay';
+
+export interface ChartStatistics {
+  elements: Record<Element, CelestialBody[]>;
+  modalities: Record<Modality, CelestialBody[]>;
+  dominant_element: Element | null; // null when two or more elements tie for the most planets
+  dominant_modality: Modality | null;
+  // By house; omitted when the chart has no house cusps
+  hemispheres?: {
+    eastern: CelestialBody[]; // Houses 10-3, around the Ascendant
+    western: CelestialBody[]; // Houses 4-9
+    northern: CelestialBody[]; // Houses 1-6, below the horizon
+    southern: CelestialBody[]; // Houses 7-12, above the horizon
+  };
+  quadrants?: [CelestialBody[], CelestialBody[], CelestialBody[], CelestialBody[]]; // Houses 1-3, 4-6, 7-9, 10-12
+  chart_shape: ChartShape;
+  leading_body?: CelestialBody; // First planet to rise of a bowl or locomotive
+  handle_body?: CelestialBody; // Handle of a bucket
+}
+
+export type HouseSystem =
+  | 'Placidus' | 'Koch' | 'Equal' | 'Whole Sign' | 'Campanus'
+  | 'Regiomontanus' | 'Porphyry' | 'Alcabitius' | 'Topocentric';
+
+export interface HouseSystemFallback {
+  requested: HouseSystem;
+  used: HouseSystem;
+  reason: string;
+}
 
 export type AspectType =
   | 'conjunction' | 'opposition' | 'square' | 'trine' | 'sextile'
-  | 'quincunx' | 'semisquare' | 'sesquiquadrate';
+  | 'quincunx' | 'semisquare' | 'sesquiquadrate'
+  | 'semisextile' | 'quintile' | 'biquintile';
+
+export type OrbProfile = 'tight' | 'standard' | 'wide';
+
+export interface AspectSettings {
+  orb_profile: OrbProfile;
+  luminary_orb_modifiers: { Sun: number; Moon: number }; // degrees added to the orb of any aspect to the luminary
+  include_minor_aspects: boolean; // semisextile, quintile and biquintile
+}
 
 // Astrology API Request/Response Types
 export interface CreateNatalChartRequest {
@@ -423,6 +750,7 @@ export interface NatalChartResponse {
   house_cusps: HouseCusp[];
   aspects: AspectData[];
   house_system: HouseSystem;
+  house_system_fallback?: HouseSystemFallback;
   created_at: Date;
 }
 
@@ -436,12 +764,79 @@ export interface HouseCuspsResponse {
 
 export interface AspectsResponse {
   aspects: AspectData[];
+  patterns: AspectPattern[];
+  settings: AspectSettings;
+}
+
+export interface ChartStatisticsResponse extends ChartStatistics {
+  chart_id: string;
+}
+
+export interface ChartDignitiesResponse extends ChartDignities {
+  chart_id: string;
+}
+
+export interface RetrogradePeriodsResponse {
+  from: string; // ISO timestamp (UTC)
+  to: string; // ISO timestamp (UTC)
+  retrograde_periods: RetrogradePeriod[];
+}
+
+export interface TransitsResponse {
+  chart_id: string;
+  from: string; // ISO timestamp (UTC)
+  to: string; // ISO timestamp (UTC)
+  transits: TransitAspect[];
+}
+
+export interface ProgressionsResponse extends Progressions {
+  chart_id: string;
+}
+
+export interface SynastryResponse extends Synastry {
+  chart_a_id: string; // The requesting user's chart
+  chart_b_id: string; // The partner's chart
+}
+
+export interface CompositeChartResponse extends CompositeChart {
+  chart_a_id: string;
+  chart_b_id: string;
+}
+
+export interface ChartComparisonConsentsResponse {
+  granted: ChartComparisonConsent[]; // Consents the user has given
+  received: ChartComparisonConsent[]; // Consents given to the user
+}
+
+export interface ReturnChartResponse {
+  chart_id: string; // Natal chart the return is cast from
+  return_type: ChartReturnType;
+  return_date: string; // ISO timestamp (UTC) of the exact return
+  local_date: string; // YYYY-MM-DD at the return location
+  local_time: string; // HH:MM at the return location
+  natal_longitude: number; // Natal longitude of the returning Sun or Moon
+  location: ReturnChartLocation;
+  planetary_positions: PlanetaryPosition[];
+  house_cusps: HouseCusp[];
+  aspects: AspectData[];
+  house_system: HouseSystem;
+  house_system_fallback?: HouseSystemFallback;
 }
 
 export interface AspectsQueryParams {
   aspect_type?: AspectType;
   max_orb?: number;
   applying_only?: boolean;
+  orb_profile?: OrbProfile;
+  sun_orb_modifier?: number;
+  moon_orb_modifier?: number;
+  include_minor_aspects?: boolean;
+}
+
+export interface UpdateAspectSettingsRequest {
+  orb_profile?: OrbProfile;
+  luminary_orb_modifiers?: Partial<AspectSettings['luminary_orb_modifiers']>;
+  include_minor_aspects?: boolean;
 }
 
 // Swiss Ephemeris Error Types
@@ -449,4 +844,194 @@ export interface SwissEphemerisError {
   code: 'CALCULATION_ERROR' | 'INVALID_BIRTH_DATA' | 'CHART_NOT_FOUND' | 'ACCESS_DENIED';
   message: string;
   details?: any;
-}
\ No newline at end of file
+}
+
+// Socket.IO event contract between the API and the web client. Payloads of server
+// events carry the time they were sent; Dates arrive as ISO strings over the wire.
+
+export interface ConversationRoomPayload {
+  conversation_id: string;
+}
+
+export interface MessageReceivedPayload {
+  conversation_id: string;
+  message_id: string;
+}
+
+export interface SessionStatusUpdatePayload {
+  conversation_id: string;
+  status: SessionStatus;
+}
+
+// Sends a coaching message over the socket, through the same pipeline as the REST endpoint
+export interface SendMessagePayload {
+  conversation_id: string;
+  client_message_id: string; // Chosen by the client; retries with the same id store the message once
+  content: string;
+  metadata?: Record<string, any>;
+  stream?: boolean;
+}
+
+export interface SendMessageResult {
+  message_id: string;
+  client_message_id: string;
+  duplicate: boolean; // Stored by an earlier attempt, which also produced the coach reply
+  stream_id?: string;
+}
+
+// Messages stored after a cursor, to catch up after a dropped connection
+export interface SyncMessagesPayload {
+  conversation_id: string;
+  after_message_id?: string; // The last message the client has; from the start when absent
+  limit?: number;
+}
+
+export interface SyncMessagesResult {
+  messages: Message[];
+  has_more: boolean;
+}
+
+// Answer to an event sent with an acknowledgement callback
+export type SocketAck<T> =
+  | { success: true; data: T }
+  | { success: false; error: { code: string; message: string } };
+
+export interface ClientToServerEvents {
+  join_coaching_session: (payload: ConversationRoomPayload) => void;
+  leave_coaching_session: (payload: ConversationRoomPayload) => void;
+  typing_start: (payload: ConversationRoomPayload) => void;
+  typing_stop: (payload: ConversationRoomPayload) => void;
+  message_received: (payload: MessageReceivedPayload) => void;
+  session_status_update: (payload: SessionStatusUpdatePayload) => void;
+  send_message: (payload: SendMessagePayload, ack: (response: SocketAck<SendMessageResult>) => void) => void;
+  sync_messages: (payload: SyncMessagesPayload, ack: (response: SocketAck<SyncMessagesResult>) => void) => void;
+}
+
+export interface ConnectedEvent {
+  message: string;
+  user_id: string;
+  timestamp: Date;
+}
+
+export interface SessionMembershipEvent {
+  conversation_id: string;
+  timestamp: Date;
+}
+
+export interface SessionParticipantEvent {
+  conversation_id: string;
+  user_id: string;
+  timestamp: Date;
+}
+
+export interface UserTypingEvent {
+  conversation_id: string;
+  user_id: string;
+  typing: boolean;
+  timestamp: Date;
+}
+
+export interface MessageAcknowledgedEvent {
+  conversation_id: string;
+  message_id: string;
+  timestamp: Date;
+}
+
+export interface SessionStatusChangedEvent {
+  conversation_id: string;
+  status: SessionStatus;
+  updated_by: string;
+  timestamp: Date;
+}
+
+export interface AhaMomentDeliveredEvent {
+  conversation_id: string;
+  user_id: string;
+  aha_moment_type: AhaMomentType;
+  content: string;
+  timestamp: Date;
+}
+
+export interface AhaMomentNotificationEvent {
+  conversation_id: string;
+  aha_moment_type: AhaMomentType;
+  preview: string;
+  timestamp: Date;
+}
+
+export interface ProgressUpdatedEvent {
+  goal_category: string;
+  current_progress: number;
+  milestones_achieved: string[];
+  next_milestone?: string;
+  timestamp: Date;
+}
+
+export interface PersonalityInsightEvent {
+  insight_id: string;
+  category: string;
+  coaching_language: string;
+  accuracy_rating?: number;
+  timestamp: Date;
+}
+
+export interface SystemMessageEvent {
+  message: string;
+  data?: any;
+  timestamp: Date;
+}
+
+export interface MaintenanceNoticeEvent {
+  message: string;
+  scheduled_time?: Date;
+  timestamp: Date;
+}
+
+// A user's first socket connected, or their last one disconnected, on any API instance
+export interface PresenceChangedEvent {
+  user_id: string;
+  online: boolean;
+  last_seen?: Date;
+  timestamp: Date;
+}
+
+// Sent back to a client whose event payload failed validation; the event was ignored
+export interface EventErrorEvent {
+  event: string;
+  message: string;
+  timestamp: Date;
+}
+
+export interface ServerToClientEvents {
+  connected: (event: ConnectedEvent) => void;
+  session_joined: (event: SessionMembershipEvent) => void;
+  session_left: (event: SessionMembershipEvent) => void;
+  user_joined_session: (event: SessionParticipantEvent) => void;
+  user_left_session: (event: SessionParticipantEvent) => void;
+  user_typing: (event: UserTypingEvent) => void;
+  message_acknowledged: (event: MessageAcknowledgedEvent) => void;
+  session_status_changed: (event: SessionStatusChangedEvent) => void;
+  new_message: (message: Message & { timestamp: Date }) => void;
+  coach_message_delta: (event: CoachMessageDeltaEvent) => void;
+  coach_message_complete: (event: CoachMessageCompleteEvent) => void;
+  insights_ready: (event: InsightsReadyEvent) => void;
+  aha_moment_delivered: (event: AhaMomentDeliveredEvent) => void;
+  aha_moment_notification: (event: AhaMomentNotificationEvent) => void;
+  progress_updated: (event: ProgressUpdatedEvent) => void;
+  personality_insight: (event: PersonalityInsightEvent) => void;
+  system_message: (event: SystemMessageEvent) => void;
+  maintenance_notice: (event: MaintenanceNoticeEvent) => void;
+  presence_changed: (event: PresenceChangedEvent) => void;
+  event_error: (event: EventErrorEvent) => void;
+}
+
+export type ClientToServerEventName = keyof ClientToServerEvents;
+export type ServerToClientEventName = keyof ServerToClientEvents;
+
+export type ClientEventPayload<E extends ClientToServerEventName> = Parameters<ClientToServerEvents[E]>[0];
+
+// The acknowledgement callback of an event; undefined for events sent without one
+export type ClientEventAck<E extends ClientToServerEventName> = Parameters<ClientToServerEvents[E]>[1];
+
+// What the server passes to send an event; the timestamp is added on sending
+export type ServerEventPayload<E extends ServerToClientEventName> = Omit<Parameters<ServerToClientEvents[E]>[0], 'timestamp'>;